@@ -46,6 +46,7 @@ REQUIRED_SECRETS=(
   CHATS_SPREADSHEET_ID
   SLACK_WEBHOOK_URL
   SLACK_WEBHOOK_URL_SECOND
+  SLACK_SIGNING_SECRET
   TELEGRAM_BOT_TOKEN
   TELEGRAM_WEBHOOK_SECRET
   MESSAGE_TTL_DAYS
@@ -53,6 +54,24 @@ REQUIRED_SECRETS=(
   VERTEX_API_KEY
 )
 
+# -----------------------------------------------------------
+# Optional secrets: bound only when present in Secret Manager
+# (the app falls back to a default when they are unset)
+# -----------------------------------------------------------
+OPTIONAL_SECRETS=(
+  ADMIN_API_TOKENS          # "name:token,..."; unset = admin API disabled
+  SLACK_BOT_TOKEN           # Slack Web API DMs / buttons (else webhook only)
+  SLACK_ALERTS_WEBHOOK_URL  # defaults to SLACK_WEBHOOK_URL
+  SMTP_HOST                 # unset = email channel unavailable
+  EMAIL_FROM                # unset = email channel unavailable
+  SMTP_PORT                 # defaults to 587
+  SMTP_SECURE               # defaults to false
+  SMTP_USER                 # unset = unauthenticated relay
+  SMTP_PASS
+  TELEGRAM_BOT_USERNAME     # used while getMe has not succeeded
+  TELEGRAM_BOT_KEYS         # additional bots, e.g. "jp,global" (see below)
+)
+
 # ---------------------------------------
 # Optional inputs via environment variables
 # ---------------------------------------
@@ -110,6 +129,24 @@ if [[ -n "${SECRET_KEY}" && -n "${SECRET_VALUE}" ]]; then
   fi
 fi
 
+# ---------------------------------------------------------------------
+# Additional Telegram bots (TELEGRAM_BOT_KEYS secret, e.g. "jp,global"):
+# TELEGRAM_BOT_TOKEN_<KEY> is required per key; the webhook secret and
+# username are optional. <KEY> is upper-cased with "-" → "_".
+# ---------------------------------------------------------------------
+if gcloud secrets describe TELEGRAM_BOT_KEYS >/dev/null 2>&1; then
+  BOT_KEYS="$(gcloud secrets versions access latest --secret=TELEGRAM_BOT_KEYS)"
+  IFS=',' read -r -a BOT_KEY_LIST <<< "${BOT_KEYS}"
+  for bot_key in "${BOT_KEY_LIST[@]}"; do
+    bot_key="$(printf "%s" "${bot_key}" | tr -d '[:space:]')"
+    [[ -z "${bot_key}" ]] && continue
+    suffix="$(printf "%s" "${bot_key}" | tr '[:lower:]-' '[:upper:]_')"
+    log "Telegram bot '${bot_key}' (/webhook/telegram/${bot_key})"
+    REQUIRED_SECRETS+=("TELEGRAM_BOT_TOKEN_${suffix}")
+    OPTIONAL_SECRETS+=("TELEGRAM_WEBHOOK_SECRET_${suffix}" "TELEGRAM_BOT_USERNAME_${suffix}")
+  done
+fi
+
 # ---------------------------------------------------
 # (Optional) Warn if any required secret is missing
 # ---------------------------------------------------
@@ -119,13 +156,23 @@ for key in "${REQUIRED_SECRETS[@]}"; do
   fi
 done
 
-# ---------------------------------------------
-# Build --set-secrets flags for ALL required keys
-# ---------------------------------------------
+# ---------------------------------------------------------------
+# Build --set-secrets flags for ALL required + existing optional keys
+# ---------------------------------------------------------------
 SET_SECRETS_FLAGS=()
 for key in "${REQUIRED_SECRETS[@]}"; do
   SET_SECRETS_FLAGS+=( --set-secrets "${key}=${key}:latest" )
 done
+for key in "${OPTIONAL_SECRETS[@]}"; do
+  if [[ " ${REQUIRED_SECRETS[*]} " =~ " ${key} " ]]; then
+    continue # already bound (e.g. upserted via SECRET_KEY)
+  fi
+  if gcloud secrets describe "${key}" >/dev/null 2>&1; then
+    SET_SECRETS_FLAGS+=( --set-secrets "${key}=${key}:latest" )
+  else
+    log "Optional secret '${key}' not set; skipped"
+  fi
+done
 
 # -----------------------
 # Deploy to Cloud Run
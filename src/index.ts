@@ -9,24 +9,56 @@ import { Timestamp, FieldValue } from "firebase-admin/firestore";
 // Internal libraries (Firebase, utilities, Telegram helpers)
 // -----------------------------------------------------------------------------
 import { db } from "./lib/firebase.js";
-import { isFromInternal } from "./lib/isInternal.js";
+import {
+  enqueueTask,
+  isTaskQueueRequest,
+  TASK_RETRY_COUNT_HEADER,
+} from "./lib/taskQueue/index.js";
+import { isFromInternal, loadInternalMembers } from "./lib/isInternal.js";
+import { requireAdmin } from "./lib/adminAuth.js";
 import { toUtcDayKey, formatJST } from "./utils/time.js";
 import { isDuplicateUpdateId } from "./utils/updateCache.js";
 import { resolveSlackUserIdByTelegramId } from "./utils/resolveSlackUserId.js";
-import { buildNotificationText } from "./utils/buildNotificationText.js";
 
 import { detectMessageType } from "./lib/telegram/messageType.js";
 import { generateSummary } from "./lib/telegram/summary.js";
-import {
-  buildNewChatRoomDoc,
-  buildChatPartialUpdate,
-} from "./lib/telegram/chatDocs.js";
+import { buildChatPartialUpdate } from "./lib/telegram/chatDocs.js";
 import { updateStats } from "./lib/telegram/stats.js";
 import { handleFollowupTriggers } from "./lib/telegram/followup.js";
+import { handleFollowupCancellations } from "./lib/telegram/autoCancel.js";
 import { leaveChat } from "./lib/telegram/leaveChat.js";
+import {
+  DEFAULT_BOT_KEY,
+  ensureBotIdentity,
+  getBot,
+  initBots,
+  isBotIdentified,
+  isBotUser,
+} from "./lib/telegram/bots.js";
+import { setupNewChat } from "./lib/telegram/setupNewChat.js";
+import {
+  abandonChatApproval,
+  expireChatApproval,
+  isAwaitingApproval,
+  requestChatApproval,
+} from "./lib/chats/approvals.js";
+import { handleBotCommand } from "./lib/telegram/commands/index.js";
+import { handleStageKeywordTriggers } from "./lib/pipelines/keywordTriggers.js";
+
+import { TRANSPORTS } from "./lib/notifications/transports/index.js";
+import { renderNotificationContent } from "./lib/notifications/templates.js";
+import { moveToDeadLetters } from "./lib/notifications/deadLetters.js";
+import { sendDeadLetterDigest } from "./lib/notifications/deadLetterDigest.js";
+import { sendDeliveryAnalyticsDigest } from "./lib/notifications/analyticsDigest.js";
+import { sendStaleChatAlerts } from "./lib/chats/staleChats.js";
+import {
+  handleNotificationsCommand,
+  handleDeadLettersCommand,
+  handleTemplatesCommand,
+  handleAnalyticsCommand,
+} from "./lib/notifications/commands/index.js";
 
 import { runWeeklyReport } from "./lib/weeklyReport/runWeeklyReport.js";
-import { ensureReportSetting } from "./lib/weeklyReport/ensureReportSetting.js";
 
 import {
   handleConfigCommand,
@@ -36,6 +68,30 @@ import {
 
 import { syncTelegramChatsToSheet } from "./lib/sheets/syncTelegramChatsToSheet.js";
 
+import {
+  handleRulesCommand,
+  handleDryRunCommand,
+  handleCancelRulesCommand,
+} from "./lib/followupRules/commands/index.js";
+import { handleCalendarsCommand } from "./lib/calendar/commands/index.js";
+import { handleDealsCommand } from "./lib/deals/commands/index.js";
+import { handlePipelinesCommand } from "./lib/pipelines/commands/index.js";
+import { handleTeamMembersCommand } from "./lib/team/commands/index.js";
+import { seedInternalMembersOnce } from "./lib/team/internalMembers.js";
+import { handleRoutingCommand } from "./lib/routing/commands/index.js";
+import {
+  handleChatPhaseCommand,
+  handleChatOwnerCommand,
+  handleFunnelCommand,
+} from "./lib/chats/commands/index.js";
+import { assignOwnerOnBotAdded } from "./lib/chats/ownership.js";
+
+import { handleSlackInteraction } from "./lib/slack/interactions/handleSlackInteraction.js";
+import {
+  handleSlackCommand,
+  handleSlackCommandTask,
+} from "./lib/slack/commands/index.js";
+
 // -----------------------------------------------------------------------------
 // Firestore data types
 // -----------------------------------------------------------------------------
@@ -56,23 +112,58 @@ const app = express();
 app.use(express.json({ limit: "1mb" })); // default ~100kb, here set to 1MB
 
 // -----------------------------------------------------------------------------
-// POST /webhook/telegram
+// Admin API guard (lib/adminAuth.ts)
+// - The admin APIs below change who counts as internal, routing, jobs and
+//   chats, and the service is deployed with --allow-unauthenticated: every
+//   call needs `X-Admin-Token` (ADMIN_API_TOKENS)
+// - The `actor` of these calls is the authenticated admin, not the body field
+// -----------------------------------------------------------------------------
+app.use(
+  [
+    "/api/followup",
+    "/api/notifications",
+    "/api/calendars",
+    "/api/deals",
+    "/api/pipelines",
+    "/api/team",
+    "/api/routing",
+    "/api/chats",
+  ],
+  requireAdmin,
+);
+
+// -----------------------------------------------------------------------------
+// POST /webhook/telegram            (bot "default": TELEGRAM_BOT_TOKEN)
+// POST /webhook/telegram/:botKey    (TELEGRAM_BOT_KEYS; see lib/telegram/bots.ts)
 // -----------------------------------------------------------------------------
 // Telegram Bot webhook endpoint.
 // Called by Telegram when a new update (message, join/leave event, etc.) occurs.
+// The bot is identified by the path (unknown botKey → 404); its identity
+// (id / @username) comes from getMe.
 //
 // Flow:
-// 1) Validate secret token (x-telegram-bot-api-secret-token).
+// 1) Validate the bot's secret token (x-telegram-bot-api-secret-token).
 // 2) Validate Content-Type (must be application/json).
-// 3) Parse update and ensure idempotency (skip duplicate update_id).
+// 3) Parse update and ensure idempotency (skip duplicate update_id). Join/leave
+//    updates are answered 500 (retried by Telegram) while the bot's identity
+//    is unknown (getMe failed and no TELEGRAM_BOT_USERNAME[_<KEY>]).
 // 4) Pre-process: detect message type & build summary.
 // 5) Guard on bot-join:
-//    - If added by a NON-internal user → send Slack alert, leave the chat, and STOP (no DB writes).
+//    - If added by a NON-internal user to a group → record a pending approval
+//      (chatApprovals/{chatId}), post Approve / Reject buttons to Slack, and STOP.
+//      The bot stays silent in the chat until approved (first-time setup runs
+//      then) or rejected / timed out (the bot leaves).
+//    - If added by a NON-internal user to a private chat (or the approval request
+//      fails; the request is then closed as rejected) → send Slack alert, leave
+//      the chat, and STOP (no DB writes).
+//      Internal = people/* with `internal.active` (POST /api/team/members; cached ~60s).
 //    - If added to a *private* (1:1) chat → always reject (alert, leave, STOP) even if the adder is internal.
 //    - Otherwise (internal user + non-private chat) → continue.
 // 6) Upsert tg_chats/{chatId}:
 //    - First-time: create full chat doc.
 //    - Otherwise: partial update (latest message, lastActiveAt, stats snapshot, etc.).
+//    - On bot-join: the internal member who added the bot becomes the chat's
+//      owner unless it already has one (tg_chats/{chatId}.ownership).
 // 7) First-time only (non-private chats):
 //    - Ensure reports_settings/{chat:ID:weekly} exists (idempotent).
 //    - If created now, send Slack notification (Created at / Added by).
@@ -80,23 +171,43 @@ app.use(express.json({ limit: "1mb" })); // default ~100kb, here set to 1MB
 //    (MESSAGE_TTL_DAYS).
 // 9) Update chat stats (daily buckets, peaks, per-user counters, etc.).
 // 10) Upsert tg_users/{userId} (global per-user snapshot).
-// 11) Follow-up triggers: enqueue notification jobs (proposal/invoice/calendly/agreement) if applicable
-// 12) Return 200 (respond quickly to Telegram).
+// 11) Bot commands: internal members can run /status, /phase, /lastreport, /remind,
+//     /mute followups in the group (answered via sendMessage). Commands skip 12–13.
+// 12) Auto-cancel: mark pending follow-ups of this chat as cancelled when a cancel rule
+//     matches (e.g. client replied → proposal reminders are no longer needed).
+// 13) Follow-up triggers: enqueue notification jobs for the first matching follow-up rule
+//     (followupRules/*), unless follow-ups are muted for the chat. Stage keyword
+//     triggers of the chat's pipeline (pipelines/*) may also advance its phase.
+// 14) Return 200 (respond quickly to Telegram).
 //
 // Notes:
 // - Bot join/leave events are appended to chat.botActivityHistory.
+// - Phase changes (incl. the initial BotAdded) are appended to
+//   tg_chats/{chatId}/phaseHistory.
 // - Private (1:1) chats are excluded from creating weekly report settings.
 // - Slack notifications are best-effort; failures never block main flow.
-// - Duplicate update_ids are skipped via a short in-memory cache.
+// - Duplicate update_ids (per bot) are skipped via a short in-memory cache.
+// - The handling bot is recorded as `botKey` on tg_chats/* and messages/*;
+//   replies, reminder DMs and leaveChat use that bot.
 // - This endpoint currently reads update.message (extend to channel_post if needed).
 // -----------------------------------------------------------------------------
-app.post("/webhook/telegram", async (req, res) => {
+const TELEGRAM_WEBHOOK_PATHS = [
+  "/webhook/telegram",
+  "/webhook/telegram/:botKey",
+];
+
+app.post(TELEGRAM_WEBHOOK_PATHS, async (req, res) => {
   try {
-    // --- 1) Secret token validation ---
-    const expected = (process.env.TELEGRAM_WEBHOOK_SECRET || "").trim();
+    // --- 1) Bot + secret token validation ---
+    const bot = getBot(req.params.botKey ?? DEFAULT_BOT_KEY);
+    if (!bot) {
+      console.warn("[TG webhook] unknown bot:", req.params.botKey);
+      return res.sendStatus(404);
+    }
+    const expected = bot.webhookSecret;
     const got = (req.get("x-telegram-bot-api-secret-token") || "").trim();
     if (expected && got !== expected) {
-      console.warn("[TG webhook] secret token mismatch");
+      console.warn(`[TG webhook] secret token mismatch (bot ${bot.botKey})`);
       return res.sendStatus(401);
     }
 
@@ -112,9 +223,25 @@ app.post("/webhook/telegram", async (req, res) => {
     console.log("Secret header:", got || "(empty)");
     console.log("[TG webhook] update:\n", JSON.stringify(update, null, 2));
 
+    // Bot identity (getMe at startup; retried here if that failed). Join/leave
+    // events cannot be judged without it → fail closed: 500 before the
+    // update_id is recorded, so Telegram retries the update.
+    await ensureBotIdentity(bot);
+    const membership =
+      update?.message?.new_chat_members || update?.message?.left_chat_member;
+    if (membership && !isBotIdentified(bot)) {
+      console.error(
+        `[TG webhook] identity of bot ${bot.botKey} unknown; join/leave deferred`,
+      );
+      return res.sendStatus(500);
+    }
+
     // --- 4) Idempotency check (skip duplicate update_id) ---
     const updateId = update?.update_id;
-    if (typeof updateId === "number" && isDuplicateUpdateId(updateId)) {
+    if (
+      typeof updateId === "number" &&
+      isDuplicateUpdateId(updateId, bot.botKey)
+    ) {
       console.log("[TG webhook] duplicate update_id, skipped:", updateId);
       return res.sendStatus(200);
     }
@@ -126,7 +253,9 @@ app.post("/webhook/telegram", async (req, res) => {
       return res.sendStatus(200);
     }
 
-    const BOT_USERNAME = "sales_ops_assistant_bot";
+    // Internal member set (people/*.internal; cached, refreshed after the TTL)
+    await loadInternalMembers();
+
     const type = detectMessageType(msg);
     const summary = generateSummary(msg, type);
     const sentAt = Timestamp.fromMillis((msg.date ?? 0) * 1000);
@@ -139,11 +268,12 @@ app.post("/webhook/telegram", async (req, res) => {
     } | null = null;
 
     if (type === "member_join") {
-      const joined = (msg.new_chat_members || []).find(
-        (u: any) => u.username === BOT_USERNAME,
+      const joined = (msg.new_chat_members || []).find((u: any) =>
+        isBotUser(bot, u),
       );
       if (joined) {
-        // Guard: Bot was added by a non-internal user → notify Slack, leave the chat, stop processing.
+        // Guard: Bot was added by a non-internal user → approval request (groups)
+        // or notify Slack + leave the chat (private chats), stop processing.
         if (!isFromInternal(msg.from?.id)) {
           const chatIdStr = String(msg.chat?.id ?? "");
           const title = (msg.chat?.title ?? "").trim() || "(no title)";
@@ -154,6 +284,17 @@ app.post("/webhook/telegram", async (req, res) => {
                   .filter(Boolean)
                   .join(" ") || "Unknown user") + ` (ID: ${msg.from?.id})`;
 
+          // --- Group chats: pending approval in Slack; the bot stays silent ---
+          if (msg.chat?.type !== "private") {
+            try {
+              await requestChatApproval(msg, fromLabel, bot.botKey);
+              return res.sendStatus(200);
+            } catch (e) {
+              console.error("[approvals] request failed; leaving instead:", e);
+              await abandonChatApproval(chatIdStr);
+            }
+          }
+
           // --- Slack notification (best-effort, non-blocking) ---
           try {
             const text = [
@@ -194,7 +335,7 @@ app.post("/webhook/telegram", async (req, res) => {
           }
 
           // --- Leave the unauthorized chat (best-effort) ---
-          await leaveChat(chatIdStr);
+          await leaveChat(chatIdStr, bot.botKey);
 
           // Stop the webhook here: do not create/update any DB docs for this chat.
           return res.sendStatus(200);
@@ -257,7 +398,7 @@ app.post("/webhook/telegram", async (req, res) => {
           }
 
           // --- Leave the private chat (best-effort) ---
-          await leaveChat(chatIdStr);
+          await leaveChat(chatIdStr, bot.botKey);
 
           // Stop here: do not create/update any DB docs for this chat.
           return res.sendStatus(200);
@@ -272,7 +413,7 @@ app.post("/webhook/telegram", async (req, res) => {
     }
     if (type === "member_leave") {
       const left = msg.left_chat_member;
-      if (left?.username === BOT_USERNAME) {
+      if (isBotUser(bot, left)) {
         botActivityHistoryEntry = {
           status: "archived",
           ts: sentAt,
@@ -286,107 +427,33 @@ app.post("/webhook/telegram", async (req, res) => {
     const chatRef = db.collection("tg_chats").doc(chatId);
     const chatSnap = await chatRef.get();
 
+    // Awaiting approval (bot added by an external user): stay silent
+    if (
+      (!chatSnap.exists || chatSnap.get("status") !== "active") &&
+      (await isAwaitingApproval(
+        chatId,
+        botActivityHistoryEntry?.reason === "bot_removed",
+      ))
+    ) {
+      console.log("[TG webhook] chat awaiting approval, skipped:", chatId);
+      return res.sendStatus(200);
+    }
+
     if (!chatSnap.exists) {
-      // ---------------------------------------------------------------------------
-      // 1) Create chat room document (first-time)
-      // ---------------------------------------------------------------------------
-      const doc = buildNewChatRoomDoc({
+      // First-time: chat doc + weekly report setting (+ Slack notice)
+      await setupNewChat({
         msg,
+        botKey: bot.botKey,
         type,
         summary,
         sentAt,
         botActivityHistoryEntry,
       });
-      await chatRef.set(doc); // merge: false
-
-      // ---------------------------------------------------------------------------
-      // 2) Resolve identifiers (title)
-      // ---------------------------------------------------------------------------
-      const finalTitle = (
-        msg.chat?.title ??
-        ([msg.chat?.first_name, msg.chat?.last_name]
-          .filter(Boolean)
-          .join(" ")
-          .trim() ||
-          (msg.chat?.username
-            ? `@${msg.chat.username}`
-            : chatId
-              ? `chat:${chatId}`
-              : "Unknown Chat"))
-      )
-        .replace(/\s+/g, " ")
-        .trim();
-
-      // Skip creating report settings for private (1:1) chats; process only group/supergroup (and channel).
-      if (msg.chat?.type !== "private") {
-        // ---------------------------------------------------------------------------
-        // 3) Ensure weekly report setting (idempotent)
-        // ---------------------------------------------------------------------------
-        const created = await ensureReportSetting({
-          target: { type: "chat", id: chatId },
-          name: finalTitle,
-        });
-
-        // ---------------------------------------------------------------------------
-        // 4) Slack notify only when a setting was newly created
-        // ---------------------------------------------------------------------------
-        if (created) {
-          const humanFallback =
-            (msg.from?.username
-              ? "@" + msg.from.username
-              : [msg.from?.first_name, msg.from?.last_name]
-                  .filter(Boolean)
-                  .join(" ") || "Unknown user") + ` (ID: ${msg.from?.id})`;
-          const slackUserId = await resolveSlackUserIdByTelegramId(
-            String(msg.from?.id ?? ""),
-          );
-          const addedBy = slackUserId ? `<@${slackUserId}>` : humanFallback;
-          const text = [
-            "🆕 New chat detected — weekly report setting has been created.",
-            `• Title: *${finalTitle}*`,
-            `• Chat ID: \`${chatId}\``,
-            `• Created at: ${formatJST(Date.now())}`,
-            `• Added by: ${addedBy}`,
-          ].join("\n");
-
-          const webhookUrl = process.env.SLACK_WEBHOOK_URL;
-
-          if (!webhookUrl) {
-            console.warn(
-              "[slack] SLACK_WEBHOOK_URL is not set; skip Slack notification",
-            );
-          } else {
-            const startHr = process.hrtime.bigint();
-
-            try {
-              const resp = await fetch(webhookUrl, {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ text, mrkdwn: true, link_names: 1 }),
-              });
-
-              const durationMs = Number(
-                (process.hrtime.bigint() - startHr) / 1_000_000n,
-              );
-
-              if (!resp.ok) {
-                const respText = await resp.text();
-                console.warn(
-                  `[slack] post failed: ${resp.status} ${respText?.slice(0, 300) || ""}`,
-                );
-              } else {
-                console.log(`[slack] notified in ${durationMs}ms`);
-              }
-            } catch (e) {
-              console.warn("[slack] send error:", e);
-            }
-          }
-        }
-      }
     } else {
       // Later: partial update (latestMessage, lastActiveAt, etc.)
       const updateData = buildChatPartialUpdate({
         msg,
+        botKey: bot.botKey,
         type,
         summary,
         sentAt,
@@ -409,6 +476,11 @@ app.post("/webhook/telegram", async (req, res) => {
 
     console.log("[TG webhook] tg_chats upsert done:", chatId);
 
+    // Owner = the internal member who added the bot (kept if already set)
+    if (botActivityHistoryEntry?.reason === "bot_joined") {
+      await assignOwnerOnBotAdded(chatId, String(msg.from?.id ?? ""));
+    }
+
     // --- 7) Save message into subcollection tg_chats/{chatId}/messages/{messageId} ---
     const msgRef = chatRef.collection("messages").doc(String(msg.message_id));
 
@@ -421,6 +493,7 @@ app.post("/webhook/telegram", async (req, res) => {
       chatId,
       messageId: String(msg.message_id),
       updateId: update.update_id,
+      botKey: bot.botKey,
       fromUserId: String(msg.from.id),
       fromUsername: msg.from.username ?? null,
       isBot: !!msg.from.is_bot,
@@ -518,14 +591,35 @@ app.post("/webhook/telegram", async (req, res) => {
 
     console.log("[TG webhook] tg_users upsert done:", userId);
 
-    // --- 10) Follow-up triggers (enqueue jobs if needed) ---
+    // --- 10) Bot commands (internal members only; skip follow-up automation) ---
+    let isBotCommand = false;
+    try {
+      isBotCommand = await handleBotCommand({ msg, bot, chatRef, msgRef });
+    } catch (e) {
+      console.error("[tgCommand] handleBotCommand error:", e);
+    }
+    if (isBotCommand) return res.sendStatus(200);
+
+    // --- 11) Auto-cancel pending follow-ups (runs before new jobs are created) ---
+    try {
+      await handleFollowupCancellations({ msg, type, sentAt, chatId });
+    } catch (e) {
+      console.error("[autoCancel] handleFollowupCancellations error:", e);
+    }
+
+    // --- 12) Follow-up triggers (enqueue jobs if needed) ---
     try {
       await handleFollowupTriggers({ msg, type, sentAt, chatRef, msgRef });
     } catch (e) {
       console.error("[followup] handleFollowupTriggers error:", e);
     }
+    try {
+      await handleStageKeywordTriggers({ msg, chatRef });
+    } catch (e) {
+      console.error("[pipelines] handleStageKeywordTriggers error:", e);
+    }
 
-    // --- 11) Done ---
+    // --- 13) Done ---
     return res.sendStatus(200);
   } catch (e) {
     console.error("[/webhook/telegram] error:", e);
@@ -536,36 +630,65 @@ app.post("/webhook/telegram", async (req, res) => {
 // -----------------------------------------------------------------------------
 // POST /tasks/notifications
 // -----------------------------------------------------------------------------
-// Handles scheduled notification jobs triggered by Google Cloud Tasks.
+// Handles scheduled notification jobs triggered by the task queue
+// (Cloud Tasks, or the local in-process queue with TASK_QUEUE_BACKEND=local).
 //
 // Flow:
-// 1) Cloud Tasks POSTs `{ jobId }` to this endpoint at the scheduled time.
+// 1) The task queue POSTs `{ jobId }` to this endpoint at the scheduled time
+//    (task named by jobId, so enqueues are idempotent).
 // 2) Load `notificationJobs/{jobId}` from Firestore.
-// 3) Enforce guards: retry count (MAX_ATTEMPTS), channel/targets validation, and dedup via `sentOnce`.
-// 4) Build Slack message text via `buildNotificationText(...)` and POST to the incoming webhook.
-// 5) Write a delivery log to `notificationDeliveries/{deliveryId}` (success or failure).
+// 3) Enforce guards: cancelled jobs, retry count (MAX_ATTEMPTS), channel/targets validation,
+//    and dedup via `sentOnce`.
+// 4) Build the notification content via `renderNotificationContent(job)` (Firestore
+//    template in the recipients' locale, else the built-in text) and send it with
+//    the job's channel transport (lib/notifications/transports):
+//    - slack: chat.postMessage (SLACK_BOT_TOKEN) to each target's channels, with
+//      Done / Snooze / Not relevant buttons (see POST /slack/interactions);
+//      jobs with `threadParentJobId` reply in the parent's thread; targets without
+//      channels (or no bot token) fall back to the incoming webhook
+//    - email: SMTP (HTML + plain-text bodies rendered from the same content)
+//    - tg: Telegram DM from the bot (one job per recipient)
+// 5) Write a delivery log to `notificationDeliveries/{deliveryId}` (success or failure,
+//    with the HTTP status or SMTP reply code as `responseCode`, and the posted
+//    Slack messages as `slackPosts`).
 // 6) On success → mark job `sentOnce=true` and delete the job doc.
-//    On non-retryable failure → log and delete the job doc.
-//    On retryable failure (429/5xx/exception) → return HTTP 500 so Cloud Tasks retries.
+//    On non-retryable failure → log and move the job to notificationDeadLetters/*.
+//    On retryable failure → return HTTP 500 so the task queue retries.
+//    On 429 with a server backoff (Telegram `retry_after`, Slack Retry-After) →
+//    re-enqueue the job at now + backoff (up to MAX_RATE_LIMIT_DEFERRALS times)
+//    and return 200.
 //
 // Notes:
-// - Only accepts calls from Cloud Tasks (validated by User-Agent).
-// - Retryable: HTTP 429 / 5xx / exception → return 500 (job preserved for retry).
-// - Non-retryable: other HTTP errors → return 200 and delete the job doc.
-// - Double-send is prevented by `sentOnce` (set only when Slack POST succeeds).
+// - Only accepts calls from the task queue (Cloud Tasks User-Agent, or the local
+//   queue's per-process token).
+// - The attempt number comes from X-CloudTasks-TaskRetryCount (both backends).
+// - Retryable: Slack 429 / 5xx, SMTP 4xx, Telegram 429 / 5xx, network errors,
+//   missing config → return 500 (job preserved for retry).
+// - Non-retryable: other errors (e.g. Slack 4xx, SMTP 5xx, Telegram 403 when the person
+//   never started a private chat with the bot) → return 200 and dead-letter the job.
+// - Jobs that reach MAX_ATTEMPTS or have an invalid channel/targets are
+//   dead-lettered too (full job + attempt history; replay via
+//   POST /api/notifications/dead-letters).
+// - Double-send is prevented by `sentOnce` (set only when the transport succeeds).
+// - Cancelled jobs (status "cancelled") are never sent: a "cancelled" delivery
+//   with the cancel reason is logged and the job doc is deleted.
+// - Jobs moved later via POST /api/notifications ("reschedule") keep their old
+//   task: it fires before job.scheduledAt and is skipped; the task enqueued at
+//   the new ETA delivers the job.
 // -----------------------------------------------------------------------------
 app.post("/tasks/notifications", async (req, res) => {
   const startHr = process.hrtime.bigint();
   const startedAt = Timestamp.now();
 
   // --- Retry attempt (0-origin → +1 for human-readable) ---
-  const attempt = Number(req.get("X-Cloud-Tasks-TaskRetryCount") || 0) + 1;
+  const attempt = Number(req.get(TASK_RETRY_COUNT_HEADER) || 0) + 1;
   const MAX_ATTEMPTS = 5;
+  const MAX_RATE_LIMIT_DEFERRALS = 5;
+  const EARLY_FIRE_TOLERANCE_MS = 60_000; // clock skew between queue and job ETA
 
   // --- Basic header checks ---
-  const ua = req.get("User-Agent") || req.get("user-agent") || "";
-  const isCloudTasks = ua.includes("Google-Cloud-Tasks");
-  if (!isCloudTasks) return res.status(403).json({ error: "forbidden" });
+  if (!isTaskQueueRequest(req))
+    return res.status(403).json({ error: "forbidden" });
 
   const ct = req.get("Content-Type") || "";
   if (!ct.includes("application/json")) {
@@ -587,10 +710,11 @@ app.post("/tasks/notifications", async (req, res) => {
   const job = snap.data() as NotificationJobDoc & {
     sentOnce?: boolean; // re-send guard
     lastSentAt?: FirebaseFirestore.Timestamp;
+    rateLimitDeferrals?: number; // re-enqueues after a 429 retry_after
   };
 
-  // --- Abort if retry limit reached ---
-  if (attempt > MAX_ATTEMPTS) {
+  // --- Skip cancelled jobs (conversation moved on / cancelled manually) ---
+  if (job.status === "cancelled") {
     const finishedAt = Timestamp.now();
     const durationMs = Number((process.hrtime.bigint() - startHr) / 1_000_000n);
 
@@ -599,9 +723,9 @@ app.post("/tasks/notifications", async (req, res) => {
       type: job.type,
       channel: job.channel,
       targets: job.targets || {},
-      status: "failure",
+      status: "cancelled",
       attempt,
-      errorMessage: `max_attempts_reached(${MAX_ATTEMPTS})`,
+      cancelReason: job.cancelReason ?? "unknown",
       responseCode: 200,
       startedAt,
       finishedAt,
@@ -613,11 +737,24 @@ app.post("/tasks/notifications", async (req, res) => {
     await deliveryRef.update({ deliveryId: deliveryRef.id });
 
     await jobRef.delete();
-    return res.status(200).json({ ok: true, skipped: "max_attempts_reached" });
+    return res.status(200).json({
+      ok: true,
+      skipped: "cancelled",
+      reason: job.cancelReason ?? "unknown",
+    });
   }
 
-  // --- Validate channel & targets ---
-  if (job.channel !== "slack" || !job.targets?.slack?.length) {
+  // --- Skip stale tasks of rescheduled jobs (the task at the new ETA sends it) ---
+  if (job.scheduledAt.toMillis() > Date.now() + EARLY_FIRE_TOLERANCE_MS) {
+    return res.status(200).json({
+      ok: true,
+      skipped: "rescheduled",
+      scheduledAt: job.scheduledAt.toDate().toISOString(),
+    });
+  }
+
+  // --- Abort if retry limit reached ---
+  if (attempt > MAX_ATTEMPTS) {
     const finishedAt = Timestamp.now();
     const durationMs = Number((process.hrtime.bigint() - startHr) / 1_000_000n);
 
@@ -628,7 +765,7 @@ app.post("/tasks/notifications", async (req, res) => {
       targets: job.targets || {},
       status: "failure",
       attempt,
-      errorMessage: "invalid_channel_or_targets",
+      errorMessage: `max_attempts_reached(${MAX_ATTEMPTS})`,
       responseCode: 200,
       startedAt,
       finishedAt,
@@ -639,14 +776,17 @@ app.post("/tasks/notifications", async (req, res) => {
     } as Omit<NotificationDeliveryDoc, "deliveryId">);
     await deliveryRef.update({ deliveryId: deliveryRef.id });
 
-    await jobRef.delete();
-    return res
-      .status(200)
-      .json({ ok: true, skipped: "invalid_channel_or_targets" });
+    await moveToDeadLetters(jobRef, job, "max_attempts_reached", {
+      message: `max_attempts_reached(${MAX_ATTEMPTS})`,
+      responseCode: null,
+    });
+    return res.status(200).json({ ok: true, skipped: "max_attempts_reached" });
   }
 
-  // --- Re-send guard: skip if already sent once ---
-  if (job.sentOnce) {
+  // --- Validate channel & targets ---
+  const transport = TRANSPORTS[job.channel];
+  const channelTargets = job.targets?.[job.channel] ?? [];
+  if (!transport || !channelTargets.length) {
     const finishedAt = Timestamp.now();
     const durationMs = Number((process.hrtime.bigint() - startHr) / 1_000_000n);
 
@@ -654,9 +794,10 @@ app.post("/tasks/notifications", async (req, res) => {
       jobId,
       type: job.type,
       channel: job.channel,
-      targets: job.targets,
-      status: "success", // treat as success since already delivered
+      targets: job.targets || {},
+      status: "failure",
       attempt,
+      errorMessage: "invalid_channel_or_targets",
       responseCode: 200,
       startedAt,
       finishedAt,
@@ -667,36 +808,17 @@ app.post("/tasks/notifications", async (req, res) => {
     } as Omit<NotificationDeliveryDoc, "deliveryId">);
     await deliveryRef.update({ deliveryId: deliveryRef.id });
 
-    await jobRef.delete();
-    return res.status(200).json({ ok: true, skipped: "already_sentOnce" });
+    await moveToDeadLetters(jobRef, job, "invalid_channel_or_targets", {
+      message: "invalid_channel_or_targets",
+      responseCode: null,
+    });
+    return res
+      .status(200)
+      .json({ ok: true, skipped: "invalid_channel_or_targets" });
   }
 
-  // --- Build Slack message text ---
-  const p = (job.payload || {}) as Record<string, any>;
-  const caption = p.caption || "";
-  const chatTitle = p.chatTitle || "(no chat title)";
-  const fileName = p.file?.fileName || "(no file)";
-
-  const createdAt = job.createdAt?.toDate
-    ? job.createdAt
-        .toDate()
-        .toLocaleString("ja-JP", { timeZone: "Asia/Tokyo" }) + " JST"
-    : "(no timestamp)";
-
-  const mentions = job.targets.slack!.map((t) => `<@${t.userId}>`).join(" ");
-
-  const text = buildNotificationText(
-    job.type,
-    mentions,
-    chatTitle,
-    fileName,
-    caption,
-    createdAt,
-  );
-
-  // --- Ensure Slack webhook URL exists ---
-  const webhookUrl = process.env.SLACK_WEBHOOK_URL;
-  if (!webhookUrl) {
+  // --- Re-send guard: skip if already sent once ---
+  if (job.sentOnce) {
     const finishedAt = Timestamp.now();
     const durationMs = Number((process.hrtime.bigint() - startHr) / 1_000_000n);
 
@@ -705,10 +827,9 @@ app.post("/tasks/notifications", async (req, res) => {
       type: job.type,
       channel: job.channel,
       targets: job.targets,
-      status: "failure",
+      status: "success", // treat as success since already delivered
       attempt,
-      errorMessage: "SLACK_WEBHOOK_URL is not set",
-      responseCode: 500,
+      responseCode: 200,
       startedAt,
       finishedAt,
       durationMs,
@@ -718,99 +839,97 @@ app.post("/tasks/notifications", async (req, res) => {
     } as Omit<NotificationDeliveryDoc, "deliveryId">);
     await deliveryRef.update({ deliveryId: deliveryRef.id });
 
-    return res.status(500).json({ error: "SLACK_WEBHOOK_URL is not set" });
+    await jobRef.delete();
+    return res.status(200).json({ ok: true, skipped: "already_sentOnce" });
   }
 
-  // --- Send to Slack ---
-  let respStatus = 0;
-  let respText = "";
-  try {
-    const resp = await fetch(webhookUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ text, mrkdwn: true, link_names: 1 }),
-    });
-    respStatus = resp.status;
-    respText = await resp.text();
+  // --- Build message content (shared by all channels) ---
+  const content = await renderNotificationContent(job);
 
-    const finishedAt = Timestamp.now();
-    const durationMs = Number((process.hrtime.bigint() - startHr) / 1_000_000n);
+  // --- Send via the channel transport (never throws) ---
+  const result = await transport(job, content);
+  const finishedAt = Timestamp.now();
+  const durationMs = Number((process.hrtime.bigint() - startHr) / 1_000_000n);
 
-    // Classify error type (retryable vs non-retryable)
-    const isRetryable =
-      respStatus === 429 || (respStatus >= 500 && respStatus <= 599);
-    const ok = resp.ok;
+  if (result.ok) {
+    // Mark job as sent (for re-send guard)
+    await jobRef.update({
+      sentOnce: true,
+      lastSentAt: Timestamp.now(),
+    });
+  }
 
-    if (ok) {
-      // Mark job as sent (for re-send guard)
+  const deliveryRef = await db.collection("notificationDeliveries").add({
+    jobId,
+    type: job.type,
+    channel: job.channel,
+    targets: job.targets,
+    status: result.ok ? "success" : "failure",
+    attempt,
+    ...(result.ok
+      ? {}
+      : { errorMessage: result.errorMessage || `code ${result.responseCode}` }),
+    responseCode: result.responseCode,
+    ...(result.slackPosts?.length ? { slackPosts: result.slackPosts } : {}),
+    startedAt,
+    finishedAt,
+    durationMs,
+    source: job.source,
+    payload: job.payload,
+    createdAt: finishedAt,
+  } as Omit<NotificationDeliveryDoc, "deliveryId">);
+  await deliveryRef.update({ deliveryId: deliveryRef.id });
+
+  if (!result.ok) {
+    // Server asked for a specific backoff (Telegram retry_after / Slack Retry-After):
+    // re-enqueue at now + retry_after instead of the queue's own backoff
+    const deferrals = job.rateLimitDeferrals ?? 0;
+    if (
+      result.retryable &&
+      result.retryAfterSec &&
+      deferrals < MAX_RATE_LIMIT_DEFERRALS
+    ) {
+      const retryAt = Timestamp.fromMillis(
+        Date.now() + result.retryAfterSec * 1000,
+      );
       await jobRef.update({
-        sentOnce: true,
-        lastSentAt: Timestamp.now(),
+        scheduledAt: retryAt,
+        rateLimitDeferrals: deferrals + 1,
+      });
+      await enqueueTask({
+        url: `${process.env.PUBLIC_BASE_URL}/tasks/notifications`,
+        payload: { jobId },
+        scheduledAt: retryAt,
+        // Unique per ETA: jobId's own name and earlier -rl names (also from
+        // before a dead-letter replay) stay reserved after their run
+        taskName: `${jobId}-rl${retryAt.toMillis()}`,
+      });
+      return res.status(200).json({
+        ok: true,
+        deferred: `${job.channel}_rate_limited`,
+        retryAfterSec: result.retryAfterSec,
       });
     }
-
-    const deliveryRef = await db.collection("notificationDeliveries").add({
-      jobId,
-      type: job.type,
-      channel: job.channel,
-      targets: job.targets,
-      status: ok ? "success" : "failure",
-      attempt,
-      ...(ok
-        ? {}
-        : { errorMessage: respText?.slice(0, 500) || `HTTP ${respStatus}` }),
-      responseCode: respStatus,
-      startedAt,
-      finishedAt,
-      durationMs,
-      source: job.source,
-      payload: job.payload,
-      createdAt: finishedAt,
-    } as Omit<NotificationDeliveryDoc, "deliveryId">);
-    await deliveryRef.update({ deliveryId: deliveryRef.id });
-
-    if (!ok) {
-      if (isRetryable) {
-        return res
-          .status(500)
-          .json({ error: "slack_webhook_retryable", status: respStatus });
-      } else {
-        await jobRef.delete();
-        return res.status(200).json({
-          ok: true,
-          skipped: "non_retryable_slack_error",
-          status: respStatus,
-        });
-      }
+    if (result.retryable) {
+      return res.status(500).json({
+        error: `${job.channel}_retryable`,
+        status: result.responseCode,
+      });
     }
-
-    // --- Success: delete job ---
-    await jobRef.delete();
-    return res.status(200).json({ ok: true });
-  } catch (e: any) {
-    const finishedAt = Timestamp.now();
-    const durationMs = Number((process.hrtime.bigint() - startHr) / 1_000_000n);
-
-    const deliveryRef = await db.collection("notificationDeliveries").add({
-      jobId,
-      type: job.type,
-      channel: job.channel,
-      targets: job.targets,
-      status: "failure",
-      attempt,
-      errorMessage: (e?.message || String(e)).slice(0, 500),
-      responseCode: respStatus || 0,
-      startedAt,
-      finishedAt,
-      durationMs,
-      source: job.source,
-      payload: job.payload,
-      createdAt: finishedAt,
-    } as Omit<NotificationDeliveryDoc, "deliveryId">);
-    await deliveryRef.update({ deliveryId: deliveryRef.id });
-
-    return res.status(500).json({ error: "slack_webhook_exception" });
+    await moveToDeadLetters(jobRef, job, "non_retryable", {
+      message: result.errorMessage || `code ${result.responseCode}`,
+      responseCode: result.responseCode,
+    });
+    return res.status(200).json({
+      ok: true,
+      skipped: `non_retryable_${job.channel}_error`,
+      status: result.responseCode,
+    });
   }
+
+  // --- Success: delete job ---
+  await jobRef.delete();
+  return res.status(200).json({ ok: true });
 });
 
 // -----------------------------------------------------------------------------
@@ -858,14 +977,113 @@ app.post("/tasks/weekly-report", async (_req, res) => {
   }
 });
 
+// -----------------------------------------------------------------------------
+// POST /tasks/dead-letter-digest
+// -----------------------------------------------------------------------------
+// Daily Slack summary of notifications that failed for good (triggered by
+// Cloud Scheduler, like /tasks/weekly-report).
+//
+// Flow:
+// 1) Load open dead letters not yet reported (notifiedAt == null).
+// 2) Post one summary message to the alerts channel (postOpsAlert).
+// 3) Mark them as notified so the next digest only lists new ones.
+// -----------------------------------------------------------------------------
+
+app.post("/tasks/dead-letter-digest", async (_req, res) => {
+  try {
+    const count = await sendDeadLetterDigest();
+    return res.status(200).json({ ok: true, count });
+  } catch (e) {
+    console.error("[/tasks/dead-letter-digest] error:", e);
+    return res
+      .status(500)
+      .json({ ok: false, error: "dead_letter_digest_failed" });
+  }
+});
+
+// -----------------------------------------------------------------------------
+// POST /tasks/delivery-analytics-digest
+// -----------------------------------------------------------------------------
+// Weekly Slack summary of notification delivery (triggered by Cloud Scheduler,
+// like /tasks/weekly-report).
+//
+// Flow:
+// 1) Compute analytics of the last 7 days of notificationDeliveries/*
+//    (rates, p50 / p95 latency, retries, top errors, reminder effectiveness).
+// 2) Post one summary message to the alerts channel (postOpsAlert).
+// -----------------------------------------------------------------------------
+
+app.post("/tasks/delivery-analytics-digest", async (_req, res) => {
+  try {
+    const analytics = await sendDeliveryAnalyticsDigest();
+    return res.status(200).json({ ok: true, total: analytics.totals.total });
+  } catch (e) {
+    console.error("[/tasks/delivery-analytics-digest] error:", e);
+    return res
+      .status(500)
+      .json({ ok: false, error: "delivery_analytics_digest_failed" });
+  }
+});
+
+// -----------------------------------------------------------------------------
+// POST /tasks/stale-chats
+// -----------------------------------------------------------------------------
+// Daily stale-deal detector (triggered by Cloud Scheduler, like
+// /tasks/weekly-report).
+//
+// Flow:
+// 1) Scan active tg_chats whose stage has `staleAfterBusinessDays` (pipeline
+//    config; default: ProposalSent / AgreementSent 7, InvoiceSent 5).
+// 2) Flag chats idle for longer (since the later of lastActiveAt / phase.ts),
+//    skipping snoozed ones.
+// 3) Post one Slack message per owner (chat owner / co-owners, else the deal
+//    owner; chats without one → alerts channel) with snooze buttons
+//    (POST /slack/interactions).
+// -----------------------------------------------------------------------------
+
+app.post("/tasks/stale-chats", async (_req, res) => {
+  try {
+    const result = await sendStaleChatAlerts();
+    return res.status(200).json({ ok: true, ...result });
+  } catch (e) {
+    console.error("[/tasks/stale-chats] error:", e);
+    return res.status(500).json({ ok: false, error: "stale_chats_failed" });
+  }
+});
+
+// -----------------------------------------------------------------------------
+// POST /tasks/chat-approvals
+// -----------------------------------------------------------------------------
+// Timeout of a bot-join approval request (enqueued for the end of the window,
+// BOT_APPROVAL_WINDOW_HOURS, default 24h). Body: { chatId }.
+// - Still pending → mark "expired", leave the chat and notify ops
+// - Already approved / rejected → no-op
+// -----------------------------------------------------------------------------
+
+app.post("/tasks/chat-approvals", async (req, res) => {
+  if (!isTaskQueueRequest(req)) {
+    return res.status(403).json({ error: "forbidden" });
+  }
+  const { chatId } = req.body || {};
+  if (!chatId || typeof chatId !== "string") {
+    return res.status(400).json({ error: "chatId is required" });
+  }
+  try {
+    const expired = await expireChatApproval(chatId);
+    return res.status(200).json({ ok: true, expired });
+  } catch (e) {
+    console.error("[/tasks/chat-approvals] error:", e);
+    return res.status(500).json({ ok: false, error: "chat_approval_failed" });
+  }
+});
+
 // -----------------------------------------------------------------------------
 // POST /api/weekly/config
 // -----------------------------------------------------------------------------
 // Handles configuration retrieval or updates for AI Weekly Reports.
 //
-// Currently exposed as a standard HTTP endpoint (usable via curl, Postman, etc.).
-// In the future, this will also be triggered by Slack bot commands
-// to allow admins to view or modify report settings directly from Slack.
+// Exposed as a standard HTTP endpoint (usable via curl, Postman, etc.) and from
+// Slack via `/weekly config get|set ...` (see POST /slack/commands).
 // -----------------------------------------------------------------------------
 app.post("/api/weekly/config", async (req, res) => {
   await handleConfigCommand(req, res);
@@ -877,8 +1095,8 @@ app.post("/api/weekly/config", async (req, res) => {
 // Triggers on-demand weekly report generation for a specific chat.
 //
 // Currently exposed as a standard HTTP endpoint (usable via curl, Postman, etc.).
-// In the future, this will also be triggered by Slack bot commands
-// to allow admins to run a report (dry-run or persisted) directly from Slack.
+// Also reachable from Slack via `/weekly run <chatId> [--notify] [--persist]`
+// (see POST /slack/commands).
 // Args (JSON body):
 //   - chatId: string (required)
 //   - startISO?: string, endISO?: string, tz?: string
@@ -896,12 +1114,301 @@ app.post("/api/weekly/run", async (req, res) => {
 // - If `reportId` is provided → returns that single report (detail mode)
 // - Otherwise → returns a list ordered by newest first (list mode)
 // - Optional: re-post the fetched report to Slack
+// - Also reachable from Slack via `/weekly history <chatId> [N]`
 // -----------------------------------------------------------------------------
 
 app.post("/api/weekly/history", async (req, res) => {
   await handleHistoryCommand(req, res);
 });
 
+// -----------------------------------------------------------------------------
+// POST /api/followup/rules
+// -----------------------------------------------------------------------------
+// Admin API for follow-up rules stored in Firestore (followupRules/*).
+// Actions (JSON body `action`):
+//   - "list" | "get"           → inspect rules (defaults shown while empty)
+//   - "create" | "update"      → write a rule (validated; cache cleared)
+//   - "disable"                → stop a rule from firing
+// -----------------------------------------------------------------------------
+
+app.post("/api/followup/rules", async (req, res) => {
+  await handleRulesCommand(req, res);
+});
+
+// -----------------------------------------------------------------------------
+// POST /api/followup/dry-run
+// -----------------------------------------------------------------------------
+// Evaluates a sample Telegram message against the follow-up rules and returns
+// the rule that would fire plus the schedule it would produce (no writes).
+// Args (JSON body):
+//   - message: Telegram message object (required)
+//   - rules?: draft rules to test instead of the stored set
+// -----------------------------------------------------------------------------
+
+app.post("/api/followup/dry-run", async (req, res) => {
+  await handleDryRunCommand(req, res);
+});
+
+// -----------------------------------------------------------------------------
+// POST /api/followup/cancel-rules
+// -----------------------------------------------------------------------------
+// Admin API for follow-up cancel rules (followupCancelRules/*), which decide
+// when pending reminders of a chat are cancelled by a new message.
+// Actions (JSON body `action`): "list" | "create" | "update" | "disable"
+// -----------------------------------------------------------------------------
+
+app.post("/api/followup/cancel-rules", async (req, res) => {
+  await handleCancelRulesCommand(req, res);
+});
+
+// -----------------------------------------------------------------------------
+// POST /api/notifications
+// -----------------------------------------------------------------------------
+// Admin API for scheduled notification jobs (notificationJobs/*).
+// Actions (JSON body `action`):
+//   - "list"                  → pending jobs by chat / type / person / due window
+//   - "get"                   → one job with its rendered notification text
+//   - "cancel"                → cancel a pending job
+//   - "reschedule" | "send_now" → move a pending job to a new ETA (re-enqueued)
+// Every write is logged with the `actor` to notificationActions/*.
+// -----------------------------------------------------------------------------
+
+app.post("/api/notifications", async (req, res) => {
+  await handleNotificationsCommand(req, res);
+});
+
+// -----------------------------------------------------------------------------
+// POST /api/notifications/dead-letters
+// -----------------------------------------------------------------------------
+// Admin API for jobs that failed for good (notificationDeadLetters/*).
+// Actions (JSON body `action`):
+//   - "list" | "get"     → inspect dead letters (full job + attempt history)
+//   - "replay"           → re-create and enqueue jobs (`jobIds` or `all: true`)
+//   - "discard"          → close dead letters without replaying
+// -----------------------------------------------------------------------------
+
+app.post("/api/notifications/dead-letters", async (req, res) => {
+  await handleDeadLettersCommand(req, res);
+});
+
+// -----------------------------------------------------------------------------
+// POST /api/notifications/templates
+// -----------------------------------------------------------------------------
+// Admin API for notification templates (notificationTemplates/*): per-type
+// message text with {{variables}} and ja / en variants, used by
+// /tasks/notifications instead of the built-in text.
+// Actions (JSON body `action`):
+//   - "list" | "get"        → inspect templates
+//   - "upsert" | "disable"  → write a template (validated; cache cleared)
+//   - "preview"             → render a (draft) template against a pending job
+// -----------------------------------------------------------------------------
+
+app.post("/api/notifications/templates", async (req, res) => {
+  await handleTemplatesCommand(req, res);
+});
+
+// -----------------------------------------------------------------------------
+// POST /api/notifications/analytics
+// -----------------------------------------------------------------------------
+// Delivery analytics from notificationDeliveries/* for a period (default the
+// last 7 days): success / failure rates and p50 / p95 latency by type and
+// channel, retry distribution, top errors, and reminder effectiveness (client
+// reply within `windowDays` after each follow_up_* reminder).
+// `notifySlack: true` also posts the result to the alerts channel.
+// -----------------------------------------------------------------------------
+
+app.post("/api/notifications/analytics", async (req, res) => {
+  await handleAnalyticsCommand(req, res);
+});
+
+// -----------------------------------------------------------------------------
+// POST /api/calendars
+// -----------------------------------------------------------------------------
+// Admin API for business-day calendars (calendars/* + calendars/{id}/holidays/*)
+// used to skip weekends, public holidays and company shutdown days when
+// scheduling reminders and weekly-report periods.
+// Actions (JSON body `action`):
+//   - "list" | "get"                      → inspect calendars / holidays of a year
+//   - "upsert"                            → create or update a calendar (e.g. per region)
+//   - "add_holidays" | "remove_holidays"  → edit company holidays
+//   - "check"                             → is a date a business day?
+// -----------------------------------------------------------------------------
+
+app.post("/api/calendars", async (req, res) => {
+  await handleCalendarsCommand(req, res);
+});
+
+// -----------------------------------------------------------------------------
+// POST /api/deals
+// -----------------------------------------------------------------------------
+// Admin API for deals (deals/{chatId}): estimated value, currency, win
+// probability, expected close date and owner of each chat's deal. The deal
+// stage follows the chat phase automatically.
+// Actions (JSON body `action`):
+//   - "list" | "get"       → inspect deals (filter by `pipelineId` / `stage` /
+//                            `ownerPersonId`)
+//   - "upsert" | "delete"  → edit a chat's deal
+//   - "pipeline"           → deal count and (weighted) value per pipeline,
+//                            stage and currency
+// -----------------------------------------------------------------------------
+
+app.post("/api/deals", async (req, res) => {
+  await handleDealsCommand(req, res);
+});
+
+// -----------------------------------------------------------------------------
+// POST /api/pipelines
+// -----------------------------------------------------------------------------
+// Admin API for sales pipelines (pipelines/*): ordered stages with display
+// names and triggers (follow-up job types / rules, keywords, manual). Teams
+// can use different pipelines; chats without one use "default".
+// Actions (JSON body `action`):
+//   - "list" | "get"       → inspect pipelines
+//   - "upsert" | "delete"  → edit a pipeline (stages replaced as a whole)
+//   - "assign"             → move `chatIds` to `pipelineId`
+// -----------------------------------------------------------------------------
+
+app.post("/api/pipelines", async (req, res) => {
+  await handlePipelinesCommand(req, res);
+});
+
+// -----------------------------------------------------------------------------
+// POST /api/team/members
+// -----------------------------------------------------------------------------
+// Internal team membership (people/{personId}.internal): who may add the bot,
+// run bot commands and trigger follow-ups, and their roles (sales / bd_lead /
+// admin). Replaces the hard-coded member list (kept as the "seed").
+// Actions (JSON body `action`):
+//   - "list" | "history"        → members / audit log (internalMemberChanges)
+//   - "add" | "remove" | "roles" → change one member (`personId` or
+//                                  `tgUserId`); `actor` = the authenticated admin
+//   - "seed"                    → add the pre-Firestore member list
+// -----------------------------------------------------------------------------
+
+app.post("/api/team/members", async (req, res) => {
+  await handleTeamMembersCommand(req, res);
+});
+
+// -----------------------------------------------------------------------------
+// POST /api/routing
+// -----------------------------------------------------------------------------
+// Recipient routing for system reminders and alerts (recipientRoutes/*):
+// each notification / alert type maps to roles (e.g. bd_lead), on-call
+// rotations (onCallRotations/*, e.g. the weekly "ops_oncall" duty) or
+// explicit people, mentioned via their Slack links.
+// Actions (JSON body `action`):
+//   - "list" | "resolve"                → inspect routes / preview recipients
+//   - "upsertRoute" | "deleteRoute"     → edit a route (`routeKey`)
+//   - "upsertRotation" | "deleteRotation" → edit a rotation (`rotationId`)
+// -----------------------------------------------------------------------------
+
+app.post("/api/routing", async (req, res) => {
+  await handleRoutingCommand(req, res);
+});
+
+// -----------------------------------------------------------------------------
+// POST /api/chats/phase
+// -----------------------------------------------------------------------------
+// Set a chat's lifecycle phase explicitly (also via `/phase` in Telegram and
+// Slack): correct a false-positive advance or close the deal.
+// Actions (JSON body `action`):
+//   - "get"  → current phase (incl. manual override reason / actor)
+//   - "set"  → `phase` + `reason` code (+ `note`, `actor`); terminal phases
+//              (Won / Lost / OnHold) cancel pending follow-ups and, with
+//              `disableWeeklyReport: true`, turn off the weekly report
+// -----------------------------------------------------------------------------
+
+app.post("/api/chats/phase", async (req, res) => {
+  await handleChatPhaseCommand(req, res);
+});
+
+// -----------------------------------------------------------------------------
+// POST /api/chats/owner
+// -----------------------------------------------------------------------------
+// Chat ownership: the owner (and co-owners) receive the chat's follow-up
+// reminders, stale-chat alerts and weekly report mentions. Auto-assigned to
+// the internal member who added the bot.
+// Actions (JSON body `action`):
+//   - "get"  → owner / co-owners of `chatId`
+//   - "set"  → `ownerPersonId` (null = none) + `coOwnerPersonIds`, `actor`
+// -----------------------------------------------------------------------------
+
+app.post("/api/chats/owner", async (req, res) => {
+  await handleChatOwnerCommand(req, res);
+});
+
+// -----------------------------------------------------------------------------
+// POST /api/chats/funnel
+// -----------------------------------------------------------------------------
+// Funnel analytics from phase transitions (tg_chats/{chatId}/phaseHistory):
+// conversion between stages, median / p90 time in each phase, and a cohort
+// breakdown by the month the bot was added, for one pipeline (`pipelineId`,
+// default "default"). Optional `cohortFrom` / `cohortTo` ("YYYY-MM") limit the
+// cohorts. Also exported to the "Funnel" sheet tab.
+// -----------------------------------------------------------------------------
+
+app.post("/api/chats/funnel", async (req, res) => {
+  await handleFunnelCommand(req, res);
+});
+
+// -----------------------------------------------------------------------------
+// POST /slack/interactions
+// -----------------------------------------------------------------------------
+// Slack interactivity Request URL (button clicks on reminder messages).
+// - Body is parsed raw (urlencoded) so the Slack signature can be verified.
+// - "Done" / "Not relevant" → delete remaining chained jobs of the reminder
+// - "Snooze 1 business day" / "Snooze 3 days" → new job re-enqueued via the task queue
+// - Every action is logged to notificationActions/* and the original message
+//   is updated in place via response_url.
+// - Stale-chat alerts: "Snooze 3 business days" / "Snooze 1 week" / "Until
+//   phase changes" → tg_chats/{chatId}.staleAlert (ephemeral confirmation)
+// - Bot-join approvals: "Approve" → first-time chat setup / "Reject" → the bot
+//   leaves (chatApprovals/{chatId}; request message updated in place)
+// -----------------------------------------------------------------------------
+
+app.post(
+  "/slack/interactions",
+  express.raw({ type: "application/x-www-form-urlencoded" }),
+  async (req, res) => {
+    await handleSlackInteraction(req, res);
+  },
+);
+
+// -----------------------------------------------------------------------------
+// POST /slack/commands
+// -----------------------------------------------------------------------------
+// Slack slash-command Request URL for `/weekly` and `/phase`.
+// - Body is parsed raw (urlencoded) so the Slack signature can be verified.
+// - `config get|set` and `history` run inline and reply with ephemeral blocks.
+// - `run` replies "running" immediately and is executed by POST /tasks/slack-command,
+//   which posts the result to the command's response_url.
+// Examples:
+//   /weekly config get q=team
+//   /weekly config set -1001234567890 off
+//   /weekly run -1001234567890 --notify
+//   /weekly history -1001234567890 5
+//   /phase -1001234567890 Won closed_won Signed annual plan
+// -----------------------------------------------------------------------------
+
+app.post(
+  "/slack/commands",
+  express.raw({ type: "application/x-www-form-urlencoded" }),
+  async (req, res) => {
+    await handleSlackCommand(req, res);
+  },
+);
+
+// -----------------------------------------------------------------------------
+// POST /tasks/slack-command
+// -----------------------------------------------------------------------------
+// Deferred execution of long-running slash commands (enqueued by /slack/commands).
+// Only accepts calls from the task queue (see isTaskQueueRequest).
+// -----------------------------------------------------------------------------
+
+app.post("/tasks/slack-command", async (req, res) => {
+  await handleSlackCommandTask(req, res);
+});
+
 // -----------------------------------------------------------------------------
 // POST /api/sheets/sync
 // -----------------------------------------------------------------------------
@@ -922,6 +1429,8 @@ app.post("/api/sheets/sync", async (_, res) => {
 // HTTP server bootstrap
 // - Binds to PORT env var (fallback: 8080)
 // - Logs startup and startup errors
+// - Resolves Telegram bot identities (getMe) after startup
+// - Seeds internal members once (lib/team/internalMembers.ts)
 // - (Optional) graceful shutdown hooks
 // -----------------------------------------------------------------------------
 
@@ -932,6 +1441,12 @@ const server = app.listen(port, () => {
   console.log(`[server] Listening on :${port}`);
 });
 
+// Resolve Telegram bot identities (getMe; non-fatal, retried per webhook)
+void initBots();
+
+// Seed internal members into people/* (only while no membership record exists)
+void seedInternalMembersOnce();
+
 // Handle startup errors early (e.g., EADDRINUSE)
 server.on("error", (err) => {
   console.error("[server] Failed to start:", err);
@@ -0,0 +1,69 @@
+// -----------------------------------------------------------------------------
+// Admin API authentication (shared-secret header per admin).
+// - ADMIN_API_TOKENS="alice@example.com:<token>,ops-bot:<token>" (name:token)
+// - Callers send `X-Admin-Token: <token>`; the matching name becomes the
+//   request's `actor` (req.body.actor is overwritten, so audit logs record the
+//   verified identity instead of a free-text field)
+// - No ADMIN_API_TOKENS → the admin API is disabled (503), never open
+// -----------------------------------------------------------------------------
+
+import { timingSafeEqual } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+
+export const ADMIN_TOKEN_HEADER = "X-Admin-Token";
+
+type AdminToken = { name: string; token: Buffer };
+
+let tokens: AdminToken[] | null = null;
+
+/** Parse ADMIN_API_TOKENS once ("name:token" pairs; malformed ones skipped). */
+function loadTokens(): AdminToken[] {
+  if (tokens) return tokens;
+  tokens = (process.env.ADMIN_API_TOKENS || "")
+    .split(",")
+    .map((pair): AdminToken | null => {
+      const i = pair.indexOf(":");
+      const name = pair.slice(0, i).trim();
+      const token = pair.slice(i + 1).trim();
+      return i > 0 && name && token
+        ? { name, token: Buffer.from(token) }
+        : null;
+    })
+    .filter((t): t is AdminToken => !!t);
+  if (!tokens.length) {
+    console.warn("[adminAuth] ADMIN_API_TOKENS is not set; admin API disabled");
+  }
+  return tokens;
+}
+
+/** Admin name of a token (constant-time compare), or null. */
+function adminFor(token: string): string | null {
+  const got = Buffer.from(token);
+  const hit = loadTokens().find(
+    (t) => t.token.length === got.length && timingSafeEqual(t.token, got),
+  );
+  return hit?.name ?? null;
+}
+
+/**
+ * Express middleware guarding admin routes.
+ * - 503 when no token is configured, 401 when the header is missing / wrong
+ * - On success, req.body.actor = the admin's configured name
+ */
+export function requireAdmin(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void {
+  if (!loadTokens().length) {
+    res.status(503).json({ error: "Admin API is disabled." });
+    return;
+  }
+  const admin = adminFor((req.get(ADMIN_TOKEN_HEADER) || "").trim());
+  if (!admin) {
+    res.status(401).json({ error: "Unauthorized." });
+    return;
+  }
+  req.body = { ...(req.body ?? {}), actor: admin };
+  next();
+}
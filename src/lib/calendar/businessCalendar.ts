@@ -0,0 +1,72 @@
+// -----------------------------------------------------------------------------
+// Business-day calendar (weekends + public holidays + company holidays).
+// - Days are "YYYY-MM-DD" calendar-date keys (no timezone math here)
+// - JP_CALENDAR is the built-in default: Sat/Sun + Japanese public holidays
+// -----------------------------------------------------------------------------
+
+import { japaneseHolidays } from "./jpHolidays.js";
+import type { CalendarDef } from "../../types/calendar.js";
+
+/** Calendar used when none is specified (Japan HQ). */
+export const DEFAULT_CALENDAR_ID = "jp";
+
+/** Built-in definition of the default calendar (used while no doc exists). */
+export const DEFAULT_CALENDAR_DEF: CalendarDef = {
+  calendarId: DEFAULT_CALENDAR_ID,
+  name: "Japan",
+  publicHolidays: "jp",
+  weekendDays: [0, 6],
+};
+
+/**
+ * Max. calendar days scanned when counting business days (backstop against
+ * calendars without any business day, e.g. all-holiday company calendars).
+ */
+export const MAX_BUSINESS_DAY_SCAN = 366;
+
+export type BusinessCalendar = {
+  calendarId: string;
+  /** Holiday name of a day (public or company), or null. Weekends are not holidays. */
+  holidayName(dayKey: string): string | null;
+  /** True when the day is neither a weekend day nor a holiday. */
+  isBusinessDay(dayKey: string): boolean;
+};
+
+/** Public holidays of a year from the built-in table. */
+function publicHolidays(
+  table: CalendarDef["publicHolidays"],
+  year: number,
+): Map<string, string> {
+  return table === "jp" ? japaneseHolidays(year) : new Map();
+}
+
+/**
+ * Build a calendar from its definition and company holidays.
+ *
+ * @param def              Calendar definition (weekend days, public holiday table)
+ * @param companyHolidays  "YYYY-MM-DD" → name (calendars/{id}/holidays/*)
+ */
+export function buildCalendar(
+  def: CalendarDef,
+  companyHolidays: Map<string, string> = new Map(),
+): BusinessCalendar {
+  const holidayName = (dayKey: string): string | null =>
+    companyHolidays.get(dayKey) ??
+    publicHolidays(def.publicHolidays, Number(dayKey.slice(0, 4))).get(
+      dayKey,
+    ) ??
+    null;
+
+  return {
+    calendarId: def.calendarId,
+    holidayName,
+    isBusinessDay(dayKey) {
+      const dow = new Date(`${dayKey}T00:00:00Z`).getUTCDay();
+      return !def.weekendDays.includes(dow) && holidayName(dayKey) === null;
+    },
+  };
+}
+
+/** Built-in Japanese calendar (no company holidays; no Firestore read). */
+export const JP_CALENDAR: BusinessCalendar =
+  buildCalendar(DEFAULT_CALENDAR_DEF);
@@ -0,0 +1,289 @@
+// -----------------------------------------------------------------------------
+// Command handler for business-day calendars (calendars/* + holidays/*).
+//
+// Supported actions:
+//   - "list":            List calendars (built-in "jp" shown while it has no doc)
+//   - "get":             Calendar + holidays of `year` (public + company)
+//   - "upsert":          Create or update a calendar from `calendar`
+//   - "add_holidays":    Add company holidays `holidays: [{ date, name }]`
+//   - "remove_holidays": Remove company holidays `dates: ["YYYY-MM-DD", ...]`
+//   - "check":           Is `date` a business day in `calendarId`?
+//
+// Notes:
+//   - Dates are "YYYY-MM-DD" calendar dates.
+//   - Every write clears the in-memory calendar cache used for scheduling.
+// -----------------------------------------------------------------------------
+
+import { Request, Response } from "express";
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../../firebase.js";
+import {
+  CALENDARS_COLLECTION,
+  clearCalendarCache,
+  loadCalendar,
+  loadCalendarDef,
+} from "../loadCalendar.js";
+import {
+  DEFAULT_CALENDAR_DEF,
+  DEFAULT_CALENDAR_ID,
+} from "../businessCalendar.js";
+import { japaneseHolidays } from "../jpHolidays.js";
+import { isDateKey } from "../../../utils/time.js";
+import type {
+  CalendarDef,
+  CalendarDoc,
+  CalendarHolidayDoc,
+} from "../../../types/calendar.js";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+type CalendarsRequestBody = {
+  action?:
+    "list" | "get" | "upsert" | "add_holidays" | "remove_holidays" | "check";
+  calendarId?: string;
+  calendar?: Partial<CalendarDef>;
+  year?: number;
+  date?: string;
+  dates?: string[];
+  holidays?: Array<{ date?: string; name?: string }>;
+  actor?: string;
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/** Validate a complete calendar definition. */
+function validateCalendar(cal: Partial<CalendarDef>): string[] {
+  const errors: string[] = [];
+  if (!cal.calendarId || !/^[a-z0-9_-]{1,64}$/.test(cal.calendarId)) {
+    errors.push("calendarId must match /^[a-z0-9_-]{1,64}$/");
+  }
+  if (!cal.name || !String(cal.name).trim()) errors.push("name is required");
+  if (!["jp", "none"].includes(String(cal.publicHolidays))) {
+    errors.push('publicHolidays must be "jp" | "none"');
+  }
+  if (
+    !Array.isArray(cal.weekendDays) ||
+    cal.weekendDays.some((d) => !Number.isInteger(d) || d < 0 || d > 6)
+  ) {
+    errors.push("weekendDays must be an array of integers 0-6");
+  } else if (new Set(cal.weekendDays).size >= 7) {
+    errors.push("weekendDays must leave at least one business day");
+  }
+  return errors;
+}
+
+// -----------------------------------------------------------------------------
+// Handler
+// -----------------------------------------------------------------------------
+
+export async function handleCalendarsCommand(req: Request, res: Response) {
+  try {
+    const {
+      action = "list",
+      calendarId = DEFAULT_CALENDAR_ID,
+      calendar,
+      year,
+      date,
+      dates,
+      holidays,
+      actor,
+    } = (req.body ?? {}) as CalendarsRequestBody;
+    const col = db.collection(CALENDARS_COLLECTION);
+    const updatedBy = typeof actor === "string" && actor.trim() ? actor : null;
+
+    // -----------------------------------------------------------------------
+    // 1) LIST
+    // -----------------------------------------------------------------------
+    if (action === "list") {
+      const snap = await col.get();
+      const calendars: CalendarDef[] = snap.docs.map((d) => {
+        const doc = d.data() as CalendarDoc;
+        return {
+          calendarId: d.id,
+          name: doc.name,
+          publicHolidays: doc.publicHolidays,
+          weekendDays: doc.weekendDays,
+        };
+      });
+      if (!calendars.some((c) => c.calendarId === DEFAULT_CALENDAR_ID)) {
+        calendars.unshift(DEFAULT_CALENDAR_DEF);
+      }
+      return res.status(200).json({ count: calendars.length, calendars });
+    }
+
+    // -----------------------------------------------------------------------
+    // 2) GET (calendar + holidays of a year)
+    // -----------------------------------------------------------------------
+    if (action === "get") {
+      const def = await loadCalendarDef(calendarId);
+      if (!def) {
+        return res
+          .status(404)
+          .json({ error: `Calendar not found: ${calendarId}` });
+      }
+
+      const y = Number.isInteger(year)
+        ? Number(year)
+        : new Date().getUTCFullYear();
+      const publicDays =
+        def.publicHolidays === "jp" ? [...japaneseHolidays(y)] : [];
+      const companySnap = await col
+        .doc(calendarId)
+        .collection("holidays")
+        .where("date", ">=", `${y}-01-01`)
+        .where("date", "<=", `${y}-12-31`)
+        .get();
+
+      const list = [
+        ...publicDays.map(([d, name]) => ({
+          date: d,
+          name,
+          source: "public" as const,
+        })),
+        ...companySnap.docs.map((d) => ({
+          date: d.id,
+          name: (d.data() as CalendarHolidayDoc).name,
+          source: "company" as const,
+        })),
+      ].sort((a, b) => a.date.localeCompare(b.date));
+
+      return res
+        .status(200)
+        .json({ calendar: def, year: y, count: list.length, holidays: list });
+    }
+
+    // -----------------------------------------------------------------------
+    // 3) UPSERT (create or update a calendar)
+    // -----------------------------------------------------------------------
+    if (action === "upsert") {
+      const ref = col.doc(calendar?.calendarId ?? calendarId);
+      const snap = await ref.get();
+      const current = snap.exists ? (snap.data() as CalendarDoc) : null;
+
+      const merged: Partial<CalendarDef> = {
+        ...(current ??
+          (ref.id === DEFAULT_CALENDAR_ID ? DEFAULT_CALENDAR_DEF : {})),
+        ...(calendar ?? {}),
+        calendarId: ref.id,
+      };
+      const errors = validateCalendar(merged);
+      if (errors.length) {
+        return res
+          .status(400)
+          .json({ error: "Invalid calendar.", details: errors });
+      }
+
+      const now = Timestamp.now();
+      const def = merged as CalendarDef;
+      await ref.set({
+        calendarId: def.calendarId,
+        name: def.name,
+        publicHolidays: def.publicHolidays,
+        weekendDays: def.weekendDays,
+        createdAt: current?.createdAt ?? now,
+        updatedAt: now,
+        updatedBy,
+      } satisfies CalendarDoc);
+      clearCalendarCache();
+
+      return res.status(current ? 200 : 201).json({
+        message: current ? "Calendar updated." : "Calendar created.",
+        calendar: def,
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // 4) ADD / REMOVE company holidays
+    // -----------------------------------------------------------------------
+    if (action === "add_holidays" || action === "remove_holidays") {
+      if (!(await loadCalendarDef(calendarId))) {
+        return res
+          .status(404)
+          .json({ error: `Calendar not found: ${calendarId}` });
+      }
+      const holidaysCol = col.doc(calendarId).collection("holidays");
+      const batch = db.batch();
+
+      if (action === "add_holidays") {
+        if (!Array.isArray(holidays) || holidays.length === 0) {
+          return res.status(400).json({
+            error: "Missing 'holidays' (array of { date, name }).",
+          });
+        }
+        const invalid = holidays.filter(
+          (h) => !isDateKey(h?.date) || !String(h?.name ?? "").trim(),
+        );
+        if (invalid.length) {
+          return res.status(400).json({
+            error: "Invalid holidays (date must be YYYY-MM-DD, name required).",
+            details: invalid,
+          });
+        }
+
+        const now = Timestamp.now();
+        for (const h of holidays) {
+          batch.set(holidaysCol.doc(h.date!), {
+            date: h.date!,
+            name: String(h.name).trim(),
+            createdAt: now,
+            updatedBy,
+          } satisfies CalendarHolidayDoc);
+        }
+      } else {
+        if (!Array.isArray(dates) || !dates.length || !dates.every(isDateKey)) {
+          return res.status(400).json({
+            error: "Missing or invalid 'dates' (array of YYYY-MM-DD).",
+          });
+        }
+        for (const d of dates) batch.delete(holidaysCol.doc(d));
+      }
+
+      await batch.commit();
+      clearCalendarCache();
+
+      const count =
+        action === "add_holidays" ? holidays!.length : dates!.length;
+      return res.status(200).json({
+        message:
+          action === "add_holidays" ? "Holidays added." : "Holidays removed.",
+        calendarId,
+        count,
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // 5) CHECK a date
+    // -----------------------------------------------------------------------
+    if (action === "check") {
+      if (!isDateKey(date)) {
+        return res
+          .status(400)
+          .json({ error: "Missing or invalid 'date' (YYYY-MM-DD)." });
+      }
+      const cal = await loadCalendar(calendarId);
+      return res.status(200).json({
+        calendarId: cal.calendarId,
+        date,
+        businessDay: cal.isBusinessDay(date),
+        holidayName: cal.holidayName(date),
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // Unsupported action
+    // -----------------------------------------------------------------------
+    return res
+      .status(400)
+      .json({ error: `Unsupported action: ${String(action)}` });
+  } catch (error: any) {
+    console.error("[handleCalendarsCommand] Error:", error);
+    return res.status(500).json({
+      error: "Failed to process calendars command.",
+      details: error?.message ?? String(error),
+    });
+  }
+}
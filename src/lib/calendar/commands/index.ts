@@ -0,0 +1 @@
+export { handleCalendarsCommand } from "./handleCalendarsCommand.js";
@@ -0,0 +1,105 @@
+// -----------------------------------------------------------------------------
+// Built-in Japanese public holiday table (国民の祝日).
+// - Computed per year from the current Act on National Holidays:
+//   fixed dates, "Happy Monday" holidays, equinoxes, substitute holidays
+//   (振替休日) and citizens' holidays (国民の休日)
+// - Includes the 2020 / 2021 Olympic date shifts
+// - Equinox formula is valid for 1980–2099
+// -----------------------------------------------------------------------------
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+/** "YYYY-MM-DD" for a calendar date (month is 1-based). */
+function dayKey(y: number, m: number, d: number): string {
+  return `${y}-${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+}
+
+/** Day of month of the n-th Monday (n is 1-based). */
+function nthMonday(y: number, m: number, n: number): number {
+  const firstDow = new Date(Date.UTC(y, m - 1, 1)).getUTCDay();
+  const firstMonday = 1 + ((8 - firstDow) % 7);
+  return firstMonday + (n - 1) * 7;
+}
+
+/** Vernal / autumnal equinox day in March / September. */
+function equinoxDay(y: number, base: number): number {
+  return Math.floor(base + 0.242194 * (y - 1980) - Math.floor((y - 1980) / 4));
+}
+
+/** Dates moved for the Tokyo Olympics (Marine / Sports / Mountain Day). */
+const OLYMPIC_SHIFTS: Record<
+  number,
+  {
+    marine: [number, number];
+    sports: [number, number];
+    mountain: [number, number];
+  }
+> = {
+  2020: { marine: [7, 23], sports: [7, 24], mountain: [8, 10] },
+  2021: { marine: [7, 22], sports: [7, 23], mountain: [8, 8] },
+};
+
+const cache = new Map<number, Map<string, string>>();
+
+/**
+ * Japanese public holidays of a year ("YYYY-MM-DD" → English name).
+ */
+export function japaneseHolidays(year: number): Map<string, string> {
+  const cached = cache.get(year);
+  if (cached) return cached;
+
+  const y = year;
+  const shift = OLYMPIC_SHIFTS[y];
+  const [marineM, marineD] = shift?.marine ?? [7, nthMonday(y, 7, 3)];
+  const [sportsM, sportsD] = shift?.sports ?? [10, nthMonday(y, 10, 2)];
+  const [mountainM, mountainD] = shift?.mountain ?? [8, 11];
+
+  // --- Statutory holidays ---
+  const base: Array<[number, number, string]> = [
+    [1, 1, "New Year's Day"],
+    [1, nthMonday(y, 1, 2), "Coming of Age Day"],
+    [2, 11, "National Foundation Day"],
+    [2, 23, "Emperor's Birthday"],
+    [3, equinoxDay(y, 20.8431), "Vernal Equinox Day"],
+    [4, 29, "Showa Day"],
+    [5, 3, "Constitution Memorial Day"],
+    [5, 4, "Greenery Day"],
+    [5, 5, "Children's Day"],
+    [marineM, marineD, "Marine Day"],
+    [mountainM, mountainD, "Mountain Day"],
+    [9, nthMonday(y, 9, 3), "Respect for the Aged Day"],
+    [9, equinoxDay(y, 23.2488), "Autumnal Equinox Day"],
+    [sportsM, sportsD, "Sports Day"],
+    [11, 3, "Culture Day"],
+    [11, 23, "Labor Thanksgiving Day"],
+  ];
+
+  const holidays = new Map<string, string>();
+  for (const [m, d, name] of base) holidays.set(dayKey(y, m, d), name);
+
+  // --- Substitute holiday: a Sunday holiday moves to the next non-holiday ---
+  for (const key of [...holidays.keys()].sort()) {
+    const date = new Date(`${key}T00:00:00Z`);
+    if (date.getUTCDay() !== 0) continue;
+    let next = new Date(date.getTime() + ONE_DAY_MS);
+    while (holidays.has(next.toISOString().slice(0, 10))) {
+      next = new Date(next.getTime() + ONE_DAY_MS);
+    }
+    holidays.set(next.toISOString().slice(0, 10), "Substitute Holiday");
+  }
+
+  // --- Citizens' holiday: a weekday sandwiched between two holidays ---
+  for (const key of [...holidays.keys()]) {
+    const gap = new Date(new Date(`${key}T00:00:00Z`).getTime() + ONE_DAY_MS);
+    const gapKey = gap.toISOString().slice(0, 10);
+    const after = new Date(gap.getTime() + ONE_DAY_MS)
+      .toISOString()
+      .slice(0, 10);
+    if (!holidays.has(gapKey) && holidays.has(after) && gap.getUTCDay() !== 0) {
+      holidays.set(gapKey, "Citizens' Holiday");
+    }
+  }
+
+  cache.set(year, holidays);
+  return holidays;
+}
@@ -0,0 +1,85 @@
+// -----------------------------------------------------------------------------
+// Load business-day calendars from Firestore (calendars/{id} + holidays/*).
+// - "jp" falls back to the built-in Japanese calendar while no doc exists
+// - Unknown calendar IDs fall back to the default calendar
+// - Uses a short-lived in-memory cache (utils/ttlCache.ts) to avoid reads on
+//   every webhook call
+// -----------------------------------------------------------------------------
+
+import { db } from "../firebase.js";
+import {
+  DEFAULT_CALENDAR_DEF,
+  DEFAULT_CALENDAR_ID,
+  JP_CALENDAR,
+  buildCalendar,
+  type BusinessCalendar,
+} from "./businessCalendar.js";
+import type {
+  CalendarDef,
+  CalendarDoc,
+  CalendarHolidayDoc,
+} from "../../types/calendar.js";
+import { createKeyedCachedLoader } from "../../utils/ttlCache.js";
+
+/** Firestore collection name for calendars. */
+export const CALENDARS_COLLECTION = "calendars";
+
+/** Calendar definition from Firestore (built-in default for "jp"), or null. */
+export async function loadCalendarDef(
+  calendarId: string,
+): Promise<CalendarDef | null> {
+  const snap = await db.collection(CALENDARS_COLLECTION).doc(calendarId).get();
+  if (snap.exists) {
+    const doc = snap.data() as CalendarDoc;
+    return {
+      calendarId,
+      name: doc.name,
+      publicHolidays: doc.publicHolidays,
+      weekendDays: doc.weekendDays,
+    };
+  }
+  return calendarId === DEFAULT_CALENDAR_ID ? DEFAULT_CALENDAR_DEF : null;
+}
+
+const cache = createKeyedCachedLoader<string, BusinessCalendar>({
+  tag: "calendar",
+  load: async (calendarId) => {
+    const def = await loadCalendarDef(calendarId);
+    if (!def) {
+      console.warn(
+        `[calendar] unknown calendar "${calendarId}"; using default`,
+      );
+      return loadCalendar(DEFAULT_CALENDAR_ID);
+    }
+
+    const holidaysSnap = await db
+      .collection(CALENDARS_COLLECTION)
+      .doc(calendarId)
+      .collection("holidays")
+      .get();
+    const companyHolidays = new Map(
+      holidaysSnap.docs.map((d) => {
+        const h = d.data() as CalendarHolidayDoc;
+        return [d.id, h.name] as const;
+      }),
+    );
+
+    return buildCalendar(def, companyHolidays);
+  },
+  fallback: () => JP_CALENDAR,
+});
+
+/**
+ * Returns the calendar with its company holidays.
+ * - Firestore errors are non-fatal: the last cached (or built-in) calendar is used.
+ */
+export async function loadCalendar(
+  calendarId: string = DEFAULT_CALENDAR_ID,
+): Promise<BusinessCalendar> {
+  return cache.get(calendarId);
+}
+
+/** Expire cached calendars (call after admin writes; this instance only). */
+export function clearCalendarCache(): void {
+  cache.clear();
+}
@@ -0,0 +1,84 @@
+// -----------------------------------------------------------------------------
+// Scheduling profile of a reminder recipient: time zone + business-day
+// calendar + working hours + template locale (from PersonDoc).
+// - Recipients with the same profile share one schedule (and one set of jobs)
+// - Invalid settings fall back to the defaults (JST, "jp", no working hours,
+//   template default locale)
+// -----------------------------------------------------------------------------
+
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "../../utils/time.js";
+import { DEFAULT_CALENDAR_ID } from "./businessCalendar.js";
+import { NOTIFICATION_LOCALES } from "../../types/notificationTemplate.js";
+import type { NotificationLocale } from "../../types/notificationTemplate.js";
+import type { PersonDoc, WorkingHours } from "../../types/person.js";
+
+export type SchedulingProfile = {
+  key: string; // group key, e.g. "Asia/Kolkata|in|10-19|en" ("-" = not set)
+  timeZone: string; // IANA zone
+  calendarId: string; // calendars/{calendarId}
+  workingHours: WorkingHours | null;
+  locale: NotificationLocale | null; // null → template's defaultLocale
+};
+
+/** Working hours when well-formed (0 ≤ start < end ≤ 24), else null. */
+function validWorkingHours(wh: WorkingHours | undefined): WorkingHours | null {
+  if (!wh) return null;
+  const { startHour, endHour } = wh;
+  const ok =
+    Number.isInteger(startHour) &&
+    Number.isInteger(endHour) &&
+    startHour >= 0 &&
+    startHour < endHour &&
+    endHour <= 24;
+  return ok ? { startHour, endHour } : null;
+}
+
+/** Profile of one person (undefined → defaults). */
+export function profileOf(person?: PersonDoc): SchedulingProfile {
+  let timeZone = person?.timezone ?? DEFAULT_TIME_ZONE;
+  if (!isValidTimeZone(timeZone)) {
+    console.warn(
+      `[schedule] invalid timezone "${timeZone}" for ${person?.personId}; using ${DEFAULT_TIME_ZONE}`,
+    );
+    timeZone = DEFAULT_TIME_ZONE;
+  }
+  const calendarId = person?.calendarId ?? DEFAULT_CALENDAR_ID;
+  const workingHours = validWorkingHours(person?.workingHours);
+  const locale =
+    person?.locale && NOTIFICATION_LOCALES.includes(person.locale)
+      ? person.locale
+      : null;
+
+  const wh = workingHours
+    ? `${workingHours.startHour}-${workingHours.endHour}`
+    : "-";
+  return {
+    key: `${timeZone}|${calendarId}|${wh}|${locale ?? "-"}`,
+    timeZone,
+    calendarId,
+    workingHours,
+    locale,
+  };
+}
+
+/**
+ * Group people by scheduling profile (first-seen order).
+ * - No people → one default group with no people (Slack-only job, as before)
+ */
+export function groupPeopleByProfile(
+  people: PersonDoc[],
+): Array<{ profile: SchedulingProfile; people: PersonDoc[] }> {
+  if (!people.length) return [{ profile: profileOf(), people: [] }];
+
+  const groups = new Map<
+    string,
+    { profile: SchedulingProfile; people: PersonDoc[] }
+  >();
+  for (const person of people) {
+    const profile = profileOf(person);
+    const group = groups.get(profile.key);
+    if (group) group.people.push(person);
+    else groups.set(profile.key, { profile, people: [person] });
+  }
+  return [...groups.values()];
+}
@@ -0,0 +1,277 @@
+// -----------------------------------------------------------------------------
+// Approval flow for bots added by external users (chatApprovals/{chatId}).
+// - requestChatApproval: record the chat as "pending", schedule the timeout
+//   task (POST /tasks/chat-approvals at the end of BOT_APPROVAL_WINDOW_HOURS)
+//   and then post Approve / Reject buttons to the ops alerts channel
+// - abandonChatApproval: the request could not be completed (the webhook
+//   leaves the chat instead) → close it so it never silences the chat
+// - While pending the bot stays silent (see isAwaitingApproval)
+// - decideChatApproval: approve → normal first-time setup (or reactivation of
+//   a known chat); reject → leave the chat
+// - expireChatApproval: no decision in time → leave the chat
+// -----------------------------------------------------------------------------
+
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import { db } from "../firebase.js";
+import { enqueueTask } from "../taskQueue/index.js";
+import { postOpsAlert } from "../slack/postAlert.js";
+import { buildChatApprovalBlocks } from "../slack/chatApprovalBlocks.js";
+import { leaveChat } from "../telegram/leaveChat.js";
+import { DEFAULT_BOT_KEY } from "../telegram/bots.js";
+import { detectMessageType } from "../telegram/messageType.js";
+import { generateSummary } from "../telegram/summary.js";
+import { setupNewChat } from "../telegram/setupNewChat.js";
+import { formatJST } from "../../utils/time.js";
+import type {
+  ChatApprovalDoc,
+  ChatApprovalStatus,
+} from "../../types/chatApproval.js";
+
+/** Firestore collection name for approval requests. */
+export const CHAT_APPROVALS_COLLECTION = "chatApprovals";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type ChatApprovalDecision = "approve" | "reject";
+
+export type ChatApprovalOutcome =
+  | { ok: true; status: ChatApprovalStatus; title: string }
+  | {
+      ok: false;
+      reason: "not_found" | "already_decided" | "not_expired";
+      status?: string;
+    };
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/** Approval window (BOT_APPROVAL_WINDOW_HOURS, default 24h). */
+function approvalWindowMs(): number {
+  const hours = Number(process.env.BOT_APPROVAL_WINDOW_HOURS || "24");
+  return (Number.isFinite(hours) && hours > 0 ? hours : 24) * 3600_000;
+}
+
+/**
+ * Move a pending request to a final status (transactional; first decision
+ * wins).
+ */
+async function closeApproval(
+  chatId: string,
+  status: Exclude<ChatApprovalStatus, "pending">,
+  decidedBy: string,
+  opts: { onlyIfExpired?: boolean } = {},
+): Promise<ChatApprovalOutcome & { approval?: ChatApprovalDoc }> {
+  const ref = db.collection(CHAT_APPROVALS_COLLECTION).doc(chatId);
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const approval = snap.data() as ChatApprovalDoc | undefined;
+    if (!approval) return { ok: false, reason: "not_found" };
+    if (approval.status !== "pending") {
+      return { ok: false, reason: "already_decided", status: approval.status };
+    }
+    const now = Timestamp.now();
+    if (opts.onlyIfExpired && approval.expiresAt.toMillis() > now.toMillis()) {
+      return { ok: false, reason: "not_expired", status: "pending" };
+    }
+    tx.update(ref, { status, decidedAt: now, decidedBy });
+    return { ok: true, status, title: approval.title, approval };
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+/**
+ * Record a pending approval for a chat the bot was added to by an external
+ * user, schedule the timeout and notify ops. A request that is already
+ * pending is left as-is.
+ * - The timeout is scheduled before the Slack buttons are posted, so no
+ *   actionable request exists without a timeout
+ *
+ * @throws when recording or scheduling fails (the caller then leaves the chat
+ *         and calls abandonChatApproval)
+ *
+ * @param msg        Telegram `message` of the bot-join
+ * @param fromLabel  Human-readable label of the user who added the bot
+ * @param botKey     Bot that was added (lib/telegram/bots.ts)
+ */
+export async function requestChatApproval(
+  msg: any,
+  fromLabel: string,
+  botKey: string,
+): Promise<void> {
+  const chatId = String(msg.chat.id);
+  const ref = db.collection(CHAT_APPROVALS_COLLECTION).doc(chatId);
+  const current = (await ref.get()).data() as ChatApprovalDoc | undefined;
+  if (current?.status === "pending") {
+    console.log(`[approvals] ${chatId} already pending; skipped`);
+    return;
+  }
+
+  const now = Timestamp.now();
+  const expiresAt = Timestamp.fromMillis(now.toMillis() + approvalWindowMs());
+  const title = (msg.chat?.title ?? "").trim() || "(no title)";
+  await ref.set({
+    chatId,
+    title,
+    chatType: msg.chat?.type ?? "",
+    botKey,
+    status: "pending",
+    addedBy: { tgUserId: String(msg.from?.id ?? ""), label: fromLabel },
+    joinMessage: msg,
+    requestedAt: now,
+    expiresAt,
+    decidedAt: null,
+    decidedBy: null,
+  } satisfies ChatApprovalDoc);
+
+  // --- Timeout (named per request → idempotent) ---
+  await enqueueTask({
+    url: `${process.env.PUBLIC_BASE_URL}/tasks/chat-approvals`,
+    payload: { chatId },
+    scheduledAt: expiresAt,
+    taskName: `approval-${chatId.replace(/[^A-Za-z0-9_-]/g, "_")}-${now.toMillis()}`,
+  });
+
+  // --- Ops notification with Approve / Reject (best-effort) ---
+  const text = [
+    "🛂 Bot was added by an external user — approval needed.",
+    `• Title: *${title}*`,
+    `• Chat ID: \`${chatId}\``,
+    `• At: ${formatJST(now)}`,
+    `• Added by: ${fromLabel}`,
+    `The bot stays silent until approved; it leaves the chat at ${formatJST(expiresAt)} if nobody decides.`,
+  ].join("\n");
+  try {
+    await postOpsAlert(text, buildChatApprovalBlocks(text, chatId));
+  } catch (err) {
+    console.warn(`[approvals] Slack request for ${chatId} failed:`, err);
+  }
+  console.log(`[approvals] ${chatId} pending until ${formatJST(expiresAt)}`);
+}
+
+/**
+ * Close a request whose setup failed (status "rejected", by
+ * "system:request_failed"); the webhook leaves the chat and posts its own
+ * notice. Buttons of an already posted request then answer "Already decided".
+ * Non-throwing.
+ */
+export async function abandonChatApproval(chatId: string): Promise<void> {
+  try {
+    const result = await closeApproval(
+      chatId,
+      "rejected",
+      "system:request_failed",
+    );
+    if (result.ok) console.log(`[approvals] ${chatId} abandoned`);
+  } catch (err) {
+    console.warn(`[approvals] could not close ${chatId}:`, err);
+  }
+}
+
+/**
+ * True while the chat waits for approval (the webhook stays silent). When the
+ * bot is removed meanwhile, the request is closed as "removed".
+ */
+export async function isAwaitingApproval(
+  chatId: string,
+  botRemoved: boolean,
+): Promise<boolean> {
+  const snap = await db.collection(CHAT_APPROVALS_COLLECTION).doc(chatId).get();
+  if ((snap.data() as ChatApprovalDoc | undefined)?.status !== "pending") {
+    return false;
+  }
+  if (botRemoved) {
+    await closeApproval(chatId, "removed", "telegram:bot_removed");
+    console.log(`[approvals] ${chatId} bot removed while pending`);
+  }
+  return true;
+}
+
+/**
+ * Approve or reject a pending request.
+ * - approve: first-time setup from the stored bot-join message, or
+ *   reactivation when the chat is already known (bot re-added)
+ * - reject: the bot leaves the chat
+ *
+ * @param actor       e.g. "slack:U0123"
+ * @param slackUserId Approver shown in the "new chat" notice
+ */
+export async function decideChatApproval(
+  chatId: string,
+  decision: ChatApprovalDecision,
+  actor: string,
+  slackUserId: string | null = null,
+): Promise<ChatApprovalOutcome> {
+  const result = await closeApproval(
+    chatId,
+    decision === "approve" ? "approved" : "rejected",
+    actor,
+  );
+  if (!result.ok || !result.approval) return result;
+  const { approval, ...outcome } = result;
+  const botKey = approval.botKey ?? DEFAULT_BOT_KEY;
+
+  if (decision === "reject") {
+    await leaveChat(chatId, botKey);
+  } else {
+    const msg = approval.joinMessage;
+    const type = detectMessageType(msg);
+    const sentAt = Timestamp.fromMillis((msg.date ?? 0) * 1000);
+    const chatRef = db.collection("tg_chats").doc(chatId);
+    if (!(await chatRef.get()).exists) {
+      await setupNewChat({
+        msg,
+        botKey,
+        type,
+        summary: generateSummary(msg, type),
+        sentAt,
+        botActivityHistoryEntry: {
+          status: "active",
+          ts: sentAt,
+          reason: "bot_joined",
+        },
+        approvedBy: slackUserId,
+      });
+    } else {
+      await chatRef.update({
+        status: "active",
+        botKey,
+        botActivityHistory: FieldValue.arrayUnion({
+          status: "active",
+          ts: sentAt,
+          reason: "bot_joined",
+        }),
+      });
+    }
+  }
+  console.log(`[approvals] ${chatId} ${result.status} (by ${actor})`);
+  return outcome;
+}
+
+/**
+ * Close a request that is still pending after its window; the bot leaves.
+ *
+ * @returns true when the request expired now
+ */
+export async function expireChatApproval(chatId: string): Promise<boolean> {
+  const result = await closeApproval(chatId, "expired", "system:timeout", {
+    onlyIfExpired: true,
+  });
+  if (!result.ok) return false;
+
+  await leaveChat(chatId, result.approval?.botKey);
+  try {
+    await postOpsAlert(
+      `⌛ No decision on *${result.title}* (\`${chatId}\`) — the bot left the chat.`,
+    );
+  } catch (err) {
+    console.warn(`[approvals] expiry notice for ${chatId} failed:`, err);
+  }
+  console.log(`[approvals] ${chatId} expired`);
+  return true;
+}
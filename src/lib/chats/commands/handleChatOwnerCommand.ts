@@ -0,0 +1,139 @@
+// -----------------------------------------------------------------------------
+// Command handler for chat ownership (tg_chats/{chatId}.ownership).
+//
+// Supported actions:
+//   - "get": Owner and co-owners of `chatId` (with display names)
+//   - "set": Reassign `chatId` to `ownerPersonId` (null = no owner) with
+//            optional `coOwnerPersonIds`
+//
+// Notes:
+//   - Owners are people/{personId} docs; follow-up reminders, stale-chat
+//     alerts and weekly reports of the chat are routed to them.
+//   - The owner is auto-assigned to the member who added the bot; "set"
+//     overrides it (source "manual").
+//   - `actor` is required for "set" and stored on ownership.updatedBy.
+// -----------------------------------------------------------------------------
+
+import { Request, Response } from "express";
+import { db } from "../../firebase.js";
+import { loadPeople, ownerPersonIds, setChatOwnership } from "../ownership.js";
+import { formatJST } from "../../../utils/time.js";
+import type { ChatRoomDoc } from "../../../types/chat.js";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+type ChatOwnerRequestBody = {
+  action?: "get" | "set";
+  chatId?: string;
+  ownerPersonId?: string | null;
+  coOwnerPersonIds?: string[];
+  actor?: string;
+};
+
+// -----------------------------------------------------------------------------
+// Handler
+// -----------------------------------------------------------------------------
+
+export async function handleChatOwnerCommand(req: Request, res: Response) {
+  try {
+    const {
+      action = "get",
+      chatId,
+      ownerPersonId,
+      coOwnerPersonIds = [],
+      actor,
+    } = (req.body ?? {}) as ChatOwnerRequestBody;
+    if (!chatId) return res.status(400).json({ error: "Missing 'chatId'." });
+
+    // -----------------------------------------------------------------------
+    // 1) GET
+    // -----------------------------------------------------------------------
+    if (action === "get") {
+      const snap = await db.collection("tg_chats").doc(chatId).get();
+      if (!snap.exists) {
+        return res.status(404).json({ error: `Chat not found: ${chatId}` });
+      }
+      const chat = snap.data() as ChatRoomDoc;
+      const o = chat.ownership;
+      const names = new Map(
+        (await loadPeople(ownerPersonIds(chat))).map((p) => [
+          p.personId,
+          p.displayName,
+        ]),
+      );
+      return res.status(200).json({
+        chatId,
+        ownerPersonId: o?.ownerPersonId ?? null,
+        ownerName: o?.ownerPersonId
+          ? (names.get(o.ownerPersonId) ?? null)
+          : null,
+        coOwners: (o?.coOwnerPersonIds ?? []).map((id) => ({
+          personId: id,
+          name: names.get(id) ?? null,
+        })),
+        source: o?.source ?? null,
+        updatedAtJST: o?.updatedAt ? formatJST(o.updatedAt) : null,
+        updatedBy: o?.updatedBy ?? null,
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // 2) SET
+    // -----------------------------------------------------------------------
+    if (action === "set") {
+      if (ownerPersonId === undefined) {
+        return res
+          .status(400)
+          .json({ error: "Missing 'ownerPersonId' (null = no owner)." });
+      }
+      if (ownerPersonId !== null && typeof ownerPersonId !== "string") {
+        return res
+          .status(400)
+          .json({ error: "'ownerPersonId' must be a string or null." });
+      }
+      if (
+        !Array.isArray(coOwnerPersonIds) ||
+        coOwnerPersonIds.some((id) => typeof id !== "string" || !id)
+      ) {
+        return res
+          .status(400)
+          .json({ error: "'coOwnerPersonIds' must be an array of strings." });
+      }
+      if (!actor || typeof actor !== "string" || !actor.trim()) {
+        return res.status(400).json({ error: "Missing 'actor'." });
+      }
+
+      try {
+        const ownership = await setChatOwnership({
+          chatId,
+          ownerPersonId,
+          coOwnerPersonIds,
+          actor,
+        });
+        return res.status(200).json({
+          message: "Chat ownership updated.",
+          chatId,
+          ownerPersonId: ownership.ownerPersonId,
+          coOwnerPersonIds: ownership.coOwnerPersonIds,
+        });
+      } catch (err: any) {
+        return res.status(404).json({ error: err?.message ?? String(err) });
+      }
+    }
+
+    // -----------------------------------------------------------------------
+    // Unsupported action
+    // -----------------------------------------------------------------------
+    return res
+      .status(400)
+      .json({ error: `Unsupported action: ${String(action)}` });
+  } catch (error: any) {
+    console.error("[handleChatOwnerCommand] Error:", error);
+    return res.status(500).json({
+      error: "Failed to process chat owner command.",
+      details: error?.message ?? String(error),
+    });
+  }
+}
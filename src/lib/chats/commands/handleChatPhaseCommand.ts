@@ -0,0 +1,139 @@
+// -----------------------------------------------------------------------------
+// Command handler for explicit chat phase changes (tg_chats/{chatId}.phase).
+//
+// Supported actions:
+//   - "get": Current phase of `chatId` (incl. override reason / actor)
+//   - "set": Set `phase` (stage ID or name in the chat's pipeline) of
+//            `chatId` with a `reason` code (+ optional `note`)
+//
+// Notes:
+//   - Any phase can be set, backwards too (e.g. reason "false_positive").
+//   - Outcome stages (e.g. Won / Lost / OnHold) cancel pending follow-ups;
+//     `disableWeeklyReport: true` also turns off the chat's weekly report.
+//   - `actor` is required for "set" and stored on phase.override.
+// -----------------------------------------------------------------------------
+
+import { Request, Response } from "express";
+import { db } from "../../firebase.js";
+import {
+  resolveManualStage,
+  setChatPhase,
+} from "../../telegram/setChatPhase.js";
+import { loadPipeline } from "../../pipelines/loadPipelines.js";
+import { isManualStage, stageName } from "../../pipelines/stages.js";
+import { formatJST } from "../../../utils/time.js";
+import {
+  PHASE_CHANGE_REASONS,
+  type ChatPhase,
+  type ChatRoomDoc,
+  type PhaseChangeReason,
+} from "../../../types/chat.js";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+type ChatPhaseRequestBody = {
+  action?: "get" | "set";
+  chatId?: string;
+  phase?: ChatPhase;
+  reason?: PhaseChangeReason;
+  note?: string;
+  disableWeeklyReport?: boolean;
+  actor?: string;
+};
+
+// -----------------------------------------------------------------------------
+// Handler
+// -----------------------------------------------------------------------------
+
+export async function handleChatPhaseCommand(req: Request, res: Response) {
+  try {
+    const {
+      action = "get",
+      chatId,
+      phase,
+      reason,
+      note,
+      disableWeeklyReport = false,
+      actor,
+    } = (req.body ?? {}) as ChatPhaseRequestBody;
+    if (!chatId) return res.status(400).json({ error: "Missing 'chatId'." });
+
+    // -----------------------------------------------------------------------
+    // 1) GET
+    // -----------------------------------------------------------------------
+    if (action === "get") {
+      const snap = await db.collection("tg_chats").doc(chatId).get();
+      if (!snap.exists) {
+        return res.status(404).json({ error: `Chat not found: ${chatId}` });
+      }
+      const chat = snap.data() as ChatRoomDoc;
+      const curr = chat.phase;
+      const pipeline = await loadPipeline(chat.pipelineId);
+      return res.status(200).json({
+        chatId,
+        pipelineId: pipeline.pipelineId,
+        phase: curr?.value ?? null,
+        phaseName: curr?.value ? stageName(pipeline, curr.value) : null,
+        since: curr?.ts ? curr.ts.toDate().toISOString() : null,
+        sinceJST: curr?.ts ? formatJST(curr.ts) : null,
+        messageId: curr?.messageId || null,
+        override: curr?.override ?? null,
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // 2) SET
+    // -----------------------------------------------------------------------
+    if (action === "set") {
+      if (!reason || !PHASE_CHANGE_REASONS.includes(reason)) {
+        return res.status(400).json({
+          error: `reason must be one of [${PHASE_CHANGE_REASONS}]`,
+        });
+      }
+      if (typeof actor !== "string" || !actor.trim()) {
+        return res.status(400).json({ error: "Missing 'actor'." });
+      }
+      const snap = await db.collection("tg_chats").doc(chatId).get();
+      if (!snap.exists) {
+        return res.status(404).json({ error: `Chat not found: ${chatId}` });
+      }
+      const { pipeline, stage } = await resolveManualStage(
+        snap.data() as ChatRoomDoc,
+        String(phase ?? ""),
+      );
+      if (!stage) {
+        const allowed = pipeline.stages
+          .filter((s) => isManualStage(pipeline, s.stageId))
+          .map((s) => s.stageId);
+        return res.status(400).json({
+          error: `phase must be one of [${allowed}] (pipeline ${pipeline.pipelineId})`,
+        });
+      }
+
+      const result = await setChatPhase({
+        chatId,
+        phase: stage.stageId,
+        reason,
+        note: typeof note === "string" ? note : null,
+        actor: `api:${actor.trim()}`,
+        disableWeeklyReport: disableWeeklyReport === true,
+      });
+      return res.status(200).json({ message: "Phase updated.", ...result });
+    }
+
+    // -----------------------------------------------------------------------
+    // Unsupported action
+    // -----------------------------------------------------------------------
+    return res
+      .status(400)
+      .json({ error: `Unsupported action: ${String(action)}` });
+  } catch (error: any) {
+    console.error("[handleChatPhaseCommand] Error:", error);
+    return res.status(500).json({
+      error: "Failed to process chat phase command.",
+      details: error?.message ?? String(error),
+    });
+  }
+}
@@ -0,0 +1,72 @@
+// -----------------------------------------------------------------------------
+// Command handler for funnel analytics (tg_chats/*/phaseHistory).
+//
+// Request body (all optional):
+//   - pipelineId:            Pipeline to analyse (default "default"); only
+//                            chats assigned to it are counted
+//   - cohortFrom / cohortTo: Limit to chats whose bot was added in these
+//                            months ("YYYY-MM", JST, inclusive)
+//
+// Returns stage conversion rates, median / p90 time in each phase and a
+// cohort breakdown by the month the bot was added (see lib/chats/funnel.ts).
+// -----------------------------------------------------------------------------
+
+import { Request, Response } from "express";
+import { computeFunnelAnalytics } from "../funnel.js";
+import { loadPipelines } from "../../pipelines/loadPipelines.js";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+type FunnelRequestBody = {
+  pipelineId?: string;
+  cohortFrom?: string;
+  cohortTo?: string;
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+const MONTH_RE = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// -----------------------------------------------------------------------------
+// Handler
+// -----------------------------------------------------------------------------
+
+export async function handleFunnelCommand(req: Request, res: Response) {
+  try {
+    const { pipelineId, cohortFrom, cohortTo } = (req.body ??
+      {}) as FunnelRequestBody;
+    for (const [name, v] of Object.entries({ cohortFrom, cohortTo })) {
+      if (v !== undefined && !MONTH_RE.test(String(v))) {
+        return res.status(400).json({ error: `'${name}' must be "YYYY-MM".` });
+      }
+    }
+
+    if (pipelineId !== undefined) {
+      const known = (await loadPipelines()).some(
+        (p) => p.pipelineId === pipelineId,
+      );
+      if (!known) {
+        return res
+          .status(404)
+          .json({ error: `Pipeline not found: ${String(pipelineId)}` });
+      }
+    }
+
+    const funnel = await computeFunnelAnalytics({
+      ...(pipelineId ? { pipelineId } : {}),
+      ...(cohortFrom ? { cohortFrom } : {}),
+      ...(cohortTo ? { cohortTo } : {}),
+    });
+    return res.status(200).json(funnel);
+  } catch (error: any) {
+    console.error("[handleFunnelCommand] Error:", error);
+    return res.status(500).json({
+      error: "Failed to compute funnel analytics.",
+      details: error?.message ?? String(error),
+    });
+  }
+}
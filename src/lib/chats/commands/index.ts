@@ -0,0 +1,3 @@
+export { handleChatPhaseCommand } from "./handleChatPhaseCommand.js";
+export { handleChatOwnerCommand } from "./handleChatOwnerCommand.js";
+export { handleFunnelCommand } from "./handleFunnelCommand.js";
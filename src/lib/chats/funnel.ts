@@ -0,0 +1,228 @@
+// -----------------------------------------------------------------------------
+// Funnel analytics from phase transitions (tg_chats/{chatId}/phaseHistory).
+// - One pipeline at a time: its regular stages in order, then its "won"
+//   outcome (default: BotAdded → … → InvoiceSent → Won)
+// - Reached: a chat has reached a stage when its furthest phase is at or past
+//   it; the other outcomes (OnHold / Lost) do not move it
+// - Conversion: reached(next stage) / reached(stage)
+// - Time in phase: median / p90 of completed stays (entry → next change)
+// - Cohorts: by the month (JST) the bot was first added to the chat
+//
+// Notes:
+// - Private (1:1) chats are excluded.
+// - Chats without history (created before phaseHistory existed) count by
+//   their current phase and add no time-in-phase samples.
+// - A manual change with reason "false_positive" undoes the stay it corrects:
+//   that phase is not counted as reached and its duration is dropped.
+// -----------------------------------------------------------------------------
+
+import { db } from "../firebase.js";
+import { loadPipeline } from "../pipelines/loadPipelines.js";
+import { funnelStages, stageRank } from "../pipelines/stages.js";
+import { DEFAULT_PIPELINE_ID } from "../pipelines/defaultPipeline.js";
+import { percentile, ratio } from "../../utils/stats.js";
+import type {
+  ChatPhase,
+  ChatRoomDoc,
+  PhaseHistoryDoc,
+} from "../../types/chat.js";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type FunnelStage = {
+  phase: ChatPhase;
+  name: string; // stage display name
+  reached: number; // chats at or past this stage
+  conversionToNext: number | null; // reached(next) / reached (null for the last)
+};
+
+export type PhaseDuration = {
+  phase: ChatPhase;
+  samples: number; // completed stays
+  medianDays: number | null;
+  p90Days: number | null;
+};
+
+export type FunnelCohort = {
+  month: string; // "YYYY-MM" (JST) of the first bot_joined, or "unknown"
+  chats: number;
+  reached: Partial<Record<ChatPhase, number>>;
+  current: Partial<Record<ChatPhase, number>>; // chats per current phase
+};
+
+export type FunnelAnalytics = {
+  generatedAt: string; // ISO-8601
+  pipelineId: string;
+  chats: number;
+  stages: FunnelStage[];
+  timeInPhase: PhaseDuration[];
+  cohorts: FunnelCohort[]; // oldest first
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+/** Days rounded to 2 decimals. */
+function days(ms: number | null): number | null {
+  return ms === null ? null : Math.round((ms / ONE_DAY_MS) * 100) / 100;
+}
+
+/** Cohort month ("YYYY-MM", JST) of the first bot_joined event. */
+function cohortOf(chat: ChatRoomDoc): string {
+  const joined = (chat.botActivityHistory ?? []).find(
+    (e) => e.reason === "bot_joined",
+  );
+  const ts = joined?.ts ?? chat.botActivityHistory?.[0]?.ts;
+  if (typeof ts?.toMillis !== "function") return "unknown";
+  return new Date(ts.toMillis() + JST_OFFSET_MS).toISOString().slice(0, 7);
+}
+
+/**
+ * Walk one chat's history (oldest first).
+ *
+ * @param stages  Funnel stage IDs in order
+ * @returns furthest funnel stage index and completed stays per phase
+ */
+function walkHistory(
+  stages: readonly ChatPhase[],
+  current: ChatPhase | null,
+  entries: PhaseHistoryDoc[],
+): { furthest: number; stays: Array<{ phase: ChatPhase; ms: number }> } {
+  const reached: ChatPhase[] = [];
+  const stays: Array<{ phase: ChatPhase; ms: number }> = [];
+
+  entries.forEach((e, i) => {
+    const next = entries[i + 1];
+    if (e.source === "manual" && e.reason === "false_positive") {
+      const undo = reached.lastIndexOf(e.from as ChatPhase);
+      if (undo >= 0) reached.splice(undo, 1);
+      stays.pop(); // the stay this change ended was not real
+    }
+    reached.push(e.to);
+    if (next)
+      stays.push({ phase: e.to, ms: next.ts.toMillis() - e.ts.toMillis() });
+  });
+  if (!entries.length && current) reached.push(current);
+
+  const furthest = Math.max(-1, ...reached.map((p) => stages.indexOf(p)));
+  return { furthest, stays };
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+/**
+ * Compute funnel analytics over the chats of one pipeline (or one cohort
+ * range of them).
+ *
+ * @param opts.pipelineId  Pipeline to analyse (default "default")
+ * @param opts.cohortFrom  First cohort month to include ("YYYY-MM")
+ * @param opts.cohortTo    Last cohort month to include ("YYYY-MM")
+ */
+export async function computeFunnelAnalytics(
+  opts: { pipelineId?: string; cohortFrom?: string; cohortTo?: string } = {},
+): Promise<FunnelAnalytics> {
+  const [chatSnap, historySnap, pipeline] = await Promise.all([
+    db.collection("tg_chats").get(),
+    db.collectionGroup("phaseHistory").get(),
+    loadPipeline(opts.pipelineId),
+  ]);
+  const funnel = funnelStages(pipeline);
+  const stageIds = funnel.map((s) => s.stageId);
+
+  // --- History per chat (oldest first) ---
+  const historyByChat = new Map<string, PhaseHistoryDoc[]>();
+  for (const d of historySnap.docs) {
+    const h = d.data() as PhaseHistoryDoc;
+    const chatId = d.ref.parent.parent?.id ?? h.chatId;
+    historyByChat.set(chatId, [...(historyByChat.get(chatId) ?? []), h]);
+  }
+  for (const list of historyByChat.values()) {
+    list.sort((a, b) => a.ts.toMillis() - b.ts.toMillis());
+  }
+
+  // --- Per chat: furthest stage, stays, cohort ---
+  const reachedCounts = stageIds.map(() => 0);
+  const staysByPhase = new Map<ChatPhase, number[]>();
+  const cohorts = new Map<string, FunnelCohort>();
+  let chats = 0;
+
+  for (const d of chatSnap.docs) {
+    const chat = d.data() as ChatRoomDoc;
+    if (chat.chatType === "private") continue;
+    if ((chat.pipelineId || DEFAULT_PIPELINE_ID) !== pipeline.pipelineId) {
+      continue;
+    }
+    const month = cohortOf(chat);
+    if (opts.cohortFrom && month < opts.cohortFrom) continue;
+    if (opts.cohortTo && month > opts.cohortTo) continue;
+    chats += 1;
+
+    const current = chat.phase?.value ?? null;
+    const { furthest, stays } = walkHistory(
+      stageIds,
+      current,
+      historyByChat.get(d.id) ?? [],
+    );
+    for (let i = 0; i <= furthest; i++) reachedCounts[i]! += 1;
+    for (const s of stays) {
+      staysByPhase.set(s.phase, [...(staysByPhase.get(s.phase) ?? []), s.ms]);
+    }
+
+    const cohort = cohorts.get(month) ?? {
+      month,
+      chats: 0,
+      reached: {},
+      current: {},
+    };
+    cohort.chats += 1;
+    for (let i = 0; i <= furthest; i++) {
+      const stage = stageIds[i]!;
+      cohort.reached[stage] = (cohort.reached[stage] ?? 0) + 1;
+    }
+    if (current) {
+      cohort.current[current] = (cohort.current[current] ?? 0) + 1;
+    }
+    cohorts.set(month, cohort);
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    pipelineId: pipeline.pipelineId,
+    chats,
+    stages: funnel.map((s, i) => ({
+      phase: s.stageId,
+      name: s.name,
+      reached: reachedCounts[i]!,
+      conversionToNext:
+        i + 1 < funnel.length
+          ? ratio(reachedCounts[i + 1]!, reachedCounts[i]!)
+          : null,
+    })),
+    timeInPhase: [...staysByPhase]
+      .sort(
+        ([a], [b]) =>
+          (stageRank(pipeline, a) || Infinity) -
+          (stageRank(pipeline, b) || Infinity),
+      )
+      .map(([phase, ms]) => {
+        const sorted = [...ms].sort((a, b) => a - b);
+        return {
+          phase,
+          samples: sorted.length,
+          medianDays: days(percentile(sorted, 50)),
+          p90Days: days(percentile(sorted, 90)),
+        };
+      }),
+    cohorts: [...cohorts.values()].sort((a, b) =>
+      a.month.localeCompare(b.month),
+    ),
+  };
+}
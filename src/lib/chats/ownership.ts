@@ -0,0 +1,181 @@
+// -----------------------------------------------------------------------------
+// Chat ownership (tg_chats/{chatId}.ownership).
+// - Owner: auto-assigned to the internal member who added the bot (when the
+//   chat has no owner yet); reassigned via POST /api/chats/owner
+// - Co-owners: additional people who receive the chat's reminders and alerts
+// - Follow-up reminders, stale-chat alerts and weekly reports route to the
+//   owners (owner first, then co-owners); see resolveRecipientPeople for the
+//   per-rule fallback to the message sender
+// -----------------------------------------------------------------------------
+
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../firebase.js";
+import type { ChatRoomDoc } from "../../types/chat.js";
+import type { FollowupRecipients } from "../../types/followupRule.js";
+import type { PersonDoc } from "../../types/person.js";
+
+export type SetChatOwnershipInput = {
+  chatId: string;
+  ownerPersonId: string | null;
+  coOwnerPersonIds: string[];
+  actor: string; // e.g. "api:ops@example.com", "tg:123456"
+};
+
+/** Person IDs of a chat's owners (owner first, co-owners after; deduped). */
+export function ownerPersonIds(chat: ChatRoomDoc | undefined): string[] {
+  const o = chat?.ownership;
+  if (!o) return [];
+  return [
+    ...new Set(
+      [o.ownerPersonId, ...(o.coOwnerPersonIds ?? [])].filter(
+        (id): id is string => !!id,
+      ),
+    ),
+  ];
+}
+
+/** people/* docs by ID (missing ones skipped; order kept). */
+export async function loadPeople(personIds: string[]): Promise<PersonDoc[]> {
+  if (!personIds.length) return [];
+  const snaps = await db.getAll(
+    ...personIds.map((id) => db.collection("people").doc(id)),
+  );
+  return snaps
+    .filter((s) => s.exists)
+    .map((s) => ({ ...(s.data() as PersonDoc), personId: s.id }));
+}
+
+/** people/* doc linked to a Telegram user, or null. */
+export async function findPersonByTelegramId(
+  tgUserId: string,
+): Promise<PersonDoc | null> {
+  if (!tgUserId) return null;
+  const snap = await db
+    .collection("people")
+    .where("telegram.userId", "==", tgUserId)
+    .limit(1)
+    .get();
+  const doc = snap.docs[0];
+  return doc ? { ...(doc.data() as PersonDoc), personId: doc.id } : null;
+}
+
+/** Slack user of a person: the enabled link, else the first one. */
+export function slackLinkOf(
+  person: PersonDoc | undefined,
+): NonNullable<PersonDoc["slack"]>[number] | null {
+  const links = person?.slack ?? [];
+  return links.find((l) => l.prefs?.enabled && l.userId) ?? links[0] ?? null;
+}
+
+/**
+ * Slack mentions of a chat's owners (e.g. "<@U01> <@U02>"), or "" when it
+ * has none linked to Slack. Non-throwing.
+ */
+export async function ownerSlackMentions(chatId: string): Promise<string> {
+  try {
+    const snap = await db.collection("tg_chats").doc(chatId).get();
+    const people = await loadPeople(
+      ownerPersonIds(snap.data() as ChatRoomDoc | undefined),
+    );
+    const userIds = people
+      .map((p) => slackLinkOf(p)?.userId)
+      .filter((id): id is string => !!id);
+    return [...new Set(userIds)].map((id) => `<@${id}>`).join(" ");
+  } catch (err) {
+    console.warn(`[ownership] owner lookup failed for ${chatId}:`, err);
+    return "";
+  }
+}
+
+/**
+ * Recipients of a chat's follow-up reminders by routing mode.
+ * - "owners": owner + co-owners, else the sender
+ * - "sender": the sender only
+ * - "owners_and_sender": both (deduped)
+ */
+export async function resolveRecipientPeople(
+  chat: ChatRoomDoc | undefined,
+  senderTgUserId: string,
+  mode: FollowupRecipients = "owners",
+): Promise<PersonDoc[]> {
+  const owners =
+    mode === "sender" ? [] : await loadPeople(ownerPersonIds(chat));
+  if (mode === "owners" && owners.length) return owners;
+
+  const sender = await findPersonByTelegramId(senderTgUserId);
+  if (!sender) return owners;
+  return owners.some((p) => p.personId === sender.personId)
+    ? owners
+    : [...owners, sender];
+}
+
+/**
+ * Assign the chat to the member who added the bot, unless it has an owner.
+ * - Non-throwing: failures are logged (ownership can be set via the API)
+ */
+export async function assignOwnerOnBotAdded(
+  chatId: string,
+  tgUserId: string,
+): Promise<void> {
+  try {
+    const ref = db.collection("tg_chats").doc(chatId);
+    const chat = (await ref.get()).data() as ChatRoomDoc | undefined;
+    if (!chat || chat.ownership?.ownerPersonId) return;
+
+    const person = await findPersonByTelegramId(tgUserId);
+    if (!person) {
+      console.warn(
+        `[ownership] no people/* for tg:${tgUserId}; ${chatId} left without owner`,
+      );
+      return;
+    }
+    await ref.update({
+      ownership: {
+        ownerPersonId: person.personId,
+        coOwnerPersonIds: chat.ownership?.coOwnerPersonIds ?? [],
+        source: "bot_added",
+        updatedAt: Timestamp.now(),
+        updatedBy: `tg:${tgUserId}`,
+      } satisfies NonNullable<ChatRoomDoc["ownership"]>,
+    });
+    console.log(`[ownership] ${chatId} owner → ${person.personId} (bot added)`);
+  } catch (err) {
+    console.warn(`[ownership] auto-assign failed for ${chatId}:`, err);
+  }
+}
+
+/**
+ * Set the owner and co-owners of a chat explicitly.
+ *
+ * @throws when the chat or one of the people does not exist
+ */
+export async function setChatOwnership(
+  input: SetChatOwnershipInput,
+): Promise<NonNullable<ChatRoomDoc["ownership"]>> {
+  const { chatId, ownerPersonId, actor } = input;
+  const ref = db.collection("tg_chats").doc(chatId);
+  if (!(await ref.get()).exists) throw new Error(`Chat not found: ${chatId}`);
+
+  const coOwnerPersonIds = [...new Set(input.coOwnerPersonIds)].filter(
+    (id) => id !== ownerPersonId,
+  );
+  const ids = [ownerPersonId, ...coOwnerPersonIds].filter(
+    (id): id is string => !!id,
+  );
+  const found = new Set((await loadPeople(ids)).map((p) => p.personId));
+  const missing = ids.filter((id) => !found.has(id));
+  if (missing.length) throw new Error(`People not found: ${missing}`);
+
+  const ownership = {
+    ownerPersonId,
+    coOwnerPersonIds,
+    source: "manual" as const,
+    updatedAt: Timestamp.now(),
+    updatedBy: actor,
+  };
+  await ref.update({ ownership });
+  console.log(
+    `[ownership] ${chatId} owner → ${ownerPersonId ?? "(none)"} +${coOwnerPersonIds.length} (by ${actor})`,
+  );
+  return ownership;
+}
@@ -0,0 +1,280 @@
+// -----------------------------------------------------------------------------
+// Stale-chat detector (POST /tasks/stale-chats).
+// - A chat is stale when its stage has `staleAfterBusinessDays` and more
+//   business days than that have passed since its last activity
+//   (the later of lastActiveAt and phase.ts; JP calendar, JST dates)
+// - One consolidated Slack message per owner with the last message preview of
+//   each chat. Owners are the chat's owner + co-owners (tg_chats/{chatId}
+//   .ownership), else the deal owner (deals/{chatId}.ownerPersonId); chats
+//   without an owner (or whose owners have no Slack link) go to the ops
+//   alerts channel
+// - Snoozed chats (tg_chats/{chatId}.staleAlert) are skipped until the snooze
+//   ends or the phase changes
+// -----------------------------------------------------------------------------
+
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../firebase.js";
+import { loadCalendar } from "../calendar/loadCalendar.js";
+import { loadDealsByChat } from "../deals/deals.js";
+import { loadPipelines } from "../pipelines/loadPipelines.js";
+import { DEFAULT_PIPELINE_ID } from "../pipelines/defaultPipeline.js";
+import { findStage } from "../pipelines/stages.js";
+import { postOpsAlert, postSlackMessage } from "../slack/postAlert.js";
+import { buildStaleChatBlocks } from "../slack/staleChatBlocks.js";
+import { ownerPersonIds, slackLinkOf } from "./ownership.js";
+import { businessDaysBetween, formatJST } from "../../utils/time.js";
+import type { ChatPhase, ChatRoomDoc } from "../../types/chat.js";
+import type { PersonDoc } from "../../types/person.js";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type StaleChat = {
+  chatId: string;
+  title: string;
+  phase: ChatPhase;
+  phaseName: string;
+  idleBusinessDays: number; // business days since the last activity
+  thresholdBusinessDays: number;
+  lastActivityAt: Timestamp;
+  latestSummary: string; // latestMessage.summary
+  ownerPersonIds: string[]; // chat owner + co-owners, else the deal owner
+};
+
+export type StaleChatAlertResult = {
+  stale: number; // stale chats found (snoozed ones excluded)
+  snoozed: number; // stale but snoozed
+  messages: number; // Slack messages posted
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/** Chats listed one by one per message (Slack allows 50 blocks). */
+const MAX_CHATS_PER_MESSAGE = 20;
+
+/** True while the chat's snooze applies (same phase, not expired). */
+export function isStaleSnoozed(chat: ChatRoomDoc, now: number): boolean {
+  const s = chat.staleAlert;
+  if (!s?.snoozedPhase || s.snoozedPhase !== chat.phase?.value) return false;
+  return !s.snoozedUntil || s.snoozedUntil.toMillis() > now;
+}
+
+/** One alert line per chat. */
+function chatLine(c: StaleChat): string {
+  const preview = c.latestSummary.replace(/\s+/g, " ").slice(0, 140);
+  return [
+    `*${c.title || c.chatId}* — ${c.phaseName}, idle ${c.idleBusinessDays} business days (limit ${c.thresholdBusinessDays})`,
+    `Last activity ${formatJST(c.lastActivityAt)}` +
+      (preview ? ` · “${preview}”` : ""),
+  ].join("\n");
+}
+
+/** Post one consolidated alert (bot token DM/channel, else alerts webhook). */
+async function postAlert(
+  recipient: { userId: string; channelId: string | null } | null,
+  chats: StaleChat[],
+): Promise<void> {
+  const shown = chats.slice(0, MAX_CHATS_PER_MESSAGE);
+  const who = recipient ? `<@${recipient.userId}> ` : "";
+  const heading =
+    `🐢 ${who}*${chats.length} stale chat(s)*` +
+    (recipient ? "" : " without an owner") +
+    " — no activity past the stage limit";
+  const footer =
+    chats.length > shown.length
+      ? `…and ${chats.length - shown.length} more`
+      : undefined;
+  const blocks = buildStaleChatBlocks(
+    heading,
+    shown.map((c) => ({ chatId: c.chatId, text: chatLine(c) })),
+    footer,
+  );
+  const text = [heading, ...shown.map(chatLine)].join("\n");
+
+  if (recipient && process.env.SLACK_BOT_TOKEN) {
+    await postSlackMessage(
+      recipient.channelId ?? recipient.userId,
+      text,
+      blocks,
+    );
+  } else {
+    await postOpsAlert(text, blocks);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+/**
+ * Active chats past their stage's inactivity threshold.
+ *
+ * @returns stale chats (most idle first) and the number skipped by a snooze
+ */
+export async function findStaleChats(
+  now: Date = new Date(),
+): Promise<{ stale: StaleChat[]; snoozed: number }> {
+  const [snap, pipelines, deals, calendar] = await Promise.all([
+    db.collection("tg_chats").where("status", "==", "active").get(),
+    loadPipelines(),
+    loadDealsByChat(),
+    loadCalendar(),
+  ]);
+
+  const stale: StaleChat[] = [];
+  let snoozed = 0;
+  for (const d of snap.docs) {
+    const chat = d.data() as ChatRoomDoc;
+    if (chat.chatType === "private" || !chat.phase?.value) continue;
+
+    const pipeline =
+      pipelines.find(
+        (p) => p.pipelineId === (chat.pipelineId || DEFAULT_PIPELINE_ID),
+      ) ?? pipelines[0]!;
+    const stage = findStage(pipeline, chat.phase.value);
+    const threshold = stage?.staleAfterBusinessDays;
+    if (!stage || stage.outcome || !threshold) continue;
+
+    const lastActivityMs = Math.max(
+      chat.lastActiveAt?.toMillis?.() ?? 0,
+      chat.phase.ts?.toMillis?.() ?? 0,
+    );
+    if (!lastActivityMs) continue;
+    const idle = businessDaysBetween(lastActivityMs, now.getTime(), calendar);
+    if (idle <= threshold) continue;
+
+    if (isStaleSnoozed(chat, now.getTime())) {
+      snoozed += 1;
+      continue;
+    }
+    const dealOwner = deals.get(d.id)?.ownerPersonId;
+    const owners = ownerPersonIds(chat);
+    stale.push({
+      chatId: d.id,
+      title: chat.title,
+      phase: chat.phase.value,
+      phaseName: stage.name,
+      idleBusinessDays: idle,
+      thresholdBusinessDays: threshold,
+      lastActivityAt: Timestamp.fromMillis(lastActivityMs),
+      latestSummary: chat.latestMessage?.summary ?? "",
+      ownerPersonIds: owners.length ? owners : dealOwner ? [dealOwner] : [],
+    });
+  }
+
+  stale.sort((a, b) => b.idleBusinessDays - a.idleBusinessDays);
+  return { stale, snoozed };
+}
+
+/**
+ * Find stale chats, send one alert per owner, and record the alert on each
+ * chat (tg_chats/{chatId}.staleAlert.alertedAt).
+ */
+export async function sendStaleChatAlerts(): Promise<StaleChatAlertResult> {
+  const { stale, snoozed } = await findStaleChats();
+  if (!stale.length) return { stale: 0, snoozed, messages: 0 };
+
+  // --- Group by owners' Slack users (no owner / no link → ops channel) ---
+  const ownerIds = [...new Set(stale.flatMap((c) => c.ownerPersonIds))];
+  const people = ownerIds.length
+    ? await db.getAll(...ownerIds.map((id) => db.collection("people").doc(id)))
+    : [];
+  const linkByPerson = new Map(
+    people.map((p) => [p.id, slackLinkOf(p.data() as PersonDoc | undefined)]),
+  );
+
+  const groups = new Map<
+    string,
+    {
+      recipient: { userId: string; channelId: string | null } | null;
+      chats: StaleChat[];
+    }
+  >();
+  for (const c of stale) {
+    const links = c.ownerPersonIds
+      .map((id) => linkByPerson.get(id))
+      .filter((l) => !!l);
+    const targets = links.length ? links : [null];
+    const keys = new Set<string>();
+    for (const link of targets) {
+      const key = link?.userId ?? "";
+      if (keys.has(key)) continue;
+      keys.add(key);
+      const group = groups.get(key) ?? {
+        recipient: link
+          ? {
+              userId: link.userId,
+              channelId: link.prefs?.defaultChannelId ?? null,
+            }
+          : null,
+        chats: [],
+      };
+      group.chats.push(c);
+      groups.set(key, group);
+    }
+  }
+
+  // --- Send (one failure does not stop the other owners) ---
+  let messages = 0;
+  const alerted = new Map<string, StaleChat>();
+  for (const { recipient, chats } of groups.values()) {
+    try {
+      await postAlert(recipient, chats);
+      messages += 1;
+      for (const c of chats) alerted.set(c.chatId, c);
+    } catch (err) {
+      console.error(
+        `[staleChats] alert to ${recipient?.userId ?? "ops"} failed:`,
+        err,
+      );
+    }
+  }
+  if (!messages) throw new Error("all stale-chat alerts failed");
+
+  // --- Record the alert (batches of 500) ---
+  const now = Timestamp.now();
+  const alertedChats = [...alerted.values()];
+  for (let i = 0; i < alertedChats.length; i += 500) {
+    const batch = db.batch();
+    for (const c of alertedChats.slice(i, i + 500)) {
+      batch.update(db.collection("tg_chats").doc(c.chatId), {
+        "staleAlert.alertedAt": now,
+        "staleAlert.alertedPhase": c.phase,
+      });
+    }
+    await batch.commit();
+  }
+
+  console.log(
+    `[staleChats] ${stale.length} stale chat(s), ${snoozed} snoozed, ${messages} message(s)`,
+  );
+  return { stale: stale.length, snoozed, messages };
+}
+
+/**
+ * Snooze the stale alert of a chat in its current phase.
+ *
+ * @param until  End of the snooze (null = until the phase changes)
+ * @param actor  e.g. "slack:U0123"
+ * @returns the chat title, or null when the chat does not exist
+ */
+export async function snoozeStaleChat(
+  chatId: string,
+  until: Timestamp | null,
+  actor: string,
+): Promise<{ title: string } | null> {
+  const ref = db.collection("tg_chats").doc(chatId);
+  const snap = await ref.get();
+  const chat = snap.data() as ChatRoomDoc | undefined;
+  if (!chat) return null;
+
+  await ref.update({
+    "staleAlert.snoozedPhase": chat.phase?.value ?? null,
+    "staleAlert.snoozedUntil": until,
+    "staleAlert.snoozedBy": actor,
+  });
+  return { title: chat.title };
+}
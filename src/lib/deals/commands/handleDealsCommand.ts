@@ -0,0 +1,245 @@
+// -----------------------------------------------------------------------------
+// Command handler for deals (deals/{chatId}).
+//
+// Supported actions:
+//   - "list":     Deals, optionally filtered by `pipelineId` / `stage` /
+//                 `ownerPersonId`
+//   - "get":      One deal (`chatId`)
+//   - "upsert":   Create or update the deal of `chatId` from `deal`
+//                 (value, currency, probability, expectedCloseDate,
+//                 ownerPersonId; null clears a field)
+//   - "delete":   Remove the deal of `chatId`
+//   - "pipeline": Deal count and value per pipeline, stage and currency
+//
+// Notes:
+//   - `stage` is not editable: new deals start at the chat's current phase and
+//     follow it as the phase advances (stages of the chat's pipeline).
+//   - probability is a percentage (0–100); weighted value = value × probability.
+// -----------------------------------------------------------------------------
+
+import { Request, Response } from "express";
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../../firebase.js";
+import { DEALS_COLLECTION, pipelineByStage } from "../deals.js";
+import { loadPipelines } from "../../pipelines/loadPipelines.js";
+import { DEFAULT_PIPELINE_ID } from "../../pipelines/defaultPipeline.js";
+import { isDateKey } from "../../../utils/time.js";
+import type { ChatPhase, ChatRoomDoc } from "../../../types/chat.js";
+import type { DealDoc, DealFields } from "../../../types/deal.js";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+type DealsRequestBody = {
+  action?: "list" | "get" | "upsert" | "delete" | "pipeline";
+  chatId?: string;
+  deal?: Partial<DealFields>;
+  pipelineId?: string;
+  stage?: ChatPhase;
+  ownerPersonId?: string;
+  actor?: string;
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+const CURRENCY_RE = /^[A-Z]{3}$/;
+
+/** Validate the editable fields of a complete deal. */
+function validateDeal(d: DealFields): string[] {
+  const errors: string[] = [];
+  if (d.value !== null && (!Number.isFinite(d.value) || d.value < 0)) {
+    errors.push("value must be a non-negative number or null");
+  }
+  if (d.currency !== null && !CURRENCY_RE.test(String(d.currency))) {
+    errors.push('currency must be an ISO 4217 code (e.g. "USD") or null');
+  }
+  if (d.value !== null && d.currency === null) {
+    errors.push("currency is required when value is set");
+  }
+  if (
+    d.probability !== null &&
+    (!Number.isFinite(d.probability) ||
+      d.probability < 0 ||
+      d.probability > 100)
+  ) {
+    errors.push("probability must be a number 0-100 or null");
+  }
+  if (d.expectedCloseDate !== null && !isDateKey(d.expectedCloseDate)) {
+    errors.push('expectedCloseDate must be "YYYY-MM-DD" or null');
+  }
+  if (d.ownerPersonId !== null && typeof d.ownerPersonId !== "string") {
+    errors.push("ownerPersonId must be a string or null");
+  }
+  return errors;
+}
+
+/** JSON-friendly deal (timestamps as ISO-8601). */
+function serializeDeal(d: DealDoc) {
+  return {
+    ...d,
+    stageUpdatedAt: d.stageUpdatedAt.toDate().toISOString(),
+    createdAt: d.createdAt.toDate().toISOString(),
+    updatedAt: d.updatedAt.toDate().toISOString(),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Handler
+// -----------------------------------------------------------------------------
+
+export async function handleDealsCommand(req: Request, res: Response) {
+  try {
+    const {
+      action = "list",
+      chatId,
+      deal,
+      pipelineId,
+      stage,
+      ownerPersonId,
+      actor,
+    } = (req.body ?? {}) as DealsRequestBody;
+    const col = db.collection(DEALS_COLLECTION);
+    const updatedBy = typeof actor === "string" && actor.trim() ? actor : null;
+
+    // -----------------------------------------------------------------------
+    // 1) LIST
+    // -----------------------------------------------------------------------
+    if (action === "list") {
+      if (stage !== undefined && (typeof stage !== "string" || !stage)) {
+        return res.status(400).json({ error: "stage must be a stageId" });
+      }
+      let q: FirebaseFirestore.Query = col;
+      if (stage) q = q.where("stage", "==", stage);
+      if (ownerPersonId) q = q.where("ownerPersonId", "==", ownerPersonId);
+      const snap = await q.get();
+      // Filtered in memory: older deals have no pipelineId (= default)
+      const deals = snap.docs
+        .map((d) => d.data() as DealDoc)
+        .filter(
+          (d) =>
+            !pipelineId || (d.pipelineId ?? DEFAULT_PIPELINE_ID) === pipelineId,
+        );
+      return res
+        .status(200)
+        .json({ count: deals.length, deals: deals.map(serializeDeal) });
+    }
+
+    // -----------------------------------------------------------------------
+    // 2) PIPELINE (value per pipeline, stage and currency)
+    // -----------------------------------------------------------------------
+    if (action === "pipeline") {
+      const [snap, pipelines] = await Promise.all([col.get(), loadPipelines()]);
+      const deals = snap.docs.map((d) => d.data() as DealDoc);
+      const byPipeline = pipelineByStage(
+        deals,
+        pipelines.filter((p) => !pipelineId || p.pipelineId === pipelineId),
+      );
+      return res
+        .status(200)
+        .json({ count: deals.length, pipelines: byPipeline });
+    }
+
+    if (!chatId) return res.status(400).json({ error: "Missing 'chatId'." });
+    const ref = col.doc(chatId);
+
+    // -----------------------------------------------------------------------
+    // 3) GET
+    // -----------------------------------------------------------------------
+    if (action === "get") {
+      const snap = await ref.get();
+      if (!snap.exists) {
+        return res.status(404).json({ error: `Deal not found: ${chatId}` });
+      }
+      return res
+        .status(200)
+        .json({ deal: serializeDeal(snap.data() as DealDoc) });
+    }
+
+    // -----------------------------------------------------------------------
+    // 4) UPSERT (create or update the chat's deal)
+    // -----------------------------------------------------------------------
+    if (action === "upsert") {
+      const [snap, chatSnap] = await Promise.all([
+        ref.get(),
+        db.collection("tg_chats").doc(chatId).get(),
+      ]);
+      const chat = chatSnap.data() as ChatRoomDoc | undefined;
+      if (!chat) {
+        return res.status(404).json({ error: `Chat not found: ${chatId}` });
+      }
+      const current = snap.exists ? (snap.data() as DealDoc) : null;
+
+      const fields: DealFields = {
+        value: current?.value ?? null,
+        currency: current?.currency ?? null,
+        probability: current?.probability ?? null,
+        expectedCloseDate: current?.expectedCloseDate ?? null,
+        ownerPersonId: current?.ownerPersonId ?? null,
+      };
+      for (const k of Object.keys(fields) as Array<keyof DealFields>) {
+        if (deal && deal[k] !== undefined) {
+          (fields as Record<string, unknown>)[k] = deal[k];
+        }
+      }
+      const errors = validateDeal(fields);
+      if (
+        fields.ownerPersonId &&
+        fields.ownerPersonId !== current?.ownerPersonId &&
+        !(await db.collection("people").doc(fields.ownerPersonId).get()).exists
+      ) {
+        errors.push(`ownerPersonId not found: ${fields.ownerPersonId}`);
+      }
+      if (errors.length) {
+        return res
+          .status(400)
+          .json({ error: "Invalid deal.", details: errors });
+      }
+
+      const now = Timestamp.now();
+      const doc: DealDoc = {
+        chatId,
+        pipelineId: chat.pipelineId || DEFAULT_PIPELINE_ID,
+        stage: current?.stage ?? chat.phase?.value ?? "BotAdded",
+        stageUpdatedAt: current?.stageUpdatedAt ?? chat.phase?.ts ?? now,
+        ...fields,
+        createdAt: current?.createdAt ?? now,
+        updatedAt: now,
+        updatedBy,
+      };
+      await ref.set(doc);
+
+      return res.status(current ? 200 : 201).json({
+        message: current ? "Deal updated." : "Deal created.",
+        deal: serializeDeal(doc),
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // 5) DELETE
+    // -----------------------------------------------------------------------
+    if (action === "delete") {
+      if (!(await ref.get()).exists) {
+        return res.status(404).json({ error: `Deal not found: ${chatId}` });
+      }
+      await ref.delete();
+      console.log(`[deals] ${chatId} deleted (by ${updatedBy})`);
+      return res.status(200).json({ message: "Deal deleted.", chatId });
+    }
+
+    // -----------------------------------------------------------------------
+    // Unsupported action
+    // -----------------------------------------------------------------------
+    return res
+      .status(400)
+      .json({ error: `Unsupported action: ${String(action)}` });
+  } catch (error: any) {
+    console.error("[handleDealsCommand] Error:", error);
+    return res.status(500).json({
+      error: "Failed to process deals command.",
+      details: error?.message ?? String(error),
+    });
+  }
+}
@@ -0,0 +1 @@
+export { handleDealsCommand } from "./handleDealsCommand.js";
@@ -0,0 +1,134 @@
+// -----------------------------------------------------------------------------
+// Deal records (deals/{chatId}) linked to Telegram chats.
+// - The deal stage follows the chat phase (syncDealStage, called when
+//   upsertChatPhaseIfAdvanced advances the phase)
+// - Pipeline value is aggregated per pipeline, stage and currency (no FX
+//   conversion), in the configured stage order
+// -----------------------------------------------------------------------------
+
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../firebase.js";
+import { DEFAULT_PIPELINE_ID } from "../pipelines/defaultPipeline.js";
+import type { ChatPhase } from "../../types/chat.js";
+import type { DealDoc } from "../../types/deal.js";
+import type { PipelineDef } from "../../types/pipeline.js";
+
+/** Firestore collection name for deals. */
+export const DEALS_COLLECTION = "deals";
+
+/** Pipeline value of one stage. */
+export type StageValue = {
+  stage: ChatPhase;
+  name: string; // stage display name
+  count: number; // deals in this stage
+  withValue: number; // … that have a value + currency
+  byCurrency: Record<
+    string,
+    {
+      total: number; // sum of values
+      weighted: number; // sum of value × probability (deals without one count 0)
+    }
+  >;
+};
+
+/** Pipeline value of one pipeline. */
+export type PipelineValue = {
+  pipelineId: string;
+  name: string;
+  count: number; // deals in this pipeline
+  stages: StageValue[];
+};
+
+/**
+ * Move an existing deal to the chat's new phase.
+ * - Chats without a deal are left alone (deals are created via the admin API)
+ * - Failures are logged, never thrown: the phase update already happened
+ */
+export async function syncDealStage(
+  chatId: string,
+  stage: ChatPhase,
+  ts: Timestamp,
+  pipelineId: string = DEFAULT_PIPELINE_ID,
+): Promise<void> {
+  try {
+    const ref = db.collection(DEALS_COLLECTION).doc(chatId);
+    const snap = await ref.get();
+    const deal = snap.data() as DealDoc | undefined;
+    if (
+      !deal ||
+      (deal.stage === stage &&
+        (deal.pipelineId ?? DEFAULT_PIPELINE_ID) === pipelineId)
+    ) {
+      return;
+    }
+    await ref.update({
+      pipelineId,
+      stage,
+      stageUpdatedAt: ts,
+      updatedAt: Timestamp.now(),
+    });
+    console.log(`[deals] ${chatId} stage → ${stage}`);
+  } catch (err) {
+    console.warn(`[deals] stage sync failed for ${chatId}:`, err);
+  }
+}
+
+/** All deals keyed by chatId. */
+export async function loadDealsByChat(): Promise<Map<string, DealDoc>> {
+  const snap = await db.collection(DEALS_COLLECTION).get();
+  return new Map(snap.docs.map((d) => [d.id, d.data() as DealDoc]));
+}
+
+/**
+ * Aggregate deals per pipeline and stage (configured order; empty stages
+ * included). Deals of unknown pipelines count toward the default pipeline.
+ */
+export function pipelineByStage(
+  deals: DealDoc[],
+  pipelines: PipelineDef[],
+): PipelineValue[] {
+  const known = new Set(pipelines.map((p) => p.pipelineId));
+  const pipelineOf = (d: DealDoc) =>
+    d.pipelineId && known.has(d.pipelineId)
+      ? d.pipelineId
+      : DEFAULT_PIPELINE_ID;
+
+  return pipelines.map((pipeline) => {
+    const inPipeline = deals.filter(
+      (d) => pipelineOf(d) === pipeline.pipelineId,
+    );
+    return {
+      pipelineId: pipeline.pipelineId,
+      name: pipeline.name,
+      count: inPipeline.length,
+      stages: pipeline.stages.map((s) =>
+        stageValue(
+          s.stageId,
+          s.name,
+          inPipeline.filter((d) => d.stage === s.stageId),
+        ),
+      ),
+    };
+  });
+}
+
+/** Value of the deals in one stage. */
+function stageValue(
+  stage: ChatPhase,
+  name: string,
+  inStage: DealDoc[],
+): StageValue {
+  const byCurrency: StageValue["byCurrency"] = {};
+  let withValue = 0;
+  for (const d of inStage) {
+    if (d.value == null || !d.currency) continue;
+    withValue += 1;
+    const c = (byCurrency[d.currency] ??= { total: 0, weighted: 0 });
+    c.total += d.value;
+    c.weighted += (d.value * (d.probability ?? 0)) / 100;
+  }
+  for (const c of Object.values(byCurrency)) {
+    c.weighted = Math.round(c.weighted * 100) / 100;
+  }
+  return { stage, name, count: inStage.length, withValue, byCurrency };
+}
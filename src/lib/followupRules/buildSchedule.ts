@@ -0,0 +1,56 @@
+// -----------------------------------------------------------------------------
+// Expand rule steps into concrete (type, scheduledAt) pairs.
+// - Day-based steps: N (business) days later at HH:MM local time (via scheduleAtLocal)
+// - Hour-based steps: +N hours, optionally snapped out of a local window
+//   (and off non-business days)
+// - Business days come from the given calendar (weekends + holidays)
+// - "Local" is the recipient's time zone (default JST); with working hours,
+//   results are moved into the recipient's working window
+// -----------------------------------------------------------------------------
+
+import { Timestamp } from "firebase-admin/firestore";
+import { scheduleAtLocal, scheduleAfterHours } from "../../utils/time.js";
+import type { BusinessCalendar } from "../calendar/businessCalendar.js";
+import type { FollowupRuleStep } from "../../types/followupRule.js";
+import type { NotificationType } from "../../types/notification.js";
+import type { WorkingHours } from "../../types/person.js";
+
+export type StepSchedule = { type: NotificationType; scheduledAt: Timestamp };
+
+/** Recipient context for schedules (all optional; defaults: JP calendar, JST). */
+export type StepScheduleOptions = {
+  calendar?: BusinessCalendar;
+  timeZone?: string;
+  workingHours?: WorkingHours;
+};
+
+/**
+ * Build one schedule per step, in step order.
+ *
+ * @param steps   Steps of the matched rule
+ * @param sentAt  Trigger message time (Date in UTC)
+ * @param opts    Recipient calendar / time zone / working hours
+ */
+export function buildStepSchedules(
+  steps: FollowupRuleStep[],
+  sentAt: Date,
+  opts: StepScheduleOptions = {},
+): StepSchedule[] {
+  return steps.map((step) => ({
+    type: step.type,
+    scheduledAt:
+      typeof step.offsetHours === "number"
+        ? scheduleAfterHours(sentAt, step.offsetHours, step.snapWindow, opts)
+        : scheduleAtLocal(sentAt, {
+            ...opts,
+            ...(typeof step.offsetDays === "number"
+              ? { days: step.offsetDays }
+              : {}),
+            ...(typeof step.hour === "number" ? { hour: step.hour } : {}),
+            ...(typeof step.minute === "number" ? { minute: step.minute } : {}),
+            ...(typeof step.businessDays === "boolean"
+              ? { businessDays: step.businessDays }
+              : {}),
+          }),
+  }));
+}
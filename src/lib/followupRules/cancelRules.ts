@@ -0,0 +1,119 @@
+// -----------------------------------------------------------------------------
+// Follow-up cancel rules (followupCancelRules/*).
+// - Built-in defaults (used while the collection is empty)
+// - Cached loader (enabled rules only)
+// - evaluateCancelRules(): which rules apply to a given message
+// -----------------------------------------------------------------------------
+
+import { db } from "../firebase.js";
+import { isFromInternal } from "../isInternal.js";
+import { pickFields } from "./matchRule.js";
+import { createCachedLoader } from "../../utils/ttlCache.js";
+import type { MessageType } from "../../types/message.js";
+import type {
+  FollowupCancelRuleDef,
+  FollowupCancelRuleDoc,
+} from "../../types/followupRule.js";
+
+/** Firestore collection name for cancel rules. */
+export const FOLLOWUP_CANCEL_RULES_COLLECTION = "followupCancelRules";
+
+/** Message types that count as a "reply" (membership events excluded). */
+const CONTENT_TYPES: MessageType[] = [
+  "text",
+  "photo",
+  "video",
+  "document",
+  "sticker",
+];
+
+// -----------------------------------------------------------------------------
+// Built-in defaults
+// -----------------------------------------------------------------------------
+export const DEFAULT_FOLLOWUP_CANCEL_RULES: FollowupCancelRuleDef[] = [
+  // Any client (non-internal) reply makes proposal reminders irrelevant
+  {
+    ruleId: "client_replied",
+    name: "Client replied → cancel proposal reminders",
+    enabled: true,
+    sender: "external",
+    messageTypes: CONTENT_TYPES,
+    appliesTo: ["follow_up_proposal_1st", "follow_up_proposal_2nd"],
+    reason: "client_replied",
+  },
+
+  // An internal member confirming payment closes the invoice loop
+  {
+    ruleId: "payment_mentioned",
+    name: "Payment mentioned by internal member → cancel invoice reminders",
+    enabled: true,
+    sender: "internal",
+    messageTypes: CONTENT_TYPES,
+    pattern: "\\b(paid|payment|received)\\b",
+    appliesTo: ["follow_up_invoice_1st", "follow_up_invoice_2nd"],
+    reason: "payment_mentioned",
+  },
+];
+
+// -----------------------------------------------------------------------------
+// Loader (cached)
+// -----------------------------------------------------------------------------
+
+const cache = createCachedLoader<FollowupCancelRuleDef[]>({
+  tag: "cancelRules",
+  load: async () => {
+    const snap = await db.collection(FOLLOWUP_CANCEL_RULES_COLLECTION).get();
+    const source: FollowupCancelRuleDef[] = snap.empty
+      ? DEFAULT_FOLLOWUP_CANCEL_RULES
+      : snap.docs.map((d) => ({
+          ...(d.data() as FollowupCancelRuleDoc),
+          ruleId: d.id,
+        }));
+    return source.filter((r) => r.enabled);
+  },
+  fallback: () => DEFAULT_FOLLOWUP_CANCEL_RULES,
+});
+
+/**
+ * Returns the enabled cancel rules (cached, see utils/ttlCache.ts).
+ * - Firestore errors are non-fatal: the last cached set (or defaults) is used.
+ */
+export async function loadCancelRules(): Promise<FollowupCancelRuleDef[]> {
+  return cache.get();
+}
+
+/** Expire the cached rule set (call after admin writes; this instance only). */
+export function clearCancelRulesCache(): void {
+  cache.clear();
+}
+
+// -----------------------------------------------------------------------------
+// Evaluation
+// -----------------------------------------------------------------------------
+
+/**
+ * Return all cancel rules whose conditions hold for the message.
+ */
+export function evaluateCancelRules(
+  rules: FollowupCancelRuleDef[],
+  msg: any,
+  type: MessageType,
+): FollowupCancelRuleDef[] {
+  const internal = isFromInternal(msg?.from?.id);
+  const haystack = pickFields(msg, ["text", "caption", "fileName"]);
+
+  return rules.filter((r) => {
+    if (r.sender === "internal" && !internal) return false;
+    if (r.sender === "external" && (internal || msg?.from?.is_bot))
+      return false;
+    if (r.messageTypes?.length && !r.messageTypes.includes(type)) return false;
+    if (r.pattern) {
+      try {
+        if (!new RegExp(r.pattern, "i").test(haystack)) return false;
+      } catch {
+        return false; // invalid pattern never matches
+      }
+    }
+    return true;
+  });
+}
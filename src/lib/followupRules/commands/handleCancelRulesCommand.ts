@@ -0,0 +1,219 @@
+// -----------------------------------------------------------------------------
+// Command handler for follow-up cancel rules (followupCancelRules/*).
+//
+// Supported actions:
+//   - "list":    List all cancel rules (defaults shown while the collection is empty)
+//   - "create":  Create a new cancel rule from `rule`
+//   - "update":  Patch an existing cancel rule (`ruleId` + partial `rule`)
+//   - "disable": Set enabled=false for `ruleId`
+//
+// Notes:
+//   - Like follow-up rules, the first write seeds the built-in defaults.
+//   - Every write clears the in-memory cache used by the webhook.
+// -----------------------------------------------------------------------------
+
+import { Request, Response } from "express";
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../../firebase.js";
+import {
+  DEFAULT_FOLLOWUP_CANCEL_RULES,
+  FOLLOWUP_CANCEL_RULES_COLLECTION,
+  clearCancelRulesCache,
+} from "../cancelRules.js";
+import { NOTIFICATION_TYPES } from "../../../types/notification.js";
+import type {
+  FollowupCancelRuleDef,
+  FollowupCancelRuleDoc,
+} from "../../../types/followupRule.js";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+type CancelRulesRequestBody = {
+  action?: "list" | "create" | "update" | "disable";
+  ruleId?: string;
+  rule?: Partial<FollowupCancelRuleDef>;
+  actor?: string;
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/** Validate a complete cancel rule definition (empty → valid). */
+function validateCancelRule(rule: Partial<FollowupCancelRuleDef>): string[] {
+  const errors: string[] = [];
+  if (!rule.ruleId || !/^[a-z0-9_-]{1,64}$/.test(rule.ruleId)) {
+    errors.push("ruleId must match /^[a-z0-9_-]{1,64}$/");
+  }
+  if (!rule.name || !String(rule.name).trim()) errors.push("name is required");
+  if (typeof rule.enabled !== "boolean") errors.push("enabled must be boolean");
+  if (!["internal", "external", "any"].includes(String(rule.sender))) {
+    errors.push('sender must be "internal" | "external" | "any"');
+  }
+  if (rule.pattern !== undefined) {
+    try {
+      new RegExp(String(rule.pattern), "i");
+    } catch {
+      errors.push(`pattern is not a valid regex: ${rule.pattern}`);
+    }
+  }
+  if (
+    !Array.isArray(rule.appliesTo) ||
+    rule.appliesTo.length === 0 ||
+    rule.appliesTo.some((t) => !NOTIFICATION_TYPES.includes(t))
+  ) {
+    errors.push(
+      `appliesTo must be a non-empty subset of [${NOTIFICATION_TYPES}]`,
+    );
+  }
+  if (!rule.reason || !/^[a-z0-9_]{1,64}$/.test(rule.reason)) {
+    errors.push("reason must match /^[a-z0-9_]{1,64}$/");
+  }
+  return errors;
+}
+
+/** Seed the built-in defaults when the collection is still empty. */
+async function seedDefaultsIfEmpty(actor: string | null): Promise<void> {
+  const col = db.collection(FOLLOWUP_CANCEL_RULES_COLLECTION);
+  if (!(await col.limit(1).get()).empty) return;
+
+  const now = Timestamp.now();
+  const batch = db.batch();
+  for (const def of DEFAULT_FOLLOWUP_CANCEL_RULES) {
+    const doc: FollowupCancelRuleDoc = {
+      ...def,
+      createdAt: now,
+      updatedAt: now,
+      updatedBy: actor,
+    };
+    batch.create(col.doc(def.ruleId), doc);
+  }
+  await batch.commit();
+  console.log("[cancelRules] seeded built-in defaults");
+}
+
+// -----------------------------------------------------------------------------
+// Handler
+// -----------------------------------------------------------------------------
+
+export async function handleCancelRulesCommand(req: Request, res: Response) {
+  try {
+    const {
+      action = "list",
+      ruleId,
+      rule,
+      actor,
+    } = (req.body ?? {}) as CancelRulesRequestBody;
+    const col = db.collection(FOLLOWUP_CANCEL_RULES_COLLECTION);
+    const updatedBy = typeof actor === "string" && actor.trim() ? actor : null;
+
+    // -----------------------------------------------------------------------
+    // 1) LIST
+    // -----------------------------------------------------------------------
+    if (action === "list") {
+      const snap = await col.get();
+      const rules = snap.empty
+        ? DEFAULT_FOLLOWUP_CANCEL_RULES
+        : snap.docs.map((d) => ({
+            ...(d.data() as FollowupCancelRuleDoc),
+            ruleId: d.id,
+          }));
+      return res.status(200).json({
+        usingDefaults: snap.empty,
+        count: rules.length,
+        rules,
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // 2) CREATE
+    // -----------------------------------------------------------------------
+    if (action === "create") {
+      const candidate = { enabled: true, ...(rule ?? {}) };
+      const errors = validateCancelRule(candidate);
+      if (errors.length) {
+        return res
+          .status(400)
+          .json({ error: "Invalid rule.", details: errors });
+      }
+
+      await seedDefaultsIfEmpty(updatedBy);
+
+      const ref = col.doc(candidate.ruleId!);
+      if ((await ref.get()).exists) {
+        return res
+          .status(409)
+          .json({ error: `Rule already exists: ${candidate.ruleId}` });
+      }
+
+      const now = Timestamp.now();
+      await ref.create({
+        ...(candidate as FollowupCancelRuleDef),
+        createdAt: now,
+        updatedAt: now,
+        updatedBy,
+      } satisfies FollowupCancelRuleDoc);
+      clearCancelRulesCache();
+
+      return res.status(201).json({ message: "Rule created.", ruleId: ref.id });
+    }
+
+    // -----------------------------------------------------------------------
+    // 3) UPDATE / DISABLE
+    // -----------------------------------------------------------------------
+    if (action === "update" || action === "disable") {
+      if (!ruleId) {
+        return res.status(400).json({ error: "Missing 'ruleId' (string)." });
+      }
+
+      await seedDefaultsIfEmpty(updatedBy);
+
+      const ref = col.doc(ruleId);
+      const snap = await ref.get();
+      if (!snap.exists) {
+        return res.status(404).json({ error: `Rule not found: ${ruleId}` });
+      }
+
+      const current = snap.data() as FollowupCancelRuleDoc;
+      const merged: FollowupCancelRuleDef = {
+        ...current,
+        ...(action === "disable" ? { enabled: false } : (rule ?? {})),
+        ruleId, // immutable
+      };
+      const errors = validateCancelRule(merged);
+      if (errors.length) {
+        return res
+          .status(400)
+          .json({ error: "Invalid rule.", details: errors });
+      }
+
+      await ref.set({
+        ...merged,
+        createdAt: current.createdAt,
+        updatedAt: Timestamp.now(),
+        updatedBy,
+      } satisfies FollowupCancelRuleDoc);
+      clearCancelRulesCache();
+
+      return res.status(200).json({
+        message: action === "disable" ? "Rule disabled." : "Rule updated.",
+        rule: merged,
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // Unsupported action
+    // -----------------------------------------------------------------------
+    return res
+      .status(400)
+      .json({ error: `Unsupported action: ${String(action)}` });
+  } catch (error: any) {
+    console.error("[handleCancelRulesCommand] Error:", error);
+    return res.status(500).json({
+      error: "Failed to process cancel rules command.",
+      details: error?.message ?? String(error),
+    });
+  }
+}
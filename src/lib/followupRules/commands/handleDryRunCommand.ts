@@ -0,0 +1,129 @@
+// -----------------------------------------------------------------------------
+// Dry-run a sample Telegram message against the follow-up rules.
+// - Shows which rule would fire (and why the others did not)
+// - Shows the schedule the matched rule would produce
+// - Never writes to Firestore or enqueues tasks
+//
+// Args (req.body):
+//   message: object (required)   // Telegram `message` object (as in a webhook update)
+//   rules?: FollowupRuleDef[]    // optional draft rules to test instead of the stored set
+//   calendarId?: string          // business-day calendar (default "jp")
+//   timeZone?: string            // recipient IANA zone (default "Asia/Tokyo")
+//
+// Response (JSON):
+//   { messageType, matchedRuleId, calendarId, timeZone, evaluations, schedule }
+// -----------------------------------------------------------------------------
+
+import { Request, Response } from "express";
+import { Timestamp } from "firebase-admin/firestore";
+import { detectMessageType } from "../../telegram/messageType.js";
+import {
+  DEFAULT_TIME_ZONE,
+  formatInTimeZone,
+  formatJST,
+  isValidTimeZone,
+} from "../../../utils/time.js";
+import { loadFollowupRules, sortRules } from "../loadRules.js";
+import { evaluateRule } from "../matchRule.js";
+import { buildStepSchedules } from "../buildSchedule.js";
+import { loadCalendar } from "../../calendar/loadCalendar.js";
+import { validateRule } from "../validateRule.js";
+import { loadInternalMembers } from "../../isInternal.js";
+import type { FollowupRuleDef } from "../../../types/followupRule.js";
+
+type DryRunRequestBody = {
+  message?: any;
+  rules?: FollowupRuleDef[];
+  calendarId?: string;
+  timeZone?: string;
+};
+
+export async function handleDryRunCommand(req: Request, res: Response) {
+  try {
+    const {
+      message,
+      rules: draftRules,
+      calendarId,
+      timeZone = DEFAULT_TIME_ZONE,
+    } = (req.body ?? {}) as DryRunRequestBody;
+
+    // -------------------------------------------------------------------------
+    // 0) Validate input
+    // -------------------------------------------------------------------------
+    if (!message || typeof message !== "object") {
+      return res.status(400).json({
+        error: "Missing or invalid 'message' (Telegram message object).",
+      });
+    }
+
+    if (typeof timeZone !== "string" || !isValidTimeZone(timeZone)) {
+      return res
+        .status(400)
+        .json({ error: `Invalid 'timeZone' (IANA zone): ${timeZone}` });
+    }
+
+    if (draftRules !== undefined) {
+      if (!Array.isArray(draftRules)) {
+        return res.status(400).json({ error: "'rules' must be an array." });
+      }
+      const details = draftRules.flatMap((r, i) =>
+        validateRule(r).map((e) => `rules[${i}]: ${e}`),
+      );
+      if (details.length) {
+        return res.status(400).json({ error: "Invalid rules.", details });
+      }
+    }
+
+    // -------------------------------------------------------------------------
+    // 1) Evaluate rules in priority order (first match wins)
+    // -------------------------------------------------------------------------
+    await loadInternalMembers(); // internalOnly rules check the sender
+    const rules = draftRules
+      ? sortRules(draftRules.filter((r) => r.enabled))
+      : await loadFollowupRules();
+
+    const type = detectMessageType(message);
+    const evaluations = rules.map((r) => evaluateRule(r, message, type));
+    const matchedIdx = evaluations.findIndex((e) => e.matched);
+    const matched = matchedIdx >= 0 ? rules[matchedIdx]! : null;
+
+    // -------------------------------------------------------------------------
+    // 2) Build the schedule for the matched rule (relative to message.date or now)
+    // -------------------------------------------------------------------------
+    const sentAt =
+      typeof message.date === "number"
+        ? Timestamp.fromMillis(message.date * 1000)
+        : Timestamp.now();
+
+    const calendar = await loadCalendar(
+      typeof calendarId === "string" && calendarId ? calendarId : undefined,
+    );
+    const schedule = matched
+      ? buildStepSchedules(matched.steps ?? [], sentAt.toDate(), {
+          calendar,
+          timeZone,
+        }).map((s) => ({
+          type: s.type,
+          scheduledAt: s.scheduledAt.toDate().toISOString(),
+          scheduledAtJST: formatJST(s.scheduledAt),
+          scheduledAtLocal: formatInTimeZone(s.scheduledAt, timeZone),
+        }))
+      : [];
+
+    return res.status(200).json({
+      messageType: type,
+      sentAt: sentAt.toDate().toISOString(),
+      matchedRuleId: matched?.ruleId ?? null,
+      calendarId: calendar.calendarId,
+      timeZone,
+      evaluations,
+      schedule,
+    });
+  } catch (error: any) {
+    console.error("[handleDryRunCommand] Error:", error);
+    return res.status(500).json({
+      error: "Failed to dry-run follow-up rules.",
+      details: error?.message ?? String(error),
+    });
+  }
+}
@@ -0,0 +1,259 @@
+// -----------------------------------------------------------------------------
+// Command handler for follow-up rules (followupRules/*).
+//
+// Supported actions:
+//   - "list":    List all rules (including disabled). Shows built-in defaults
+//                when the collection is empty.
+//   - "get":     Fetch one rule by `ruleId`
+//   - "create":  Create a new rule from `rule`
+//   - "update":  Patch an existing rule (`ruleId` + partial `rule`)
+//   - "disable": Set enabled=false for `ruleId`
+//
+// Notes:
+//   - The first write seeds the built-in defaults into the collection, so the
+//     existing triggers keep working once Firestore becomes the source of truth.
+//   - Every write clears the in-memory rule cache used by the webhook.
+// -----------------------------------------------------------------------------
+
+import { Request, Response } from "express";
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../../firebase.js";
+import { DEFAULT_FOLLOWUP_RULES } from "../defaultRules.js";
+import {
+  FOLLOWUP_RULES_COLLECTION,
+  clearFollowupRulesCache,
+  sortRules,
+} from "../loadRules.js";
+import { validateRule } from "../validateRule.js";
+import type {
+  FollowupRuleDef,
+  FollowupRuleDoc,
+} from "../../../types/followupRule.js";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+type RulesRequestBody = {
+  action?: "list" | "get" | "create" | "update" | "disable";
+  ruleId?: string;
+  rule?: Partial<FollowupRuleDef>;
+  actor?: string; // who performed the change (stored as updatedBy)
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/** Derive a ruleId slug from a name ("Proposal v2" → "proposal_v2"). */
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 64);
+}
+
+/** Serialize Firestore timestamps for JSON responses. */
+function toJson(rule: FollowupRuleDef | FollowupRuleDoc) {
+  const r = rule as Partial<FollowupRuleDoc>;
+  return {
+    ...rule,
+    createdAt: r.createdAt?.toDate?.()?.toISOString?.() ?? null,
+    updatedAt: r.updatedAt?.toDate?.()?.toISOString?.() ?? null,
+  };
+}
+
+/**
+ * Seed the built-in defaults when the collection is still empty.
+ * Runs before the first admin write so defaults are not silently dropped.
+ */
+async function seedDefaultsIfEmpty(actor: string | null): Promise<void> {
+  const col = db.collection(FOLLOWUP_RULES_COLLECTION);
+  const probe = await col.limit(1).get();
+  if (!probe.empty) return;
+
+  const now = Timestamp.now();
+  const batch = db.batch();
+  for (const def of DEFAULT_FOLLOWUP_RULES) {
+    const doc: FollowupRuleDoc = {
+      ...def,
+      createdAt: now,
+      updatedAt: now,
+      updatedBy: actor,
+    };
+    batch.create(col.doc(def.ruleId), doc);
+  }
+  await batch.commit();
+  console.log("[followupRules] seeded built-in defaults");
+}
+
+// -----------------------------------------------------------------------------
+// Handler
+// -----------------------------------------------------------------------------
+
+export async function handleRulesCommand(req: Request, res: Response) {
+  try {
+    const {
+      action = "list",
+      ruleId,
+      rule,
+      actor,
+    } = (req.body ?? {}) as RulesRequestBody;
+    const col = db.collection(FOLLOWUP_RULES_COLLECTION);
+    const updatedBy = typeof actor === "string" && actor.trim() ? actor : null;
+
+    // -----------------------------------------------------------------------
+    // 1) LIST
+    // -----------------------------------------------------------------------
+    if (action === "list") {
+      const snap = await col.get();
+      if (snap.empty) {
+        return res.status(200).json({
+          usingDefaults: true,
+          count: DEFAULT_FOLLOWUP_RULES.length,
+          rules: sortRules(DEFAULT_FOLLOWUP_RULES).map(toJson),
+        });
+      }
+      const rules = sortRules(
+        snap.docs.map((d) => ({
+          ...(d.data() as FollowupRuleDoc),
+          ruleId: d.id,
+        })),
+      );
+      return res.status(200).json({
+        usingDefaults: false,
+        count: rules.length,
+        rules: rules.map(toJson),
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // 2) GET
+    // -----------------------------------------------------------------------
+    if (action === "get") {
+      if (!ruleId) {
+        return res.status(400).json({ error: "Missing 'ruleId' (string)." });
+      }
+      const snap = await col.doc(ruleId).get();
+      if (snap.exists) {
+        return res.status(200).json({
+          rule: toJson({ ...(snap.data() as FollowupRuleDoc), ruleId }),
+        });
+      }
+      const def = DEFAULT_FOLLOWUP_RULES.find((r) => r.ruleId === ruleId);
+      if (def) {
+        return res.status(200).json({ usingDefaults: true, rule: toJson(def) });
+      }
+      return res.status(404).json({ error: `Rule not found: ${ruleId}` });
+    }
+
+    // -----------------------------------------------------------------------
+    // 3) CREATE
+    // -----------------------------------------------------------------------
+    if (action === "create") {
+      if (!rule || typeof rule !== "object") {
+        return res.status(400).json({ error: "Missing 'rule' (object)." });
+      }
+      const candidate: Partial<FollowupRuleDef> = {
+        enabled: true,
+        ...rule,
+        ruleId: rule.ruleId ?? slugify(String(rule.name ?? "")),
+      };
+      const errors = validateRule(candidate);
+      if (errors.length) {
+        return res
+          .status(400)
+          .json({ error: "Invalid rule.", details: errors });
+      }
+
+      await seedDefaultsIfEmpty(updatedBy);
+
+      const ref = col.doc(candidate.ruleId!);
+      if ((await ref.get()).exists) {
+        return res
+          .status(409)
+          .json({ error: `Rule already exists: ${candidate.ruleId}` });
+      }
+
+      const now = Timestamp.now();
+      const doc: FollowupRuleDoc = {
+        ...(candidate as FollowupRuleDef),
+        createdAt: now,
+        updatedAt: now,
+        updatedBy,
+      };
+      await ref.create(doc);
+      clearFollowupRulesCache();
+
+      return res
+        .status(201)
+        .json({ message: "Rule created.", rule: toJson(doc) });
+    }
+
+    // -----------------------------------------------------------------------
+    // 4) UPDATE / DISABLE
+    // -----------------------------------------------------------------------
+    if (action === "update" || action === "disable") {
+      if (!ruleId) {
+        return res.status(400).json({ error: "Missing 'ruleId' (string)." });
+      }
+      if (action === "update" && (!rule || typeof rule !== "object")) {
+        return res.status(400).json({ error: "Missing 'rule' (object)." });
+      }
+
+      await seedDefaultsIfEmpty(updatedBy);
+
+      const ref = col.doc(ruleId);
+      const snap = await ref.get();
+      if (!snap.exists) {
+        return res.status(404).json({ error: `Rule not found: ${ruleId}` });
+      }
+
+      const current = snap.data() as FollowupRuleDoc;
+      const patch: Partial<FollowupRuleDef> =
+        action === "disable" ? { enabled: false } : { ...rule };
+      const merged: FollowupRuleDef = {
+        ...current,
+        ...patch,
+        ruleId, // immutable
+      };
+      const errors = validateRule(merged);
+      if (errors.length) {
+        return res
+          .status(400)
+          .json({ error: "Invalid rule.", details: errors });
+      }
+
+      const now = Timestamp.now();
+      await ref.set(
+        { ...merged, createdAt: current.createdAt, updatedAt: now, updatedBy },
+        { merge: false },
+      );
+      clearFollowupRulesCache();
+
+      return res.status(200).json({
+        message: action === "disable" ? "Rule disabled." : "Rule updated.",
+        rule: toJson({
+          ...merged,
+          createdAt: current.createdAt,
+          updatedAt: now,
+          updatedBy,
+        }),
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // Unsupported action
+    // -----------------------------------------------------------------------
+    return res
+      .status(400)
+      .json({ error: `Unsupported action: ${String(action)}` });
+  } catch (error: any) {
+    console.error("[handleRulesCommand] Error:", error);
+    return res.status(500).json({
+      error: "Failed to process follow-up rules command.",
+      details: error?.message ?? String(error),
+    });
+  }
+}
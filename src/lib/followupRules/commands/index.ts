@@ -0,0 +1,3 @@
+export { handleRulesCommand } from "./handleRulesCommand.js";
+export { handleDryRunCommand } from "./handleDryRunCommand.js";
+export { handleCancelRulesCommand } from "./handleCancelRulesCommand.js";
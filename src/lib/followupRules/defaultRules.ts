@@ -0,0 +1,78 @@
+// -----------------------------------------------------------------------------
+// Built-in follow-up rules.
+// - Used whenever the `followupRules` collection is empty.
+// - Mirrors the original hard-coded triggers and day offsets, so behavior is
+//   unchanged until rules are managed in Firestore.
+// -----------------------------------------------------------------------------
+
+import type { FollowupRuleDef } from "../../types/followupRule.js";
+
+/** Google Docs / Drive link domains shared by proposal & agreement rules. */
+const GOOGLE_DOC_DOMAINS = ["docs.google.com", "drive.google.com"];
+
+export const DEFAULT_FOLLOWUP_RULES: FollowupRuleDef[] = [
+  // 1) Bot added to the group → "call link sent?" check (+3h, snapped out of 03:00–11:00 local time)
+  {
+    ruleId: "bot_join_call_check",
+    name: "Bot added → call link check",
+    enabled: true,
+    priority: 100,
+    match: { messageTypes: ["member_join"], botAdded: true },
+    steps: [
+      {
+        type: "follow_up_bot_join_call_check",
+        offsetHours: 3,
+        snapWindow: { fromHour: 3, toHour: 11 },
+      },
+    ],
+  },
+
+  // 2) Proposal shared as a Google Docs/Drive link → 1st (+3d), 2nd (+6d)
+  {
+    ruleId: "proposal",
+    name: "Proposal document",
+    enabled: true,
+    priority: 90,
+    match: { pattern: "proposal", linkDomains: GOOGLE_DOC_DOMAINS },
+    steps: [
+      { type: "follow_up_proposal_1st", offsetDays: 3 },
+      { type: "follow_up_proposal_2nd", offsetDays: 6 },
+    ],
+  },
+
+  // 3) Invoice sent as a document → 1st (+2d), 2nd (+4d)
+  {
+    ruleId: "invoice",
+    name: "Invoice document",
+    enabled: true,
+    priority: 80,
+    match: { messageTypes: ["document"], pattern: "invoice" },
+    steps: [
+      { type: "follow_up_invoice_1st", offsetDays: 2 },
+      { type: "follow_up_invoice_2nd", offsetDays: 4 },
+    ],
+  },
+
+  // 4) Calendly link → once (+1d)
+  {
+    ruleId: "calendly",
+    name: "Calendly link",
+    enabled: true,
+    priority: 70,
+    match: { linkDomains: ["calendly.com"] },
+    steps: [{ type: "follow_up_calendly", offsetDays: 1 }],
+  },
+
+  // 5) Agreement shared as a Google Docs/Drive link → 1st (+2d), 2nd (+4d)
+  {
+    ruleId: "agreement",
+    name: "Agreement document",
+    enabled: true,
+    priority: 60,
+    match: { pattern: "agreement", linkDomains: GOOGLE_DOC_DOMAINS },
+    steps: [
+      { type: "follow_up_agreement_1st", offsetDays: 2 },
+      { type: "follow_up_agreement_2nd", offsetDays: 4 },
+    ],
+  },
+];
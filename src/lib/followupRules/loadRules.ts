@@ -0,0 +1,53 @@
+// -----------------------------------------------------------------------------
+// Load follow-up rules from Firestore (followupRules/*).
+// - Falls back to the built-in defaults when the collection is empty
+// - Returns enabled rules only, sorted by priority (desc)
+// - Uses a short-lived in-memory cache (utils/ttlCache.ts) to avoid a read on
+//   every webhook call
+// -----------------------------------------------------------------------------
+
+import { db } from "../firebase.js";
+import { DEFAULT_FOLLOWUP_RULES } from "./defaultRules.js";
+import { createCachedLoader } from "../../utils/ttlCache.js";
+import type {
+  FollowupRuleDef,
+  FollowupRuleDoc,
+} from "../../types/followupRule.js";
+
+/** Firestore collection name for follow-up rules. */
+export const FOLLOWUP_RULES_COLLECTION = "followupRules";
+
+const cache = createCachedLoader<FollowupRuleDef[]>({
+  tag: "followupRules",
+  load: async () => {
+    const snap = await db.collection(FOLLOWUP_RULES_COLLECTION).get();
+    const source: FollowupRuleDef[] = snap.empty
+      ? DEFAULT_FOLLOWUP_RULES
+      : snap.docs.map((d) => ({
+          ...(d.data() as FollowupRuleDoc),
+          ruleId: d.id,
+        }));
+    return sortRules(source.filter((r) => r.enabled));
+  },
+  fallback: () => sortRules(DEFAULT_FOLLOWUP_RULES),
+});
+
+/**
+ * Returns the active rule set (enabled only, priority desc).
+ * - Firestore errors are non-fatal: the last cached set (or defaults) is used.
+ */
+export async function loadFollowupRules(): Promise<FollowupRuleDef[]> {
+  return cache.get();
+}
+
+/** Expire the cached rule set (call after admin writes; this instance only). */
+export function clearFollowupRulesCache(): void {
+  cache.clear();
+}
+
+/** Sort by priority (desc), then ruleId (asc) for deterministic evaluation. */
+export function sortRules<T extends FollowupRuleDef>(rules: T[]): T[] {
+  return [...rules].sort(
+    (a, b) => b.priority - a.priority || a.ruleId.localeCompare(b.ruleId),
+  );
+}
@@ -0,0 +1,118 @@
+// -----------------------------------------------------------------------------
+// Follow-up rule matching.
+// - evaluateRule(): check one rule against a Telegram message (with reasons)
+// - findMatchingRule(): first matching rule in the given (sorted) list
+// -----------------------------------------------------------------------------
+
+import { isFromInternal } from "../isInternal.js";
+import { isOwnBotUser } from "../telegram/bots.js";
+import type { MessageType } from "../../types/message.js";
+import type {
+  FollowupMatchField,
+  FollowupRuleDef,
+} from "../../types/followupRule.js";
+
+const ALL_FIELDS: FollowupMatchField[] = ["text", "caption", "fileName"];
+
+/** Result of evaluating a single rule (reasons explain a mismatch). */
+export type RuleEvaluation = {
+  ruleId: string;
+  matched: boolean;
+  reasons: string[];
+};
+
+/**
+ * Evaluate one rule against a message.
+ * All conditions present on `rule.match` must hold; absent ones are ignored.
+ */
+export function evaluateRule(
+  rule: FollowupRuleDef,
+  msg: any,
+  type: MessageType,
+): RuleEvaluation {
+  const m = rule.match ?? {};
+  const reasons: string[] = [];
+
+  // --- Sender guard (default: internal members only) ---
+  if ((m.internalOnly ?? true) && !isFromInternal(msg?.from?.id)) {
+    reasons.push("sender is not an internal member");
+  }
+
+  // --- Message type ---
+  if (m.messageTypes?.length && !m.messageTypes.includes(type)) {
+    reasons.push(
+      `message type "${type}" not in [${m.messageTypes.join(", ")}]`,
+    );
+  }
+
+  // --- Bot added to the group ---
+  if (m.botAdded) {
+    const added =
+      type === "member_join" &&
+      Array.isArray(msg?.new_chat_members) &&
+      msg.new_chat_members.some(isOwnBotUser);
+    if (!added) reasons.push("bot was not added by this message");
+  }
+
+  // --- Regex pattern on selected fields ---
+  if (m.pattern) {
+    const haystack = pickFields(msg, m.fields?.length ? m.fields : ALL_FIELDS);
+    let re: RegExp | null = null;
+    try {
+      re = new RegExp(m.pattern, "i");
+    } catch {
+      reasons.push(`invalid pattern: ${m.pattern}`);
+    }
+    if (re && !re.test(haystack)) {
+      reasons.push(`pattern /${m.pattern}/i did not match`);
+    }
+  }
+
+  // --- Link domains (any of) ---
+  if (m.linkDomains?.length) {
+    const haystack =
+      `${pickFields(msg, ALL_FIELDS)}\n${entityUrls(msg)}`.toLowerCase();
+    const hit = m.linkDomains.some((d) => haystack.includes(d.toLowerCase()));
+    if (!hit) reasons.push(`no link to [${m.linkDomains.join(", ")}]`);
+  }
+
+  return { ruleId: rule.ruleId, matched: reasons.length === 0, reasons };
+}
+
+/**
+ * Return the first rule that matches (rules must already be priority-sorted).
+ * Returns null when no rule matches.
+ */
+export function findMatchingRule(
+  rules: FollowupRuleDef[],
+  msg: any,
+  type: MessageType,
+): FollowupRuleDef | null {
+  return rules.find((r) => evaluateRule(r, msg, type).matched) ?? null;
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/** Join the requested message fields into one newline-separated string. */
+export function pickFields(msg: any, fields: FollowupMatchField[]): string {
+  const values: Record<FollowupMatchField, string> = {
+    text: String(msg?.text ?? ""),
+    caption: String(msg?.caption ?? ""),
+    fileName: String(msg?.document?.file_name ?? ""),
+  };
+  return fields.map((f) => values[f]).join("\n");
+}
+
+/** URLs hidden behind text_link entities (not visible in text/caption). */
+function entityUrls(msg: any): string {
+  const entities = [
+    ...(Array.isArray(msg?.entities) ? msg.entities : []),
+    ...(Array.isArray(msg?.caption_entities) ? msg.caption_entities : []),
+  ];
+  return entities
+    .map((e: any) => (typeof e?.url === "string" ? e.url : ""))
+    .filter(Boolean)
+    .join("\n");
+}
@@ -0,0 +1,134 @@
+// -----------------------------------------------------------------------------
+// Validation for follow-up rule input (admin API & dry-run drafts).
+// - Returns a list of human-readable errors (empty → valid)
+// -----------------------------------------------------------------------------
+
+import { NOTIFICATION_TYPES } from "../../types/notification.js";
+import {
+  FOLLOWUP_RECIPIENTS,
+  type FollowupRuleDef,
+} from "../../types/followupRule.js";
+
+const MESSAGE_TYPES = [
+  "text",
+  "photo",
+  "video",
+  "document",
+  "sticker",
+  "member_join",
+  "member_leave",
+  "other",
+];
+const MATCH_FIELDS = ["text", "caption", "fileName"];
+
+/** Validate a complete rule definition. */
+export function validateRule(rule: Partial<FollowupRuleDef>): string[] {
+  const errors: string[] = [];
+
+  // --- Identity ---
+  if (!rule.ruleId || !/^[a-z0-9_-]{1,64}$/.test(rule.ruleId)) {
+    errors.push("ruleId must match /^[a-z0-9_-]{1,64}$/");
+  }
+  if (!rule.name || typeof rule.name !== "string" || !rule.name.trim()) {
+    errors.push("name is required");
+  }
+  if (typeof rule.enabled !== "boolean") errors.push("enabled must be boolean");
+  if (typeof rule.priority !== "number" || !Number.isFinite(rule.priority)) {
+    errors.push("priority must be a number");
+  }
+
+  // --- Match conditions ---
+  const m = rule.match;
+  if (!m || typeof m !== "object") {
+    errors.push("match is required (object)");
+  } else {
+    if (
+      m.messageTypes &&
+      (!Array.isArray(m.messageTypes) ||
+        m.messageTypes.some((t) => !MESSAGE_TYPES.includes(t)))
+    ) {
+      errors.push(`match.messageTypes must be a subset of [${MESSAGE_TYPES}]`);
+    }
+    if (m.pattern !== undefined) {
+      try {
+        new RegExp(String(m.pattern), "i");
+      } catch {
+        errors.push(`match.pattern is not a valid regex: ${m.pattern}`);
+      }
+    }
+    if (
+      m.fields &&
+      (!Array.isArray(m.fields) ||
+        m.fields.some((f) => !MATCH_FIELDS.includes(f)))
+    ) {
+      errors.push(`match.fields must be a subset of [${MATCH_FIELDS}]`);
+    }
+    if (
+      m.linkDomains &&
+      (!Array.isArray(m.linkDomains) ||
+        m.linkDomains.some((d) => typeof d !== "string" || !d.trim()))
+    ) {
+      errors.push("match.linkDomains must be an array of non-empty strings");
+    }
+    const hasCondition =
+      !!m.messageTypes?.length ||
+      !!m.pattern ||
+      !!m.linkDomains?.length ||
+      !!m.botAdded;
+    if (!hasCondition) {
+      errors.push(
+        "match needs at least one of messageTypes/pattern/linkDomains/botAdded",
+      );
+    }
+  }
+
+  // --- Steps ---
+  if (!Array.isArray(rule.steps) || rule.steps.length === 0) {
+    errors.push("steps must be a non-empty array");
+  } else {
+    rule.steps.forEach((s, i) => {
+      const at = `steps[${i}]`;
+      if (!NOTIFICATION_TYPES.includes(s?.type)) {
+        errors.push(`${at}.type must be one of [${NOTIFICATION_TYPES}]`);
+      }
+      if (s.offsetHours !== undefined && !isNonNegative(s.offsetHours)) {
+        errors.push(`${at}.offsetHours must be a non-negative number`);
+      }
+      if (s.offsetDays !== undefined && !isNonNegative(s.offsetDays)) {
+        errors.push(`${at}.offsetDays must be a non-negative number`);
+      }
+      if (s.hour !== undefined && !isIntIn(s.hour, 0, 23)) {
+        errors.push(`${at}.hour must be an integer in 0..23`);
+      }
+      if (s.minute !== undefined && !isIntIn(s.minute, 0, 59)) {
+        errors.push(`${at}.minute must be an integer in 0..59`);
+      }
+      if (
+        s.snapWindow !== undefined &&
+        (!isIntIn(s.snapWindow?.fromHour, 0, 23) ||
+          !isIntIn(s.snapWindow?.toHour, 0, 23) ||
+          s.snapWindow.fromHour > s.snapWindow.toHour)
+      ) {
+        errors.push(`${at}.snapWindow must be {fromHour<=toHour} in 0..23`);
+      }
+    });
+  }
+
+  // --- Recipients ---
+  if (
+    rule.recipients !== undefined &&
+    !FOLLOWUP_RECIPIENTS.includes(rule.recipients)
+  ) {
+    errors.push(`recipients must be one of [${FOLLOWUP_RECIPIENTS}]`);
+  }
+
+  return errors;
+}
+
+function isNonNegative(v: unknown): boolean {
+  return typeof v === "number" && Number.isFinite(v) && v >= 0;
+}
+
+function isIntIn(v: unknown, min: number, max: number): boolean {
+  return typeof v === "number" && Number.isInteger(v) && v >= min && v <= max;
+}
@@ -1,25 +1,80 @@
 /**
- * Internal member detector (hard-coded)
+ * Internal member detector (people/* with `internal.active == true`)
  *
- * - Put Telegram user IDs of team members in the set below.
+ * - Membership is managed in Firestore via POST /api/team/members.
  * - Comparison is string-based; any input is coerced to string & trimmed.
- * - Minimal surface: call `isFromInternal(message.sender.id)`.
+ * - `isFromInternal()` is synchronous and reads an in-memory set; async entry
+ *   points (webhook, report / analytics jobs) call `loadInternalMembers()`
+ *   first, which refreshes the set when it is older than the cache TTL.
+ * - The seed list below is written to Firestore once at startup
+ *   (seedInternalMembersOnce). It is used directly only until the first
+ *   successful load, or while people/* has no membership record at all
+ *   (active or removed); after that Firestore alone decides.
  */
 
-/** Team member IDs */
-const INTERNAL_USER_IDS = new Set<string>([
-  "5106417385", // ellie_hype
-  "5302025575", // yusaku_zach
-  "6217645240", // itsBadhan
-  "7888860699", // Srijanweb3
-  "6288713798", // pochi_udon
-  "1878347283", // Draken0004
-  "6292079093", // ronaparajit
-]);
+import { db } from "./firebase.js";
+import type { PersonDoc } from "../types/person.js";
+import { createCachedLoader } from "../utils/ttlCache.js";
+
+/** Team members before membership moved to Firestore (action "seed"). */
+export const SEED_INTERNAL_USERS: ReadonlyArray<{
+  tgUserId: string;
+  username: string;
+}> = [
+  { tgUserId: "5106417385", username: "ellie_hype" },
+  { tgUserId: "5302025575", username: "yusaku_zach" },
+  { tgUserId: "6217645240", username: "itsBadhan" },
+  { tgUserId: "7888860699", username: "Srijanweb3" },
+  { tgUserId: "6288713798", username: "pochi_udon" },
+  { tgUserId: "1878347283", username: "Draken0004" },
+  { tgUserId: "6292079093", username: "ronaparajit" },
+];
+
+const SEED_IDS = new Set(SEED_INTERNAL_USERS.map((u) => u.tgUserId));
+
+const cache = createCachedLoader<Set<string>>({
+  tag: "internal",
+  load: async () => {
+    // All membership records (incl. removed members) → no record = not seeded
+    const snap = await db
+      .collection("people")
+      .where("internal.active", "in", [true, false])
+      .get();
+    const people = snap.docs.map((d) => d.data() as PersonDoc);
+    if (!people.length) {
+      console.warn("[internal] no membership records yet; using the seed list");
+      return SEED_IDS;
+    }
+    return new Set(
+      people
+        .filter((p) => p.internal?.active)
+        .map((p) => p.telegram?.userId)
+        .filter((id): id is string => !!id),
+    );
+  },
+  fallback: () => SEED_IDS,
+});
+
+/**
+ * Telegram user IDs of active internal members (refreshed after the TTL; see
+ * utils/ttlCache.ts).
+ * - Firestore errors are non-fatal: the last loaded set (or the seed) is used.
+ */
+export async function loadInternalMembers(): Promise<Set<string>> {
+  return cache.get();
+}
+
+/**
+ * Expire the cached member set (call after membership changes; this instance
+ * only). The old set stays in use until the next `loadInternalMembers()`.
+ */
+export function clearInternalMembersCache(): void {
+  cache.clear();
+}
 
 /** Returns true when the senderId belongs to an internal member. */
 export function isFromInternal(senderId: unknown): boolean {
   if (senderId == null) return false;
   const key = String(senderId).trim();
-  return INTERNAL_USER_IDS.has(key);
+  return (cache.peek() ?? SEED_IDS).has(key);
 }
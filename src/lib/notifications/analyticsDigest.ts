@@ -0,0 +1,113 @@
+// -----------------------------------------------------------------------------
+// Weekly Slack digest of delivery analytics (POST /tasks/delivery-analytics-digest).
+// - Last 7 days of notificationDeliveries (computeDeliveryAnalytics)
+// - Reminder effectiveness scores the 7 days before the last window
+//   ([end − 7d − window, end − window)), so every reminder is final: each one
+//   is scored in exactly one digest instead of staying pending
+// - Posted to the alerts channel (postOpsAlert)
+// -----------------------------------------------------------------------------
+
+import { formatJST } from "../../utils/time.js";
+import { formatPercent } from "../../utils/stats.js";
+import { postOpsAlert } from "../slack/postAlert.js";
+import {
+  computeDeliveryAnalytics,
+  type DeliveryAnalytics,
+  type DeliveryStats,
+} from "./deliveryAnalytics.js";
+
+/** Default reminder-effectiveness window (days after a reminder fired). */
+export const DEFAULT_EFFECTIVENESS_WINDOW_DAYS = 3;
+
+const PERIOD_DAYS = 7;
+
+/** "1.2s" / "340ms" (or "-"). */
+function ms(v: number | null): string {
+  if (v === null) return "-";
+  return v >= 1000 ? `${Math.round(v / 100) / 10}s` : `${v}ms`;
+}
+
+/** One digest line per type / channel. */
+function statsLine(s: DeliveryStats): string {
+  return `• ${s.key}: ${s.success}/${s.success + s.failure} ok (${formatPercent(s.successRate)}), p50 ${ms(s.p50Ms)} / p95 ${ms(s.p95Ms)}${
+    s.cancelled ? `, ${s.cancelled} cancelled` : ""
+  }`;
+}
+
+/**
+ * Render analytics as Slack mrkdwn.
+ */
+export function formatAnalyticsDigest(a: DeliveryAnalytics): string {
+  const lines: string[] = [];
+  const { totals, effectiveness: eff } = a;
+
+  lines.push(`📊 *Notification delivery report*`);
+  lines.push(
+    `${formatJST(new Date(a.period.start))} – ${formatJST(new Date(a.period.end))}`,
+  );
+  lines.push("━━━━━━━━━━━━━━━");
+  lines.push(
+    `*Total:* ${totals.total} deliveries · ${formatPercent(totals.successRate)} success · p50 ${ms(totals.p50Ms)} / p95 ${ms(totals.p95Ms)}`,
+  );
+  lines.push("");
+
+  if (a.byType.length) {
+    lines.push("*By type:*");
+    lines.push(...a.byType.map(statsLine));
+    lines.push("");
+  }
+  if (a.byChannel.length) {
+    lines.push("*By channel:*");
+    lines.push(...a.byChannel.map(statsLine));
+    lines.push("");
+  }
+
+  const retries = Object.entries(a.retries)
+    .sort(([x], [y]) => Number(x) - Number(y))
+    .map(([attempt, n]) => `#${attempt}: ${n}`);
+  if (retries.length) {
+    lines.push(`*Succeeded on attempt:* ${retries.join(" · ")}`);
+  }
+  if (a.topErrors.length) {
+    lines.push("*Top errors:*");
+    lines.push(
+      ...a.topErrors.slice(0, 5).map((e) => `• ${e.count}× \`${e.message}\``),
+    );
+  }
+  lines.push("");
+
+  lines.push(
+    `*Reminder effectiveness* (client reply within ${eff.windowDays}d; fired ${formatJST(new Date(eff.period.start))} – ${formatJST(new Date(eff.period.end))}): ${eff.overall.responded}/${eff.overall.fired} (${formatPercent(eff.overall.responseRate)})${
+      eff.overall.pending ? `, ${eff.overall.pending} still open` : ""
+    }`,
+  );
+  lines.push(
+    ...eff.byType.map(
+      (e) =>
+        `• ${e.type}: ${e.responded}/${e.fired} (${formatPercent(e.responseRate)})`,
+    ),
+  );
+
+  return lines.join("\n").trim();
+}
+
+/**
+ * Compute the last 7 days (effectiveness: the 7 days before the last window)
+ * and post the digest.
+ */
+export async function sendDeliveryAnalyticsDigest(): Promise<DeliveryAnalytics> {
+  const end = new Date();
+  const start = new Date(end.getTime() - PERIOD_DAYS * 24 * 3600_000);
+  const windowMs = DEFAULT_EFFECTIVENESS_WINDOW_DAYS * 24 * 3600_000;
+  const analytics = await computeDeliveryAnalytics({
+    start,
+    end,
+    windowDays: DEFAULT_EFFECTIVENESS_WINDOW_DAYS,
+    effectivenessPeriod: {
+      start: new Date(start.getTime() - windowMs),
+      end: new Date(end.getTime() - windowMs),
+    },
+  });
+  await postOpsAlert(formatAnalyticsDigest(analytics));
+  return analytics;
+}
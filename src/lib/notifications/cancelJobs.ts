@@ -0,0 +1,84 @@
+// -----------------------------------------------------------------------------
+// Cancel pending notification jobs (notificationJobs/*).
+// - Jobs are only marked as cancelled here (status + reason). The scheduled
+//   task still fires; /tasks/notifications then logs a "cancelled" delivery
+//   and deletes the job.
+// - Idempotent: already-cancelled jobs are left untouched.
+// -----------------------------------------------------------------------------
+
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../firebase.js";
+import type {
+  NotificationJobDoc,
+  NotificationType,
+} from "../../types/notification.js";
+
+/** Who/what cancelled a job (stored as job.cancelledBy). */
+export type CancelledBy = { kind: string; id: string };
+
+/**
+ * Load pending jobs for a chat (optionally narrowed to some types).
+ */
+export async function listPendingJobsForChat(
+  chatId: string,
+  types?: NotificationType[],
+): Promise<FirebaseFirestore.QueryDocumentSnapshot[]> {
+  const snap = await db
+    .collection("notificationJobs")
+    .where("payload.chatId", "==", chatId)
+    .where("status", "==", "pending")
+    .get();
+
+  if (!types?.length) return snap.docs;
+  return snap.docs.filter((d) =>
+    types.includes((d.data() as NotificationJobDoc).type),
+  );
+}
+
+/**
+ * Mark the given job docs as cancelled (single batch).
+ *
+ * @returns jobIds that were cancelled
+ */
+export async function cancelJobs(
+  docs: FirebaseFirestore.DocumentSnapshot[],
+  reason: string,
+  cancelledBy: CancelledBy,
+): Promise<string[]> {
+  if (!docs.length) return [];
+
+  const now = Timestamp.now();
+  const batch = db.batch();
+  for (const d of docs) {
+    batch.update(d.ref, {
+      status: "cancelled",
+      cancelledAt: now,
+      cancelReason: reason,
+      cancelledBy,
+    });
+  }
+  await batch.commit();
+  return docs.map((d) => d.id);
+}
+
+/**
+ * Cancel every pending job of a chat (optionally narrowed to some types).
+ *
+ * @returns jobIds that were cancelled
+ */
+export async function cancelPendingJobsForChat(
+  chatId: string,
+  reason: string,
+  cancelledBy: CancelledBy,
+  types?: NotificationType[],
+): Promise<string[]> {
+  const docs = await listPendingJobsForChat(chatId, types);
+  const ids = await cancelJobs(docs, reason, cancelledBy);
+  if (ids.length) {
+    console.log(
+      `[notifications] cancelled ${ids.length} job(s) (${reason}):`,
+      ids,
+    );
+  }
+  return ids;
+}
@@ -0,0 +1,102 @@
+// -----------------------------------------------------------------------------
+// Command handler for notification delivery analytics.
+//
+// Request body (all optional):
+//   - startISO / endISO: Period (ISO-8601; default the last 7 days)
+//   - windowDays:        Reminder-effectiveness window in days (default 3)
+//   - notifySlack:       Also post the result as a digest to the alerts channel
+//
+// Notes:
+//   - Periods longer than 92 days are rejected (delivery logs are read in full).
+//   - Effectiveness needs the chats' messages, which expire after
+//     MESSAGE_TTL_DAYS; older periods report fewer responses.
+// -----------------------------------------------------------------------------
+
+import { Request, Response } from "express";
+import { computeDeliveryAnalytics } from "../deliveryAnalytics.js";
+import {
+  DEFAULT_EFFECTIVENESS_WINDOW_DAYS,
+  formatAnalyticsDigest,
+} from "../analyticsDigest.js";
+import { postOpsAlert } from "../../slack/postAlert.js";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+type AnalyticsRequestBody = {
+  startISO?: string;
+  endISO?: string;
+  windowDays?: number;
+  notifySlack?: boolean;
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_PERIOD_DAYS = 7;
+const MAX_PERIOD_DAYS = 92;
+const MAX_WINDOW_DAYS = 30;
+
+// -----------------------------------------------------------------------------
+// Handler
+// -----------------------------------------------------------------------------
+
+export async function handleAnalyticsCommand(req: Request, res: Response) {
+  try {
+    const {
+      startISO,
+      endISO,
+      windowDays = DEFAULT_EFFECTIVENESS_WINDOW_DAYS,
+      notifySlack = false,
+    } = (req.body ?? {}) as AnalyticsRequestBody;
+
+    // --- Validate the period ---
+    const end = endISO ? new Date(endISO) : new Date();
+    const start = startISO
+      ? new Date(startISO)
+      : new Date(end.getTime() - DEFAULT_PERIOD_DAYS * ONE_DAY_MS);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return res
+        .status(400)
+        .json({ error: "'startISO' / 'endISO' must be ISO-8601 times." });
+    }
+    if (
+      start >= end ||
+      end.getTime() - start.getTime() > MAX_PERIOD_DAYS * ONE_DAY_MS
+    ) {
+      return res.status(400).json({
+        error: `The period must be non-empty and at most ${MAX_PERIOD_DAYS} days.`,
+      });
+    }
+    if (
+      !Number.isInteger(windowDays) ||
+      windowDays < 1 ||
+      windowDays > MAX_WINDOW_DAYS
+    ) {
+      return res.status(400).json({
+        error: `'windowDays' must be an integer between 1 and ${MAX_WINDOW_DAYS}.`,
+      });
+    }
+
+    // --- Compute (and optionally post) ---
+    const analytics = await computeDeliveryAnalytics({
+      start,
+      end,
+      windowDays,
+    });
+    if (notifySlack === true) {
+      await postOpsAlert(formatAnalyticsDigest(analytics));
+    }
+
+    return res.status(200).json(analytics);
+  } catch (error: any) {
+    console.error("[handleAnalyticsCommand] Error:", error);
+    return res.status(500).json({
+      error: "Failed to compute notification analytics.",
+      details: error?.message ?? String(error),
+    });
+  }
+}
@@ -0,0 +1,243 @@
+// -----------------------------------------------------------------------------
+// Command handler for dead-lettered notification jobs (notificationDeadLetters/*).
+//
+// Supported actions:
+//   - "list":    Dead letters by `status` (default "open"), newest first
+//   - "get":     One dead letter (`jobId`) with the full job + attempt history
+//   - "replay":  Re-create and enqueue the jobs of `jobIds` (or every open
+//                dead letter with `all: true`) at `scheduledAt` (ISO-8601;
+//                default now)
+//   - "discard": Close the dead letters of `jobIds` without replaying them
+//
+// Notes:
+//   - Only "open" dead letters can be replayed or discarded; others are
+//     reported under `skipped`.
+//   - Every replay / discard is logged to notificationActions/* with the `actor`.
+// -----------------------------------------------------------------------------
+
+import { Request, Response } from "express";
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../../firebase.js";
+import { DEAD_LETTERS_COLLECTION, replayDeadLetter } from "../deadLetters.js";
+import { logNotificationAction } from "../logAction.js";
+import { formatJST } from "../../../utils/time.js";
+import type {
+  DeadLetterStatus,
+  NotificationDeadLetterDoc,
+} from "../../../types/notification.js";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+type DeadLettersRequestBody = {
+  action?: "list" | "get" | "replay" | "discard";
+  jobId?: string;
+  jobIds?: string[];
+  all?: boolean;
+  status?: DeadLetterStatus;
+  scheduledAt?: string; // ISO-8601 (replay)
+  limit?: number;
+  actor?: string;
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+const STATUSES: DeadLetterStatus[] = ["open", "replayed", "discarded"];
+
+/** Task ETAs can be at most 30 days ahead (Cloud Tasks limit). */
+const MAX_ETA_MS = 30 * 24 * 3600_000;
+
+/** Clamp list limit safely. */
+function clampLimit(v: unknown): number {
+  const n = Number(v);
+  if (!Number.isFinite(n)) return DEFAULT_LIMIT;
+  return Math.max(1, Math.min(Math.trunc(n), MAX_LIMIT));
+}
+
+/** JSON-friendly summary of a dead letter. */
+function summarizeDeadLetter(dl: NotificationDeadLetterDoc) {
+  const p = (dl.job.payload ?? {}) as Record<string, any>;
+  return {
+    jobId: dl.jobId,
+    type: dl.job.type,
+    channel: dl.job.channel,
+    chatId: p.chatId ?? null,
+    chatTitle: p.chatTitle ?? null,
+    status: dl.status,
+    reason: dl.reason,
+    lastError: dl.lastError,
+    attempts: dl.attempts.length,
+    replayCount: dl.replayCount,
+    deadAt: dl.deadAt.toDate().toISOString(),
+    deadAtJST: formatJST(dl.deadAt),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Handler
+// -----------------------------------------------------------------------------
+
+export async function handleDeadLettersCommand(req: Request, res: Response) {
+  try {
+    const {
+      action = "list",
+      jobId,
+      jobIds,
+      all,
+      status = "open",
+      scheduledAt,
+      limit,
+      actor,
+    } = (req.body ?? {}) as DeadLettersRequestBody;
+    const col = db.collection(DEAD_LETTERS_COLLECTION);
+    const actorId = typeof actor === "string" && actor.trim() ? actor : null;
+
+    // -----------------------------------------------------------------------
+    // 1) LIST
+    // -----------------------------------------------------------------------
+    if (action === "list") {
+      if (!STATUSES.includes(status)) {
+        return res
+          .status(400)
+          .json({ error: `status must be one of [${STATUSES}]` });
+      }
+      const snap = await col.where("status", "==", status).get();
+      const letters = snap.docs
+        .map((d) => d.data() as NotificationDeadLetterDoc)
+        .sort((a, b) => b.deadAt.toMillis() - a.deadAt.toMillis());
+
+      return res.status(200).json({
+        count: letters.length,
+        deadLetters: letters
+          .slice(0, clampLimit(limit ?? DEFAULT_LIMIT))
+          .map(summarizeDeadLetter),
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // 2) GET (full job + attempt history)
+    // -----------------------------------------------------------------------
+    if (action === "get") {
+      if (!jobId) return res.status(400).json({ error: "Missing 'jobId'." });
+      const snap = await col.doc(jobId).get();
+      if (!snap.exists) {
+        return res
+          .status(404)
+          .json({ error: `Dead letter not found: ${jobId}` });
+      }
+      const dl = snap.data() as NotificationDeadLetterDoc;
+      return res.status(200).json({
+        deadLetter: summarizeDeadLetter(dl),
+        job: dl.job,
+        attempts: dl.attempts.map((a) => ({
+          ...a,
+          finishedAt: a.finishedAt.toDate().toISOString(),
+        })),
+      });
+    }
+
+    if (action !== "replay" && action !== "discard") {
+      return res
+        .status(400)
+        .json({ error: `Unsupported action: ${String(action)}` });
+    }
+
+    // -----------------------------------------------------------------------
+    // 3) REPLAY / DISCARD (bulk)
+    // -----------------------------------------------------------------------
+    let docs: FirebaseFirestore.DocumentSnapshot[];
+    if (action === "replay" && all === true) {
+      docs = (await col.where("status", "==", "open").limit(MAX_LIMIT).get())
+        .docs;
+    } else {
+      if (
+        !Array.isArray(jobIds) ||
+        !jobIds.length ||
+        jobIds.length > MAX_LIMIT ||
+        jobIds.some((id) => typeof id !== "string" || !id)
+      ) {
+        return res.status(400).json({
+          error: `Missing or invalid 'jobIds' (1-${MAX_LIMIT} job ids)${
+            action === "replay" ? " or 'all: true'" : ""
+          }.`,
+        });
+      }
+      docs = await db.getAll(...jobIds.map((id) => col.doc(id)));
+    }
+
+    let eta = Timestamp.now();
+    if (action === "replay" && scheduledAt) {
+      const at = new Date(scheduledAt);
+      if (
+        isNaN(at.getTime()) ||
+        at.getTime() < Date.now() ||
+        at.getTime() > Date.now() + MAX_ETA_MS
+      ) {
+        return res.status(400).json({
+          error:
+            "'scheduledAt' must be an ISO-8601 time between now and 30 days ahead.",
+        });
+      }
+      eta = Timestamp.fromDate(at);
+    }
+
+    const done: string[] = [];
+    const skipped: Array<{ jobId: string; reason: string }> = [];
+    for (const d of docs) {
+      if (!d.exists) {
+        skipped.push({ jobId: d.id, reason: "not_found" });
+        continue;
+      }
+      const dl = d.data() as NotificationDeadLetterDoc;
+      if (dl.status !== "open") {
+        skipped.push({ jobId: d.id, reason: dl.status });
+        continue;
+      }
+
+      if (action === "replay") {
+        if (!(await replayDeadLetter(dl, eta, actorId))) {
+          skipped.push({ jobId: d.id, reason: "job_already_pending" });
+          continue;
+        }
+        await logNotificationAction(dl.job, "replay", actorId, {
+          newJobId: dl.jobId,
+          newScheduledAt: eta,
+        });
+      } else {
+        await d.ref.update({
+          status: "discarded",
+          resolvedAt: Timestamp.now(),
+          resolvedBy: actorId,
+        });
+        await logNotificationAction(dl.job, "discard", actorId);
+      }
+      done.push(d.id);
+    }
+
+    console.log(
+      `[deadLetters] ${action}: ${done.length} done, ${skipped.length} skipped (by ${actorId})`,
+    );
+    return res.status(200).json({
+      message:
+        action === "replay"
+          ? "Dead letters replayed."
+          : "Dead letters discarded.",
+      [action === "replay" ? "replayed" : "discarded"]: done,
+      skipped,
+      ...(action === "replay"
+        ? { scheduledAt: eta.toDate().toISOString() }
+        : {}),
+    });
+  } catch (error: any) {
+    console.error("[handleDeadLettersCommand] Error:", error);
+    return res.status(500).json({
+      error: "Failed to process dead letters command.",
+      details: error?.message ?? String(error),
+    });
+  }
+}
@@ -0,0 +1,312 @@
+// -----------------------------------------------------------------------------
+// Command handler for scheduled notification jobs (notificationJobs/*).
+//
+// Supported actions:
+//   - "list":       Pending jobs, filtered by `chatId`, `type`, `personId`
+//                   (any of the person's Slack / Telegram / email targets) and
+//                   due window `dueFrom` / `dueTo` (ISO-8601); `status`
+//                   "cancelled" lists cancelled jobs instead
+//   - "get":        One job (`jobId`) with its rendered notification text
+//   - "cancel":     Cancel a pending job (`jobId`, optional `reason`)
+//   - "reschedule": Move a pending job to `scheduledAt` (ISO-8601) and
+//                   enqueue a task at the new ETA
+//   - "send_now":   Enqueue a pending job to fire immediately
+//
+// Notes:
+//   - Every write is logged to notificationActions/* with the `actor`
+//     (who) and the previous / new ETA (what).
+//   - Tasks already queued for a job cannot be removed; /tasks/notifications
+//     skips a task that fires before the job's (new) scheduledAt.
+//   - Cancelled jobs still log a "cancelled" delivery when their task fires.
+// -----------------------------------------------------------------------------
+
+import { Request, Response } from "express";
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../../firebase.js";
+import { cancelJobs } from "../cancelJobs.js";
+import { renderNotificationContent } from "../templates.js";
+import { logNotificationAction } from "../logAction.js";
+import { enqueueTask } from "../../taskQueue/index.js";
+import { formatJST } from "../../../utils/time.js";
+import {
+  NOTIFICATION_TYPES,
+  type JobStatus,
+  type NotificationJobDoc,
+  type NotificationType,
+} from "../../../types/notification.js";
+import type { PersonDoc } from "../../../types/person.js";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+type NotificationsRequestBody = {
+  action?: "list" | "get" | "cancel" | "reschedule" | "send_now";
+  jobId?: string;
+  chatId?: string;
+  type?: NotificationType;
+  personId?: string;
+  status?: JobStatus;
+  dueFrom?: string; // ISO-8601
+  dueTo?: string; // ISO-8601
+  scheduledAt?: string; // ISO-8601 (reschedule)
+  reason?: string;
+  limit?: number;
+  actor?: string;
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+const JOBS_COLLECTION = "notificationJobs";
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/** Task ETAs can be at most 30 days ahead (Cloud Tasks limit). */
+const MAX_ETA_MS = 30 * 24 * 3600_000;
+
+/** Parse ISO-8601 to Date or return null when invalid/empty. */
+function parseISO(iso?: string): Date | null {
+  if (!iso || typeof iso !== "string") return null;
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+/** Clamp list limit safely. */
+function clampLimit(v: unknown): number {
+  const n = Number(v);
+  if (!Number.isFinite(n)) return DEFAULT_LIMIT;
+  return Math.max(1, Math.min(Math.trunc(n), MAX_LIMIT));
+}
+
+/** Whether any of the job's targets belongs to the person. */
+function targetsPerson(job: NotificationJobDoc, person: PersonDoc): boolean {
+  const slackIds = new Set((person.slack ?? []).map((s) => s.userId));
+  const tgId = person.telegram?.userId;
+  const email = person.email?.address?.toLowerCase();
+  return (
+    (job.targets.slack ?? []).some((t) => slackIds.has(t.userId)) ||
+    (!!tgId && (job.targets.tg ?? []).some((t) => t.chatId === tgId)) ||
+    (!!email &&
+      (job.targets.email ?? []).some((t) => t.to.toLowerCase() === email))
+  );
+}
+
+/** JSON-friendly summary of a job. */
+function summarizeJob(job: NotificationJobDoc) {
+  const p = (job.payload ?? {}) as Record<string, any>;
+  return {
+    jobId: job.jobId,
+    type: job.type,
+    channel: job.channel,
+    status: job.status,
+    scheduledAt: job.scheduledAt.toDate().toISOString(),
+    scheduledAtJST: formatJST(job.scheduledAt),
+    chatId: p.chatId ?? null,
+    chatTitle: p.chatTitle ?? null,
+    targets: job.targets,
+    source: job.source,
+    ...(job.cancelReason ? { cancelReason: job.cancelReason } : {}),
+    createdAt: job.createdAt?.toDate?.()?.toISOString?.() ?? null,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Handler
+// -----------------------------------------------------------------------------
+
+export async function handleNotificationsCommand(req: Request, res: Response) {
+  try {
+    const {
+      action = "list",
+      jobId,
+      chatId,
+      type,
+      personId,
+      status = "pending",
+      dueFrom,
+      dueTo,
+      scheduledAt,
+      reason,
+      limit,
+      actor,
+    } = (req.body ?? {}) as NotificationsRequestBody;
+    const col = db.collection(JOBS_COLLECTION);
+    const actorId = typeof actor === "string" && actor.trim() ? actor : null;
+
+    // -----------------------------------------------------------------------
+    // 1) LIST
+    // -----------------------------------------------------------------------
+    if (action === "list") {
+      if (status !== "pending" && status !== "cancelled") {
+        return res
+          .status(400)
+          .json({ error: 'status must be "pending" | "cancelled"' });
+      }
+      if (type !== undefined && !NOTIFICATION_TYPES.includes(type)) {
+        return res.status(400).json({ error: `Unknown type: ${type}` });
+      }
+      const from = dueFrom ? parseISO(dueFrom) : null;
+      const to = dueTo ? parseISO(dueTo) : null;
+      if ((dueFrom && !from) || (dueTo && !to)) {
+        return res
+          .status(400)
+          .json({ error: "dueFrom / dueTo must be ISO-8601 timestamps." });
+      }
+
+      let person: PersonDoc | null = null;
+      if (personId) {
+        const snap = await db.collection("people").doc(personId).get();
+        if (!snap.exists) {
+          return res
+            .status(404)
+            .json({ error: `Person not found: ${personId}` });
+        }
+        person = snap.data() as PersonDoc;
+      }
+
+      // Equality filters in Firestore; due window / person filtered here
+      // (avoids a composite index per filter combination)
+      let q: FirebaseFirestore.Query = col.where("status", "==", status);
+      if (chatId) q = q.where("payload.chatId", "==", String(chatId));
+      if (type) q = q.where("type", "==", type);
+      const snap = await q.get();
+
+      const jobs = snap.docs
+        .map((d) => d.data() as NotificationJobDoc)
+        .filter((j) => {
+          const at = j.scheduledAt.toMillis();
+          if (from && at < from.getTime()) return false;
+          if (to && at > to.getTime()) return false;
+          return !person || targetsPerson(j, person);
+        })
+        .sort((a, b) => a.scheduledAt.toMillis() - b.scheduledAt.toMillis());
+
+      const lim = clampLimit(limit ?? DEFAULT_LIMIT);
+      return res.status(200).json({
+        count: jobs.length,
+        jobs: jobs.slice(0, lim).map(summarizeJob),
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // Single-job actions: load the job first
+    // -----------------------------------------------------------------------
+    if (!jobId || typeof jobId !== "string") {
+      return res.status(400).json({ error: "Missing 'jobId'." });
+    }
+    const ref = col.doc(jobId);
+    const snap = await ref.get();
+    if (!snap.exists) {
+      return res.status(404).json({ error: `Job not found: ${jobId}` });
+    }
+    const job = snap.data() as NotificationJobDoc;
+
+    // -----------------------------------------------------------------------
+    // 2) GET (job + rendered text)
+    // -----------------------------------------------------------------------
+    if (action === "get") {
+      const content = await renderNotificationContent(job);
+      return res.status(200).json({
+        job: summarizeJob(job),
+        payload: job.payload ?? {},
+        ...(job.threadParentJobId
+          ? { threadParentJobId: job.threadParentJobId }
+          : {}),
+        rendered: { subject: content.subject, text: content.mentionedText },
+      });
+    }
+
+    if (
+      action !== "cancel" &&
+      action !== "reschedule" &&
+      action !== "send_now"
+    ) {
+      return res
+        .status(400)
+        .json({ error: `Unsupported action: ${String(action)}` });
+    }
+
+    if (job.status !== "pending") {
+      return res
+        .status(409)
+        .json({ error: `Job is ${job.status}; only pending jobs can change.` });
+    }
+
+    // -----------------------------------------------------------------------
+    // 3) CANCEL
+    // -----------------------------------------------------------------------
+    if (action === "cancel") {
+      const cancelReason =
+        typeof reason === "string" && reason.trim() ? reason.trim() : "manual";
+      await cancelJobs([snap], cancelReason, {
+        kind: "api",
+        id: actorId ?? "unknown",
+      });
+      const actionId = await logNotificationAction(job, "cancel", actorId, {
+        reason: cancelReason,
+      });
+
+      console.log(`[notifications] job ${jobId} cancelled by ${actorId}`);
+      return res
+        .status(200)
+        .json({ message: "Job cancelled.", jobId, actionId });
+    }
+
+    // -----------------------------------------------------------------------
+    // 4) RESCHEDULE / SEND_NOW (new ETA + new task)
+    // -----------------------------------------------------------------------
+    let eta: Timestamp;
+    if (action === "send_now") {
+      eta = Timestamp.now();
+    } else {
+      const at = parseISO(scheduledAt);
+      if (!at) {
+        return res
+          .status(400)
+          .json({ error: "Missing or invalid 'scheduledAt' (ISO-8601)." });
+      }
+      if (at.getTime() < Date.now() || at.getTime() > Date.now() + MAX_ETA_MS) {
+        return res.status(400).json({
+          error: "'scheduledAt' must be between now and 30 days ahead.",
+        });
+      }
+      eta = Timestamp.fromDate(at);
+    }
+
+    await ref.update({ scheduledAt: eta });
+    await enqueueTask({
+      url: `${process.env.PUBLIC_BASE_URL}/tasks/notifications`,
+      payload: { jobId },
+      scheduledAt: eta,
+      taskName: `${jobId}-${eta.toMillis()}`, // the jobId name is already taken
+    });
+    const actionId = await logNotificationAction(job, action, actorId, {
+      previousScheduledAt: job.scheduledAt,
+      newScheduledAt: eta,
+      ...(typeof reason === "string" && reason.trim()
+        ? { reason: reason.trim() }
+        : {}),
+    });
+
+    console.log(
+      `[notifications] job ${jobId} ${action} → ${formatJST(eta)} by ${actorId}`,
+    );
+    return res.status(200).json({
+      message:
+        action === "send_now" ? "Job queued to send now." : "Job rescheduled.",
+      jobId,
+      actionId,
+      previousScheduledAt: job.scheduledAt.toDate().toISOString(),
+      scheduledAt: eta.toDate().toISOString(),
+      scheduledAtJST: formatJST(eta),
+    });
+  } catch (error: any) {
+    console.error("[handleNotificationsCommand] Error:", error);
+    return res.status(500).json({
+      error: "Failed to process notifications command.",
+      details: error?.message ?? String(error),
+    });
+  }
+}
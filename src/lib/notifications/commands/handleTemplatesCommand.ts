@@ -0,0 +1,312 @@
+// -----------------------------------------------------------------------------
+// Command handler for notification templates (notificationTemplates/*).
+//
+// Supported actions:
+//   - "list":    List all templates
+//   - "get":     One template (`templateId`)
+//   - "upsert":  Create or update a template from `template`
+//   - "disable": Set enabled=false for `templateId` (built-in text is used)
+//   - "preview": Render a template against a real pending job (`jobId`);
+//                the stored template (`templateId`), a draft (`template`) or,
+//                with neither, whatever the job would be sent with
+//
+// Notes:
+//   - Variables: {{chatTitle}} {{daysSince}} {{fileName}} {{caption}}
+//     {{mentions}} {{sentAt}}; unknown variables are rejected.
+//   - Every write clears the in-memory cache used by /tasks/notifications.
+// -----------------------------------------------------------------------------
+
+import { Request, Response } from "express";
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../../firebase.js";
+import {
+  TEMPLATES_COLLECTION,
+  TEMPLATE_VARIABLES,
+  clearTemplatesCache,
+  findTemplate,
+  loadTemplates,
+  renderWithTemplate,
+  unknownVariables,
+} from "../templates.js";
+import { buildNotificationContent } from "../renderContent.js";
+import {
+  NOTIFICATION_TYPES,
+  type NotificationJobDoc,
+} from "../../../types/notification.js";
+import {
+  NOTIFICATION_LOCALES,
+  type NotificationLocale,
+  type NotificationTemplateDef,
+  type NotificationTemplateDoc,
+} from "../../../types/notificationTemplate.js";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+type TemplatesRequestBody = {
+  action?: "list" | "get" | "upsert" | "disable" | "preview";
+  templateId?: string;
+  template?: Partial<NotificationTemplateDef>;
+  jobId?: string;
+  locale?: NotificationLocale;
+  actor?: string;
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/** Validate a complete template definition. */
+function validateTemplate(t: Partial<NotificationTemplateDef>): string[] {
+  const errors: string[] = [];
+  if (!t.templateId || !/^[a-z0-9_-]{1,64}$/.test(t.templateId)) {
+    errors.push("templateId must match /^[a-z0-9_-]{1,64}$/");
+  }
+  if (!t.name || !String(t.name).trim()) errors.push("name is required");
+  if (typeof t.enabled !== "boolean") errors.push("enabled must be boolean");
+  if (t.type != null && !NOTIFICATION_TYPES.includes(t.type)) {
+    errors.push(`type must be null or one of [${NOTIFICATION_TYPES}]`);
+  }
+  if (!t.defaultLocale || !NOTIFICATION_LOCALES.includes(t.defaultLocale)) {
+    errors.push(`defaultLocale must be one of [${NOTIFICATION_LOCALES}]`);
+  }
+
+  const locales = t.locales ?? {};
+  if (typeof locales !== "object" || Array.isArray(locales)) {
+    errors.push("locales must be an object keyed by locale");
+    return errors;
+  }
+  for (const [locale, variant] of Object.entries(locales)) {
+    if (!NOTIFICATION_LOCALES.includes(locale as NotificationLocale)) {
+      errors.push(`locales.${locale}: unsupported locale`);
+      continue;
+    }
+    if (!variant || typeof variant.body !== "string" || !variant.body.trim()) {
+      errors.push(`locales.${locale}.body is required`);
+      continue;
+    }
+    if (variant.subject !== undefined && typeof variant.subject !== "string") {
+      errors.push(`locales.${locale}.subject must be a string`);
+    }
+    const unknown = unknownVariables(`${variant.subject ?? ""}${variant.body}`);
+    if (unknown.length) {
+      errors.push(
+        `locales.${locale}: unknown variables [${unknown}] (supported: [${TEMPLATE_VARIABLES}])`,
+      );
+    }
+  }
+  if (t.defaultLocale && !locales[t.defaultLocale]) {
+    errors.push(`locales.${t.defaultLocale} (defaultLocale) is required`);
+  }
+  return errors;
+}
+
+// -----------------------------------------------------------------------------
+// Handler
+// -----------------------------------------------------------------------------
+
+export async function handleTemplatesCommand(req: Request, res: Response) {
+  try {
+    const {
+      action = "list",
+      templateId,
+      template,
+      jobId,
+      locale,
+      actor,
+    } = (req.body ?? {}) as TemplatesRequestBody;
+    const col = db.collection(TEMPLATES_COLLECTION);
+    const updatedBy = typeof actor === "string" && actor.trim() ? actor : null;
+
+    // -----------------------------------------------------------------------
+    // 1) LIST
+    // -----------------------------------------------------------------------
+    if (action === "list") {
+      const snap = await col.get();
+      const templates = snap.docs.map((d) => ({
+        ...(d.data() as NotificationTemplateDoc),
+        templateId: d.id,
+      }));
+      return res.status(200).json({ count: templates.length, templates });
+    }
+
+    // -----------------------------------------------------------------------
+    // 2) GET
+    // -----------------------------------------------------------------------
+    if (action === "get") {
+      if (!templateId) {
+        return res.status(400).json({ error: "Missing 'templateId'." });
+      }
+      const snap = await col.doc(templateId).get();
+      if (!snap.exists) {
+        return res
+          .status(404)
+          .json({ error: `Template not found: ${templateId}` });
+      }
+      return res
+        .status(200)
+        .json({ template: { ...snap.data(), templateId: snap.id } });
+    }
+
+    // -----------------------------------------------------------------------
+    // 3) UPSERT (create or update a template)
+    // -----------------------------------------------------------------------
+    if (action === "upsert") {
+      const ref = col.doc(template?.templateId ?? templateId ?? "");
+      if (!ref.id) {
+        return res
+          .status(400)
+          .json({ error: "Missing 'template.templateId'." });
+      }
+      const snap = await ref.get();
+      const current = snap.exists
+        ? (snap.data() as NotificationTemplateDoc)
+        : null;
+
+      const merged: Partial<NotificationTemplateDef> = {
+        enabled: true,
+        type: null,
+        ...(current ?? {}),
+        ...(template ?? {}),
+        templateId: ref.id,
+      };
+      const errors = validateTemplate(merged);
+      if (errors.length) {
+        return res
+          .status(400)
+          .json({ error: "Invalid template.", details: errors });
+      }
+
+      const now = Timestamp.now();
+      const def = merged as NotificationTemplateDef;
+      await ref.set({
+        templateId: def.templateId,
+        name: def.name,
+        enabled: def.enabled,
+        type: def.type ?? null,
+        defaultLocale: def.defaultLocale,
+        locales: def.locales,
+        createdAt: current?.createdAt ?? now,
+        updatedAt: now,
+        updatedBy,
+      } satisfies NotificationTemplateDoc);
+      clearTemplatesCache();
+
+      return res.status(current ? 200 : 201).json({
+        message: current ? "Template updated." : "Template created.",
+        template: def,
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // 4) DISABLE
+    // -----------------------------------------------------------------------
+    if (action === "disable") {
+      if (!templateId) {
+        return res.status(400).json({ error: "Missing 'templateId'." });
+      }
+      const ref = col.doc(templateId);
+      if (!(await ref.get()).exists) {
+        return res
+          .status(404)
+          .json({ error: `Template not found: ${templateId}` });
+      }
+      await ref.update({
+        enabled: false,
+        updatedAt: Timestamp.now(),
+        updatedBy,
+      });
+      clearTemplatesCache();
+      return res
+        .status(200)
+        .json({ message: "Template disabled.", templateId });
+    }
+
+    // -----------------------------------------------------------------------
+    // 5) PREVIEW against a real job
+    // -----------------------------------------------------------------------
+    if (action === "preview") {
+      if (!jobId) return res.status(400).json({ error: "Missing 'jobId'." });
+      const jobSnap = await db.collection("notificationJobs").doc(jobId).get();
+      if (!jobSnap.exists) {
+        return res.status(404).json({ error: `Job not found: ${jobId}` });
+      }
+      const job = jobSnap.data() as NotificationJobDoc;
+      if (locale !== undefined && !NOTIFICATION_LOCALES.includes(locale)) {
+        return res
+          .status(400)
+          .json({ error: `locale must be one of [${NOTIFICATION_LOCALES}]` });
+      }
+
+      // Which template: draft > templateId > the one the job would use
+      let def: NotificationTemplateDef | null;
+      if (template) {
+        def = {
+          enabled: true,
+          type: null,
+          ...template,
+          templateId: template.templateId ?? "draft",
+        } as NotificationTemplateDef;
+        const errors = validateTemplate(def);
+        if (errors.length) {
+          return res
+            .status(400)
+            .json({ error: "Invalid template.", details: errors });
+        }
+      } else if (templateId) {
+        def =
+          (await loadTemplates()).find((t) => t.templateId === templateId) ??
+          null;
+        if (!def) {
+          return res
+            .status(404)
+            .json({ error: `Template not found: ${templateId}` });
+        }
+      } else {
+        def = findTemplate(await loadTemplates(), job);
+      }
+
+      if (!def) {
+        const content = buildNotificationContent(job);
+        return res.status(200).json({
+          jobId,
+          templateId: null,
+          source: "built_in",
+          subject: content.subject,
+          text: content.mentionedText,
+        });
+      }
+
+      try {
+        const content = renderWithTemplate(def, job, locale);
+        return res.status(200).json({
+          jobId,
+          templateId: def.templateId,
+          source: "template",
+          locale: content.locale,
+          subject: content.subject,
+          text: content.mentionedText,
+        });
+      } catch (err: any) {
+        return res.status(422).json({
+          error: "Template cannot be rendered (built-in text would be sent).",
+          details: err?.message ?? String(err),
+        });
+      }
+    }
+
+    // -----------------------------------------------------------------------
+    // Unsupported action
+    // -----------------------------------------------------------------------
+    return res
+      .status(400)
+      .json({ error: `Unsupported action: ${String(action)}` });
+  } catch (error: any) {
+    console.error("[handleTemplatesCommand] Error:", error);
+    return res.status(500).json({
+      error: "Failed to process templates command.",
+      details: error?.message ?? String(error),
+    });
+  }
+}
@@ -0,0 +1,4 @@
+export { handleNotificationsCommand } from "./handleNotificationsCommand.js";
+export { handleDeadLettersCommand } from "./handleDeadLettersCommand.js";
+export { handleTemplatesCommand } from "./handleTemplatesCommand.js";
+export { handleAnalyticsCommand } from "./handleAnalyticsCommand.js";
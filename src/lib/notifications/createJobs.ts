@@ -0,0 +1,198 @@
+// -----------------------------------------------------------------------------
+// Create notification jobs (notificationJobs/*) for every channel a set of
+// people can be reached on, and enqueue one task per job
+// (lib/taskQueue, named by jobId).
+//
+// - People route reminders via PersonDoc.notifyChannels (default ["slack"]).
+// - Slack is the primary channel: its job keeps the historical jobId
+//   hashId(idBase), and is created when someone is reachable on Slack.
+// - Nobody reachable on any channel → no job at all (logged; an empty job
+//   would only be dead-lettered as invalid_channel_or_targets).
+// - Email jobs are created only for people who opted in (email.prefs.enabled)
+//   and only while SMTP is configured, with jobId hashId(`${idBase}:email`).
+// - Telegram DM jobs are created one per recipient with jobId
+//   hashId(`${idBase}:tg:${chatId}`), so a retry never re-sends to others.
+// - Existing jobs are skipped (idempotent re-delivery of webhooks).
+// -----------------------------------------------------------------------------
+
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../firebase.js";
+import { enqueueTask } from "../taskQueue/index.js";
+import { isEmailConfigured } from "./transports/email.js";
+import { hashId } from "../../utils/hash.js";
+import type {
+  EmailTarget,
+  NotificationChannel,
+  NotificationJobDoc,
+  NotificationType,
+  SlackTarget,
+  TelegramTarget,
+} from "../../types/notification.js";
+import type { PersonDoc, PersonNotifyChannel } from "../../types/person.js";
+
+/** Reachable targets per channel. */
+export type Recipients = {
+  slack: SlackTarget[];
+  email: EmailTarget[];
+  tg: TelegramTarget[];
+};
+
+/** Whether a person wants reminders on the given channel. */
+function wants(person: PersonDoc, channel: PersonNotifyChannel): boolean {
+  return (person.notifyChannels ?? ["slack"]).includes(channel);
+}
+
+/**
+ * Collect the targets of the given people per channel.
+ * - slack / tg: per PersonDoc.notifyChannels (tg DMs go to telegram.userId)
+ * - slack: links with prefs.enabled !== false, carrying their channels
+ *   (prefs.defaultChannelId + prefs.channels)
+ * - email: opted-in addresses (email.prefs.enabled); none while SMTP is
+ *   not configured (channel unavailable)
+ *
+ * @param botKey  Bot that sends the tg DMs (the chat's bot; default "default")
+ */
+export function recipientsFromPeople(
+  people: PersonDoc[],
+  botKey?: string,
+): Recipients {
+  const slack = people
+    .filter((p) => wants(p, "slack"))
+    .flatMap((p) => p.slack ?? [])
+    .filter((s) => s.prefs?.enabled !== false)
+    .map((s): SlackTarget => {
+      const channelIds = [
+        ...new Set(
+          [s.prefs?.defaultChannelId, ...(s.prefs?.channels ?? [])].filter(
+            (c): c is string => !!c,
+          ),
+        ),
+      ];
+      return {
+        teamId: s.teamId,
+        userId: s.userId,
+        ...(channelIds.length ? { channelIds } : {}),
+      };
+    })
+    .filter((t) => t.teamId && t.userId); // sanitize
+
+  const email = isEmailConfigured()
+    ? people
+        .filter((p) => p.email?.address && p.email.prefs?.enabled)
+        .map((p) => ({ to: p.email!.address }))
+    : [];
+
+  // A private chat's ID equals the user's ID
+  const tg = people
+    .filter((p) => wants(p, "tg") && p.telegram?.userId)
+    .map((p) => ({
+      chatId: p.telegram!.userId,
+      ...(botKey ? { botKey } : {}),
+    }));
+
+  return { slack, email, tg };
+}
+
+/** True if at least one channel has a target. */
+export function hasRecipients(recipients: Recipients): boolean {
+  return (
+    recipients.slack.length > 0 ||
+    recipients.email.length > 0 ||
+    recipients.tg.length > 0
+  );
+}
+
+/** jobId of the Slack job created for an idBase (e.g. a thread parent). */
+export function slackJobId(idBase: string): string {
+  return hashId(idBase);
+}
+
+/**
+ * Create one job per reachable channel and enqueue its task.
+ * - No reachable recipient → no job (a warning is logged)
+ *
+ * @param args.idBase  deterministic key, e.g. `job:${type}:${chatId}:${messageId}`
+ * @param args.threadParentJobId  Slack job to reply under (e.g. the 1st reminder)
+ * @returns jobIds that were newly created
+ */
+export async function createNotificationJobs(args: {
+  idBase: string;
+  type: NotificationType;
+  scheduledAt: Timestamp;
+  recipients: Recipients;
+  payload: Record<string, unknown>;
+  source: { kind: string; id: string };
+  threadParentJobId?: string;
+}): Promise<string[]> {
+  const { idBase, type, scheduledAt, recipients, payload, source } = args;
+  if (!hasRecipients(recipients)) {
+    console.warn(`[notifications] no reachable recipient, no job: ${idBase}`);
+    return [];
+  }
+
+  const perChannel: Array<{
+    channel: NotificationChannel;
+    jobId: string;
+    targets: NotificationJobDoc["targets"];
+  }> = [];
+  if (recipients.slack.length) {
+    perChannel.push({
+      channel: "slack",
+      jobId: slackJobId(idBase),
+      targets: { slack: recipients.slack },
+    });
+  }
+  if (recipients.email.length) {
+    perChannel.push({
+      channel: "email",
+      jobId: hashId(`${idBase}:email`),
+      targets: { email: recipients.email },
+    });
+  }
+  for (const target of recipients.tg) {
+    perChannel.push({
+      channel: "tg",
+      jobId: hashId(`${idBase}:tg:${target.chatId}`),
+      targets: { tg: [target] },
+    });
+  }
+
+  const created: string[] = [];
+  for (const { channel, jobId, targets } of perChannel) {
+    const jobRef = db.collection("notificationJobs").doc(jobId);
+
+    // --- Skip if already exists (idempotency) ---
+    if ((await jobRef.get()).exists) {
+      console.log("[notifications] job exists, skip:", jobId);
+      continue;
+    }
+
+    // --- Persist job document (pending) ---
+    const jobDoc: NotificationJobDoc = {
+      jobId,
+      type,
+      channel,
+      scheduledAt,
+      status: "pending",
+      targets,
+      payload,
+      source,
+      createdAt: Timestamp.now(),
+      ...(channel === "slack" && args.threadParentJobId
+        ? { threadParentJobId: args.threadParentJobId }
+        : {}),
+    };
+    await jobRef.set(jobDoc, { merge: false });
+
+    // --- Enqueue task (HTTP POST at ETA; named by jobId → idempotent) ---
+    await enqueueTask({
+      url: `${process.env.PUBLIC_BASE_URL}/tasks/notifications`,
+      payload: { jobId },
+      scheduledAt,
+      taskName: jobId,
+    });
+
+    created.push(jobId);
+  }
+  return created;
+}
@@ -0,0 +1,74 @@
+// -----------------------------------------------------------------------------
+// Daily Slack digest of new dead letters (POST /tasks/dead-letter-digest).
+// - Lists dead letters not included in a previous digest (notifiedAt == null)
+// - Posted to the alerts channel (postOpsAlert)
+// - Nothing is posted when there are no new dead letters
+// -----------------------------------------------------------------------------
+
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../firebase.js";
+import { DEAD_LETTERS_COLLECTION } from "./deadLetters.js";
+import { formatJST } from "../../utils/time.js";
+import { postOpsAlert } from "../slack/postAlert.js";
+import type { NotificationDeadLetterDoc } from "../../types/notification.js";
+
+/** Dead letters listed one by one; the rest are only counted. */
+const MAX_LINES = 20;
+
+/** One digest line per dead letter. */
+function digestLine(dl: NotificationDeadLetterDoc): string {
+  const p = (dl.job.payload ?? {}) as Record<string, any>;
+  const chat = p.chatTitle || p.chatId || "(no chat)";
+  const error = dl.lastError.message.replace(/\s+/g, " ").slice(0, 120);
+  return `• \`${dl.jobId}\` ${dl.job.type} via ${dl.job.channel} · *${chat}* · ${dl.reason}: ${error}`;
+}
+
+/**
+ * Post the digest and mark the listed dead letters as notified.
+ *
+ * @returns number of new dead letters reported
+ */
+export async function sendDeadLetterDigest(): Promise<number> {
+  const snap = await db
+    .collection(DEAD_LETTERS_COLLECTION)
+    .where("notifiedAt", "==", null)
+    .get();
+  const docs = snap.docs
+    .filter((d) => (d.data() as NotificationDeadLetterDoc).status === "open")
+    .sort(
+      (a, b) =>
+        (a.data() as NotificationDeadLetterDoc).deadAt.toMillis() -
+        (b.data() as NotificationDeadLetterDoc).deadAt.toMillis(),
+    );
+  if (!docs.length) return 0;
+
+  // --- Build message text ---
+  const letters = docs.map((d) => d.data() as NotificationDeadLetterDoc);
+  const lines: string[] = [];
+  lines.push(
+    `🪦 *Failed notifications* — ${letters.length} new dead letter(s)`,
+  );
+  lines.push(
+    `Since ${formatJST(letters[0]!.deadAt)}; replay or discard via POST /api/notifications/dead-letters`,
+  );
+  lines.push("━━━━━━━━━━━━━━━");
+  lines.push(...letters.slice(0, MAX_LINES).map(digestLine));
+  if (letters.length > MAX_LINES) {
+    lines.push(`…and ${letters.length - MAX_LINES} more`);
+  }
+  const text = lines.join("\n");
+
+  // --- Send to Slack ---
+  await postOpsAlert(text);
+
+  // --- Mark as notified (batches of 500) ---
+  const now = Timestamp.now();
+  for (let i = 0; i < docs.length; i += 500) {
+    const batch = db.batch();
+    docs
+      .slice(i, i + 500)
+      .forEach((d) => batch.update(d.ref, { notifiedAt: now }));
+    await batch.commit();
+  }
+  return letters.length;
+}
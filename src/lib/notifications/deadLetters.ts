@@ -0,0 +1,148 @@
+// -----------------------------------------------------------------------------
+// Dead letters of notification jobs (notificationDeadLetters/{jobId}).
+// - /tasks/notifications moves a job here instead of deleting it when it
+//   fails for good, keeping the full job + delivery history
+// - Replay re-creates the job under the same jobId (delivery logs and Slack
+//   threads stay linked) and enqueues a task for it
+// -----------------------------------------------------------------------------
+
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../firebase.js";
+import { enqueueTask } from "../taskQueue/index.js";
+import type {
+  DeadLetterAttempt,
+  DeadLetterReason,
+  NotificationDeadLetterDoc,
+  NotificationDeliveryDoc,
+  NotificationJobDoc,
+} from "../../types/notification.js";
+
+export const DEAD_LETTERS_COLLECTION = "notificationDeadLetters";
+
+/** Delivery history of a job, oldest first. */
+async function loadAttempts(jobId: string): Promise<DeadLetterAttempt[]> {
+  const snap = await db
+    .collection("notificationDeliveries")
+    .where("jobId", "==", jobId)
+    .get();
+  return snap.docs
+    .map((d) => d.data() as NotificationDeliveryDoc)
+    .sort((a, b) => a.finishedAt.toMillis() - b.finishedAt.toMillis())
+    .map((d) => ({
+      attempt: d.attempt,
+      status: d.status,
+      responseCode: d.responseCode ?? null,
+      errorMessage: d.errorMessage ?? null,
+      finishedAt: d.finishedAt,
+    }));
+}
+
+/** The job as stored on the dead letter (send-state fields stripped). */
+function cleanJob(job: NotificationJobDoc): NotificationJobDoc {
+  const {
+    sentOnce: _sentOnce,
+    lastSentAt: _lastSentAt,
+    rateLimitDeferrals: _rateLimitDeferrals,
+    ...rest
+  } = job as NotificationJobDoc & Record<string, unknown>;
+  return rest as NotificationJobDoc;
+}
+
+/**
+ * Move a failed job to the dead letters and delete the job doc.
+ * - For max_attempts_reached, lastError is the last real delivery failure
+ */
+export async function moveToDeadLetters(
+  jobRef: FirebaseFirestore.DocumentReference,
+  job: NotificationJobDoc,
+  reason: DeadLetterReason,
+  lastError: { message: string; responseCode: number | null },
+): Promise<void> {
+  const attempts = await loadAttempts(job.jobId);
+  const lastFailure =
+    reason === "max_attempts_reached"
+      ? attempts
+          .filter(
+            (a) =>
+              a.status === "failure" &&
+              a.errorMessage &&
+              !a.errorMessage.startsWith("max_attempts_reached"),
+          )
+          .pop()
+      : undefined;
+
+  const dlRef = db.collection(DEAD_LETTERS_COLLECTION).doc(job.jobId);
+  const prev = await dlRef.get();
+
+  const doc: NotificationDeadLetterDoc = {
+    jobId: job.jobId,
+    job: cleanJob(job),
+    reason,
+    lastError: lastFailure
+      ? {
+          message: lastFailure.errorMessage!,
+          responseCode: lastFailure.responseCode,
+        }
+      : lastError,
+    attempts,
+    status: "open",
+    deadAt: Timestamp.now(),
+    notifiedAt: null,
+    replayCount:
+      (prev.data() as NotificationDeadLetterDoc | undefined)?.replayCount ?? 0,
+  };
+
+  const batch = db.batch();
+  batch.set(dlRef, doc);
+  batch.delete(jobRef);
+  await batch.commit();
+  console.warn(
+    `[deadLetters] job ${job.jobId} dead-lettered (${reason}): ${doc.lastError.message}`,
+  );
+}
+
+/**
+ * Re-create a dead-lettered job and enqueue it at `scheduledAt`.
+ *
+ * @returns false when a job with the same id is already pending
+ */
+export async function replayDeadLetter(
+  dl: NotificationDeadLetterDoc,
+  scheduledAt: Timestamp,
+  actor: string | null,
+): Promise<boolean> {
+  const jobRef = db.collection("notificationJobs").doc(dl.jobId);
+  const dlRef = db.collection(DEAD_LETTERS_COLLECTION).doc(dl.jobId);
+
+  const {
+    cancelledAt: _cancelledAt,
+    cancelReason: _cancelReason,
+    cancelledBy: _cancelledBy,
+    ...job
+  } = dl.job;
+
+  const created = await db.runTransaction(async (tx) => {
+    if ((await tx.get(jobRef)).exists) return false;
+    tx.create(jobRef, {
+      ...job,
+      status: "pending",
+      scheduledAt,
+    } satisfies NotificationJobDoc);
+    tx.update(dlRef, {
+      status: "replayed",
+      replayCount: dl.replayCount + 1,
+      resolvedAt: Timestamp.now(),
+      resolvedBy: actor,
+    });
+    return true;
+  });
+  if (!created) return false;
+
+  await enqueueTask({
+    url: `${process.env.PUBLIC_BASE_URL}/tasks/notifications`,
+    payload: { jobId: dl.jobId },
+    scheduledAt,
+    taskName: `${dl.jobId}-${scheduledAt.toMillis()}`, // the jobId name is already taken
+  });
+  return true;
+}
@@ -0,0 +1,300 @@
+// -----------------------------------------------------------------------------
+// Delivery analytics from the delivery log (notificationDeliveries/*).
+// - Success / failure rates and p50 / p95 latency (durationMs) per
+//   notification type and channel
+// - Retry distribution: attempt number of successful deliveries
+// - Top error messages of failed deliveries
+// - Reminder effectiveness: share of fired follow_up_* reminders after which
+//   the chat got a client message (external, non-bot sender) within N days
+//
+// Notes:
+// - Deliveries are selected by createdAt in [start, end). Effectiveness may
+//   score another period (`effectivenessPeriod`), e.g. one shifted back by the
+//   window so every reminder in it is final.
+// - A reminder sent on several channels counts once (chat + type + source).
+// - Effectiveness reads tg_chats/{chatId}/messages, so windows must stay within
+//   the message TTL (MESSAGE_TTL_DAYS); reminders whose window has not ended
+//   yet are reported as `pending`.
+// -----------------------------------------------------------------------------
+
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../firebase.js";
+import { isFromInternal, loadInternalMembers } from "../isInternal.js";
+import { percentile, ratio } from "../../utils/stats.js";
+import type {
+  NotificationDeliveryDoc,
+  NotificationType,
+} from "../../types/notification.js";
+import type { MessageDoc } from "../../types/message.js";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type DeliveryStats = {
+  key: string; // notification type or channel ("all" for totals)
+  total: number;
+  success: number;
+  failure: number;
+  cancelled: number;
+  successRate: number | null; // success / (success + failure); null if none
+  p50Ms: number | null;
+  p95Ms: number | null;
+};
+
+export type EffectivenessStats = {
+  type: NotificationType | "all";
+  fired: number; // reminders delivered (window ended)
+  responded: number; // … followed by a client message within the window
+  pending: number; // window still open (not counted in the rate)
+  responseRate: number | null;
+};
+
+export type DeliveryAnalytics = {
+  period: { start: string; end: string }; // ISO-8601
+  totals: DeliveryStats;
+  byType: DeliveryStats[];
+  byChannel: DeliveryStats[];
+  retries: Record<string, number>; // attempt number → successful deliveries
+  topErrors: Array<{ message: string; count: number }>;
+  effectiveness: {
+    period: { start: string; end: string }; // ISO-8601 (reminders fired in)
+    windowDays: number;
+    overall: EffectivenessStats;
+    byType: EffectivenessStats[];
+  };
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+const TOP_ERRORS = 10;
+
+/** Deliveries created in [start, end). */
+async function loadDeliveries(
+  start: Date,
+  end: Date,
+): Promise<NotificationDeliveryDoc[]> {
+  const snap = await db
+    .collection("notificationDeliveries")
+    .where("createdAt", ">=", Timestamp.fromDate(start))
+    .where("createdAt", "<", Timestamp.fromDate(end))
+    .get();
+  return snap.docs.map((d) => d.data() as NotificationDeliveryDoc);
+}
+
+/** Stats of one group of deliveries. */
+function statsOf(key: string, rows: NotificationDeliveryDoc[]): DeliveryStats {
+  const count = (s: NotificationDeliveryDoc["status"]) =>
+    rows.filter((r) => r.status === s).length;
+  const success = count("success");
+  const failure = count("failure");
+  const durations = rows
+    .filter((r) => r.status !== "cancelled" && Number.isFinite(r.durationMs))
+    .map((r) => r.durationMs)
+    .sort((a, b) => a - b);
+
+  return {
+    key,
+    total: rows.length,
+    success,
+    failure,
+    cancelled: count("cancelled"),
+    successRate: ratio(success, success + failure),
+    p50Ms: percentile(durations, 50),
+    p95Ms: percentile(durations, 95),
+  };
+}
+
+/** Group rows by a key and compute stats per group (largest first). */
+function statsBy(
+  rows: NotificationDeliveryDoc[],
+  keyOf: (r: NotificationDeliveryDoc) => string,
+): DeliveryStats[] {
+  const groups = new Map<string, NotificationDeliveryDoc[]>();
+  for (const r of rows) {
+    const k = keyOf(r);
+    groups.set(k, [...(groups.get(k) ?? []), r]);
+  }
+  return [...groups]
+    .map(([k, g]) => statsOf(k, g))
+    .sort((a, b) => b.total - a.total);
+}
+
+/** Error message bucket (ids / numbers collapsed so similar errors group). */
+function errorBucket(message: string): string {
+  return message.replace(/\s+/g, " ").replace(/\d+/g, "N").trim().slice(0, 120);
+}
+
+/**
+ * Client messages of a chat in [from, to] (sentAt), as ms timestamps.
+ */
+async function clientMessageTimes(
+  chatId: string,
+  from: number,
+  to: number,
+): Promise<number[]> {
+  const snap = await db
+    .collection("tg_chats")
+    .doc(chatId)
+    .collection("messages")
+    .where("sentAt", ">", Timestamp.fromMillis(from))
+    .where("sentAt", "<=", Timestamp.fromMillis(to))
+    .get();
+  return snap.docs
+    .map((d) => d.data() as MessageDoc)
+    .filter((m) => !m.isBot && !isFromInternal(m.fromUserId))
+    .map((m) => m.sentAt.toMillis());
+}
+
+/** Reminder effectiveness of the fired follow_up_* reminders. */
+async function effectivenessOf(
+  rows: NotificationDeliveryDoc[],
+  windowDays: number,
+  now: number,
+): Promise<Omit<DeliveryAnalytics["effectiveness"], "period">> {
+  // --- One entry per fired reminder (first successful channel) ---
+  const fired = new Map<
+    string,
+    { type: NotificationType; chatId: string; at: number }
+  >();
+  for (const r of rows) {
+    const chatId = (r.payload as Record<string, any> | undefined)?.chatId;
+    if (r.status !== "success" || !r.type.startsWith("follow_up_") || !chatId) {
+      continue;
+    }
+    const key = `${chatId}:${r.type}:${r.source?.id ?? r.jobId}`;
+    const at = r.finishedAt.toMillis();
+    const prev = fired.get(key);
+    if (!prev || at < prev.at) fired.set(key, { type: r.type, chatId, at });
+  }
+
+  // --- Client messages per chat over the union of the windows ---
+  const windowMs = windowDays * ONE_DAY_MS;
+  const byChat = new Map<string, number[]>();
+  for (const { chatId, at } of fired.values()) {
+    byChat.set(chatId, [...(byChat.get(chatId) ?? []), at]);
+  }
+  const messagesByChat = new Map<string, number[]>();
+  for (const [chatId, times] of byChat) {
+    const from = Math.min(...times);
+    const to = Math.min(Math.max(...times) + windowMs, now);
+    messagesByChat.set(chatId, await clientMessageTimes(chatId, from, to));
+  }
+
+  // --- Count per type ---
+  const acc = new Map<NotificationType | "all", EffectivenessStats>();
+  const bump = (
+    type: NotificationType | "all",
+    f: "fired" | "responded" | "pending",
+  ) => {
+    const s = acc.get(type) ?? {
+      type,
+      fired: 0,
+      responded: 0,
+      pending: 0,
+      responseRate: null,
+    };
+    s[f] += 1;
+    acc.set(type, s);
+  };
+  for (const { type, chatId, at } of fired.values()) {
+    const responded = (messagesByChat.get(chatId) ?? []).some(
+      (t) => t > at && t <= at + windowMs,
+    );
+    const pending = !responded && at + windowMs > now;
+    for (const k of [type, "all"] as const) {
+      if (pending) {
+        bump(k, "pending");
+        continue;
+      }
+      bump(k, "fired");
+      if (responded) bump(k, "responded");
+    }
+  }
+  for (const s of acc.values()) s.responseRate = ratio(s.responded, s.fired);
+
+  const overall = acc.get("all") ?? {
+    type: "all" as const,
+    fired: 0,
+    responded: 0,
+    pending: 0,
+    responseRate: null,
+  };
+  acc.delete("all");
+  return {
+    windowDays,
+    overall,
+    byType: [...acc.values()].sort((a, b) => b.fired - a.fired),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+/**
+ * Compute delivery analytics for a period.
+ *
+ * @param opts.start       Period start (inclusive)
+ * @param opts.end         Period end (exclusive)
+ * @param opts.windowDays  Effectiveness window after each reminder (days)
+ * @param opts.effectivenessPeriod  Reminders to score (default: start / end)
+ */
+export async function computeDeliveryAnalytics(opts: {
+  start: Date;
+  end: Date;
+  windowDays: number;
+  effectivenessPeriod?: { start: Date; end: Date };
+}): Promise<DeliveryAnalytics> {
+  await loadInternalMembers(); // client-message detection below
+  const rows = await loadDeliveries(opts.start, opts.end);
+  const effPeriod = opts.effectivenessPeriod ?? {
+    start: opts.start,
+    end: opts.end,
+  };
+  const effRows = opts.effectivenessPeriod
+    ? await loadDeliveries(effPeriod.start, effPeriod.end)
+    : rows;
+
+  // --- Retries: attempt of each successful delivery ---
+  const retries: Record<string, number> = {};
+  for (const r of rows) {
+    if (r.status !== "success") continue;
+    const k = String(r.attempt ?? 1);
+    retries[k] = (retries[k] ?? 0) + 1;
+  }
+
+  // --- Top errors ---
+  const errors = new Map<string, number>();
+  for (const r of rows) {
+    if (r.status !== "failure") continue;
+    const k = errorBucket(r.errorMessage || `code ${r.responseCode ?? "?"}`);
+    errors.set(k, (errors.get(k) ?? 0) + 1);
+  }
+  const topErrors = [...errors]
+    .map(([message, count]) => ({ message, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_ERRORS);
+
+  return {
+    period: {
+      start: opts.start.toISOString(),
+      end: opts.end.toISOString(),
+    },
+    totals: statsOf("all", rows),
+    byType: statsBy(rows, (r) => r.type),
+    byChannel: statsBy(rows, (r) => r.channel),
+    retries,
+    topErrors,
+    effectiveness: {
+      period: {
+        start: effPeriod.start.toISOString(),
+        end: effPeriod.end.toISOString(),
+      },
+      ...(await effectivenessOf(effRows, opts.windowDays, Date.now())),
+    },
+  };
+}
@@ -0,0 +1,37 @@
+// -----------------------------------------------------------------------------
+// Audit log of admin actions on notification jobs (notificationActions/*).
+// -----------------------------------------------------------------------------
+
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../firebase.js";
+import type {
+  NotificationActionDoc,
+  NotificationActionKind,
+  NotificationJobDoc,
+} from "../../types/notification.js";
+
+/**
+ * Log an admin API action on a job.
+ *
+ * @returns the new actionId
+ */
+export async function logNotificationAction(
+  job: Pick<NotificationJobDoc, "jobId" | "type">,
+  action: NotificationActionKind,
+  actor: string | null,
+  extra: Partial<NotificationActionDoc> = {},
+): Promise<string> {
+  const ref = db.collection("notificationActions").doc();
+  const doc: NotificationActionDoc = {
+    actionId: ref.id,
+    jobId: job.jobId,
+    type: job.type,
+    action,
+    actor: { kind: "api", id: actor ?? "unknown", name: null },
+    deletedJobIds: [],
+    ...extra,
+    createdAt: Timestamp.now(),
+  };
+  await ref.set(doc);
+  return ref.id;
+}
@@ -0,0 +1,93 @@
+// -----------------------------------------------------------------------------
+// Build channel-agnostic notification content from a job.
+// - Same fields as the original Slack reminder (chat title, file, caption,
+//   createdAt) rendered through buildNotificationText()
+// - Timestamps are shown in the recipients' zone (payload.timeZone; default JST)
+// - This is the built-in text; Firestore templates (templates.ts) take
+//   precedence when one applies to the job
+// -----------------------------------------------------------------------------
+
+import { buildNotificationText } from "../../utils/buildNotificationText.js";
+import {
+  DEFAULT_TIME_ZONE,
+  formatInTimeZone,
+  isValidTimeZone,
+} from "../../utils/time.js";
+import type {
+  NotificationJobDoc,
+  NotificationType,
+} from "../../types/notification.js";
+import type { NotificationContent } from "./transports/types.js";
+
+/** Short human label per type (used for email subjects). */
+const SUBJECT_LABELS: Record<NotificationType, string> = {
+  follow_up_bot_join_call_check: "Call link check",
+  follow_up_proposal_1st: "Proposal follow-up",
+  follow_up_proposal_2nd: "Proposal follow-up (2nd)",
+  follow_up_invoice_1st: "Invoice follow-up",
+  follow_up_invoice_2nd: "Invoice follow-up (2nd)",
+  follow_up_calendly: "Calendly follow-up",
+  follow_up_agreement_1st: "Agreement follow-up",
+  follow_up_agreement_2nd: "Agreement follow-up (2nd)",
+  manual_reminder: "Reminder",
+};
+
+/** Job fields shared by the built-in text and templates (lib/notifications/templates.ts). */
+export type NotificationFields = {
+  chatTitle: string;
+  fileName: string;
+  caption: string;
+  createdAt: string; // formatted in `timeZone`
+  mentions: string; // "<@U1> <@U2>" for Slack targets ("" if none)
+  timeZone: string; // recipients' IANA zone
+  subject: string; // built-in one-line title
+};
+
+/**
+ * Extract the renderable fields of a notification job.
+ */
+export function notificationFields(
+  job: NotificationJobDoc,
+): NotificationFields {
+  const p = (job.payload || {}) as Record<string, any>;
+  const chatTitle = p.chatTitle || "(no chat title)";
+
+  const timeZone =
+    typeof p.timeZone === "string" && isValidTimeZone(p.timeZone)
+      ? p.timeZone
+      : DEFAULT_TIME_ZONE;
+  const createdAt =
+    typeof job.createdAt?.toDate === "function"
+      ? formatInTimeZone(job.createdAt.toDate(), timeZone)
+      : "(no timestamp)";
+
+  return {
+    chatTitle,
+    fileName: p.file?.fileName || "(no file)",
+    caption: p.caption || "",
+    createdAt,
+    mentions: (job.targets.slack ?? []).map((t) => `<@${t.userId}>`).join(" "),
+    timeZone,
+    subject: `[Sales Ops] ${SUBJECT_LABELS[job.type] ?? "Follow-up"}: ${chatTitle}`,
+  };
+}
+
+/**
+ * Render the content of a notification job with the built-in text.
+ */
+export function buildNotificationContent(
+  job: NotificationJobDoc,
+): NotificationContent {
+  const { chatTitle, fileName, caption, createdAt, mentions, subject } =
+    notificationFields(job);
+
+  const render = (m: string) =>
+    buildNotificationText(job.type, m, chatTitle, fileName, caption, createdAt);
+
+  return {
+    subject,
+    text: render("").replace(/^\n/, ""),
+    mentions,
+    mentionedText: render(mentions),
+  };
+}
@@ -0,0 +1,54 @@
+// -----------------------------------------------------------------------------
+// Render notification content as email (subject + plain text + HTML).
+// - Both bodies come from the same Slack-mrkdwn text used for Slack reminders
+// - Supported markup: *bold*, "> quote" lines, "• bullet" lines
+// -----------------------------------------------------------------------------
+
+import type { NotificationContent } from "./transports/types.js";
+
+export type RenderedEmail = { subject: string; text: string; html: string };
+
+function escapeHtml(input: string): string {
+  return input
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** mrkdwn → plain text (drop *bold* markers). */
+function toPlain(mrkdwn: string): string {
+  return mrkdwn.replace(/\*([^*\n]+)\*/g, "$1").trim();
+}
+
+/** mrkdwn → minimal HTML (one <p>/<blockquote> per line). */
+function toHtml(mrkdwn: string): string {
+  const lines = mrkdwn
+    .trim()
+    .split("\n")
+    .map((line) => {
+      const quoted = line.startsWith("> ");
+      const body = escapeHtml(quoted ? line.slice(2) : line).replace(
+        /\*([^*\n]+)\*/g,
+        "<b>$1</b>",
+      );
+      if (!body.trim()) return "";
+      return quoted
+        ? `<blockquote style="margin:0 0 0 8px;padding-left:8px;border-left:3px solid #ccc">${body}</blockquote>`
+        : `<p style="margin:0 0 4px">${body}</p>`;
+    })
+    .filter(Boolean);
+
+  return `<div style="font-family:sans-serif;font-size:14px;line-height:1.5">${lines.join("\n")}</div>`;
+}
+
+/**
+ * Render the email for a notification.
+ */
+export function renderEmail(content: NotificationContent): RenderedEmail {
+  return {
+    subject: content.subject,
+    text: toPlain(content.text),
+    html: toHtml(content.text),
+  };
+}
@@ -0,0 +1,195 @@
+// -----------------------------------------------------------------------------
+// Notification templates (notificationTemplates/*) with per-locale variants.
+// - A job uses the template named by job.templateId, else the enabled
+//   template whose `type` is the job's type
+// - Variant: the recipients' locale (payload.locale) when the template has
+//   it, else the template's defaultLocale
+// - Anything unusable (no template, Firestore error, unknown variable) falls
+//   back to the built-in text (buildNotificationContent)
+// - Uses a short-lived in-memory cache to avoid reads on every delivery
+// -----------------------------------------------------------------------------
+
+import { db } from "../firebase.js";
+import { formatInTimeZone, localDaysBetween } from "../../utils/time.js";
+import { createCachedLoader } from "../../utils/ttlCache.js";
+import {
+  buildNotificationContent,
+  notificationFields,
+} from "./renderContent.js";
+import {
+  NOTIFICATION_LOCALES,
+  type NotificationLocale,
+  type NotificationTemplateDef,
+  type NotificationTemplateDoc,
+} from "../../types/notificationTemplate.js";
+import type { NotificationJobDoc } from "../../types/notification.js";
+import type { NotificationContent } from "./transports/types.js";
+
+/** Firestore collection name for notification templates. */
+export const TEMPLATES_COLLECTION = "notificationTemplates";
+
+/** Variables a template may use as {{name}}. */
+export const TEMPLATE_VARIABLES = [
+  "chatTitle", // Telegram chat title
+  "daysSince", // calendar days since the trigger message (recipients' zone)
+  "fileName", // sent document name
+  "caption", // message caption / /remind note
+  "mentions", // Slack mentions ("" outside Slack)
+  "sentAt", // trigger time, formatted in the recipients' zone
+] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+const VARIABLE_RE = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+/** Variable names used in a template string that are not supported. */
+export function unknownVariables(source: string): string[] {
+  const names = [...source.matchAll(VARIABLE_RE)].map((m) => m[1]!);
+  return [
+    ...new Set(
+      names.filter((n) => !TEMPLATE_VARIABLES.includes(n as TemplateVariable)),
+    ),
+  ];
+}
+
+/** Replace {{name}} placeholders (unknown names are left as-is). */
+function fill(source: string, vars: Record<TemplateVariable, string>): string {
+  return source.replace(VARIABLE_RE, (whole, name: string) =>
+    TEMPLATE_VARIABLES.includes(name as TemplateVariable)
+      ? vars[name as TemplateVariable]
+      : whole,
+  );
+}
+
+const cache = createCachedLoader<NotificationTemplateDef[]>({
+  tag: "templates",
+  load: async () => {
+    const snap = await db.collection(TEMPLATES_COLLECTION).get();
+    return snap.docs.map((d) => {
+      const doc = d.data() as NotificationTemplateDoc;
+      return {
+        templateId: d.id,
+        name: doc.name,
+        enabled: doc.enabled,
+        type: doc.type ?? null,
+        defaultLocale: doc.defaultLocale,
+        locales: doc.locales ?? {},
+      };
+    });
+  },
+  fallback: () => [], // built-in text
+});
+
+/**
+ * Returns all templates (enabled or not; cached, see utils/ttlCache.ts).
+ * - Firestore errors are non-fatal: the last cached list (or none) is used.
+ */
+export async function loadTemplates(): Promise<NotificationTemplateDef[]> {
+  return cache.get();
+}
+
+/** Expire cached templates (call after admin writes; this instance only). */
+export function clearTemplatesCache(): void {
+  cache.clear();
+}
+
+/** The enabled template that applies to a job, or null. */
+export function findTemplate(
+  templates: NotificationTemplateDef[],
+  job: NotificationJobDoc,
+): NotificationTemplateDef | null {
+  const enabled = templates.filter((t) => t.enabled);
+  if (job.templateId) {
+    return enabled.find((t) => t.templateId === job.templateId) ?? null;
+  }
+  return enabled.find((t) => t.type === job.type) ?? null;
+}
+
+/** Template variables of a job at `now`. */
+export function templateVariables(
+  job: NotificationJobDoc,
+  now: Date = new Date(),
+): Record<TemplateVariable, string> {
+  const f = notificationFields(job);
+  const p = (job.payload || {}) as Record<string, any>;
+  // Trigger message time (payload.sentAt) — jobs without it use createdAt
+  const since =
+    typeof p.sentAt?.toMillis === "function"
+      ? p.sentAt.toMillis()
+      : typeof job.createdAt?.toMillis === "function"
+        ? job.createdAt.toMillis()
+        : now.getTime();
+
+  return {
+    chatTitle: f.chatTitle,
+    daysSince: String(localDaysBetween(since, now.getTime(), f.timeZone)),
+    fileName: f.fileName,
+    caption: f.caption,
+    mentions: f.mentions,
+    sentAt: p.sentAt ? formatInTimeZone(since, f.timeZone) : f.createdAt,
+  };
+}
+
+/**
+ * Render a job with a given template.
+ *
+ * @param locale  Variant to use (default: payload.locale → defaultLocale)
+ * @throws when the template has no usable variant or unknown variables
+ */
+export function renderWithTemplate(
+  template: NotificationTemplateDef,
+  job: NotificationJobDoc,
+  locale?: NotificationLocale,
+): NotificationContent & { locale: NotificationLocale } {
+  const requested =
+    locale ??
+    ((job.payload as Record<string, any> | undefined)?.locale as
+      NotificationLocale | undefined);
+  const used =
+    requested &&
+    NOTIFICATION_LOCALES.includes(requested) &&
+    template.locales[requested]
+      ? requested
+      : template.defaultLocale;
+  const variant = template.locales[used];
+  if (!variant?.body?.trim()) {
+    throw new Error(`template ${template.templateId} has no "${used}" variant`);
+  }
+  const unknown = unknownVariables(`${variant.subject ?? ""}${variant.body}`);
+  if (unknown.length) {
+    throw new Error(
+      `template ${template.templateId} uses unknown variables: ${unknown}`,
+    );
+  }
+
+  const vars = templateVariables(job);
+  const fields = notificationFields(job);
+  return {
+    locale: used,
+    subject: variant.subject ? fill(variant.subject, vars) : fields.subject,
+    text: fill(variant.body, { ...vars, mentions: "" }).replace(/^\s*\n/, ""),
+    mentions: fields.mentions,
+    mentionedText: fill(variant.body, vars),
+  };
+}
+
+/**
+ * Render the content of a notification job: its template when one applies,
+ * else the built-in text.
+ */
+export async function renderNotificationContent(
+  job: NotificationJobDoc,
+): Promise<NotificationContent> {
+  const template = findTemplate(await loadTemplates(), job);
+  if (!template) return buildNotificationContent(job);
+
+  try {
+    const { locale: _locale, ...content } = renderWithTemplate(template, job);
+    return content;
+  } catch (err: any) {
+    console.warn(
+      `[templates] ${err?.message ?? err}; using built-in text for ${job.jobId}`,
+    );
+    return buildNotificationContent(job);
+  }
+}
@@ -0,0 +1,114 @@
+// -----------------------------------------------------------------------------
+// Email transport (SMTP via nodemailer).
+//
+// Env:
+//   SMTP_HOST, SMTP_PORT (default 587), SMTP_SECURE ("true" → implicit TLS),
+//   SMTP_USER / SMTP_PASS (optional; omit for a local sink), EMAIL_FROM
+//   Email is opt-in: without SMTP_HOST / EMAIL_FROM the channel is unavailable
+//   (createNotificationJobs creates no email job; leftover jobs fail for good)
+//
+// Retry classification (mirrors Slack 429/5xx):
+//   - SMTP 4xx (transient) / connection errors          → retryable
+//   - SMTP 5xx (permanent, e.g. unknown mailbox) / no SMTP → non-retryable
+//
+// Local testing: run an SMTP sink (e.g. `npx maildev` → SMTP :1025, UI :1080)
+// and set SMTP_HOST=localhost SMTP_PORT=1025.
+// -----------------------------------------------------------------------------
+
+import nodemailer from "nodemailer";
+import type { Transporter } from "nodemailer";
+import { renderEmail } from "../renderEmail.js";
+import type { NotificationTransport, TransportResult } from "./types.js";
+
+/** nodemailer error codes raised before any SMTP reply (network / socket). */
+const CONNECTION_ERROR_CODES = new Set([
+  "ECONNECTION",
+  "ETIMEDOUT",
+  "ESOCKET",
+  "EDNS",
+  "ECONNREFUSED",
+  "ECONNRESET",
+]);
+
+let transporter: Transporter | null = null;
+
+/** True when SMTP is configured (SMTP_HOST and EMAIL_FROM are set). */
+export function isEmailConfigured(): boolean {
+  return !!process.env.SMTP_HOST && !!process.env.EMAIL_FROM;
+}
+
+/** Lazily create the SMTP transporter (null when SMTP_HOST is not set). */
+function getTransporter(): Transporter | null {
+  if (transporter) return transporter;
+
+  const host = process.env.SMTP_HOST;
+  if (!host) return null;
+
+  const user = process.env.SMTP_USER;
+  transporter = nodemailer.createTransport({
+    host,
+    port: Number(process.env.SMTP_PORT || 587),
+    secure: process.env.SMTP_SECURE === "true",
+    ...(user ? { auth: { user, pass: process.env.SMTP_PASS ?? "" } } : {}),
+  });
+  return transporter;
+}
+
+/** Leading 3-digit SMTP reply code of a server response ("250 2.0.0 OK"). */
+function replyCode(response: unknown): number {
+  const m = /^(\d{3})/.exec(String(response ?? ""));
+  return m ? Number(m[1]) : 0;
+}
+
+/** Map a nodemailer error to a TransportResult. */
+function classifyError(e: any): TransportResult {
+  const code = Number(e?.responseCode) || 0;
+  const errorMessage = (e?.response || e?.message || String(e)).slice(0, 500);
+
+  if (code >= 400 && code <= 499) {
+    return { ok: false, retryable: true, responseCode: code, errorMessage };
+  }
+  if (code >= 500) {
+    return { ok: false, retryable: false, responseCode: code, errorMessage };
+  }
+  // No SMTP reply: connection-level problems are transient; anything else
+  // (e.g. EENVELOPE: no valid recipients) is permanent.
+  return {
+    ok: false,
+    retryable: CONNECTION_ERROR_CODES.has(String(e?.code)),
+    responseCode: 0,
+    errorMessage,
+  };
+}
+
+export const sendEmail: NotificationTransport = async (job, content) => {
+  const smtp = getTransporter();
+  const from = process.env.EMAIL_FROM;
+  if (!smtp || !from) {
+    return {
+      ok: false,
+      retryable: false,
+      responseCode: 0,
+      errorMessage:
+        "email channel unavailable (SMTP_HOST / EMAIL_FROM not set)",
+    };
+  }
+
+  const { subject, text, html } = renderEmail(content);
+  try {
+    const info = await smtp.sendMail({
+      from,
+      to: (job.targets.email ?? []).map((t) => t.to),
+      subject,
+      text,
+      html,
+    });
+    return {
+      ok: true,
+      retryable: false,
+      responseCode: replyCode(info.response),
+    };
+  } catch (e: any) {
+    return classifyError(e);
+  }
+};
@@ -0,0 +1,21 @@
+// -----------------------------------------------------------------------------
+// Notification transports by channel.
+// -----------------------------------------------------------------------------
+
+import type { NotificationChannel } from "../../../types/notification.js";
+import { sendSlackApi } from "./slackApi.js";
+import { sendEmail } from "./email.js";
+import { sendTelegramDm } from "./telegramDm.js";
+import type { NotificationTransport } from "./types.js";
+
+export const TRANSPORTS: Record<NotificationChannel, NotificationTransport> = {
+  slack: sendSlackApi, // falls back to the incoming webhook
+  email: sendEmail,
+  tg: sendTelegramDm,
+};
+
+export type {
+  NotificationContent,
+  NotificationTransport,
+  TransportResult,
+} from "./types.js";
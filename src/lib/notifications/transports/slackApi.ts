@@ -0,0 +1,150 @@
+// -----------------------------------------------------------------------------
+// Slack transport: post the reminder with the bot token (chat.postMessage).
+// - Targets are grouped by their channels (SlackLink.prefs.defaultChannelId +
+//   prefs.channels); one message per channel mentions the targets posting there
+// - Targets without channels, or a missing SLACK_BOT_TOKEN, fall back to the
+//   incoming webhook (sendSlackWebhook)
+// - Each posted message ({channel, ts}) is stored on the job right away, so a
+//   retry after a partial failure skips channels that already got the message
+// - Jobs with `threadParentJobId` are posted as thread replies under the
+//   parent job's message in the same channel (looked up in notificationDeliveries)
+// - Retryable: HTTP 429 (Retry-After) / 5xx / Slack `ratelimited` and
+//   internal errors / exception
+// -----------------------------------------------------------------------------
+
+import { FieldValue } from "firebase-admin/firestore";
+import { db } from "../../firebase.js";
+import { buildReminderBlocks } from "../../slack/reminderBlocks.js";
+import { sendSlackWebhook } from "./slackWebhook.js";
+import type {
+  NotificationDeliveryDoc,
+  SlackPost,
+  SlackTarget,
+} from "../../../types/notification.js";
+import type { NotificationTransport, TransportResult } from "./types.js";
+
+/** Web API `error` values worth retrying (transient on Slack's side). */
+const RETRYABLE_ERRORS = new Set([
+  "ratelimited",
+  "internal_error",
+  "fatal_error",
+  "service_unavailable",
+  "request_timeout",
+]);
+
+/** Find the Slack messages of the parent job (its successful delivery). */
+async function loadParentPosts(parentJobId: string): Promise<SlackPost[]> {
+  const snap = await db
+    .collection("notificationDeliveries")
+    .where("jobId", "==", parentJobId)
+    .where("status", "==", "success")
+    .limit(1)
+    .get();
+  const delivery = snap.docs[0]?.data() as NotificationDeliveryDoc | undefined;
+  return delivery?.slackPosts ?? [];
+}
+
+/** One chat.postMessage call. */
+async function postMessage(
+  token: string,
+  body: Record<string, unknown>,
+): Promise<TransportResult & { ts?: string }> {
+  try {
+    const resp = await fetch("https://slack.com/api/chat.postMessage", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(body),
+    });
+    const data: any = await resp.json().catch(() => ({}));
+
+    if (resp.ok && data?.ok) {
+      return {
+        ok: true,
+        retryable: false,
+        responseCode: resp.status,
+        ts: String(data.ts),
+      };
+    }
+    const error = String(data?.error || `HTTP ${resp.status}`);
+    const retryAfter = Number(resp.headers.get("Retry-After")) || 0;
+    return {
+      ok: false,
+      retryable:
+        resp.status === 429 ||
+        (resp.status >= 500 && resp.status <= 599) ||
+        RETRYABLE_ERRORS.has(error),
+      responseCode: resp.status,
+      errorMessage: `${body.channel}: ${error}`.slice(0, 500),
+      ...(retryAfter > 0 ? { retryAfterSec: retryAfter } : {}),
+    };
+  } catch (e: any) {
+    return {
+      ok: false,
+      retryable: true,
+      responseCode: 0,
+      errorMessage: (e?.message || String(e)).slice(0, 500),
+    };
+  }
+}
+
+export const sendSlackApi: NotificationTransport = async (job, content) => {
+  const token = process.env.SLACK_BOT_TOKEN;
+  const targets = job.targets.slack ?? [];
+
+  // --- Group targets by channel (no channel → webhook) ---
+  const byChannel = new Map<string, SlackTarget[]>();
+  const webhookTargets: SlackTarget[] = [];
+  for (const t of targets) {
+    if (!token || !t.channelIds?.length) {
+      webhookTargets.push(t);
+      continue;
+    }
+    for (const channel of t.channelIds) {
+      byChannel.set(channel, [...(byChannel.get(channel) ?? []), t]);
+    }
+  }
+
+  // --- Post per channel (skip channels already posted on a previous attempt) ---
+  const posts: SlackPost[] = [...(job.slackPosts ?? [])];
+  const parentPosts =
+    job.threadParentJobId && byChannel.size
+      ? await loadParentPosts(job.threadParentJobId)
+      : [];
+  const jobRef = db.collection("notificationJobs").doc(job.jobId);
+
+  for (const [channel, channelTargets] of byChannel) {
+    if (posts.some((p) => p.channel === channel)) continue;
+
+    const mentions = channelTargets.map((t) => `<@${t.userId}>`).join(" ");
+    const text = `${mentions}\n${content.text}`;
+    const threadTs = parentPosts.find((p) => p.channel === channel)?.ts;
+
+    const result = await postMessage(token!, {
+      channel,
+      text, // fallback for notifications / clients without blocks
+      blocks: buildReminderBlocks(text, job.jobId),
+      link_names: true,
+      ...(threadTs ? { thread_ts: threadTs } : {}),
+    });
+    if (!result.ok) return { ...result, slackPosts: posts };
+
+    const post = { channel, ts: result.ts! };
+    posts.push(post);
+    await jobRef.update({ slackPosts: FieldValue.arrayUnion(post) });
+  }
+
+  // --- Fallback: incoming webhook for the remaining targets ---
+  if (webhookTargets.length) {
+    const mentions = webhookTargets.map((t) => `<@${t.userId}>`).join(" ");
+    const result = await sendSlackWebhook(
+      { ...job, targets: { slack: webhookTargets } },
+      { ...content, mentions, mentionedText: `${mentions}\n${content.text}` },
+    );
+    return { ...result, slackPosts: posts };
+  }
+
+  return { ok: true, retryable: false, responseCode: 200, slackPosts: posts };
+};
@@ -0,0 +1,53 @@
+// -----------------------------------------------------------------------------
+// Slack transport: post the reminder to the incoming webhook (SLACK_WEBHOOK_URL)
+// with Done / Snooze / Not relevant buttons (see POST /slack/interactions).
+// - Fallback of sendSlackApi (no bot token / targets without channels)
+// - Retryable: HTTP 429 / 5xx / exception / missing webhook URL
+// -----------------------------------------------------------------------------
+
+import { buildReminderBlocks } from "../../slack/reminderBlocks.js";
+import type { NotificationTransport } from "./types.js";
+
+export const sendSlackWebhook: NotificationTransport = async (job, content) => {
+  const webhookUrl = process.env.SLACK_WEBHOOK_URL;
+  if (!webhookUrl) {
+    return {
+      ok: false,
+      retryable: true,
+      responseCode: 500,
+      errorMessage: "SLACK_WEBHOOK_URL is not set",
+    };
+  }
+
+  try {
+    const text = content.mentionedText;
+    const resp = await fetch(webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        text, // fallback for notifications / clients without blocks
+        blocks: buildReminderBlocks(text, job.jobId),
+        mrkdwn: true,
+        link_names: 1,
+      }),
+    });
+    const respText = await resp.text();
+
+    if (resp.ok)
+      return { ok: true, retryable: false, responseCode: resp.status };
+    return {
+      ok: false,
+      retryable:
+        resp.status === 429 || (resp.status >= 500 && resp.status <= 599),
+      responseCode: resp.status,
+      errorMessage: respText?.slice(0, 500) || `HTTP ${resp.status}`,
+    };
+  } catch (e: any) {
+    return {
+      ok: false,
+      retryable: true,
+      responseCode: 0,
+      errorMessage: (e?.message || String(e)).slice(0, 500),
+    };
+  }
+};
@@ -0,0 +1,93 @@
+// -----------------------------------------------------------------------------
+// Telegram transport: send the reminder as a DM from the bot (sendMessage).
+// - One job per recipient (see createNotificationJobs), so a retry never
+//   re-sends to someone who already got the DM
+// - Sent from the bot of the chat the reminder is about (target.botKey;
+//   default: the "default" bot)
+// - The recipient must have started a private chat with the bot; otherwise
+//   Telegram answers 403 ("bot can't initiate conversation") → non-retryable
+// - Retryable: HTTP 429 (with `retry_after`) / 5xx / exception / missing token
+// -----------------------------------------------------------------------------
+
+import { escapeHtml } from "../../telegram/sendMessage.js";
+import { getBot } from "../../telegram/bots.js";
+import type { NotificationTransport } from "./types.js";
+
+/** mrkdwn → Telegram HTML (*bold*, "> quote" lines). */
+function toTelegramHtml(mrkdwn: string): string {
+  return mrkdwn
+    .trim()
+    .split("\n")
+    .map((line) => {
+      const quoted = line.startsWith("> ");
+      const body = escapeHtml(quoted ? line.slice(2) : line).replace(
+        /\*([^*\n]+)\*/g,
+        "<b>$1</b>",
+      );
+      return quoted ? `<blockquote>${body}</blockquote>` : body;
+    })
+    .join("\n");
+}
+
+export const sendTelegramDm: NotificationTransport = async (job, content) => {
+  const [target] = job.targets.tg ?? [];
+  if (!target?.chatId) {
+    return {
+      ok: false,
+      retryable: false,
+      responseCode: 400,
+      errorMessage: "missing tg target",
+    };
+  }
+
+  const token = getBot(target.botKey)?.token;
+  if (!token) {
+    return {
+      ok: false,
+      retryable: true,
+      responseCode: 500,
+      errorMessage: `bot "${target.botKey || "default"}" is not configured`,
+    };
+  }
+
+  try {
+    const resp = await fetch(
+      `https://api.telegram.org/bot${token}/sendMessage`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          chat_id: target.chatId,
+          text: toTelegramHtml(content.text),
+          parse_mode: "HTML",
+          disable_web_page_preview: true,
+        }),
+      },
+    );
+    if (resp.ok) return { ok: true, retryable: false, responseCode: 200 };
+
+    // Error body: { ok:false, error_code, description, parameters?: { retry_after } }
+    const body: any = await resp.json().catch(() => ({}));
+    const retryAfter = Number(body?.parameters?.retry_after) || 0;
+    return {
+      ok: false,
+      retryable:
+        resp.status === 429 || (resp.status >= 500 && resp.status <= 599),
+      responseCode: resp.status,
+      errorMessage: String(body?.description || `HTTP ${resp.status}`).slice(
+        0,
+        500,
+      ),
+      ...(resp.status === 429 && retryAfter > 0
+        ? { retryAfterSec: retryAfter }
+        : {}),
+    };
+  } catch (e: any) {
+    return {
+      ok: false,
+      retryable: true,
+      responseCode: 0,
+      errorMessage: (e?.message || String(e)).slice(0, 500),
+    };
+  }
+};
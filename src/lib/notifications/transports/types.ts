@@ -0,0 +1,40 @@
+// -----------------------------------------------------------------------------
+// Shared types for notification transports (Slack, email, ...).
+// -----------------------------------------------------------------------------
+
+import type {
+  NotificationJobDoc,
+  SlackPost,
+} from "../../../types/notification.js";
+
+/**
+ * Channel-agnostic notification content, rendered once per job.
+ * - `text` is Slack mrkdwn without mentions; transports add their own
+ *   addressing (Slack mentions, email greeting, ...).
+ */
+export type NotificationContent = {
+  subject: string; // one-line title (email subject)
+  text: string; // body (Slack mrkdwn, no mentions)
+  mentions: string; // "<@U1> <@U2>" for Slack targets ("" if none)
+  mentionedText: string; // mentions + "\n" + text (legacy Slack message text)
+};
+
+/**
+ * Outcome of one delivery attempt.
+ * - retryable=true → /tasks/notifications answers 500 so the task queue retries
+ *   (Slack 429/5xx, SMTP 4xx, Telegram 429/5xx, network errors, missing config)
+ * - retryAfterSec set → the job is re-enqueued at now + retryAfterSec instead
+ */
+export type TransportResult = {
+  ok: boolean;
+  retryable: boolean;
+  responseCode: number; // HTTP status (Slack) or SMTP reply code (email); 0 if none
+  errorMessage?: string; // truncated failure details
+  retryAfterSec?: number; // server-requested backoff (Telegram `retry_after`, Slack Retry-After)
+  slackPosts?: SlackPost[]; // Slack messages posted via chat.postMessage
+};
+
+export type NotificationTransport = (
+  job: NotificationJobDoc,
+  content: NotificationContent,
+) => Promise<TransportResult>;
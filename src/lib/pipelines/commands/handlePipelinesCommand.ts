@@ -0,0 +1,331 @@
+// -----------------------------------------------------------------------------
+// Command handler for sales pipelines (pipelines/*).
+//
+// Supported actions:
+//   - "list":   All pipelines (the built-in default while it has no doc)
+//   - "get":    One pipeline (`pipelineId`)
+//   - "upsert": Create or replace a pipeline from `pipeline`
+//               ({ pipelineId, name, stages: [{ stageId, name, outcome?,
+//               triggers: { notificationTypes?, ruleIds?, keywords?,
+//               manual? }, staleAfterBusinessDays? }] })
+//   - "delete": Remove a pipeline no chat is assigned to ("default" cannot
+//               be deleted)
+//   - "assign": Move `chatIds` to `pipelineId` (tg_chats/{chatId}.pipelineId)
+//
+// Notes:
+//   - Stage order is the array order; outcome stages (won / lost / on_hold)
+//     are terminal and are set manually.
+//   - Renaming or removing a stageId does not rewrite chats already in it;
+//     their phase shows as-is until it changes.
+//   - Every write clears the in-memory cache used by the webhook.
+// -----------------------------------------------------------------------------
+
+import { Request, Response } from "express";
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../../firebase.js";
+import { syncDealStage } from "../../deals/deals.js";
+import {
+  PIPELINES_COLLECTION,
+  clearPipelinesCache,
+  loadPipelines,
+} from "../loadPipelines.js";
+import { DEFAULT_PIPELINE_ID } from "../defaultPipeline.js";
+import { findStage } from "../stages.js";
+import { NOTIFICATION_TYPES } from "../../../types/notification.js";
+import {
+  STAGE_OUTCOMES,
+  type PipelineDef,
+  type PipelineDoc,
+} from "../../../types/pipeline.js";
+import type { ChatRoomDoc } from "../../../types/chat.js";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+type PipelinesRequestBody = {
+  action?: "list" | "get" | "upsert" | "delete" | "assign";
+  pipelineId?: string;
+  pipeline?: Partial<PipelineDef>;
+  chatIds?: string[];
+  actor?: string;
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+const ID_RE = /^[a-z0-9_-]{1,64}$/;
+const STAGE_ID_RE = /^[A-Za-z0-9_-]{1,64}$/;
+
+/** True for an array of non-empty strings. */
+function isStringList(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((s) => typeof s === "string" && s.trim());
+}
+
+/** Validate a complete pipeline definition. */
+function validatePipeline(p: Partial<PipelineDef>): string[] {
+  const errors: string[] = [];
+  if (!p.pipelineId || !ID_RE.test(p.pipelineId)) {
+    errors.push("pipelineId must match /^[a-z0-9_-]{1,64}$/");
+  }
+  if (!p.name || !String(p.name).trim()) errors.push("name is required");
+  if (!Array.isArray(p.stages) || !p.stages.length) {
+    errors.push("stages must be a non-empty array");
+    return errors;
+  }
+
+  const seen = new Set<string>();
+  p.stages.forEach((s, i) => {
+    const at = `stages[${i}]`;
+    if (!s || typeof s !== "object") {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+    if (!s.stageId || !STAGE_ID_RE.test(s.stageId)) {
+      errors.push(`${at}.stageId must match /^[A-Za-z0-9_-]{1,64}$/`);
+    } else if (seen.has(s.stageId)) {
+      errors.push(`${at}.stageId "${s.stageId}" is duplicated`);
+    } else {
+      seen.add(s.stageId);
+    }
+    if (!s.name || !String(s.name).trim()) {
+      errors.push(`${at}.name is required`);
+    }
+    if (s.outcome != null && !STAGE_OUTCOMES.includes(s.outcome)) {
+      errors.push(`${at}.outcome must be null or one of [${STAGE_OUTCOMES}]`);
+    }
+
+    const t = s.triggers;
+    if (!t || typeof t !== "object" || Array.isArray(t)) {
+      errors.push(`${at}.triggers must be an object`);
+      return;
+    }
+    if (t.notificationTypes !== undefined) {
+      if (
+        !isStringList(t.notificationTypes) ||
+        t.notificationTypes.some((n) => !NOTIFICATION_TYPES.includes(n))
+      ) {
+        errors.push(
+          `${at}.triggers.notificationTypes must be a subset of [${NOTIFICATION_TYPES}]`,
+        );
+      }
+    }
+    for (const k of ["ruleIds", "keywords"] as const) {
+      if (t[k] !== undefined && !isStringList(t[k])) {
+        errors.push(`${at}.triggers.${k} must be an array of strings`);
+      }
+    }
+    if (t.manual !== undefined && typeof t.manual !== "boolean") {
+      errors.push(`${at}.triggers.manual must be boolean`);
+    }
+    if (
+      s.staleAfterBusinessDays != null &&
+      (!Number.isInteger(s.staleAfterBusinessDays) ||
+        s.staleAfterBusinessDays < 1)
+    ) {
+      errors.push(`${at}.staleAfterBusinessDays must be a positive integer`);
+    }
+    if (s.outcome && s.staleAfterBusinessDays != null) {
+      errors.push(`${at}: outcome stages cannot go stale`);
+    }
+    if (s.outcome && (t.notificationTypes?.length || t.keywords?.length)) {
+      errors.push(`${at}: outcome stages cannot have automatic triggers`);
+    }
+  });
+  if (!p.stages.some((s) => s && !s.outcome)) {
+    errors.push("stages must include at least one regular (non-outcome) stage");
+  }
+  return errors;
+}
+
+// -----------------------------------------------------------------------------
+// Handler
+// -----------------------------------------------------------------------------
+
+export async function handlePipelinesCommand(req: Request, res: Response) {
+  try {
+    const {
+      action = "list",
+      pipelineId,
+      pipeline,
+      chatIds,
+      actor,
+    } = (req.body ?? {}) as PipelinesRequestBody;
+    const col = db.collection(PIPELINES_COLLECTION);
+    const updatedBy = typeof actor === "string" && actor.trim() ? actor : null;
+
+    // -----------------------------------------------------------------------
+    // 1) LIST
+    // -----------------------------------------------------------------------
+    if (action === "list") {
+      const pipelines = await loadPipelines();
+      return res.status(200).json({ count: pipelines.length, pipelines });
+    }
+
+    // -----------------------------------------------------------------------
+    // 2) GET
+    // -----------------------------------------------------------------------
+    if (action === "get") {
+      if (!pipelineId) {
+        return res.status(400).json({ error: "Missing 'pipelineId'." });
+      }
+      const found = (await loadPipelines()).find(
+        (p) => p.pipelineId === pipelineId,
+      );
+      if (!found) {
+        return res
+          .status(404)
+          .json({ error: `Pipeline not found: ${pipelineId}` });
+      }
+      return res.status(200).json({ pipeline: found });
+    }
+
+    // -----------------------------------------------------------------------
+    // 3) UPSERT (create or replace a pipeline)
+    // -----------------------------------------------------------------------
+    if (action === "upsert") {
+      const ref = col.doc(pipeline?.pipelineId ?? pipelineId ?? "");
+      if (!ref.id) {
+        return res
+          .status(400)
+          .json({ error: "Missing 'pipeline.pipelineId'." });
+      }
+      const def: Partial<PipelineDef> = {
+        ...(pipeline ?? {}),
+        pipelineId: ref.id,
+      };
+      const errors = validatePipeline(def);
+      if (errors.length) {
+        return res
+          .status(400)
+          .json({ error: "Invalid pipeline.", details: errors });
+      }
+
+      const snap = await ref.get();
+      const current = snap.exists ? (snap.data() as PipelineDoc) : null;
+      const now = Timestamp.now();
+      const valid = def as PipelineDef;
+      await ref.set({
+        pipelineId: valid.pipelineId,
+        name: valid.name,
+        stages: valid.stages.map((s) => ({
+          stageId: s.stageId,
+          name: s.name,
+          outcome: s.outcome ?? null,
+          triggers: s.triggers,
+          staleAfterBusinessDays: s.staleAfterBusinessDays ?? null,
+        })),
+        createdAt: current?.createdAt ?? now,
+        updatedAt: now,
+        updatedBy,
+      } satisfies PipelineDoc);
+      clearPipelinesCache();
+
+      return res.status(current ? 200 : 201).json({
+        message: current ? "Pipeline updated." : "Pipeline created.",
+        pipeline: valid,
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // 4) DELETE
+    // -----------------------------------------------------------------------
+    if (action === "delete") {
+      if (!pipelineId) {
+        return res.status(400).json({ error: "Missing 'pipelineId'." });
+      }
+      if (pipelineId === DEFAULT_PIPELINE_ID) {
+        return res
+          .status(400)
+          .json({ error: "The default pipeline cannot be deleted." });
+      }
+      const ref = col.doc(pipelineId);
+      if (!(await ref.get()).exists) {
+        return res
+          .status(404)
+          .json({ error: `Pipeline not found: ${pipelineId}` });
+      }
+      const inUse = await db
+        .collection("tg_chats")
+        .where("pipelineId", "==", pipelineId)
+        .limit(1)
+        .get();
+      if (!inUse.empty) {
+        return res.status(409).json({
+          error: `Pipeline ${pipelineId} is assigned to chats; reassign them first.`,
+        });
+      }
+      await ref.delete();
+      clearPipelinesCache();
+      console.log(`[pipelines] ${pipelineId} deleted (by ${updatedBy})`);
+      return res.status(200).json({ message: "Pipeline deleted.", pipelineId });
+    }
+
+    // -----------------------------------------------------------------------
+    // 5) ASSIGN chats to a pipeline
+    // -----------------------------------------------------------------------
+    if (action === "assign") {
+      if (!pipelineId) {
+        return res.status(400).json({ error: "Missing 'pipelineId'." });
+      }
+      if (!isStringList(chatIds) || !chatIds.length) {
+        return res
+          .status(400)
+          .json({ error: "'chatIds' must be a non-empty array of strings." });
+      }
+      const target = (await loadPipelines()).find(
+        (p) => p.pipelineId === pipelineId,
+      );
+      if (!target) {
+        return res
+          .status(404)
+          .json({ error: `Pipeline not found: ${pipelineId}` });
+      }
+
+      const refs = chatIds.map((id) => db.collection("tg_chats").doc(id));
+      const snaps = await db.getAll(...refs);
+      const missing = snaps.filter((s) => !s.exists).map((s) => s.id);
+      if (missing.length) {
+        return res
+          .status(404)
+          .json({ error: "Chats not found.", details: missing });
+      }
+
+      const batch = db.batch();
+      for (const s of snaps) batch.update(s.ref, { pipelineId });
+      await batch.commit();
+
+      // Deals follow the chat's pipeline; phases outside it are reported
+      const unmapped: string[] = [];
+      for (const s of snaps) {
+        const phase = (s.data() as ChatRoomDoc).phase;
+        if (!phase?.value) continue;
+        if (!findStage(target, phase.value)) unmapped.push(s.id);
+        await syncDealStage(s.id, phase.value, phase.ts, pipelineId);
+      }
+      console.log(
+        `[pipelines] ${chatIds.length} chat(s) → ${pipelineId} (by ${updatedBy})`,
+      );
+      return res.status(200).json({
+        message: "Chats assigned.",
+        pipelineId,
+        chatIds,
+        phaseNotInPipeline: unmapped,
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // Unsupported action
+    // -----------------------------------------------------------------------
+    return res
+      .status(400)
+      .json({ error: `Unsupported action: ${String(action)}` });
+  } catch (error: any) {
+    console.error("[handlePipelinesCommand] Error:", error);
+    return res.status(500).json({
+      error: "Failed to process pipelines command.",
+      details: error?.message ?? String(error),
+    });
+  }
+}
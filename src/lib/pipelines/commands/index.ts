@@ -0,0 +1 @@
+export { handlePipelinesCommand } from "./handlePipelinesCommand.js";
@@ -0,0 +1,51 @@
+// -----------------------------------------------------------------------------
+// Built-in sales pipeline (used while pipelines/default does not exist).
+// - Stages advance when the first follow-up job of a stage is created
+//   (second reminders, e.g. `_2nd`, do not advance)
+// - OnHold / Won / Lost are outcomes, set manually only
+// - Open proposal / agreement / invoice stages are flagged as stale after a
+//   few business days without activity (/tasks/stale-chats)
+// -----------------------------------------------------------------------------
+
+import type { PipelineDef } from "../../types/pipeline.js";
+
+/** Pipeline used by chats without pipelineId. */
+export const DEFAULT_PIPELINE_ID = "default";
+
+export const DEFAULT_PIPELINE: PipelineDef = {
+  pipelineId: DEFAULT_PIPELINE_ID,
+  name: "Default",
+  stages: [
+    {
+      stageId: "BotAdded",
+      name: "Bot added",
+      triggers: { notificationTypes: ["follow_up_bot_join_call_check"] },
+    },
+    {
+      stageId: "CalendlyLinkShared",
+      name: "Calendly link shared",
+      triggers: { notificationTypes: ["follow_up_calendly"] },
+    },
+    {
+      stageId: "ProposalSent",
+      name: "Proposal sent",
+      triggers: { notificationTypes: ["follow_up_proposal_1st"] },
+      staleAfterBusinessDays: 7,
+    },
+    {
+      stageId: "AgreementSent",
+      name: "Agreement sent",
+      triggers: { notificationTypes: ["follow_up_agreement_1st"] },
+      staleAfterBusinessDays: 7,
+    },
+    {
+      stageId: "InvoiceSent",
+      name: "Invoice sent",
+      triggers: { notificationTypes: ["follow_up_invoice_1st"] },
+      staleAfterBusinessDays: 5,
+    },
+    { stageId: "OnHold", name: "On hold", outcome: "on_hold", triggers: {} },
+    { stageId: "Won", name: "Won", outcome: "won", triggers: {} },
+    { stageId: "Lost", name: "Lost", outcome: "lost", triggers: {} },
+  ],
+};
@@ -0,0 +1,39 @@
+// -----------------------------------------------------------------------------
+// Keyword stage triggers: advance tg_chats/{chatId}.phase when a message by an
+// internal member mentions a keyword of a later stage of the chat's pipeline
+// (stage triggers.keywords, matched case-insensitively as whole words in
+// text / caption; see stageForText).
+// - Monotonic / idempotent via upsertChatPhaseIfAdvanced
+// -----------------------------------------------------------------------------
+
+import { Timestamp, DocumentReference } from "firebase-admin/firestore";
+import { isFromInternal } from "../isInternal.js";
+import { upsertChatPhaseIfAdvanced } from "../telegram/updateChatPhase.js";
+import { loadPipeline } from "./loadPipelines.js";
+import { stageForText } from "./stages.js";
+import type { ChatRoomDoc } from "../../types/chat.js";
+
+export async function handleStageKeywordTriggers(params: {
+  msg: any;
+  chatRef: DocumentReference;
+}): Promise<void> {
+  const { msg, chatRef } = params;
+  if (!isFromInternal(msg?.from?.id)) return;
+
+  const text = [msg?.text, msg?.caption].filter(Boolean).join("\n");
+  if (!text) return;
+
+  const chat = (await chatRef.get()).data() as ChatRoomDoc | undefined;
+  const pipeline = await loadPipeline(chat?.pipelineId);
+  const stage = stageForText(pipeline, text);
+  if (!stage) return;
+
+  const advanced = await upsertChatPhaseIfAdvanced(chatRef.id, {
+    value: stage.stageId,
+    ts: Timestamp.now(),
+    messageId: String(msg.message_id),
+  });
+  if (advanced) {
+    console.log(`[pipelines] keyword → ${stage.stageId} in ${chatRef.id}`);
+  }
+}
@@ -0,0 +1,70 @@
+// -----------------------------------------------------------------------------
+// Load sales pipelines from Firestore (pipelines/*).
+// - "default" falls back to the built-in pipeline while no doc exists
+// - Unknown pipeline IDs fall back to the default pipeline
+// - Uses a short-lived in-memory cache (utils/ttlCache.ts) to avoid reads on
+//   every webhook call
+// -----------------------------------------------------------------------------
+
+import { db } from "../firebase.js";
+import { DEFAULT_PIPELINE, DEFAULT_PIPELINE_ID } from "./defaultPipeline.js";
+import { createCachedLoader } from "../../utils/ttlCache.js";
+import type { PipelineDef, PipelineDoc } from "../../types/pipeline.js";
+
+/** Firestore collection name for pipelines. */
+export const PIPELINES_COLLECTION = "pipelines";
+
+const cache = createCachedLoader<PipelineDef[]>({
+  tag: "pipelines",
+  load: async () => {
+    const snap = await db.collection(PIPELINES_COLLECTION).get();
+    const pipelines: PipelineDef[] = snap.docs.map((d) => {
+      const doc = d.data() as PipelineDoc;
+      return { pipelineId: d.id, name: doc.name, stages: doc.stages ?? [] };
+    });
+    if (!pipelines.some((p) => p.pipelineId === DEFAULT_PIPELINE_ID)) {
+      pipelines.push(DEFAULT_PIPELINE);
+    }
+    pipelines.sort(
+      (a, b) =>
+        Number(b.pipelineId === DEFAULT_PIPELINE_ID) -
+          Number(a.pipelineId === DEFAULT_PIPELINE_ID) ||
+        a.pipelineId.localeCompare(b.pipelineId),
+    );
+    return pipelines;
+  },
+  fallback: () => [DEFAULT_PIPELINE],
+});
+
+/**
+ * Returns all pipelines ("default" first; built-in while it has no doc).
+ * - Firestore errors are non-fatal: the last cached list (or the built-in
+ *   default) is used.
+ */
+export async function loadPipelines(): Promise<PipelineDef[]> {
+  return cache.get();
+}
+
+/** Expire cached pipelines (call after admin writes; this instance only). */
+export function clearPipelinesCache(): void {
+  cache.clear();
+}
+
+/**
+ * Pipeline by ID (a chat's `pipelineId`); default when missing or unknown.
+ */
+export async function loadPipeline(
+  pipelineId?: string | null,
+): Promise<PipelineDef> {
+  const pipelines = await loadPipelines();
+  const id = pipelineId || DEFAULT_PIPELINE_ID;
+  const found = pipelines.find((p) => p.pipelineId === id);
+  if (!found && pipelineId) {
+    console.warn(`[pipelines] unknown pipeline "${pipelineId}"; using default`);
+  }
+  return (
+    found ??
+    pipelines.find((p) => p.pipelineId === DEFAULT_PIPELINE_ID) ??
+    DEFAULT_PIPELINE
+  );
+}
@@ -0,0 +1,122 @@
+// -----------------------------------------------------------------------------
+// Stage lookups on a pipeline definition (pure helpers).
+// - Stage order = position in pipeline.stages
+// - Outcome stages (won / lost / on_hold) are terminal
+// -----------------------------------------------------------------------------
+
+import type { NotificationType } from "../../types/notification.js";
+import type { PipelineDef, PipelineStage } from "../../types/pipeline.js";
+
+/** Stage of a pipeline by ID, or null. */
+export function findStage(
+  pipeline: PipelineDef,
+  stageId: string | null | undefined,
+): PipelineStage | null {
+  return pipeline.stages.find((s) => s.stageId === stageId) ?? null;
+}
+
+/** 1-based position of a stage (0 when not part of the pipeline). */
+export function stageRank(
+  pipeline: PipelineDef,
+  stageId: string | null | undefined,
+): number {
+  return pipeline.stages.findIndex((s) => s.stageId === stageId) + 1;
+}
+
+/** Display name of a stage (the ID itself when unknown). */
+export function stageName(
+  pipeline: PipelineDef,
+  stageId: string | null | undefined,
+): string {
+  return findStage(pipeline, stageId)?.name ?? stageId ?? "";
+}
+
+/** True for outcome stages (Won / Lost / OnHold in the default pipeline). */
+export function isTerminalStage(
+  pipeline: PipelineDef,
+  stageId: string | null | undefined,
+): boolean {
+  return !!findStage(pipeline, stageId)?.outcome;
+}
+
+/** True unless the stage opts out of manual changes (triggers.manual: false). */
+export function isManualStage(pipeline: PipelineDef, stageId: string): boolean {
+  const stage = findStage(pipeline, stageId);
+  return !!stage && stage.triggers.manual !== false;
+}
+
+/**
+ * Funnel stages: regular stages in order, then the "won" outcome(s).
+ */
+export function funnelStages(pipeline: PipelineDef): PipelineStage[] {
+  return [
+    ...pipeline.stages.filter((s) => !s.outcome),
+    ...pipeline.stages.filter((s) => s.outcome === "won"),
+  ];
+}
+
+/**
+ * Furthest regular stage a new follow-up job advances to (by the job's type
+ * or the rule that created it), or null.
+ */
+export function stageForJob(
+  pipeline: PipelineDef,
+  notifType: NotificationType,
+  ruleId: string,
+): PipelineStage | null {
+  const hits = pipeline.stages.filter(
+    (s) =>
+      !s.outcome &&
+      (s.triggers.notificationTypes?.includes(notifType) ||
+        s.triggers.ruleIds?.includes(ruleId)),
+  );
+  return hits[hits.length - 1] ?? null;
+}
+
+/**
+ * Letter / digit of a space-separated script. CJK text has no word gaps, so
+ * a CJK neighbour does not join a keyword into a longer word ("NDA締結").
+ */
+const WORD_CHAR =
+  "(?:(?![\\p{sc=Han}\\p{sc=Hiragana}\\p{sc=Katakana}\\p{sc=Hangul}])[\\p{L}\\p{N}_])";
+const WORD_CHAR_RE = new RegExp(`^${WORD_CHAR}$`, "u");
+
+const keywordPatterns = new Map<string, RegExp>();
+
+/**
+ * Case-insensitive pattern of a keyword as a whole word: "NDA" matches
+ * "NDA signed" but not "Monday" / "agenda".
+ */
+function keywordPattern(keyword: string): RegExp {
+  let re = keywordPatterns.get(keyword);
+  if (!re) {
+    const chars = [...keyword];
+    const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const head = WORD_CHAR_RE.test(chars[0] ?? "") ? `(?<!${WORD_CHAR})` : "";
+    const tail = WORD_CHAR_RE.test(chars[chars.length - 1] ?? "")
+      ? `(?!${WORD_CHAR})`
+      : "";
+    re = new RegExp(`${head}${escaped}${tail}`, "iu");
+    keywordPatterns.set(keyword, re);
+  }
+  return re;
+}
+
+/**
+ * Furthest regular stage whose keywords appear in `text` as whole words, or
+ * null.
+ */
+export function stageForText(
+  pipeline: PipelineDef,
+  text: string,
+): PipelineStage | null {
+  if (!text) return null;
+  const hits = pipeline.stages.filter(
+    (s) =>
+      !s.outcome &&
+      s.triggers.keywords?.some(
+        (k) => k.trim() && keywordPattern(k.trim()).test(text),
+      ),
+  );
+  return hits[hits.length - 1] ?? null;
+}
@@ -0,0 +1,388 @@
+// -----------------------------------------------------------------------------
+// Command handler for recipient routing (recipientRoutes/*) and on-call
+// rotations (onCallRotations/*).
+//
+// Supported actions:
+//   - "list":            All routes (incl. built-in defaults) and rotations
+//   - "resolve":         Who receives `routeKey` now (or at `at`, ISO date)
+//   - "upsertRoute":     Create or replace `route` ({ routeKey, recipients,
+//                        fallback? }); recipients are { type: "role", role }
+//                        | { type: "rotation", rotationId }
+//                        | { type: "person", personId }
+//   - "deleteRoute":     Remove the route of `routeKey` (built-in applies
+//                        again when there is one)
+//   - "upsertRotation":  Create or replace `rotation` ({ rotationId, name,
+//                        personIds, startDate, shiftDays, timeZone?,
+//                        overrides? })
+//   - "deleteRotation":  Remove `rotationId` (not while a route uses it)
+//
+// Notes:
+//   - Route keys are notification types or alert types (ALERT_TYPES).
+//   - Every write clears the in-memory cache used by alerts and reminders.
+// -----------------------------------------------------------------------------
+
+import { Request, Response } from "express";
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../../firebase.js";
+import {
+  ROTATIONS_COLLECTION,
+  ROUTES_COLLECTION,
+  clearRoutingCache,
+  loadRouting,
+} from "../loadRouting.js";
+import { onDutyPersonId, resolveRoutePeople } from "../resolveRecipients.js";
+import { loadPeople, slackLinkOf } from "../../chats/ownership.js";
+import { isValidTimeZone } from "../../../utils/time.js";
+import { NOTIFICATION_TYPES } from "../../../types/notification.js";
+import { INTERNAL_ROLES } from "../../../types/person.js";
+import {
+  ALERT_TYPES,
+  type OnCallRotationDef,
+  type OnCallRotationDoc,
+  type RecipientRouteDef,
+  type RecipientRouteDoc,
+  type RouteKey,
+  type RouteRecipient,
+} from "../../../types/routing.js";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+type RoutingRequestBody = {
+  action?:
+    | "list"
+    | "resolve"
+    | "upsertRoute"
+    | "deleteRoute"
+    | "upsertRotation"
+    | "deleteRotation";
+  routeKey?: string;
+  route?: Partial<RecipientRouteDef>;
+  rotationId?: string;
+  rotation?: Partial<OnCallRotationDef>;
+  at?: string;
+  actor?: string;
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+const ID_RE = /^[a-z0-9_-]{1,64}$/;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+const ROUTE_KEYS: readonly string[] = [...NOTIFICATION_TYPES, ...ALERT_TYPES];
+
+function isRouteKey(v: unknown): v is RouteKey {
+  return typeof v === "string" && ROUTE_KEYS.includes(v);
+}
+
+/** Validate a recipient list (`at` = field name for messages). */
+function validateRecipients(list: unknown, at: string): string[] {
+  if (!Array.isArray(list)) return [`${at} must be an array`];
+  const errors: string[] = [];
+  list.forEach((r: Partial<RouteRecipient> | null, i) => {
+    const e = `${at}[${i}]`;
+    if (!r || typeof r !== "object") {
+      errors.push(`${e} must be an object`);
+    } else if (r.type === "role") {
+      if (!INTERNAL_ROLES.includes(r.role as never)) {
+        errors.push(`${e}.role must be one of [${INTERNAL_ROLES}]`);
+      }
+    } else if (r.type === "rotation") {
+      if (typeof r.rotationId !== "string" || !ID_RE.test(r.rotationId)) {
+        errors.push(`${e}.rotationId must match /^[a-z0-9_-]{1,64}$/`);
+      }
+    } else if (r.type === "person") {
+      if (typeof r.personId !== "string" || !r.personId) {
+        errors.push(`${e}.personId is required`);
+      }
+    } else {
+      errors.push(`${e}.type must be "role", "rotation" or "person"`);
+    }
+  });
+  return errors;
+}
+
+/** Validate a complete rotation definition. */
+function validateRotation(r: Partial<OnCallRotationDef>): string[] {
+  const errors: string[] = [];
+  if (!r.rotationId || !ID_RE.test(r.rotationId)) {
+    errors.push("rotationId must match /^[a-z0-9_-]{1,64}$/");
+  }
+  if (!r.name || !String(r.name).trim()) errors.push("name is required");
+  if (
+    !Array.isArray(r.personIds) ||
+    !r.personIds.length ||
+    r.personIds.some((id) => typeof id !== "string" || !id)
+  ) {
+    errors.push("personIds must be a non-empty array of strings");
+  }
+  if (!r.startDate || !DATE_RE.test(r.startDate)) {
+    errors.push("startDate must be YYYY-MM-DD");
+  }
+  if (!Number.isInteger(r.shiftDays) || (r.shiftDays ?? 0) < 1) {
+    errors.push("shiftDays must be a positive integer");
+  }
+  if (r.timeZone !== undefined && !isValidTimeZone(r.timeZone)) {
+    errors.push(`timeZone is not a valid IANA zone: ${r.timeZone}`);
+  }
+  if (r.overrides !== undefined) {
+    if (!Array.isArray(r.overrides)) {
+      errors.push("overrides must be an array");
+    } else {
+      r.overrides.forEach((o, i) => {
+        if (
+          !o ||
+          !DATE_RE.test(o.from ?? "") ||
+          !DATE_RE.test(o.to ?? "") ||
+          o.from > o.to ||
+          typeof o.personId !== "string" ||
+          !o.personId
+        ) {
+          errors.push(
+            `overrides[${i}] must be { from <= to (YYYY-MM-DD), personId }`,
+          );
+        }
+      });
+    }
+  }
+  return errors;
+}
+
+/** personIds referenced by a route / rotation that have no people/* doc. */
+async function missingPeople(ids: string[]): Promise<string[]> {
+  const unique = [...new Set(ids)];
+  const found = new Set((await loadPeople(unique)).map((p) => p.personId));
+  return unique.filter((id) => !found.has(id));
+}
+
+// -----------------------------------------------------------------------------
+// Handler
+// -----------------------------------------------------------------------------
+
+export async function handleRoutingCommand(req: Request, res: Response) {
+  try {
+    const {
+      action = "list",
+      routeKey,
+      route,
+      rotationId,
+      rotation,
+      at,
+      actor,
+    } = (req.body ?? {}) as RoutingRequestBody;
+    const updatedBy = typeof actor === "string" && actor.trim() ? actor : null;
+
+    // -----------------------------------------------------------------------
+    // 1) LIST
+    // -----------------------------------------------------------------------
+    if (action === "list") {
+      const { routes, rotations } = await loadRouting();
+      return res.status(200).json({
+        routes: [...routes.values()],
+        rotations: [...rotations.values()].map((r) => ({
+          ...r,
+          onDutyPersonId: onDutyPersonId(r),
+        })),
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // 2) RESOLVE (preview recipients)
+    // -----------------------------------------------------------------------
+    if (action === "resolve") {
+      if (!isRouteKey(routeKey)) {
+        return res
+          .status(400)
+          .json({ error: `'routeKey' must be one of [${ROUTE_KEYS}].` });
+      }
+      const when = at ? new Date(at) : new Date();
+      if (Number.isNaN(when.getTime())) {
+        return res.status(400).json({ error: `Invalid 'at': ${at}` });
+      }
+      const people = await resolveRoutePeople(routeKey, when);
+      return res.status(200).json({
+        routeKey,
+        at: when.toISOString(),
+        routed: people !== null, // false → no route / nobody: chat owners or sender
+        recipients: (people ?? []).map((p) => ({
+          personId: p.personId,
+          displayName: p.displayName,
+          slackUserId: slackLinkOf(p)?.userId ?? null,
+        })),
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // 3) UPSERT ROUTE
+    // -----------------------------------------------------------------------
+    if (action === "upsertRoute") {
+      const key = route?.routeKey ?? routeKey;
+      if (!isRouteKey(key)) {
+        return res
+          .status(400)
+          .json({ error: `'route.routeKey' must be one of [${ROUTE_KEYS}].` });
+      }
+      const errors = [
+        ...validateRecipients(route?.recipients, "recipients"),
+        ...(route?.fallback !== undefined
+          ? validateRecipients(route.fallback, "fallback")
+          : []),
+      ];
+      if (!errors.length && !route!.recipients!.length) {
+        errors.push("recipients must not be empty");
+      }
+      if (errors.length) {
+        return res
+          .status(400)
+          .json({ error: "Invalid route.", details: errors });
+      }
+
+      const recipients = route!.recipients!;
+      const fallback = route!.fallback ?? [];
+      const missing = await missingPeople(
+        [...recipients, ...fallback].flatMap((r) =>
+          r.type === "person" ? [r.personId] : [],
+        ),
+      );
+      if (missing.length) {
+        return res
+          .status(404)
+          .json({ error: "People not found.", details: missing });
+      }
+
+      await db
+        .collection(ROUTES_COLLECTION)
+        .doc(key)
+        .set({
+          routeKey: key,
+          recipients,
+          fallback,
+          updatedAt: Timestamp.now(),
+          updatedBy,
+        } satisfies RecipientRouteDoc);
+      clearRoutingCache();
+      console.log(`[routing] route ${key} updated (by ${updatedBy})`);
+      return res.status(200).json({
+        message: "Route saved.",
+        route: { routeKey: key, recipients, fallback },
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // 4) DELETE ROUTE
+    // -----------------------------------------------------------------------
+    if (action === "deleteRoute") {
+      if (!isRouteKey(routeKey)) {
+        return res
+          .status(400)
+          .json({ error: `'routeKey' must be one of [${ROUTE_KEYS}].` });
+      }
+      const ref = db.collection(ROUTES_COLLECTION).doc(routeKey);
+      if (!(await ref.get()).exists) {
+        return res
+          .status(404)
+          .json({ error: `No stored route for ${routeKey}.` });
+      }
+      await ref.delete();
+      clearRoutingCache();
+      console.log(`[routing] route ${routeKey} deleted (by ${updatedBy})`);
+      return res.status(200).json({ message: "Route deleted.", routeKey });
+    }
+
+    // -----------------------------------------------------------------------
+    // 5) UPSERT ROTATION
+    // -----------------------------------------------------------------------
+    if (action === "upsertRotation") {
+      const def: Partial<OnCallRotationDef> = {
+        ...(rotation ?? {}),
+        rotationId: rotation?.rotationId ?? rotationId ?? "",
+      };
+      const errors = validateRotation(def);
+      if (errors.length) {
+        return res
+          .status(400)
+          .json({ error: "Invalid rotation.", details: errors });
+      }
+      const valid = def as OnCallRotationDef;
+      const missing = await missingPeople([
+        ...valid.personIds,
+        ...(valid.overrides ?? []).map((o) => o.personId),
+      ]);
+      if (missing.length) {
+        return res
+          .status(404)
+          .json({ error: "People not found.", details: missing });
+      }
+
+      const doc: OnCallRotationDoc = {
+        rotationId: valid.rotationId,
+        name: valid.name,
+        personIds: valid.personIds,
+        startDate: valid.startDate,
+        shiftDays: valid.shiftDays,
+        ...(valid.timeZone ? { timeZone: valid.timeZone } : {}),
+        overrides: valid.overrides ?? [],
+        updatedAt: Timestamp.now(),
+        updatedBy,
+      };
+      await db.collection(ROTATIONS_COLLECTION).doc(doc.rotationId).set(doc);
+      clearRoutingCache();
+      console.log(
+        `[routing] rotation ${doc.rotationId} updated (by ${updatedBy})`,
+      );
+      return res.status(200).json({
+        message: "Rotation saved.",
+        rotation: { ...valid, onDutyPersonId: onDutyPersonId(valid) },
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // 6) DELETE ROTATION
+    // -----------------------------------------------------------------------
+    if (action === "deleteRotation") {
+      if (!rotationId) {
+        return res.status(400).json({ error: "Missing 'rotationId'." });
+      }
+      const ref = db.collection(ROTATIONS_COLLECTION).doc(rotationId);
+      if (!(await ref.get()).exists) {
+        return res
+          .status(404)
+          .json({ error: `Rotation not found: ${rotationId}` });
+      }
+      const { routes } = await loadRouting();
+      const usedBy = [...routes.values()]
+        .filter((r) =>
+          [...r.recipients, ...(r.fallback ?? [])].some(
+            (e) => e.type === "rotation" && e.rotationId === rotationId,
+          ),
+        )
+        .map((r) => r.routeKey);
+      if (usedBy.length) {
+        return res.status(409).json({
+          error: `Rotation ${rotationId} is used by routes; update them first.`,
+          details: usedBy,
+        });
+      }
+      await ref.delete();
+      clearRoutingCache();
+      console.log(`[routing] rotation ${rotationId} deleted (by ${updatedBy})`);
+      return res.status(200).json({ message: "Rotation deleted.", rotationId });
+    }
+
+    // -----------------------------------------------------------------------
+    // Unsupported action
+    // -----------------------------------------------------------------------
+    return res
+      .status(400)
+      .json({ error: `Unsupported action: ${String(action)}` });
+  } catch (error: any) {
+    console.error("[handleRoutingCommand] Error:", error);
+    return res.status(500).json({
+      error: "Failed to process routing command.",
+      details: error?.message ?? String(error),
+    });
+  }
+}
@@ -0,0 +1 @@
+export { handleRoutingCommand } from "./handleRoutingCommand.js";
@@ -0,0 +1,42 @@
+// -----------------------------------------------------------------------------
+// Built-in recipient routes (used while recipientRoutes/{routeKey} does not
+// exist).
+// - Bot-join call check → BD leads (the two teammates who used to get it
+//   while nobody has the role yet)
+// - System alerts → whoever is on ops on-call duty (admins when the rotation
+//   is missing or empty; DEFAULT_ALERT_SLACK_USER_IDS when nobody resolves)
+// Follow-up types without a route, or whose route resolves to nobody, go to
+// the chat's owners (see followup.ts).
+// -----------------------------------------------------------------------------
+
+import type { RecipientRouteDef, RouteKey } from "../../types/routing.js";
+
+/** On-call rotation used by the built-in alert routes. */
+export const OPS_ONCALL_ROTATION_ID = "ops_oncall";
+
+/** Slack users mentioned on alerts when their route resolves to nobody. */
+export const DEFAULT_ALERT_SLACK_USER_IDS: readonly string[] = [
+  "U02A6MHJSMP", // Pochi (alert contact before routing)
+];
+
+export const DEFAULT_ROUTES: Partial<Record<RouteKey, RecipientRouteDef>> = {
+  follow_up_bot_join_call_check: {
+    routeKey: "follow_up_bot_join_call_check",
+    recipients: [{ type: "role", role: "bd_lead" }],
+    // Teammates who got the reminder before routing (until roles are set up)
+    fallback: [
+      { type: "person", personId: "0agUxUrz9z6tIw95x32I" }, // Srijan
+      { type: "person", personId: "CnFhje8ShxntUyiO0UZI" }, // Soham
+    ],
+  },
+  sheets_sync_failed: {
+    routeKey: "sheets_sync_failed",
+    recipients: [{ type: "rotation", rotationId: OPS_ONCALL_ROTATION_ID }],
+    fallback: [{ type: "role", role: "admin" }],
+  },
+  weekly_report_status: {
+    routeKey: "weekly_report_status",
+    recipients: [{ type: "rotation", rotationId: OPS_ONCALL_ROTATION_ID }],
+    fallback: [{ type: "role", role: "admin" }],
+  },
+};
@@ -0,0 +1,83 @@
+// -----------------------------------------------------------------------------
+// Load recipient routes (recipientRoutes/*) and on-call rotations
+// (onCallRotations/*) from Firestore.
+// - Built-in routes (defaultRoutes.ts) apply to keys without a document
+// - Uses a short-lived in-memory cache (utils/ttlCache.ts) to avoid reads on
+//   every alert
+// -----------------------------------------------------------------------------
+
+import { db } from "../firebase.js";
+import { DEFAULT_ROUTES } from "./defaultRoutes.js";
+import { createCachedLoader } from "../../utils/ttlCache.js";
+import type {
+  OnCallRotationDef,
+  OnCallRotationDoc,
+  RecipientRouteDef,
+  RecipientRouteDoc,
+  RouteKey,
+} from "../../types/routing.js";
+
+/** Firestore collection names. */
+export const ROUTES_COLLECTION = "recipientRoutes";
+export const ROTATIONS_COLLECTION = "onCallRotations";
+
+type RoutingConfig = {
+  routes: Map<string, RecipientRouteDef>;
+  rotations: Map<string, OnCallRotationDef>;
+};
+
+/** Built-in routes only (no rotations). */
+function builtInRouting(): RoutingConfig {
+  return {
+    routes: new Map(Object.entries(DEFAULT_ROUTES)),
+    rotations: new Map(),
+  };
+}
+
+const cache = createCachedLoader<RoutingConfig>({
+  tag: "routing",
+  load: async () => {
+    const { routes } = builtInRouting();
+    const [routeSnap, rotationSnap] = await Promise.all([
+      db.collection(ROUTES_COLLECTION).get(),
+      db.collection(ROTATIONS_COLLECTION).get(),
+    ]);
+    for (const d of routeSnap.docs) {
+      const doc = d.data() as RecipientRouteDoc;
+      routes.set(d.id, {
+        routeKey: d.id as RouteKey,
+        recipients: doc.recipients ?? [],
+        ...(doc.fallback ? { fallback: doc.fallback } : {}),
+      });
+    }
+    const rotations = new Map<string, OnCallRotationDef>(
+      rotationSnap.docs.map((d) => {
+        const {
+          updatedAt: _updatedAt,
+          updatedBy: _updatedBy,
+          ...def
+        } = d.data() as OnCallRotationDoc;
+        return [d.id, { ...def, rotationId: d.id }];
+      }),
+    );
+    return { routes, rotations };
+  },
+  fallback: builtInRouting,
+});
+
+/**
+ * Routes and rotations keyed by ID (routes incl. built-in defaults).
+ * - Firestore errors are non-fatal: the last cached config (or the built-in
+ *   routes without rotations) is used.
+ */
+export async function loadRouting(): Promise<{
+  routes: Map<string, RecipientRouteDef>;
+  rotations: Map<string, OnCallRotationDef>;
+}> {
+  return cache.get();
+}
+
+/** Expire cached routes and rotations (call after admin writes; this instance only). */
+export function clearRoutingCache(): void {
+  cache.clear();
+}
@@ -0,0 +1,135 @@
+// -----------------------------------------------------------------------------
+// Resolve recipient routes to people (and their Slack mentions).
+// - role:     active internal members with the role
+// - rotation: the person on duty today (override first, else the shift
+//             schedule)
+// - person:   the person itself
+// Missing people / rotations are skipped; a route whose recipients resolve to
+// nobody uses its fallback. A route that resolves to nobody at all counts as
+// no route (reminders then go to the chat's owners / sender), and alerts
+// mention DEFAULT_ALERT_SLACK_USER_IDS.
+// -----------------------------------------------------------------------------
+
+import { db } from "../firebase.js";
+import { loadRouting } from "./loadRouting.js";
+import { DEFAULT_ALERT_SLACK_USER_IDS } from "./defaultRoutes.js";
+import { loadPeople, slackLinkOf } from "../chats/ownership.js";
+import { DEFAULT_TIME_ZONE, toLocalDayKey } from "../../utils/time.js";
+import type { InternalRole, PersonDoc } from "../../types/person.js";
+import type {
+  OnCallRotationDef,
+  RouteKey,
+  RouteRecipient,
+} from "../../types/routing.js";
+
+const ONE_DAY_MS = 86_400_000;
+
+/**
+ * personId on duty in a rotation at `now` (null when it has nobody).
+ * - Before `startDate`, the first person is on duty
+ */
+export function onDutyPersonId(
+  rotation: OnCallRotationDef,
+  now: Date = new Date(),
+): string | null {
+  const today = toLocalDayKey(
+    now.getTime(),
+    rotation.timeZone || DEFAULT_TIME_ZONE,
+  );
+  const override = (rotation.overrides ?? []).find(
+    (o) => o.from <= today && today <= o.to,
+  );
+  if (override) return override.personId;
+
+  const n = rotation.personIds.length;
+  if (!n) return null;
+  const days = Math.round(
+    (Date.parse(`${today}T00:00:00Z`) -
+      Date.parse(`${rotation.startDate}T00:00:00Z`)) /
+      ONE_DAY_MS,
+  );
+  const shift = Math.floor(Math.max(0, days) / Math.max(1, rotation.shiftDays));
+  return rotation.personIds[shift % n] ?? null;
+}
+
+/** Active internal members with a role. */
+async function peopleWithRole(role: InternalRole): Promise<PersonDoc[]> {
+  const snap = await db
+    .collection("people")
+    .where("internal.active", "==", true)
+    .where("internal.roles", "array-contains", role)
+    .get();
+  return snap.docs.map((d) => ({ ...(d.data() as PersonDoc), personId: d.id }));
+}
+
+/** People of a recipient list (deduped, in entry order). */
+async function resolveEntries(
+  entries: RouteRecipient[],
+  rotations: Map<string, OnCallRotationDef>,
+  now: Date,
+): Promise<PersonDoc[]> {
+  const people: PersonDoc[] = [];
+  for (const e of entries) {
+    if (e.type === "role") {
+      people.push(...(await peopleWithRole(e.role)));
+    } else {
+      const rotation =
+        e.type === "rotation" ? rotations.get(e.rotationId) : undefined;
+      if (e.type === "rotation" && !rotation) {
+        console.warn(`[routing] unknown rotation "${e.rotationId}"`);
+      }
+      const personId =
+        e.type === "person"
+          ? e.personId
+          : rotation
+            ? onDutyPersonId(rotation, now)
+            : null;
+      if (personId) people.push(...(await loadPeople([personId])));
+    }
+  }
+  const seen = new Set<string>();
+  return people.filter((p) => !seen.has(p.personId) && seen.add(p.personId));
+}
+
+/**
+ * Recipients of a route at `now`, or null when the key has no route (neither
+ * a document nor a built-in default) or the route resolves to nobody (e.g.
+ * no one has the role yet).
+ */
+export async function resolveRoutePeople(
+  routeKey: RouteKey,
+  now: Date = new Date(),
+): Promise<PersonDoc[] | null> {
+  const { routes, rotations } = await loadRouting();
+  const route = routes.get(routeKey);
+  if (!route) return null;
+
+  const people = await resolveEntries(route.recipients, rotations, now);
+  if (people.length) return people;
+  const fallback = await resolveEntries(route.fallback ?? [], rotations, now);
+  if (fallback.length) return fallback;
+  console.warn(`[routing] ${routeKey} resolved to nobody; not routed`);
+  return null;
+}
+
+/**
+ * Slack mentions of a route's recipients (e.g. "<@U01> <@U02>"); when nobody
+ * with a Slack link is routed (or on errors), DEFAULT_ALERT_SLACK_USER_IDS.
+ * Non-throwing.
+ */
+export async function routeSlackMentions(routeKey: RouteKey): Promise<string> {
+  let userIds: string[] = [];
+  try {
+    const people = (await resolveRoutePeople(routeKey)) ?? [];
+    userIds = people
+      .map((p) => slackLinkOf(p)?.userId)
+      .filter((id): id is string => !!id);
+  } catch (err) {
+    console.warn(`[routing] resolve failed for ${routeKey}:`, err);
+  }
+  if (!userIds.length) {
+    console.warn(`[routing] no Slack recipients for ${routeKey}; default used`);
+    userIds = [...DEFAULT_ALERT_SLACK_USER_IDS];
+  }
+  return [...new Set(userIds)].map((id) => `<@${id}>`).join(" ");
+}
@@ -3,11 +3,19 @@
 // - Reads all documents from the "tg_chats" collection
 // - Supports pagination to safely fetch large datasets
 // - Returns an array of { id, title, phase, latestMsgFrom, latestMsgAt, daysSinceLastMsg, latestMsgSummary, botAddedAt }
+//   plus the chat's deal fields (deals/{chatId}; empty when no deal) and its
+//   owners (tg_chats/{chatId}.ownership)
+// - `phase` is the stage display name; phase sorting follows the configured
+//   pipeline order (default pipeline first, then stage order)
 // -----------------------------------------------------------------------------
 
 import { db } from "../firebase.js";
-import { PHASE_PRIORITY } from "../telegram/updateChatPhase.js";
-import type { ChatPhase } from "../../types/chat.js";
+import { loadDealsByChat } from "../deals/deals.js";
+import { loadPipelines } from "../pipelines/loadPipelines.js";
+import { DEFAULT_PIPELINE_ID } from "../pipelines/defaultPipeline.js";
+import { stageName, stageRank } from "../pipelines/stages.js";
+import { ownerPersonIds } from "../chats/ownership.js";
+import type { ChatRoomDoc } from "../../types/chat.js";
 
 /** Represents a single Telegram group chat row */
 export type ChatRow = {
@@ -19,6 +27,13 @@ export type ChatRow = {
   daysSinceLastMsg: number;
   latestMsgSummary: string;
   botAddedAt: string;
+  dealValue: number | "";
+  dealCurrency: string;
+  dealProbability: number | "";
+  dealExpectedClose: string; // "YYYY-MM-DD"
+  dealOwner: string; // owner's displayName (personId when unnamed)
+  pipeline: string; // pipeline display name
+  chatOwner: string; // chat owner + co-owners (displayName, else personId)
 };
 
 /** Optional parameters to control query behavior */
@@ -89,6 +104,24 @@ export function toJstString(ts?: unknown, withZone = false): string | null {
   return withZone ? `${jst} JST` : jst;
 }
 
+/**
+ * Display names of deal / chat owners (people/{personId}), keyed by personId.
+ */
+async function loadOwnerNames(
+  personIds: Array<string | null>,
+): Promise<Map<string, string>> {
+  const ids = [...new Set(personIds.filter((id): id is string => !!id))];
+  if (!ids.length) return new Map();
+  const snaps = await db.getAll(
+    ...ids.map((id) => db.collection("people").doc(id)),
+  );
+  return new Map(
+    snaps
+      .filter((s) => s.exists && s.get("displayName"))
+      .map((s) => [s.id, s.get("displayName") as string]),
+  );
+}
+
 /**
  * Fetches all Telegram group chats from Firestore (`tg_chats` collection)
  * and returns the latest list of chat metadata.
@@ -122,6 +155,13 @@ export async function getLatestTelegramChats(
 
   // --- 2. Fetch documents with pagination -----------------------------------
   const rows: ChatRow[] = [];
+  const sortKeys = new Map<string, number>(); // row id → phase sort key
+  const pipelines = await loadPipelines();
+  const deals = await loadDealsByChat();
+  const dealOwnerNames = await loadOwnerNames(
+    [...deals.values()].map((d) => d.ownerPersonId),
+  );
+  const chatOwnerIds = new Map<string, string[]>(); // row id → owner personIds
   let lastDoc: FirebaseFirestore.QueryDocumentSnapshot | undefined;
 
   while (true) {
@@ -139,6 +179,18 @@ export async function getLatestTelegramChats(
     for (const doc of snap.docs) {
       const d: any = doc.data() ?? {};
       const lm = d.latestMessage ?? {};
+      const deal = deals.get(doc.id);
+      // Unknown pipelines fall back to the default (always index 0)
+      const pipelineIndex = Math.max(
+        0,
+        pipelines.findIndex(
+          (p) => p.pipelineId === (d.pipelineId || DEFAULT_PIPELINE_ID),
+        ),
+      );
+      const pipeline = pipelines[pipelineIndex]!;
+      const phase: string = d.phase?.value ?? "";
+      // pipeline order first, then stage order (< 1000 stages per pipeline)
+      sortKeys.set(doc.id, pipelineIndex * 1000 + stageRank(pipeline, phase));
 
       // compute whole days since latest message (min 0)
       const latestDate: Date | null =
@@ -161,13 +213,23 @@ export async function getLatestTelegramChats(
       rows.push({
         id: doc.id,
         title: (d.title as string) ?? "",
-        phase: d.phase.value ?? "",
+        phase: stageName(pipeline, phase),
         latestMsgFrom: lm.fromUsername ?? "",
         latestMsgAt: toJstString(lm.sentAt) ?? "",
         daysSinceLastMsg,
         latestMsgSummary: lm.summary ?? "",
         botAddedAt: toJstString(d.botActivityHistory?.[0]?.ts) ?? "",
+        dealValue: deal?.value ?? "",
+        dealCurrency: deal?.currency ?? "",
+        dealProbability: deal?.probability ?? "",
+        dealExpectedClose: deal?.expectedCloseDate ?? "",
+        dealOwner: deal?.ownerPersonId
+          ? (dealOwnerNames.get(deal.ownerPersonId) ?? deal.ownerPersonId)
+          : "",
+        pipeline: pipeline.name,
+        chatOwner: "", // filled in below (names loaded once for all pages)
       });
+      chatOwnerIds.set(doc.id, ownerPersonIds(d as ChatRoomDoc));
     }
 
     // Update cursor for next loop
@@ -177,17 +239,27 @@ export async function getLatestTelegramChats(
     if (snap.size < pageSize) break;
   }
 
-  // --- 3. In-memory sort -------------------------------------------------------
-  const prio = (p: unknown): number => PHASE_PRIORITY[p as ChatPhase] ?? 0;
+  // --- 3. Chat owners (owner first, then co-owners) ---------------------------
+  const chatOwnerNames = await loadOwnerNames(
+    [...chatOwnerIds.values()].flat(),
+  );
+  for (const row of rows) {
+    row.chatOwner = (chatOwnerIds.get(row.id) ?? [])
+      .map((id) => chatOwnerNames.get(id) ?? id)
+      .join(", ");
+  }
+
+  // --- 4. In-memory sort -------------------------------------------------------
+  const prio = (id: string): number => sortKeys.get(id) ?? 0;
 
   if (orderBy === "id") {
     rows.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
   } else if (orderBy === "phase-asc") {
-    rows.sort((a, b) => prio(a.phase) - prio(b.phase));
+    rows.sort((a, b) => prio(a.id) - prio(b.id));
   } else if (orderBy === "phase-desc") {
-    rows.sort((a, b) => prio(b.phase) - prio(a.phase));
+    rows.sort((a, b) => prio(b.id) - prio(a.id));
   }
 
-  // --- 4. Return the aggregated results -------------------------------------
+  // --- 5. Return the aggregated results -------------------------------------
   return rows;
 }
@@ -55,6 +55,13 @@ export async function overwriteChatTab(
       daysSinceLastMsg,
       latestMsgSummary,
       botAddedAt,
+      dealValue,
+      dealCurrency,
+      dealProbability,
+      dealExpectedClose,
+      dealOwner,
+      pipeline,
+      chatOwner,
     }) => [
       id,
       title,
@@ -64,6 +71,13 @@ export async function overwriteChatTab(
       daysSinceLastMsg,
       latestMsgSummary,
       botAddedAt,
+      dealValue,
+      dealCurrency,
+      dealProbability,
+      dealExpectedClose,
+      dealOwner,
+      pipeline,
+      chatOwner,
     ],
   );
 
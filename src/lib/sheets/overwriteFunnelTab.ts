@@ -0,0 +1,106 @@
+// -----------------------------------------------------------------------------
+// Overwrite the "Funnel" tab in a Google Spreadsheet with funnel analytics.
+// - The whole tab is generated (no header row kept): clears A1:Z first
+// - The tab is added when the spreadsheet does not have it yet
+// - Stages are shown by display name, in the pipeline's configured order
+// - Three tables, separated by a blank row:
+//     1) Stages:        stage, reached, conversion to next
+//     2) Time in phase: phase, samples, median days, p90 days
+//     3) Cohorts:       month, chats, reached per stage
+// -----------------------------------------------------------------------------
+
+import { getSheetsClient } from "./client.js";
+import { formatPercent } from "../../utils/stats.js";
+import type { FunnelAnalytics } from "../chats/funnel.js";
+
+/** Add the tab (sheet) when the spreadsheet does not have it yet. */
+async function ensureTab(
+  sheets: ReturnType<typeof getSheetsClient>,
+  spreadsheetId: string,
+  tabName: string,
+): Promise<void> {
+  const { data } = await sheets.spreadsheets.get({
+    spreadsheetId,
+    fields: "sheets.properties.title",
+  });
+  const exists = (data.sheets ?? []).some(
+    (s) => s.properties?.title === tabName,
+  );
+  if (exists) return;
+
+  await sheets.spreadsheets.batchUpdate({
+    spreadsheetId,
+    requestBody: {
+      requests: [{ addSheet: { properties: { title: tabName } } }],
+    },
+  });
+  console.log(`[overwriteFunnelTab] Added missing tab "${tabName}".`);
+}
+
+/**
+ * Overwrites the Funnel tab with the given analytics.
+ *
+ * @param spreadsheetId Google Spreadsheet (file) ID
+ * @param funnel        Result of computeFunnelAnalytics
+ * @param tabName       Target tab (sheet) name. Defaults to "Funnel"
+ */
+export async function overwriteFunnelTab(
+  spreadsheetId: string,
+  funnel: FunnelAnalytics,
+  tabName = "Funnel",
+): Promise<void> {
+  const sheets = getSheetsClient();
+  const nameOf = (phase: string) =>
+    funnel.stages.find((s) => s.phase === phase)?.name ?? phase;
+
+  // --- 1) Build the tables ---------------------------------------------------
+  const values: (string | number)[][] = [
+    [
+      "GENERATED_AT",
+      funnel.generatedAt,
+      "PIPELINE",
+      funnel.pipelineId,
+      "CHATS",
+      funnel.chats,
+    ],
+    [],
+    ["STAGE", "REACHED", "CONVERSION_TO_NEXT"],
+    ...funnel.stages.map((s) => [
+      s.name,
+      s.reached,
+      formatPercent(s.conversionToNext, ""),
+    ]),
+    [],
+    ["PHASE", "SAMPLES", "MEDIAN_DAYS", "P90_DAYS"],
+    ...funnel.timeInPhase.map((t) => [
+      nameOf(t.phase),
+      t.samples,
+      t.medianDays ?? "",
+      t.p90Days ?? "",
+    ]),
+    [],
+    ["COHORT (BOT ADDED)", "CHATS", ...funnel.stages.map((s) => s.name)],
+    ...funnel.cohorts.map((c) => [
+      c.month,
+      c.chats,
+      ...funnel.stages.map((s) => c.reached[s.phase] ?? 0),
+    ]),
+  ];
+
+  // --- 2) Clear and write ----------------------------------------------------
+  await ensureTab(sheets, spreadsheetId, tabName);
+  await sheets.spreadsheets.values.clear({
+    spreadsheetId,
+    range: `${tabName}!A1:Z`,
+  });
+  await sheets.spreadsheets.values.update({
+    spreadsheetId,
+    range: `${tabName}!A1`,
+    valueInputOption: "RAW",
+    requestBody: { values },
+  });
+
+  console.log(
+    `[overwriteFunnelTab] Wrote ${values.length} rows to "${tabName}".`,
+  );
+}
@@ -1,9 +1,12 @@
 // -----------------------------------------------------------------------------
 // Send alert message to Slack via webhook
 // - Uses SLACK_WEBHOOK_URL from env
-// - Mentions "Pochi" by default
+// - Mentions the recipients of the "sheets_sync_failed" route (ops on-call by
+//   default; see lib/routing)
 // -----------------------------------------------------------------------------
 
+import { routeSlackMentions } from "../routing/resolveRecipients.js";
+
 /**
  * Send a formatted alert message to Slack.
  *
@@ -19,8 +22,8 @@ export async function sendSlackAlert(message: string): Promise<void> {
   }
 
   // --- Compose message body ---------------------------------------------------
-  const mention = "<@U02A6MHJSMP>"; // "Pochi"
-  const prefix = `🚨 ${mention}\n`;
+  const mention = await routeSlackMentions("sheets_sync_failed");
+  const prefix = mention ? `🚨 ${mention}\n` : "🚨 ";
   const text = `${prefix}${message}`;
 
   // --- Post message -----------------------------------------------------------
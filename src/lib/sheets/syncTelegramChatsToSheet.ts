@@ -3,16 +3,21 @@
 // 1) Fetch latest chats from Firestore
 // 2) Overwrite the "Chat" tab in Google Sheets (header preserved)
 // 3) Overwrite the "Meta" tab with sync metrics
+// 4) Overwrite the "Funnel" tab with funnel analytics of the default pipeline
+//    (phaseHistory); non-fatal: a failure is alerted but the sync succeeds
 // - Notify Slack ONLY on errors
 // -----------------------------------------------------------------------------
 
 import { getLatestTelegramChats } from "./getLatestTelegramChats.js";
 import { overwriteChatTab } from "./overwriteChatTab.js";
 import { overwriteMetaTab } from "./overwriteMetaTab.js";
+import { overwriteFunnelTab } from "./overwriteFunnelTab.js";
+import { computeFunnelAnalytics } from "../chats/funnel.js";
 import { sendSlackAlert } from "./sendSlackAlert.js";
 
 const CHAT_TAB = "Chat";
 const META_TAB = "Meta";
+const FUNNEL_TAB = "Funnel";
 
 export async function syncTelegramChatsToSheet() {
   const spreadsheetId = process.env.CHATS_SPREADSHEET_ID;
@@ -55,11 +60,27 @@ export async function syncTelegramChatsToSheet() {
       META_TAB,
     );
 
+    // 4) Overwrite Funnel tab (non-fatal)
+    try {
+      const funnel = await computeFunnelAnalytics();
+      await overwriteFunnelTab(spreadsheetId, funnel, FUNNEL_TAB);
+      console.log(
+        "[syncTelegramChatsToSheet] Funnel tab overwritten successfully",
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      await sendSlackAlert(
+        `*SyncTelegramChatsToSheet: Funnel tab failed*\n> ${message}`,
+      );
+      console.error("[syncTelegramChatsToSheet] funnel export failed:", err);
+    }
+
     const summary = {
       count: chats.length,
       durationMs,
       chatTab: CHAT_TAB,
       metaTab: META_TAB,
+      funnelTab: FUNNEL_TAB,
     };
     console.log("[syncTelegramChatsToSheet] done", summary);
   } catch (err) {
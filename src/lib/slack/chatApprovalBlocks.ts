@@ -0,0 +1,45 @@
+// -----------------------------------------------------------------------------
+// Block Kit builder for bot-join approval requests (bot added by an external
+// user). Button `value` carries the chatId; `action_id` selects the decision.
+// -----------------------------------------------------------------------------
+
+/** Approval actions (action_id values on the buttons). */
+export const CHAT_APPROVAL_ACTIONS = {
+  approve: "chat_approval_approve",
+  reject: "chat_approval_reject",
+} as const;
+
+export type ChatApprovalActionId =
+  (typeof CHAT_APPROVAL_ACTIONS)[keyof typeof CHAT_APPROVAL_ACTIONS];
+
+/**
+ * Approval request: details, then Approve / Reject buttons.
+ *
+ * @param text    mrkdwn request text (title, chat ID, added by, window)
+ * @param chatId  Telegram chat ID (button value)
+ */
+export function buildChatApprovalBlocks(text: string, chatId: string): any[] {
+  return [
+    { type: "section", text: { type: "mrkdwn", text } },
+    {
+      type: "actions",
+      block_id: `approval:${chatId}`,
+      elements: [
+        {
+          type: "button",
+          action_id: CHAT_APPROVAL_ACTIONS.approve,
+          text: { type: "plain_text", text: "✅ Approve" },
+          style: "primary",
+          value: chatId,
+        },
+        {
+          type: "button",
+          action_id: CHAT_APPROVAL_ACTIONS.reject,
+          text: { type: "plain_text", text: "🚫 Reject" },
+          style: "danger",
+          value: chatId,
+        },
+      ],
+    },
+  ];
+}
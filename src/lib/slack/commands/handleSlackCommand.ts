@@ -0,0 +1,164 @@
+// -----------------------------------------------------------------------------
+// Slack slash-command gateway (`/weekly ...`, `/phase ...`).
+// - Verifies the Slack signature against the raw request body
+// - Parses the command text into weekly-report handler inputs
+// - config / history: handler runs inline, result returned as ephemeral blocks
+// - run: acknowledged immediately; the run is handed to a Cloud Task
+//   (POST /tasks/slack-command) which posts the result to `response_url`
+// - /phase: show or set a chat's phase inline (see phaseCommand.ts)
+//
+// Notes:
+// - The route must use express.raw() so the body is still a Buffer here.
+// - Slack expects a reply within 3 seconds; AI runs take longer, and Cloud Run
+//   throttles CPU after the response, hence the Cloud Task hand-off.
+// -----------------------------------------------------------------------------
+
+import { Request, Response } from "express";
+import { Timestamp } from "firebase-admin/firestore";
+import { enqueueTask, isTaskQueueRequest } from "../../taskQueue/index.js";
+import { verifySlackSignature } from "../verifySignature.js";
+import { postToResponseUrl } from "../respond.js";
+import {
+  handleConfigCommand,
+  handleRunCommand,
+  handleHistoryCommand,
+} from "../../weeklyReport/commands/index.js";
+import {
+  parseWeeklyCommand,
+  WEEKLY_USAGE,
+  type WeeklyCommandName,
+} from "./parseWeeklyCommand.js";
+import { invokeCommand, type CommandHandler } from "./invokeCommand.js";
+import { ephemeral, renderWeeklyResult } from "./weeklyBlocks.js";
+import { handlePhaseSlashCommand } from "./phaseCommand.js";
+
+/** Handler per weekly sub-command (same handlers as the /api/weekly/* routes). */
+const WEEKLY_HANDLERS: Record<WeeklyCommandName, CommandHandler> = {
+  config: handleConfigCommand,
+  run: handleRunCommand,
+  history: handleHistoryCommand,
+};
+
+/** Payload of the deferred-run task (POST /tasks/slack-command). */
+type SlackCommandTaskPayload = {
+  name: WeeklyCommandName;
+  body: Record<string, unknown>;
+  responseUrl: string;
+  userId: string;
+};
+
+// -----------------------------------------------------------------------------
+// Slash command (POST /slack/commands)
+// -----------------------------------------------------------------------------
+
+export async function handleSlackCommand(req: Request, res: Response) {
+  try {
+    // --- 1) Signature check (raw body) ---
+    const rawBody = Buffer.isBuffer(req.body) ? req.body.toString("utf8") : "";
+    const ok = verifySlackSignature(
+      rawBody,
+      req.get("X-Slack-Request-Timestamp"),
+      req.get("X-Slack-Signature"),
+    );
+    if (!ok) {
+      console.warn("[slack] command signature verification failed");
+      return res.sendStatus(401);
+    }
+
+    // --- 2) Parse form fields & command text ---
+    const form = new URLSearchParams(rawBody);
+    const command = form.get("command") ?? "";
+    const text = form.get("text") ?? "";
+    const responseUrl = form.get("response_url") ?? "";
+    const userId = form.get("user_id") ?? "";
+    console.log(`[slack] ${command} "${text}" by ${userId}`);
+
+    if (command === "/phase") {
+      return res.status(200).json(await handlePhaseSlashCommand(text, userId));
+    }
+
+    const parsed = parseWeeklyCommand(text);
+    if (parsed.kind === "help") {
+      return res.status(200).json(ephemeral(WEEKLY_USAGE));
+    }
+    if (parsed.kind === "error") {
+      return res
+        .status(200)
+        .json(ephemeral(`⚠️ ${parsed.message}\n\n${WEEKLY_USAGE}`));
+    }
+
+    // --- 3a) Long-running: hand off to a task, reply "running" now ---
+    if (parsed.name === "run") {
+      if (!responseUrl) {
+        return res.status(200).json(ephemeral("⚠️ Missing response_url."));
+      }
+      const payload: SlackCommandTaskPayload = {
+        name: parsed.name,
+        body: parsed.body,
+        responseUrl,
+        userId,
+      };
+      await enqueueTask({
+        url: `${process.env.PUBLIC_BASE_URL}/tasks/slack-command`,
+        payload,
+        scheduledAt: Timestamp.now(),
+      });
+      const mode = parsed.body.dryRun ? "dry-run" : "persist";
+      return res
+        .status(200)
+        .json(
+          ephemeral(
+            `⏳ Running weekly report for \`${parsed.body.chatId}\` (${mode})… the result will be posted here.`,
+          ),
+        );
+    }
+
+    // --- 3b) Quick commands: run inline ---
+    const result = await invokeCommand(
+      WEEKLY_HANDLERS[parsed.name],
+      parsed.body,
+    );
+    return res.status(200).json(renderWeeklyResult(parsed.name, result));
+  } catch (error: any) {
+    console.error("[handleSlackCommand] Error:", error);
+    // Slack shows non-200 replies as a generic failure; keep the reason visible
+    return res
+      .status(200)
+      .json(
+        ephemeral(`⚠️ Failed to process command: ${error?.message ?? error}`),
+      );
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Deferred run (POST /tasks/slack-command, called by the task queue)
+// -----------------------------------------------------------------------------
+
+/**
+ * Run a deferred slash command and post the result to its response_url.
+ * - Always answers 200 once the handler ran (no Cloud Tasks retry: AI runs
+ *   are expensive and the user already sees the error message).
+ */
+export async function handleSlackCommandTask(req: Request, res: Response) {
+  if (!isTaskQueueRequest(req)) {
+    return res.status(403).json({ error: "forbidden" });
+  }
+
+  const { name, body, responseUrl, userId } = (req.body ??
+    {}) as Partial<SlackCommandTaskPayload>;
+  if (!name || !WEEKLY_HANDLERS[name] || !body || !responseUrl) {
+    return res.status(400).json({ error: "Invalid slack command task." });
+  }
+
+  const result = await invokeCommand(WEEKLY_HANDLERS[name], body);
+  const message = renderWeeklyResult(name, result);
+  const posted = await postToResponseUrl(responseUrl, {
+    ...message,
+    replace_original: true,
+  });
+
+  console.log(
+    `[slack] deferred ${name} for ${userId}: HTTP ${result.status}, posted=${posted}`,
+  );
+  return res.status(200).json({ ok: true, status: result.status, posted });
+}
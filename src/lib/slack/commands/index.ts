@@ -0,0 +1,4 @@
+export {
+  handleSlackCommand,
+  handleSlackCommandTask,
+} from "./handleSlackCommand.js";
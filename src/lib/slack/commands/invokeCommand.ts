@@ -0,0 +1,39 @@
+// -----------------------------------------------------------------------------
+// Call an HTTP command handler (req, res) without an HTTP round-trip.
+// - The weekly-report handlers are transport-agnostic but take Express req/res;
+//   this adapter feeds a JSON body in and captures { status, body } out.
+// -----------------------------------------------------------------------------
+
+import type { Request, Response } from "express";
+
+export type CommandHandler = (req: Request, res: Response) => Promise<unknown>;
+
+export type CommandResult = { status: number; body: any };
+
+/**
+ * Invoke `handler` with `body` as req.body and return what it responded.
+ */
+export async function invokeCommand(
+  handler: CommandHandler,
+  body: Record<string, unknown>,
+): Promise<CommandResult> {
+  const result: CommandResult = { status: 200, body: null };
+
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    json(payload: unknown) {
+      result.body = payload;
+      return res;
+    },
+    sendStatus(code: number) {
+      result.status = code;
+      return res;
+    },
+  };
+
+  await handler({ body } as Request, res as unknown as Response);
+  return result;
+}
@@ -0,0 +1,158 @@
+// -----------------------------------------------------------------------------
+// Parse `/weekly ...` slash-command text into weekly-report handler inputs.
+//
+// Grammar (tokens are whitespace separated; values may be "quoted"):
+//   config get [<chatId>...] [q=<prefix>] [enabled=true|false] [limit=N]
+//   config set <chatId>... on|off
+//   run <chatId> [--notify] [--persist] [start=<ISO>] [end=<ISO>]
+//   history <chatId> [N] [id=<reportId>] [--notify]
+//   help
+//
+// The result carries the JSON body expected by handleConfigCommand /
+// handleRunCommand / handleHistoryCommand (same shape as the HTTP routes).
+// -----------------------------------------------------------------------------
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type WeeklyCommandName = "config" | "run" | "history";
+
+export type ParsedWeeklyCommand =
+  | { kind: "command"; name: WeeklyCommandName; body: Record<string, unknown> }
+  | { kind: "help" }
+  | { kind: "error"; message: string };
+
+/** Usage text shown for `help` and on parse errors (Slack mrkdwn). */
+export const WEEKLY_USAGE = [
+  "*Usage*",
+  "• `/weekly config get [chatId…] [q=prefix] [enabled=true|false] [limit=N]`",
+  "• `/weekly config set <chatId…> on|off`",
+  "• `/weekly run <chatId> [--notify] [--persist] [start=ISO] [end=ISO]`",
+  "• `/weekly history <chatId> [N] [id=reportId] [--notify]`",
+].join("\n");
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/** Split on whitespace, keeping "quoted values" (also in key="a b") together. */
+function tokenize(text: string): string[] {
+  const tokens = text.match(/(?:[^\s"]+|"[^"]*")+/g) ?? [];
+  return tokens.map((t) => t.replace(/"/g, ""));
+}
+
+/**
+ * Separate `key=value` options and `--flags` from positional arguments.
+ */
+function splitArgs(tokens: string[]) {
+  const positional: string[] = [];
+  const options: Record<string, string> = {};
+  const flags = new Set<string>();
+
+  for (const t of tokens) {
+    if (t.startsWith("--")) {
+      flags.add(t.slice(2).toLowerCase());
+    } else if (/^[a-zA-Z]+=/.test(t)) {
+      const i = t.indexOf("=");
+      options[t.slice(0, i).toLowerCase()] = t.slice(i + 1);
+    } else {
+      positional.push(t);
+    }
+  }
+  return { positional, options, flags };
+}
+
+function parseBool(v: string | undefined): boolean | undefined {
+  if (v === undefined) return undefined;
+  if (/^(true|on|yes|1)$/i.test(v)) return true;
+  if (/^(false|off|no|0)$/i.test(v)) return false;
+  return undefined;
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+/**
+ * Parse slash-command text (everything after `/weekly`).
+ */
+export function parseWeeklyCommand(text: string): ParsedWeeklyCommand {
+  const [head, ...rest] = tokenize(text.trim());
+  const name = (head ?? "help").toLowerCase();
+  const { positional, options, flags } = splitArgs(rest);
+
+  // --- help ---
+  if (name === "help") return { kind: "help" };
+
+  // --- config get / set ---
+  if (name === "config") {
+    const [sub = "get", ...chats] = positional;
+
+    if (sub === "get") {
+      const body: Record<string, unknown> = { action: "get" };
+      if (chats.length) body.chats = chats;
+      if (options.q) body.q = options.q;
+      const enabled = parseBool(options.enabled);
+      if (enabled !== undefined) body.enabled = enabled;
+      if (options.limit) body.limit = Number(options.limit);
+      return { kind: "command", name: "config", body };
+    }
+
+    if (sub === "set") {
+      // Last positional is the on/off switch unless enabled=… was given
+      const enabled =
+        parseBool(options.enabled) ?? parseBool(chats[chats.length - 1]);
+      const ids =
+        options.enabled !== undefined
+          ? chats
+          : chats.slice(0, chats.length - 1);
+      if (enabled === undefined || ids.length === 0) {
+        return {
+          kind: "error",
+          message: "`config set` needs chat ID(s) followed by `on` or `off`.",
+        };
+      }
+      return {
+        kind: "command",
+        name: "config",
+        body: { action: "set", chats: ids, enabled },
+      };
+    }
+
+    return { kind: "error", message: `Unknown config action: \`${sub}\`` };
+  }
+
+  // --- run ---
+  if (name === "run") {
+    const [chatId] = positional;
+    if (!chatId) return { kind: "error", message: "`run` needs a chat ID." };
+
+    const body: Record<string, unknown> = {
+      chatId,
+      dryRun: !flags.has("persist"),
+      notifySlack: flags.has("notify"),
+    };
+    if (options.start) body.startISO = options.start;
+    if (options.end) body.endISO = options.end;
+    return { kind: "command", name: "run", body };
+  }
+
+  // --- history ---
+  if (name === "history") {
+    const [chatId, limit] = positional;
+    if (!chatId) {
+      return { kind: "error", message: "`history` needs a chat ID." };
+    }
+
+    const body: Record<string, unknown> = {
+      chatId,
+      notifySlack: flags.has("notify"),
+    };
+    if (limit !== undefined) body.limit = Number(limit);
+    if (options.id) body.reportId = options.id;
+    return { kind: "command", name: "history", body };
+  }
+
+  return { kind: "error", message: `Unknown command: \`${name}\`` };
+}
@@ -0,0 +1,101 @@
+// -----------------------------------------------------------------------------
+// Slack slash command `/phase` — show or set a chat's lifecycle phase.
+//
+// Grammar:
+//   /phase <chatId>                                        show the phase
+//   /phase <chatId> <Phase> <reason> [note…] [--no-report] set it explicitly
+//
+// Runs inline (quick Firestore writes) and replies with an ephemeral message.
+// -----------------------------------------------------------------------------
+
+import { db } from "../../firebase.js";
+import {
+  resolveManualStage,
+  setChatPhase,
+} from "../../telegram/setChatPhase.js";
+import { loadPipeline } from "../../pipelines/loadPipelines.js";
+import { isManualStage, stageName } from "../../pipelines/stages.js";
+import { formatJST } from "../../../utils/time.js";
+import {
+  PHASE_CHANGE_REASONS,
+  type ChatRoomDoc,
+  type PhaseChangeReason,
+} from "../../../types/chat.js";
+import type { PipelineDef } from "../../../types/pipeline.js";
+import { ephemeral, type SlackMessageBody } from "./weeklyBlocks.js";
+
+export const PHASE_USAGE = [
+  "*Usage*",
+  "• `/phase <chatId>`",
+  "• `/phase <chatId> <Phase> <reason> [note] [--no-report]`",
+  `Reasons: ${PHASE_CHANGE_REASONS.join(", ")}`,
+].join("\n");
+
+/** Stages of a pipeline that may be set with `/phase`. */
+function phasesLine(pipeline: PipelineDef): string {
+  const ids = pipeline.stages
+    .filter((s) => isManualStage(pipeline, s.stageId))
+    .map((s) => s.stageId);
+  return `Phases (${pipeline.name}): ${ids.join(", ")}`;
+}
+
+/**
+ * Handle `/phase` text (everything after the command) from Slack user `userId`.
+ */
+export async function handlePhaseSlashCommand(
+  text: string,
+  userId: string,
+): Promise<SlackMessageBody> {
+  const tokens = text.trim().split(/\s+/).filter(Boolean);
+  const noReport = tokens.includes("--no-report");
+  const [chatId, phaseArg, reasonArg, ...noteWords] = tokens.filter(
+    (t) => t !== "--no-report",
+  );
+  if (!chatId || chatId === "help") return ephemeral(PHASE_USAGE);
+
+  const snap = await db.collection("tg_chats").doc(chatId).get();
+  if (!snap.exists) return ephemeral(`⚠️ Chat not found: \`${chatId}\``);
+  const chat = snap.data() as ChatRoomDoc;
+
+  // --- Show ---
+  if (!phaseArg) {
+    const p = chat.phase;
+    if (!p?.value) return ephemeral(`*${chat.title}* has no phase yet.`);
+    const pipeline = await loadPipeline(chat.pipelineId);
+    return ephemeral(
+      `🧭 *${chat.title}*: *${stageName(pipeline, p.value)}* since ${formatJST(p.ts)}` +
+        (p.override
+          ? ` (set manually: ${p.override.reason}${p.override.note ? ` — ${p.override.note}` : ""})`
+          : ""),
+    );
+  }
+
+  // --- Set ---
+  const { pipeline, stage } = await resolveManualStage(chat, phaseArg);
+  const reason = (reasonArg ?? "").toLowerCase() as PhaseChangeReason;
+  if (!stage || !PHASE_CHANGE_REASONS.includes(reason)) {
+    return ephemeral(
+      `⚠️ Invalid phase or reason.\n\n${PHASE_USAGE}\n${phasesLine(pipeline)}`,
+    );
+  }
+  const result = await setChatPhase({
+    chatId,
+    phase: stage.stageId,
+    reason,
+    note: noteWords.join(" "),
+    actor: `slack:${userId}`,
+    disableWeeklyReport: noReport,
+  });
+
+  const previous = stageName(pipeline, result.previous) || "(none)";
+  const lines = [
+    `🧭 *${chat.title}*: ${previous} → *${stage.name}* (${reason})`,
+  ];
+  if (result.cancelledJobIds.length) {
+    lines.push(
+      `• Cancelled ${result.cancelledJobIds.length} pending reminder(s).`,
+    );
+  }
+  if (result.weeklyReportDisabled) lines.push("• Weekly report disabled.");
+  return ephemeral(lines.join("\n"));
+}
@@ -0,0 +1,145 @@
+// -----------------------------------------------------------------------------
+// Block Kit rendering for `/weekly` slash-command results.
+// - Input is the JSON the weekly-report handlers return over HTTP
+// - Output is an ephemeral Slack message body ({ response_type, text, blocks })
+// -----------------------------------------------------------------------------
+
+import type { WeeklyCommandName } from "./parseWeeklyCommand.js";
+import type { CommandResult } from "./invokeCommand.js";
+
+export type SlackMessageBody = {
+  response_type: "ephemeral" | "in_channel";
+  text: string;
+  blocks: any[];
+};
+
+/** Slack section text is limited to 3000 chars. */
+const MAX_SECTION_TEXT = 3000;
+
+function section(text: string) {
+  return {
+    type: "section",
+    text: { type: "mrkdwn", text: text.slice(0, MAX_SECTION_TEXT) },
+  };
+}
+
+function context(text: string) {
+  return { type: "context", elements: [{ type: "mrkdwn", text }] };
+}
+
+/** Plain ephemeral message (one section). */
+export function ephemeral(text: string): SlackMessageBody {
+  return { response_type: "ephemeral", text, blocks: [section(text)] };
+}
+
+// --- Per-command renderers ---
+
+function renderConfig(body: any): SlackMessageBody {
+  // action=set
+  if (typeof body.updatedCount === "number") {
+    const lines = [
+      `*${body.message}* Updated: ${body.updatedCount}, failed: ${body.failedCount}`,
+      ...(body.failed ?? []).map(
+        (f: { chatId: string; reason: string }) =>
+          `• \`${f.chatId}\` — ${f.reason}`,
+      ),
+    ];
+    return ephemeral(lines.join("\n"));
+  }
+
+  // action=get
+  const settings: any[] = body.settings ?? [];
+  const title = `*Weekly report settings* (${body.count ?? settings.length})`;
+  if (!settings.length) return ephemeral(`${title}\n_No settings found._`);
+
+  const lines = settings.map(
+    (s) =>
+      `• ${s.enabled ? "✅" : "⛔"} *${s.name ?? "(no name)"}* \`${s.chatId ?? s.id}\`` +
+      (s.lastSuccessAt ? ` · last success ${s.lastSuccessAt}` : ""),
+  );
+  return {
+    response_type: "ephemeral",
+    text: title,
+    blocks: [section(title), section(lines.join("\n"))],
+  };
+}
+
+function renderRun(body: any): SlackMessageBody {
+  const p = body.period ?? {};
+  const title = `*${body.message}*`;
+  const summary = body.noActivity
+    ? "_No messages in period._"
+    : body.resultPreview?.summaryFirst200 || "_(empty summary)_";
+  return {
+    response_type: "ephemeral",
+    text: body.message,
+    blocks: [
+      section(`${title}\n${summary}`),
+      context(
+        `Period: ${p.startISO} → ${p.endISO} (${p.tz}) · ${body.latencyMs} ms` +
+          (body.notifySlack ? " · posted to Slack" : ""),
+      ),
+    ],
+  };
+}
+
+function renderHistory(body: any): SlackMessageBody {
+  // Detail mode
+  if (body.mode === "get") {
+    const r = body.report ?? {};
+    const bullets = (r.bullets ?? [])
+      .map((b: any) => `• ${typeof b === "string" ? b : (b?.point ?? "")}`)
+      .join("\n");
+    return {
+      response_type: "ephemeral",
+      text: `Report ${r.id}`,
+      blocks: [
+        section(`*Report* \`${r.id}\` (${r.createdAt ?? "-"})\n${r.summary}`),
+        ...(bullets ? [section(bullets)] : []),
+      ],
+    };
+  }
+
+  // List mode
+  const reports: any[] = body.reports ?? [];
+  const title = `*Weekly reports* (${body.count ?? reports.length})`;
+  if (!reports.length) return ephemeral(`${title}\n_No reports found._`);
+
+  return {
+    response_type: "ephemeral",
+    text: title,
+    blocks: [
+      section(title),
+      ...reports.map((r) =>
+        section(
+          `\`${r.id}\` · ${r.createdAt ?? "-"}\n${r.summaryFirst200 ?? ""}`,
+        ),
+      ),
+    ],
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+/**
+ * Render a handler result as an ephemeral Slack message.
+ * - Non-2xx results are shown as a warning with the handler's error text.
+ */
+export function renderWeeklyResult(
+  name: WeeklyCommandName,
+  result: CommandResult,
+): SlackMessageBody {
+  const body = result.body ?? {};
+  if (result.status >= 400) {
+    const details = body.details ? `\n${body.details}` : "";
+    return ephemeral(
+      `⚠️ ${body.error ?? `Command failed (HTTP ${result.status})`}${details}`,
+    );
+  }
+
+  if (name === "config") return renderConfig(body);
+  if (name === "run") return renderRun(body);
+  return renderHistory(body);
+}
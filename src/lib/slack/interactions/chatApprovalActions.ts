@@ -0,0 +1,64 @@
+// -----------------------------------------------------------------------------
+// Bot-join approval buttons (Approve / Reject).
+// - Applies the decision (lib/chats/approvals.ts); the first click wins
+// - Replaces the original request with the outcome (buttons removed) via
+//   response_url
+// -----------------------------------------------------------------------------
+
+import { formatJST } from "../../../utils/time.js";
+import { decideChatApproval } from "../../chats/approvals.js";
+import { postToResponseUrl } from "../respond.js";
+import {
+  CHAT_APPROVAL_ACTIONS,
+  type ChatApprovalActionId,
+} from "../chatApprovalBlocks.js";
+
+/** Minimal slice of a Slack block_actions payload used here. */
+export type ChatApprovalActionInput = {
+  actionId: ChatApprovalActionId;
+  chatId: string;
+  user: { id: string };
+  responseUrl: string | null;
+  originalText: string;
+};
+
+/**
+ * Approve or reject the chat and update the request message.
+ */
+export async function handleChatApprovalAction(
+  input: ChatApprovalActionInput,
+): Promise<void> {
+  const { actionId, chatId, user, responseUrl, originalText } = input;
+  const decision =
+    actionId === CHAT_APPROVAL_ACTIONS.approve ? "approve" : "reject";
+
+  const outcome = await decideChatApproval(
+    chatId,
+    decision,
+    `slack:${user.id}`,
+    user.id || null,
+  );
+
+  if (!responseUrl) return;
+  if (!outcome.ok) {
+    await postToResponseUrl(responseUrl, {
+      response_type: "ephemeral",
+      replace_original: false,
+      text:
+        outcome.reason === "not_found"
+          ? `⚠️ No approval request for chat \`${chatId}\`.`
+          : `ℹ️ Already decided (${outcome.status}).`,
+    });
+    return;
+  }
+
+  const line =
+    outcome.status === "approved"
+      ? `✅ Approved by <@${user.id}> at ${formatJST(Date.now())} — the chat is now active.`
+      : `🚫 Rejected by <@${user.id}> at ${formatJST(Date.now())} — the bot left the chat.`;
+  await postToResponseUrl(responseUrl, {
+    replace_original: true,
+    text: `${originalText}\n${line}`,
+  });
+  console.log(`[slack] chat approval ${decision} on ${chatId} by ${user.id}`);
+}
@@ -0,0 +1,110 @@
+// -----------------------------------------------------------------------------
+// Slack interactivity endpoint handler (block_actions).
+// - Verifies the Slack signature against the raw request body
+// - Parses the urlencoded `payload` field
+// - Dispatches reminder buttons (action_id "reminder_*") to reminderActions
+//   stale-chat snooze buttons ("stale_*") to staleChatActions and bot-join
+//   approvals ("chat_approval_*") to chatApprovalActions
+//
+// Notes:
+// - The route must use express.raw() so the body is still a Buffer here.
+// - Work is done before responding (Cloud Run throttles CPU after the
+//   response); Slack's 3s ack window is enough for the Firestore writes.
+// -----------------------------------------------------------------------------
+
+import { Request, Response } from "express";
+import { verifySlackSignature } from "../verifySignature.js";
+import { REMINDER_ACTIONS, type ReminderActionId } from "../reminderBlocks.js";
+import { handleReminderAction } from "./reminderActions.js";
+import {
+  STALE_CHAT_ACTIONS,
+  type StaleChatActionId,
+} from "../staleChatBlocks.js";
+import { handleStaleChatAction } from "./staleChatActions.js";
+import {
+  CHAT_APPROVAL_ACTIONS,
+  type ChatApprovalActionId,
+} from "../chatApprovalBlocks.js";
+import { handleChatApprovalAction } from "./chatApprovalActions.js";
+
+const REMINDER_ACTION_IDS = Object.values(REMINDER_ACTIONS) as string[];
+const STALE_CHAT_ACTION_IDS = Object.values(STALE_CHAT_ACTIONS) as string[];
+const CHAT_APPROVAL_ACTION_IDS = Object.values(
+  CHAT_APPROVAL_ACTIONS,
+) as string[];
+
+export async function handleSlackInteraction(req: Request, res: Response) {
+  try {
+    // --- 1) Signature check (raw body) ---
+    const rawBody = Buffer.isBuffer(req.body) ? req.body.toString("utf8") : "";
+    const ok = verifySlackSignature(
+      rawBody,
+      req.get("X-Slack-Request-Timestamp"),
+      req.get("X-Slack-Signature"),
+    );
+    if (!ok) {
+      console.warn("[slack] interaction signature verification failed");
+      return res.sendStatus(401);
+    }
+
+    // --- 2) Parse payload ---
+    const payloadStr = new URLSearchParams(rawBody).get("payload");
+    if (!payloadStr) {
+      return res.status(400).json({ error: "Missing 'payload'." });
+    }
+    const payload = JSON.parse(payloadStr);
+
+    if (payload?.type !== "block_actions") {
+      // Other interaction types (shortcuts, view submissions) are not used yet
+      return res.sendStatus(200);
+    }
+
+    // --- 3) Dispatch approvals / stale-chat snoozes / reminder actions ---
+    const action = payload.actions?.[0];
+    if (action && CHAT_APPROVAL_ACTION_IDS.includes(action.action_id)) {
+      await handleChatApprovalAction({
+        actionId: action.action_id as ChatApprovalActionId,
+        chatId: String(action.value ?? ""),
+        user: { id: payload.user?.id ?? "" },
+        responseUrl: payload.response_url ?? null,
+        originalText:
+          payload.message?.blocks?.[0]?.text?.text ??
+          payload.message?.text ??
+          "",
+      });
+      return res.sendStatus(200);
+    }
+    if (action && STALE_CHAT_ACTION_IDS.includes(action.action_id)) {
+      await handleStaleChatAction({
+        actionId: action.action_id as StaleChatActionId,
+        chatId: String(action.value ?? ""),
+        user: { id: payload.user?.id ?? "" },
+        responseUrl: payload.response_url ?? null,
+      });
+      return res.sendStatus(200);
+    }
+    if (!action || !REMINDER_ACTION_IDS.includes(action.action_id)) {
+      return res.sendStatus(200);
+    }
+
+    await handleReminderAction({
+      actionId: action.action_id as ReminderActionId,
+      jobId: String(action.value ?? ""),
+      user: {
+        id: payload.user?.id ?? "",
+        name: payload.user?.username ?? payload.user?.name ?? null,
+      },
+      responseUrl: payload.response_url ?? null,
+      originalText:
+        payload.message?.blocks?.[0]?.text?.text ?? payload.message?.text ?? "",
+    });
+
+    return res.sendStatus(200);
+  } catch (error: any) {
+    console.error("[handleSlackInteraction] Error:", error);
+    return res.status(500).json({
+      error: "Failed to process Slack interaction.",
+      details: error?.message ?? String(error),
+    });
+  }
+}
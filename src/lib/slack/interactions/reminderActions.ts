@@ -0,0 +1,243 @@
+// -----------------------------------------------------------------------------
+// Reminder button actions (Done / Snooze / Not relevant).
+// - done / not_relevant: delete the remaining chained jobs (same source message)
+// - snooze: create a new job from the delivered one and enqueue it at the new ETA
+// - Every action is logged to notificationActions/* and the original Slack
+//   message is replaced via response_url (buttons → status line)
+// -----------------------------------------------------------------------------
+
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../../firebase.js";
+import { enqueueTask } from "../../taskQueue/index.js";
+import { hashId } from "../../../utils/hash.js";
+import {
+  DEFAULT_TIME_ZONE,
+  formatInTimeZone,
+  isValidTimeZone,
+  scheduleAtLocal,
+} from "../../../utils/time.js";
+import { loadCalendar } from "../../calendar/loadCalendar.js";
+import { DEFAULT_CALENDAR_ID } from "../../calendar/businessCalendar.js";
+import { postToResponseUrl } from "../respond.js";
+import {
+  REMINDER_ACTIONS,
+  buildResolvedReminderBlocks,
+  type ReminderActionId,
+} from "../reminderBlocks.js";
+import type {
+  NotificationActionDoc,
+  NotificationActionKind,
+  NotificationJobDoc,
+} from "../../../types/notification.js";
+
+/** Minimal slice of a Slack block_actions payload used here. */
+export type ReminderActionInput = {
+  actionId: ReminderActionId;
+  jobId: string;
+  user: { id: string; name: string | null };
+  responseUrl: string | null;
+  originalText: string;
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Resolve the job a reminder was sent for.
+ * - Job docs are deleted after delivery, so fall back to the success delivery log
+ *   (which carries type/channel/targets/payload/source).
+ */
+async function resolveJob(jobId: string): Promise<NotificationJobDoc | null> {
+  const jobSnap = await db.collection("notificationJobs").doc(jobId).get();
+  if (jobSnap.exists) return jobSnap.data() as NotificationJobDoc;
+
+  const delivSnap = await db
+    .collection("notificationDeliveries")
+    .where("jobId", "==", jobId)
+    .where("status", "==", "success")
+    .limit(1)
+    .get();
+  const d = delivSnap.docs[0]?.data();
+  if (!d) return null;
+
+  return {
+    jobId,
+    type: d.type,
+    channel: d.channel,
+    scheduledAt: d.startedAt,
+    status: "pending",
+    targets: d.targets ?? {},
+    ...(d.payload ? { payload: d.payload } : {}),
+    source: d.source,
+    createdAt: d.createdAt,
+  };
+}
+
+/**
+ * Delete the other jobs created from the same source message (e.g. the 2nd
+ * reminder when the 1st is marked done).
+ */
+async function deleteChainedJobs(job: NotificationJobDoc): Promise<string[]> {
+  const chatId = (job.payload as any)?.chatId;
+  if (!job.source?.id || !chatId) return [];
+
+  const snap = await db
+    .collection("notificationJobs")
+    .where("source.id", "==", job.source.id)
+    .where("payload.chatId", "==", chatId)
+    .get();
+
+  const chained = snap.docs.filter((d) => d.id !== job.jobId);
+  if (!chained.length) return [];
+
+  const batch = db.batch();
+  chained.forEach((d) => batch.delete(d.ref));
+  await batch.commit();
+  return chained.map((d) => d.id);
+}
+
+/** Recipients' time zone of a job (payload.timeZone; default JST). */
+function jobTimeZone(job: NotificationJobDoc): string {
+  const tz = (job.payload as Record<string, unknown> | undefined)?.timeZone;
+  return typeof tz === "string" && isValidTimeZone(tz) ? tz : DEFAULT_TIME_ZONE;
+}
+
+/** Recipients' calendar of a job (payload.calendarId; default "jp"). */
+function jobCalendarId(job: NotificationJobDoc): string {
+  const id = (job.payload as Record<string, unknown> | undefined)?.calendarId;
+  return typeof id === "string" && id ? id : DEFAULT_CALENDAR_ID;
+}
+
+/**
+ * New ETA for a snooze action (whole minutes, so a double click maps to the
+ * same snooze jobId).
+ */
+async function snoozeUntil(
+  actionId: ReminderActionId,
+  job: NotificationJobDoc,
+): Promise<Timestamp> {
+  const now = new Date();
+  if (actionId === REMINDER_ACTIONS.snooze1bd) {
+    // Same local wall-clock time on the next business day (skips holidays)
+    const local = new Date(now).toLocaleTimeString("en-GB", {
+      timeZone: jobTimeZone(job),
+      hourCycle: "h23",
+    }); // "HH:mm:ss"
+    return scheduleAtLocal(now, {
+      days: 1,
+      hour: Number(local.slice(0, 2)),
+      minute: Number(local.slice(3, 5)),
+      businessDays: true,
+      calendar: await loadCalendar(jobCalendarId(job)),
+      timeZone: jobTimeZone(job),
+    });
+  }
+  // 3 calendar days later (rounded down to the minute)
+  const eta = now.getTime() + 3 * 24 * 3600_000;
+  return Timestamp.fromMillis(eta - (eta % 60_000));
+}
+
+/** Create a copy of the job at the new ETA and enqueue its task. */
+async function snoozeJob(
+  job: NotificationJobDoc,
+  scheduledAt: Timestamp,
+): Promise<string> {
+  const newJobId = hashId(`job:snooze:${job.jobId}:${scheduledAt.toMillis()}`);
+
+  const newJob: NotificationJobDoc = {
+    jobId: newJobId,
+    type: job.type,
+    channel: job.channel,
+    scheduledAt,
+    status: "pending",
+    targets: job.targets,
+    payload: { ...(job.payload ?? {}), snoozedFrom: job.jobId },
+    source: { kind: "snooze", id: job.jobId },
+    threadParentJobId: job.jobId, // reply under the snoozed reminder
+    createdAt: Timestamp.now(),
+  };
+  await db.collection("notificationJobs").doc(newJobId).set(newJob);
+
+  await enqueueTask({
+    url: `${process.env.PUBLIC_BASE_URL}/tasks/notifications`,
+    payload: { jobId: newJobId },
+    scheduledAt,
+    taskName: newJobId,
+  });
+
+  return newJobId;
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+/**
+ * Apply a reminder action, log it, and update the Slack message in place.
+ */
+export async function handleReminderAction(
+  input: ReminderActionInput,
+): Promise<void> {
+  const { actionId, jobId, user, responseUrl, originalText } = input;
+
+  const job = await resolveJob(jobId);
+
+  let action: NotificationActionKind;
+  let deletedJobIds: string[] = [];
+  let newJobId: string | undefined;
+  let newScheduledAt: Timestamp | undefined;
+  let statusLine: string;
+
+  if (
+    actionId === REMINDER_ACTIONS.done ||
+    actionId === REMINDER_ACTIONS.notRelevant
+  ) {
+    // --- Done / Not relevant: drop the remaining chained reminders ---
+    action = actionId === REMINDER_ACTIONS.done ? "done" : "not_relevant";
+    deletedJobIds = job ? await deleteChainedJobs(job) : [];
+    const removed = deletedJobIds.length
+      ? ` · removed ${deletedJobIds.length} pending reminder(s)`
+      : "";
+    statusLine =
+      action === "done"
+        ? `✅ Marked done by <@${user.id}>${removed}`
+        : `🚫 Marked not relevant by <@${user.id}>${removed}`;
+  } else {
+    // --- Snooze: re-create & re-enqueue ---
+    action = "snooze";
+    if (!job) {
+      statusLine = `⚠️ Could not snooze: reminder job \`${jobId}\` was not found.`;
+    } else {
+      newScheduledAt = await snoozeUntil(actionId, job);
+      newJobId = await snoozeJob(job, newScheduledAt);
+      statusLine = `⏰ Snoozed by <@${user.id}> until ${formatInTimeZone(newScheduledAt, jobTimeZone(job))}`;
+    }
+  }
+
+  // --- Audit log (per job) ---
+  const actionRef = db.collection("notificationActions").doc();
+  const doc: NotificationActionDoc = {
+    actionId: actionRef.id,
+    jobId,
+    type: job?.type ?? null,
+    action,
+    actor: { kind: "slack", id: user.id, name: user.name },
+    deletedJobIds,
+    ...(newJobId ? { newJobId } : {}),
+    ...(newScheduledAt ? { newScheduledAt } : {}),
+    createdAt: Timestamp.now(),
+  };
+  await actionRef.set(doc);
+
+  // --- Update the original Slack message (best-effort) ---
+  if (responseUrl) {
+    await postToResponseUrl(responseUrl, {
+      replace_original: true,
+      text: originalText,
+      blocks: buildResolvedReminderBlocks(originalText, statusLine),
+    });
+  }
+
+  console.log(`[slack] reminder action ${action} on ${jobId} by ${user.id}`);
+}
@@ -0,0 +1,71 @@
+// -----------------------------------------------------------------------------
+// Stale-chat alert buttons (Snooze 3 business days / 1 week / until the phase
+// changes).
+// - Stores the snooze on tg_chats/{chatId}.staleAlert (see lib/chats/staleChats)
+// - Confirms with an ephemeral reply via response_url; the consolidated alert
+//   itself is left as-is (it lists other chats too)
+// -----------------------------------------------------------------------------
+
+import { Timestamp } from "firebase-admin/firestore";
+import { scheduleAtLocal, formatJST } from "../../../utils/time.js";
+import { loadCalendar } from "../../calendar/loadCalendar.js";
+import { snoozeStaleChat } from "../../chats/staleChats.js";
+import { postToResponseUrl } from "../respond.js";
+import {
+  STALE_CHAT_ACTIONS,
+  type StaleChatActionId,
+} from "../staleChatBlocks.js";
+
+/** Minimal slice of a Slack block_actions payload used here. */
+export type StaleChatActionInput = {
+  actionId: StaleChatActionId;
+  chatId: string;
+  user: { id: string };
+  responseUrl: string | null;
+};
+
+/** End of the snooze (null = until the phase changes). */
+async function snoozeEnd(
+  actionId: StaleChatActionId,
+): Promise<Timestamp | null> {
+  const now = new Date();
+  if (actionId === STALE_CHAT_ACTIONS.snooze3bd) {
+    // Start of the 3rd business day from now (09:00 JST)
+    return scheduleAtLocal(now, {
+      days: 3,
+      hour: 9,
+      businessDays: true,
+      calendar: await loadCalendar(),
+    });
+  }
+  if (actionId === STALE_CHAT_ACTIONS.snooze7d) {
+    return Timestamp.fromMillis(now.getTime() + 7 * 24 * 3600_000);
+  }
+  return null;
+}
+
+/**
+ * Apply a snooze button and confirm it to the clicking user.
+ */
+export async function handleStaleChatAction(
+  input: StaleChatActionInput,
+): Promise<void> {
+  const { actionId, chatId, user, responseUrl } = input;
+
+  const until = await snoozeEnd(actionId);
+  const chat = await snoozeStaleChat(chatId, until, `slack:${user.id}`);
+  const text = !chat
+    ? `⚠️ Could not snooze: chat \`${chatId}\` was not found.`
+    : until
+      ? `⏰ *${chat.title}* snoozed until ${formatJST(until)}`
+      : `🔕 *${chat.title}* will not be flagged again until its phase changes`;
+
+  if (responseUrl) {
+    await postToResponseUrl(responseUrl, {
+      response_type: "ephemeral",
+      replace_original: false,
+      text,
+    });
+  }
+  console.log(`[slack] stale-chat ${actionId} on ${chatId} by ${user.id}`);
+}
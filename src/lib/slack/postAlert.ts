@@ -0,0 +1,69 @@
+// -----------------------------------------------------------------------------
+// Post an ops message (digests, alerts) to Slack.
+// - postOpsAlert: alerts channel via SLACK_ALERTS_WEBHOOK_URL, falling back
+//   to SLACK_WEBHOOK_URL
+// - postSlackMessage: any channel / user DM via the bot token (chat.postMessage)
+// - Throws on missing config / non-2xx so scheduled callers can retry
+// -----------------------------------------------------------------------------
+
+/**
+ * POST a mrkdwn message to the alerts incoming webhook.
+ *
+ * @param text    Slack mrkdwn text
+ * @param blocks  Optional Block Kit blocks (`text` becomes the fallback)
+ */
+export async function postOpsAlert(
+  text: string,
+  blocks?: unknown[],
+): Promise<void> {
+  const webhookUrl =
+    process.env.SLACK_ALERTS_WEBHOOK_URL || process.env.SLACK_WEBHOOK_URL;
+  if (!webhookUrl) {
+    throw new Error("SLACK_ALERTS_WEBHOOK_URL / SLACK_WEBHOOK_URL is not set");
+  }
+
+  const resp = await fetch(webhookUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ text, mrkdwn: true, ...(blocks ? { blocks } : {}) }),
+  });
+  if (!resp.ok) {
+    throw new Error(`Slack webhook failed: HTTP ${resp.status}`);
+  }
+}
+
+/**
+ * Post a message with the bot token (SLACK_BOT_TOKEN).
+ *
+ * @param channel  Channel ID ("Cxxxxxx"), or a user ID ("Uxxxxxx") for a DM
+ * @param text     Slack mrkdwn text (fallback when blocks are given)
+ * @param blocks   Optional Block Kit blocks
+ */
+export async function postSlackMessage(
+  channel: string,
+  text: string,
+  blocks?: unknown[],
+): Promise<void> {
+  const token = process.env.SLACK_BOT_TOKEN;
+  if (!token) throw new Error("SLACK_BOT_TOKEN is not set");
+
+  const resp = await fetch("https://slack.com/api/chat.postMessage", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({
+      channel,
+      text,
+      link_names: true,
+      ...(blocks ? { blocks } : {}),
+    }),
+  });
+  const data: any = await resp.json().catch(() => ({}));
+  if (!resp.ok || !data?.ok) {
+    throw new Error(
+      `chat.postMessage to ${channel} failed: ${data?.error || `HTTP ${resp.status}`}`,
+    );
+  }
+}
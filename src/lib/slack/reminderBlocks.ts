@@ -0,0 +1,86 @@
+// -----------------------------------------------------------------------------
+// Block Kit builders for follow-up reminders.
+// - buildReminderBlocks(): reminder text + action buttons
+// - buildResolvedReminderBlocks(): same text, buttons replaced by a status line
+// Button `value` carries the jobId; `action_id` selects the action.
+// -----------------------------------------------------------------------------
+
+/** Reminder actions (action_id values on the buttons). */
+export const REMINDER_ACTIONS = {
+  done: "reminder_done",
+  snooze1bd: "reminder_snooze_1bd",
+  snooze3d: "reminder_snooze_3d",
+  notRelevant: "reminder_not_relevant",
+} as const;
+
+export type ReminderActionId =
+  (typeof REMINDER_ACTIONS)[keyof typeof REMINDER_ACTIONS];
+
+/** Slack section text is limited to 3000 chars. */
+const MAX_SECTION_TEXT = 3000;
+
+function section(text: string) {
+  return {
+    type: "section",
+    text: { type: "mrkdwn", text: text.slice(0, MAX_SECTION_TEXT) },
+  };
+}
+
+/**
+ * Reminder message with Done / Snooze / Not relevant buttons.
+ *
+ * @param text   Reminder text (Slack mrkdwn)
+ * @param jobId  notificationJobs/{jobId} the reminder was sent for
+ */
+export function buildReminderBlocks(text: string, jobId: string): any[] {
+  return [
+    section(text),
+    {
+      type: "actions",
+      block_id: `reminder:${jobId}`,
+      elements: [
+        {
+          type: "button",
+          action_id: REMINDER_ACTIONS.done,
+          text: { type: "plain_text", text: "✅ Done" },
+          style: "primary",
+          value: jobId,
+        },
+        {
+          type: "button",
+          action_id: REMINDER_ACTIONS.snooze1bd,
+          text: { type: "plain_text", text: "⏰ Snooze 1 business day" },
+          value: jobId,
+        },
+        {
+          type: "button",
+          action_id: REMINDER_ACTIONS.snooze3d,
+          text: { type: "plain_text", text: "⏰ Snooze 3 days" },
+          value: jobId,
+        },
+        {
+          type: "button",
+          action_id: REMINDER_ACTIONS.notRelevant,
+          text: { type: "plain_text", text: "🚫 Not relevant" },
+          value: jobId,
+        },
+      ],
+    },
+  ];
+}
+
+/**
+ * Reminder message after an action: original text + status context line.
+ */
+export function buildResolvedReminderBlocks(
+  text: string,
+  statusLine: string,
+): any[] {
+  return [
+    section(text),
+    {
+      type: "context",
+      elements: [{ type: "mrkdwn", text: statusLine }],
+    },
+  ];
+}
@@ -0,0 +1,36 @@
+// -----------------------------------------------------------------------------
+// Post a message to a Slack `response_url` (interactions & slash commands).
+// - Used to update the original message in place or to send delayed replies
+// - Best-effort: logs failures, never throws
+// -----------------------------------------------------------------------------
+
+/**
+ * POST a JSON payload to a Slack response_url.
+ *
+ * @param responseUrl  response_url from the interaction/command payload
+ * @param body         e.g. { replace_original: true, text, blocks }
+ * @returns true on 2xx
+ */
+export async function postToResponseUrl(
+  responseUrl: string,
+  body: Record<string, unknown>,
+): Promise<boolean> {
+  try {
+    const resp = await fetch(responseUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!resp.ok) {
+      const text = await resp.text();
+      console.warn(
+        `[slack] response_url post failed: ${resp.status} ${text?.slice(0, 300) || ""}`,
+      );
+      return false;
+    }
+    return true;
+  } catch (e) {
+    console.warn("[slack] response_url post error:", e);
+    return false;
+  }
+}
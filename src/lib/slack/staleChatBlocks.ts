@@ -0,0 +1,74 @@
+// -----------------------------------------------------------------------------
+// Block Kit builder for consolidated stale-chat alerts.
+// - One section per chat (phase, idle business days, last message preview)
+//   followed by snooze buttons
+// Button `value` carries the chatId; `action_id` selects the snooze.
+// -----------------------------------------------------------------------------
+
+/** Stale-chat snooze actions (action_id values on the buttons). */
+export const STALE_CHAT_ACTIONS = {
+  snooze3bd: "stale_snooze_3bd",
+  snooze7d: "stale_snooze_7d",
+  snoozePhase: "stale_snooze_phase",
+} as const;
+
+export type StaleChatActionId =
+  (typeof STALE_CHAT_ACTIONS)[keyof typeof STALE_CHAT_ACTIONS];
+
+/** Slack section text is limited to 3000 chars. */
+const MAX_SECTION_TEXT = 3000;
+
+function section(text: string) {
+  return {
+    type: "section",
+    text: { type: "mrkdwn", text: text.slice(0, MAX_SECTION_TEXT) },
+  };
+}
+
+/**
+ * Alert message: heading, then one chat section + snooze buttons per chat.
+ *
+ * @param heading  First section (mentions, counts)
+ * @param chats    chatId + mrkdwn line of each stale chat
+ * @param footer   Optional context line (e.g. "…and 3 more")
+ */
+export function buildStaleChatBlocks(
+  heading: string,
+  chats: Array<{ chatId: string; text: string }>,
+  footer?: string,
+): any[] {
+  const blocks: any[] = [section(heading), { type: "divider" }];
+  for (const { chatId, text } of chats) {
+    blocks.push(section(text), {
+      type: "actions",
+      block_id: `stale:${chatId}`,
+      elements: [
+        {
+          type: "button",
+          action_id: STALE_CHAT_ACTIONS.snooze3bd,
+          text: { type: "plain_text", text: "⏰ Snooze 3 business days" },
+          value: chatId,
+        },
+        {
+          type: "button",
+          action_id: STALE_CHAT_ACTIONS.snooze7d,
+          text: { type: "plain_text", text: "⏰ Snooze 1 week" },
+          value: chatId,
+        },
+        {
+          type: "button",
+          action_id: STALE_CHAT_ACTIONS.snoozePhase,
+          text: { type: "plain_text", text: "🔕 Until phase changes" },
+          value: chatId,
+        },
+      ],
+    });
+  }
+  if (footer) {
+    blocks.push({
+      type: "context",
+      elements: [{ type: "mrkdwn", text: footer }],
+    });
+  }
+  return blocks;
+}
@@ -0,0 +1,48 @@
+// -----------------------------------------------------------------------------
+// Slack request signature verification.
+// Reference: https://api.slack.com/authentication/verifying-requests-from-slack
+// - Signs "v0:<timestamp>:<raw body>" with SLACK_SIGNING_SECRET (HMAC-SHA256)
+// - Rejects requests older than 5 minutes (replay protection)
+// -----------------------------------------------------------------------------
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+/** Max accepted clock skew / request age (seconds). */
+const MAX_AGE_SEC = 5 * 60;
+
+/**
+ * Verify a Slack request.
+ *
+ * @param rawBody    Raw request body exactly as received (before parsing)
+ * @param timestamp  X-Slack-Request-Timestamp header
+ * @param signature  X-Slack-Signature header ("v0=<hex>")
+ * @returns true when the signature is valid and fresh
+ */
+export function verifySlackSignature(
+  rawBody: string,
+  timestamp: string | undefined,
+  signature: string | undefined,
+): boolean {
+  const secret = process.env.SLACK_SIGNING_SECRET;
+  if (!secret) {
+    console.warn("[slack] SLACK_SIGNING_SECRET is not set; rejecting request");
+    return false;
+  }
+  if (!timestamp || !signature) return false;
+
+  // --- Replay protection ---
+  const ts = Number(timestamp);
+  if (!Number.isFinite(ts)) return false;
+  if (Math.abs(Date.now() / 1000 - ts) > MAX_AGE_SEC) return false;
+
+  // --- Signature check (constant-time) ---
+  const expected =
+    "v0=" +
+    createHmac("sha256", secret)
+      .update(`v0:${timestamp}:${rawBody}`)
+      .digest("hex");
+
+  const a = Buffer.from(expected);
+  const b = Buffer.from(signature);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
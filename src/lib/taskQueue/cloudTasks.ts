@@ -0,0 +1,72 @@
+// -----------------------------------------------------------------------------
+// Cloud Tasks backend
+// - Enqueues HTTP tasks with ETA scheduling in Google Cloud Tasks
+// - Named tasks are idempotent: ALREADY_EXISTS is treated as success
+// - Retries follow the queue's retry config; Cloud Tasks sends the attempt
+//   count in X-CloudTasks-TaskRetryCount
+// -----------------------------------------------------------------------------
+
+import { CloudTasksClient } from "@google-cloud/tasks";
+import type { TaskQueue } from "./types.js";
+
+// --- Environment variables ---
+const project = process.env.GCP_PROJECT_ID!;
+const location = process.env.GCP_LOCATION_ID!;
+const queue = process.env.GCP_TASKS_QUEUE!;
+
+/** gRPC status code for an existing (or recently deleted) task name. */
+const ALREADY_EXISTS = 6;
+
+// --- Client (created on first use so the local backend never needs GCP creds) ---
+let client: CloudTasksClient | null = null;
+
+export const cloudTasksQueue: TaskQueue = {
+  backend: "cloud_tasks",
+
+  /**
+   * Enqueues an HTTP task in Google Cloud Tasks with a scheduled ETA.
+   *
+   * @param opts.url - Target endpoint URL (e.g., "/tasks/notify")
+   * @param opts.payload - JSON payload to send in the request body
+   * @param opts.scheduledAt - Firestore Timestamp (UTC) representing execution time
+   * @param opts.taskName - Optional deterministic task name (dedup key)
+   * @returns The created task name (string) or empty string if not returned
+   */
+  async enqueue(opts) {
+    client ??= new CloudTasksClient();
+    const parent = client.queuePath(project, location, queue);
+
+    const body = Buffer.from(JSON.stringify(opts.payload)).toString("base64");
+    const name = opts.taskName ? `${parent}/tasks/${opts.taskName}` : undefined;
+
+    const task = {
+      ...(name ? { name } : {}),
+      httpRequest: {
+        httpMethod: "POST" as const,
+        url: opts.url,
+        headers: { "Content-Type": "application/json" },
+        body,
+      },
+      scheduleTime: {
+        seconds: opts.scheduledAt.seconds,
+        nanos: opts.scheduledAt.nanoseconds,
+      },
+    };
+
+    try {
+      const [resp] = await client.createTask({ parent, task });
+      return resp?.name ?? "";
+    } catch (err: any) {
+      if (name && err?.code === ALREADY_EXISTS) {
+        console.log(`[taskQueue] task already exists: ${opts.taskName}`);
+        return name;
+      }
+      throw err;
+    }
+  },
+
+  isTaskRequest(req) {
+    const ua = req.get("User-Agent") || "";
+    return ua.includes("Google-Cloud-Tasks");
+  },
+};
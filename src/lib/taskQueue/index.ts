@@ -0,0 +1,59 @@
+// -----------------------------------------------------------------------------
+// Task queue used for deferred HTTP work (/tasks/notifications, ...).
+// - Backend from TASK_QUEUE_BACKEND: "cloud_tasks" (default) | "local"
+// - Handlers accept only requests dispatched by the active backend
+//   (isTaskQueueRequest) and read the attempt count from
+//   TASK_RETRY_COUNT_HEADER, whichever backend is used
+// -----------------------------------------------------------------------------
+
+import type { Request } from "express";
+import { cloudTasksQueue } from "./cloudTasks.js";
+import { localTaskQueue } from "./local.js";
+import type {
+  EnqueueTaskOptions,
+  TaskQueue,
+  TaskQueueBackend,
+} from "./types.js";
+
+const QUEUES: Record<TaskQueueBackend, TaskQueue> = {
+  cloud_tasks: cloudTasksQueue,
+  local: localTaskQueue,
+};
+
+let active: TaskQueue | null = null;
+
+/** The configured task queue (resolved once). */
+export function getTaskQueue(): TaskQueue {
+  if (active) return active;
+  const backend = (process.env.TASK_QUEUE_BACKEND || "cloud_tasks").trim();
+  if (backend === "cloud_tasks" || backend === "local") {
+    active = QUEUES[backend];
+  } else {
+    console.warn(
+      `[taskQueue] unknown TASK_QUEUE_BACKEND "${backend}"; using cloud_tasks`,
+    );
+    active = cloudTasksQueue;
+  }
+  console.log(`[taskQueue] backend: ${active.backend}`);
+  return active;
+}
+
+/**
+ * Enqueue an HTTP POST task at an ETA on the configured backend.
+ * - Pass `taskName` (e.g. the jobId) to make the enqueue idempotent.
+ */
+export function enqueueTask(opts: EnqueueTaskOptions): Promise<string> {
+  return getTaskQueue().enqueue(opts);
+}
+
+/** Whether a /tasks/* request comes from the configured task queue. */
+export function isTaskQueueRequest(req: Request): boolean {
+  return getTaskQueue().isTaskRequest(req);
+}
+
+export { TASK_NAME_HEADER, TASK_RETRY_COUNT_HEADER } from "./types.js";
+export type {
+  EnqueueTaskOptions,
+  TaskQueue,
+  TaskQueueBackend,
+} from "./types.js";
@@ -0,0 +1,128 @@
+// -----------------------------------------------------------------------------
+// Local in-process task queue (development / tests; TASK_QUEUE_BACKEND=local)
+// - Keeps tasks in memory and POSTs them to their URL when due, so the same
+//   /tasks/* handlers run as in production
+// - Same contract as Cloud Tasks:
+//   - named tasks are deduplicated (also for 1h after they ran)
+//   - any non-2xx answer or network error is retried with exponential backoff
+//     (Cloud Tasks queue defaults: 0.1s → 3600s, up to 100 attempts)
+//   - X-CloudTasks-TaskRetryCount / X-CloudTasks-TaskName headers are sent
+// - Requests carry a per-process token (X-Local-Task-Token) instead of the
+//   Cloud Tasks User-Agent
+// - Pending tasks are lost on restart (no persistence)
+// -----------------------------------------------------------------------------
+
+import { randomUUID } from "crypto";
+import {
+  TASK_NAME_HEADER,
+  TASK_RETRY_COUNT_HEADER,
+  type EnqueueTaskOptions,
+  type TaskQueue,
+} from "./types.js";
+
+// --- Retry config (mirrors the Cloud Tasks queue defaults) ---
+const MIN_BACKOFF_MS = 100;
+const MAX_BACKOFF_MS = 3600_000;
+const MAX_ATTEMPTS = 100;
+
+/** Names of executed tasks stay reserved this long (like Cloud Tasks). */
+const NAME_RESERVATION_MS = 60 * 60 * 1000;
+
+/** setTimeout's maximum delay (~24.8 days); longer ETAs are chained. */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const TOKEN_HEADER = "X-Local-Task-Token";
+const token = randomUUID();
+
+// --- State ---
+const pending = new Map<string, NodeJS.Timeout>(); // name → timer
+const finished = new Map<string, number>(); // name → finishedAt (ms)
+
+/** Run `fn` at `at` (ms epoch), chaining timers past the setTimeout limit. */
+function runAt(name: string, at: number, fn: () => void): void {
+  const delay = Math.max(0, at - Date.now());
+  const timer = setTimeout(
+    () => (delay > MAX_TIMER_MS ? runAt(name, at, fn) : fn()),
+    Math.min(delay, MAX_TIMER_MS),
+  );
+  timer.unref(); // never keep the process alive for queued tasks
+  pending.set(name, timer);
+}
+
+/** POST the task once; schedule a retry on failure. */
+async function dispatch(
+  name: string,
+  opts: EnqueueTaskOptions,
+  retryCount: number,
+): Promise<void> {
+  let status = 0;
+  try {
+    const res = await fetch(opts.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "local-task-queue",
+        [TASK_RETRY_COUNT_HEADER]: String(retryCount),
+        [TASK_NAME_HEADER]: name,
+        [TOKEN_HEADER]: token,
+      },
+      body: JSON.stringify(opts.payload),
+    });
+    status = res.status;
+  } catch (err: any) {
+    console.warn(`[taskQueue] ${name} network error:`, err?.message ?? err);
+  }
+
+  if (status >= 200 && status < 300) {
+    pending.delete(name);
+    finished.set(name, Date.now());
+    return;
+  }
+
+  const attempts = retryCount + 1;
+  if (attempts >= MAX_ATTEMPTS) {
+    console.error(`[taskQueue] ${name} dropped after ${attempts} attempts`);
+    pending.delete(name);
+    finished.set(name, Date.now());
+    return;
+  }
+
+  const backoff = Math.min(MIN_BACKOFF_MS * 2 ** retryCount, MAX_BACKOFF_MS);
+  console.warn(
+    `[taskQueue] ${name} failed (HTTP ${status || "-"}); retry #${attempts} in ${backoff}ms`,
+  );
+  runAt(name, Date.now() + backoff, () => {
+    void dispatch(name, opts, attempts);
+  });
+}
+
+/** Forget executed task names past their reservation window. */
+function pruneFinished(now: number): void {
+  for (const [name, at] of finished) {
+    if (now - at > NAME_RESERVATION_MS) finished.delete(name);
+  }
+}
+
+export const localTaskQueue: TaskQueue = {
+  backend: "local",
+
+  async enqueue(opts) {
+    const now = Date.now();
+    pruneFinished(now);
+
+    const name = opts.taskName ?? randomUUID();
+    if (pending.has(name) || finished.has(name)) {
+      console.log(`[taskQueue] task already exists: ${name}`);
+      return name;
+    }
+
+    runAt(name, opts.scheduledAt.toMillis(), () => {
+      void dispatch(name, opts, 0);
+    });
+    return name;
+  },
+
+  isTaskRequest(req) {
+    return req.get(TOKEN_HEADER) === token;
+  },
+};
@@ -0,0 +1,36 @@
+// -----------------------------------------------------------------------------
+// Shared types for task-queue backends (Cloud Tasks, local in-process).
+// -----------------------------------------------------------------------------
+
+import type { Request } from "express";
+import type { Timestamp } from "firebase-admin/firestore";
+
+/**
+ * Header carrying the number of previous attempts of a task (0 on the first
+ * delivery). Sent by Cloud Tasks and mirrored by the local backend.
+ */
+export const TASK_RETRY_COUNT_HEADER = "X-CloudTasks-TaskRetryCount";
+
+/** Header carrying the short task name (Cloud Tasks + local backend). */
+export const TASK_NAME_HEADER = "X-CloudTasks-TaskName";
+
+export type EnqueueTaskOptions = {
+  url: string; // target endpoint URL (e.g. `${PUBLIC_BASE_URL}/tasks/notifications`)
+  payload: Record<string, any>; // JSON request body
+  scheduledAt: Timestamp; // ETA (UTC)
+  /**
+   * Deterministic task name ([A-Za-z0-9_-], ≤ 500 chars), e.g. the jobId.
+   * Enqueuing the same name twice is a no-op; omit for unnamed tasks.
+   */
+  taskName?: string;
+};
+
+export type TaskQueue = {
+  backend: TaskQueueBackend;
+  /** Enqueue an HTTP POST task; returns the task name ("" if none). */
+  enqueue(opts: EnqueueTaskOptions): Promise<string>;
+  /** Whether an incoming request was dispatched by this queue. */
+  isTaskRequest(req: Request): boolean;
+};
+
+export type TaskQueueBackend = "cloud_tasks" | "local";
@@ -0,0 +1,182 @@
+// -----------------------------------------------------------------------------
+// Command handler for internal team membership (people/{personId}.internal).
+//
+// Supported actions:
+//   - "list":    Active members (personId, name, Telegram ID, roles)
+//   - "add":     Make `personId` or `tgUserId` a member with `roles`
+//                (default ["sales"]); an unknown `tgUserId` creates a
+//                people/* doc (`username`, `displayName` optional)
+//   - "remove":  End the membership of `personId` / `tgUserId`
+//   - "roles":   Replace the roles of an active member
+//   - "seed":    Add the pre-Firestore team list (SEED_INTERNAL_USERS);
+//                existing membership records are left as-is (also runs
+//                once at startup while no membership record exists)
+//   - "history": Audit records (internalMemberChanges/*), optionally for
+//                `personId` (`limit`, default 50)
+//
+// Notes:
+//   - Members may add the bot, run bot commands and trigger follow-ups;
+//     changes take effect within the cache TTL (~60s; other instances may
+//     still use the old member set until then).
+//   - `actor` is required for writes and stored on every audit record.
+// -----------------------------------------------------------------------------
+
+import { Request, Response } from "express";
+import {
+  changeInternalMembership,
+  listInternalMembers,
+  listMembershipChanges,
+  seedInternalMembers,
+} from "../internalMembers.js";
+import { formatJST } from "../../../utils/time.js";
+import { INTERNAL_ROLES, type InternalRole } from "../../../types/person.js";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+type TeamMembersRequestBody = {
+  action?: "list" | "add" | "remove" | "roles" | "seed" | "history";
+  personId?: string;
+  tgUserId?: string | number;
+  username?: string;
+  displayName?: string;
+  roles?: InternalRole[];
+  limit?: number;
+  actor?: string;
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/** True for a non-empty list of known roles. */
+function isRoleList(v: unknown): v is InternalRole[] {
+  return (
+    Array.isArray(v) &&
+    v.length > 0 &&
+    v.every((r) => INTERNAL_ROLES.includes(r as InternalRole))
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Handler
+// -----------------------------------------------------------------------------
+
+export async function handleTeamMembersCommand(req: Request, res: Response) {
+  try {
+    const {
+      action = "list",
+      personId,
+      tgUserId: rawTgUserId,
+      username,
+      displayName,
+      roles,
+      limit = 50,
+      actor,
+    } = (req.body ?? {}) as TeamMembersRequestBody;
+    const tgUserId =
+      rawTgUserId != null && String(rawTgUserId).trim()
+        ? String(rawTgUserId).trim()
+        : undefined;
+
+    // -----------------------------------------------------------------------
+    // 1) LIST
+    // -----------------------------------------------------------------------
+    if (action === "list") {
+      const members = await listInternalMembers();
+      return res.status(200).json({
+        count: members.length,
+        members: members.map((m) => ({ ...m, since: formatJST(m.since) })),
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // 2) HISTORY (audit log)
+    // -----------------------------------------------------------------------
+    if (action === "history") {
+      if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+        return res
+          .status(400)
+          .json({ error: "'limit' must be an integer in 1..500." });
+      }
+      const changes = await listMembershipChanges(personId, limit);
+      return res.status(200).json({
+        count: changes.length,
+        changes: changes.map((c) => ({
+          ...c,
+          createdAt: formatJST(c.createdAt),
+        })),
+      });
+    }
+
+    // --- Writes below require an actor ---
+    if (!actor || typeof actor !== "string" || !actor.trim()) {
+      return res.status(400).json({ error: "Missing 'actor'." });
+    }
+
+    // -----------------------------------------------------------------------
+    // 3) SEED
+    // -----------------------------------------------------------------------
+    if (action === "seed") {
+      const results = await seedInternalMembers(actor);
+      return res.status(200).json({
+        message: `Seeded ${results.length} member(s).`,
+        results,
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // 4) ADD / REMOVE / ROLES
+    // -----------------------------------------------------------------------
+    if (action === "add" || action === "remove" || action === "roles") {
+      if (!personId && !tgUserId) {
+        return res
+          .status(400)
+          .json({ error: "Missing 'personId' or 'tgUserId'." });
+      }
+      if ((action === "roles" || roles !== undefined) && !isRoleList(roles)) {
+        return res.status(400).json({
+          error: `'roles' must be a non-empty subset of [${INTERNAL_ROLES}].`,
+        });
+      }
+
+      try {
+        const result = await changeInternalMembership({
+          ...(personId ? { personId } : {}),
+          ...(tgUserId ? { tgUserId } : {}),
+          username: username ?? null,
+          displayName: displayName ?? null,
+          active: action !== "remove",
+          ...(roles ? { roles: [...new Set(roles)] } : {}),
+          action: action === "roles" ? "set_roles" : action,
+          actor,
+        });
+        return res.status(result.created ? 201 : 200).json({
+          message: result.changed
+            ? "Membership updated."
+            : "No change (already in that state).",
+          ...result,
+        });
+      } catch (err: any) {
+        const message: string = err?.message ?? String(err);
+        return res
+          .status(message.includes("not found") ? 404 : 409)
+          .json({ error: message });
+      }
+    }
+
+    // -----------------------------------------------------------------------
+    // Unsupported action
+    // -----------------------------------------------------------------------
+    return res
+      .status(400)
+      .json({ error: `Unsupported action: ${String(action)}` });
+  } catch (error: any) {
+    console.error("[handleTeamMembersCommand] Error:", error);
+    return res.status(500).json({
+      error: "Failed to process team members command.",
+      details: error?.message ?? String(error),
+    });
+  }
+}
@@ -0,0 +1 @@
+export { handleTeamMembersCommand } from "./handleTeamMembersCommand.js";
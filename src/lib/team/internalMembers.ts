@@ -0,0 +1,255 @@
+// -----------------------------------------------------------------------------
+// Internal team membership (people/{personId}.internal).
+// - Add / remove members and change their roles; every change is written
+//   with an audit record (internalMemberChanges/*) in the same transaction
+// - Members are identified by personId or Telegram user ID; adding an
+//   unknown Telegram user creates a minimal people/* doc
+// - The webhook's member set (lib/isInternal.ts) is refreshed after changes
+// -----------------------------------------------------------------------------
+
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../firebase.js";
+import {
+  SEED_INTERNAL_USERS,
+  clearInternalMembersCache,
+} from "../isInternal.js";
+import type {
+  InternalMemberChangeDoc,
+  InternalMemberChangeKind,
+  InternalMembership,
+  InternalRole,
+  PersonDoc,
+} from "../../types/person.js";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type InternalMember = {
+  personId: string;
+  displayName: string | null;
+  tgUserId: string | null;
+  tgUsername: string | null;
+  roles: InternalRole[];
+  since: Timestamp;
+};
+
+export type MembershipChangeInput = {
+  personId?: string;
+  tgUserId?: string;
+  username?: string | null; // snapshot for a new people/* doc
+  displayName?: string | null; // for a new people/* doc
+  active: boolean;
+  roles?: InternalRole[]; // omitted = keep current (default ["sales"])
+  action: InternalMemberChangeKind;
+  actor: string;
+};
+
+export type MembershipChangeResult = {
+  personId: string;
+  created: boolean; // a new people/* doc was created
+  changed: boolean; // false = already in the requested state (no audit)
+  before: InternalMemberChangeDoc["before"];
+  after: InternalMemberChangeDoc["after"];
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+const DEFAULT_ROLES: InternalRole[] = ["sales"];
+
+function sameRoles(a: InternalRole[], b: InternalRole[]): boolean {
+  return a.length === b.length && a.every((r) => b.includes(r));
+}
+
+/** people/* ref by personId, else by Telegram user ID (null = not found). */
+async function findPersonRef(
+  personId: string | undefined,
+  tgUserId: string | undefined,
+): Promise<FirebaseFirestore.DocumentReference | null> {
+  if (personId) {
+    const ref = db.collection("people").doc(personId);
+    return (await ref.get()).exists ? ref : null;
+  }
+  if (!tgUserId) return null;
+  const snap = await db
+    .collection("people")
+    .where("telegram.userId", "==", tgUserId)
+    .limit(1)
+    .get();
+  return snap.docs[0]?.ref ?? null;
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+/** Active internal members (by display name). */
+export async function listInternalMembers(): Promise<InternalMember[]> {
+  const snap = await db
+    .collection("people")
+    .where("internal.active", "==", true)
+    .get();
+  return snap.docs
+    .map((d) => {
+      const p = d.data() as PersonDoc;
+      return {
+        personId: d.id,
+        displayName: p.displayName ?? null,
+        tgUserId: p.telegram?.userId ?? null,
+        tgUsername: p.telegram?.username ?? null,
+        roles: p.internal?.roles ?? [],
+        since: p.internal!.since,
+      };
+    })
+    .sort((a, b) =>
+      (a.displayName ?? a.personId).localeCompare(b.displayName ?? b.personId),
+    );
+}
+
+/**
+ * Add, remove or re-role one member, with an audit record.
+ *
+ * @throws when the person does not exist (remove / set_roles, or add by
+ *         personId), or on set_roles for a non-member
+ */
+export async function changeInternalMembership(
+  input: MembershipChangeInput,
+): Promise<MembershipChangeResult> {
+  const { personId, tgUserId, active, action, actor } = input;
+
+  let ref = await findPersonRef(personId, tgUserId);
+  const create = !ref && !personId && !!tgUserId && active;
+  if (!ref && !create) {
+    throw new Error(`Person not found: ${personId ?? `tg:${tgUserId}`}`);
+  }
+  ref ??= db.collection("people").doc();
+
+  const result = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const person = snap.data() as PersonDoc | undefined;
+    const now = Timestamp.now();
+    const current = person?.internal;
+    if (action === "set_roles" && !current?.active) {
+      throw new Error(`Not an active member: ${ref.id}`);
+    }
+
+    const before = current
+      ? { active: current.active, roles: current.roles ?? [] }
+      : null;
+    const after = {
+      active,
+      roles: input.roles ?? current?.roles ?? DEFAULT_ROLES,
+    };
+    const unchanged = before
+      ? before.active === after.active && sameRoles(before.roles, after.roles)
+      : !after.active; // removing a non-member
+    if (unchanged) {
+      return { changed: false, before, after };
+    }
+
+    const internal: InternalMembership = {
+      active: after.active,
+      roles: after.roles,
+      since: current?.since ?? now,
+      updatedAt: now,
+      updatedBy: actor,
+    };
+    if (person) {
+      tx.update(ref, { internal, updatedAt: now });
+    } else {
+      tx.set(ref, {
+        personId: ref.id,
+        displayName: input.displayName ?? input.username ?? null,
+        telegram: {
+          userId: tgUserId!,
+          username: input.username ?? null,
+          firstName: null,
+          lastName: null,
+        },
+        internal,
+        createdAt: now,
+        updatedAt: now,
+      } satisfies PersonDoc);
+    }
+
+    const changeRef = db.collection("internalMemberChanges").doc();
+    tx.set(changeRef, {
+      changeId: changeRef.id,
+      personId: ref.id,
+      tgUserId: person?.telegram?.userId ?? tgUserId ?? null,
+      action,
+      before,
+      after,
+      actor,
+      createdAt: now,
+    } satisfies InternalMemberChangeDoc);
+    return { changed: true, before, after };
+  });
+
+  if (result.changed) {
+    clearInternalMembersCache();
+    console.log(
+      `[internal] ${action} ${ref.id} → active=${result.after.active} [${result.after.roles}] (by ${actor})`,
+    );
+  }
+  return { personId: ref.id, created: create && result.changed, ...result };
+}
+
+/**
+ * Add the seed list (SEED_INTERNAL_USERS) as members; people who already have
+ * a membership record (incl. removed ones) are left as-is.
+ */
+export async function seedInternalMembers(
+  actor: string,
+): Promise<MembershipChangeResult[]> {
+  const results: MembershipChangeResult[] = [];
+  for (const { tgUserId, username } of SEED_INTERNAL_USERS) {
+    const ref = await findPersonRef(undefined, tgUserId);
+    const existing = ref
+      ? ((await ref.get()).data() as PersonDoc | undefined)?.internal
+      : undefined;
+    if (existing) continue;
+    results.push(
+      await changeInternalMembership({
+        tgUserId,
+        username,
+        active: true,
+        action: "seed",
+        actor,
+      }),
+    );
+  }
+  return results;
+}
+
+/**
+ * One-time seed at startup: runs seedInternalMembers only while people/* has
+ * no membership record at all (active or removed). Non-throwing.
+ */
+export async function seedInternalMembersOnce(): Promise<void> {
+  try {
+    const existing = await db
+      .collection("people")
+      .where("internal.active", "in", [true, false])
+      .limit(1)
+      .get();
+    if (!existing.empty) return;
+    const results = await seedInternalMembers("system:seed");
+    console.log(`[internal] seeded ${results.length} member(s)`);
+  } catch (err) {
+    console.warn("[internal] startup seed failed:", err);
+  }
+}
+
+/** Audit records (newest first), optionally for one person. */
+export async function listMembershipChanges(
+  personId: string | undefined,
+  limit: number,
+): Promise<InternalMemberChangeDoc[]> {
+  let q: FirebaseFirestore.Query = db.collection("internalMemberChanges");
+  if (personId) q = q.where("personId", "==", personId);
+  const snap = await q.orderBy("createdAt", "desc").limit(limit).get();
+  return snap.docs.map((d) => d.data() as InternalMemberChangeDoc);
+}
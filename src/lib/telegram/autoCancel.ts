@@ -0,0 +1,68 @@
+// -----------------------------------------------------------------------------
+// Auto-cancel pending follow-ups when the conversation moves on.
+// - Evaluates follow-up cancel rules (followupCancelRules/*) for each message
+// - Marks matching pending jobs of the chat as cancelled (with the rule's reason)
+// - Only jobs created before the message are affected
+// -----------------------------------------------------------------------------
+
+import { Timestamp } from "firebase-admin/firestore";
+import {
+  loadCancelRules,
+  evaluateCancelRules,
+} from "../followupRules/cancelRules.js";
+import {
+  listPendingJobsForChat,
+  cancelJobs,
+} from "../notifications/cancelJobs.js";
+import type { MessageType } from "../../types/message.js";
+import type { NotificationJobDoc } from "../../types/notification.js";
+
+/**
+ * Cancel pending follow-up jobs made irrelevant by this message.
+ *
+ * @returns jobIds that were cancelled
+ */
+export async function handleFollowupCancellations(params: {
+  msg: any;
+  type: MessageType;
+  sentAt: Timestamp;
+  chatId: string;
+}): Promise<string[]> {
+  const { msg, type, sentAt, chatId } = params;
+
+  // 1) Which cancel rules apply to this message? (none → no Firestore reads)
+  const rules = evaluateCancelRules(await loadCancelRules(), msg, type);
+  if (!rules.length) return [];
+
+  // 2) Pending jobs of this chat that already existed when the message was sent
+  const pending = (await listPendingJobsForChat(chatId)).filter((d) => {
+    const createdAt = (d.data() as NotificationJobDoc).createdAt;
+    return !createdAt || createdAt.toMillis() <= sentAt.toMillis();
+  });
+  if (!pending.length) return [];
+
+  // 3) Apply rules in order; each job is cancelled at most once
+  const taken = new Set<string>();
+  const cancelled: string[] = [];
+  for (const rule of rules) {
+    const docs = pending.filter(
+      (d) =>
+        !taken.has(d.id) &&
+        rule.appliesTo.includes((d.data() as NotificationJobDoc).type),
+    );
+    docs.forEach((d) => taken.add(d.id));
+
+    const ids = await cancelJobs(docs, rule.reason, {
+      kind: "cancel_rule",
+      id: rule.ruleId,
+    });
+    if (ids.length) {
+      console.log(
+        `[autoCancel] ${rule.ruleId}: cancelled ${ids.length} job(s) in chat ${chatId}`,
+      );
+    }
+    cancelled.push(...ids);
+  }
+
+  return cancelled;
+}
@@ -0,0 +1,164 @@
+// -----------------------------------------------------------------------------
+// Telegram bot registry (several bots against the same backend).
+// - "default": TELEGRAM_BOT_TOKEN / TELEGRAM_WEBHOOK_SECRET
+//   (webhook: POST /webhook/telegram)
+// - Additional bots: TELEGRAM_BOT_KEYS="jp,global" with
+//   TELEGRAM_BOT_TOKEN_<KEY> / TELEGRAM_WEBHOOK_SECRET_<KEY>
+//   (webhook: POST /webhook/telegram/<key>)
+// - Identity (id / @username) is resolved with getMe at startup (initBots);
+//   a bot whose getMe failed is retried on its next webhook call. Until then
+//   the optional TELEGRAM_BOT_USERNAME[_<KEY>] identifies it; without either,
+//   the webhook defers join/leave events (500 → Telegram retries)
+// - The handling bot is recorded on tg_chats/* and messages/* (`botKey`) so
+//   replies, DMs and leaveChat go out from the same bot
+// -----------------------------------------------------------------------------
+
+/** Bot key of TELEGRAM_BOT_TOKEN (chats / messages without `botKey`). */
+export const DEFAULT_BOT_KEY = "default";
+
+export type TelegramBot = {
+  botKey: string;
+  token: string;
+  webhookSecret: string; // "" = not checked
+  id: string | null; // getMe result (null until resolved)
+  username: string | null; // without "@"; configured value until getMe resolves
+};
+
+const BOT_KEY_RE = /^[a-z0-9_-]{1,32}$/;
+
+let registry: Map<string, TelegramBot> | null = null;
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/** Env var suffix of a bot key ("jp-2" → "JP_2"). */
+function envSuffix(botKey: string): string {
+  return botKey.toUpperCase().replace(/-/g, "_");
+}
+
+/** Build the registry from env on first use. */
+function loadRegistry(): Map<string, TelegramBot> {
+  if (registry) return registry;
+  const bots = new Map<string, TelegramBot>();
+  const add = (
+    botKey: string,
+    token: string | undefined,
+    secret: string | undefined,
+    username: string | undefined,
+  ) => {
+    if (!token?.trim()) {
+      console.warn(`[telegram] bot "${botKey}" has no token; skipped`);
+      return;
+    }
+    bots.set(botKey, {
+      botKey,
+      token: token.trim(),
+      webhookSecret: (secret || "").trim(),
+      id: null,
+      username: (username || "").trim().replace(/^@/, "") || null,
+    });
+  };
+
+  if (process.env.TELEGRAM_BOT_TOKEN) {
+    add(
+      DEFAULT_BOT_KEY,
+      process.env.TELEGRAM_BOT_TOKEN,
+      process.env.TELEGRAM_WEBHOOK_SECRET,
+      process.env.TELEGRAM_BOT_USERNAME,
+    );
+  }
+  const keys = (process.env.TELEGRAM_BOT_KEYS || "")
+    .split(",")
+    .map((k) => k.trim().toLowerCase())
+    .filter(Boolean);
+  for (const key of new Set(keys)) {
+    if (key === DEFAULT_BOT_KEY || !BOT_KEY_RE.test(key)) {
+      console.warn(`[telegram] invalid bot key "${key}"; skipped`);
+      continue;
+    }
+    add(
+      key,
+      process.env[`TELEGRAM_BOT_TOKEN_${envSuffix(key)}`],
+      process.env[`TELEGRAM_WEBHOOK_SECRET_${envSuffix(key)}`],
+      process.env[`TELEGRAM_BOT_USERNAME_${envSuffix(key)}`],
+    );
+  }
+
+  registry = bots;
+  return bots;
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+/** All configured bots. */
+export function listBots(): TelegramBot[] {
+  return [...loadRegistry().values()];
+}
+
+/** A configured bot (default: the "default" bot), or null. */
+export function getBot(botKey?: string | null): TelegramBot | null {
+  return loadRegistry().get(botKey || DEFAULT_BOT_KEY) ?? null;
+}
+
+/**
+ * Resolve the bot's id / username with getMe (once; non-throwing).
+ *
+ * @returns true when the identity is known
+ */
+export async function ensureBotIdentity(bot: TelegramBot): Promise<boolean> {
+  if (bot.id) return true;
+  try {
+    const resp = await fetch(`https://api.telegram.org/bot${bot.token}/getMe`);
+    const body: any = await resp.json().catch(() => ({}));
+    if (!resp.ok || !body?.result?.id) {
+      console.warn(
+        `[telegram] getMe failed for "${bot.botKey}": ${resp.status} ${String(body?.description ?? "").slice(0, 300)}`,
+      );
+      return false;
+    }
+    bot.id = String(body.result.id);
+    bot.username = body.result.username ?? null;
+    console.log(
+      `[telegram] bot "${bot.botKey}" = @${bot.username} (${bot.id})`,
+    );
+    return true;
+  } catch (e) {
+    console.warn(`[telegram] getMe error for "${bot.botKey}":`, e);
+    return false;
+  }
+}
+
+/** Resolve all bot identities (startup; failures are retried lazily). */
+export async function initBots(): Promise<void> {
+  const bots = listBots();
+  if (!bots.length) {
+    console.warn("[telegram] no bot configured (TELEGRAM_BOT_TOKEN)");
+    return;
+  }
+  for (const bot of bots) await ensureBotIdentity(bot);
+}
+
+/** True when the bot can be recognized in join/leave events. */
+export function isBotIdentified(bot: TelegramBot): boolean {
+  return !!bot.id || !!bot.username;
+}
+
+/**
+ * True when a Telegram user object is the given bot: by id once getMe has
+ * resolved, else by the configured username.
+ */
+export function isBotUser(bot: TelegramBot, user: any): boolean {
+  if (bot.id) return String(user?.id ?? "") === bot.id;
+  return (
+    !!bot.username &&
+    String(user?.username ?? "").toLowerCase() === bot.username.toLowerCase()
+  );
+}
+
+/** True when a Telegram user object is one of our bots. */
+export function isOwnBotUser(user: any): boolean {
+  return listBots().some((bot) => isBotUser(bot, user));
+}
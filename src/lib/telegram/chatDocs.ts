@@ -31,6 +31,7 @@ export function defaultChatStats(): ChatStats {
  */
 export function buildNewChatRoomDoc(params: {
   msg: any;
+  botKey: string; // handling bot (lib/telegram/bots.ts)
   type: MessageType;
   summary: string;
   sentAt: Timestamp;
@@ -40,12 +41,14 @@ export function buildNewChatRoomDoc(params: {
     reason: string;
   } | null;
 }): ChatRoomDoc {
-  const { msg, type, summary, sentAt, botActivityHistoryEntry } = params;
+  const { msg, botKey, type, summary, sentAt, botActivityHistoryEntry } =
+    params;
   return {
     chatId: msg.chat.id.toString(),
     chatType: msg.chat.type,
     title: msg.chat.title ?? "",
     tags: [],
+    botKey,
     status: botActivityHistoryEntry?.status ?? "active",
     phase: {
       value: "BotAdded",
@@ -75,6 +78,7 @@ export function buildNewChatRoomDoc(params: {
  */
 export function buildChatPartialUpdate(params: {
   msg: any;
+  botKey: string; // handling bot (lib/telegram/bots.ts)
   type: MessageType;
   summary: string;
   sentAt: Timestamp;
@@ -84,11 +88,13 @@ export function buildChatPartialUpdate(params: {
     reason: string;
   } | null;
 }): Partial<ChatRoomDoc> {
-  const { msg, type, summary, sentAt, botActivityHistoryEntry } = params;
+  const { msg, botKey, type, summary, sentAt, botActivityHistoryEntry } =
+    params;
   const update: Partial<ChatRoomDoc> = {
     chatId: msg.chat.id.toString(),
     chatType: msg.chat.type,
     title: msg.chat.title ?? "",
+    botKey,
     latestMessage: {
       messageId: String(msg.message_id),
       fromUserId: String(msg.from.id),
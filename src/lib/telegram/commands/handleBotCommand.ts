@@ -0,0 +1,85 @@
+// -----------------------------------------------------------------------------
+// In-group bot commands for internal members.
+//
+// Supported commands:
+//   - /status                  Phase, activity and pending reminders of the chat
+//   - /phase                   Current lifecycle phase
+//   - /phase <Phase> <reason>  Set the phase explicitly (Won / Lost / OnHold, corrections)
+//   - /lastreport              Latest weekly report summary
+//   - /remind <N>d|<N>h <note> Personal Slack reminder about this chat
+//   - /mute followups          Pause follow-ups (cancels pending ones)
+//   - /unmute followups        Resume follow-ups
+//
+// Notes:
+//   - Commands from non-internal users (per isFromInternal) get no reply, and
+//     unknown commands are ignored (they may be meant for another bot); both
+//     are processed like any other message (auto-cancel, follow-up triggers).
+//   - Replies are sent with the Bot API sendMessage (best-effort).
+// -----------------------------------------------------------------------------
+
+import type { DocumentReference } from "firebase-admin/firestore";
+import { isFromInternal } from "../../isInternal.js";
+import { sendMessage } from "../sendMessage.js";
+import type { TelegramBot } from "../bots.js";
+import { parseBotCommand } from "./parseBotCommand.js";
+import { handleStatusCommand } from "./handleStatusCommand.js";
+import { handlePhaseCommand } from "./handlePhaseCommand.js";
+import { handleLastReportCommand } from "./handleLastReportCommand.js";
+import { handleRemindCommand } from "./handleRemindCommand.js";
+import { handleMuteCommand } from "./handleMuteCommand.js";
+import type { BotCommandHandler } from "./types.js";
+
+const HANDLERS: Record<string, BotCommandHandler> = {
+  status: handleStatusCommand,
+  phase: handlePhaseCommand,
+  lastreport: handleLastReportCommand,
+  remind: handleRemindCommand,
+  mute: (ctx) => handleMuteCommand(ctx, true),
+  unmute: (ctx) => handleMuteCommand(ctx, false),
+};
+
+/**
+ * Handle a bot command in a group message.
+ *
+ * @returns true when a command handler ran for the message; the caller then
+ *          skips follow-up automation for it. Unknown commands and commands
+ *          from non-internal users (e.g. a client's /start) return false and
+ *          go through normal processing.
+ */
+export async function handleBotCommand(params: {
+  msg: any;
+  bot: TelegramBot;
+  chatRef: DocumentReference;
+  msgRef: DocumentReference;
+}): Promise<boolean> {
+  const { msg, bot, chatRef, msgRef } = params;
+
+  const command = parseBotCommand(msg, bot.username);
+  if (!command) return false;
+
+  const handler = HANDLERS[command.name];
+  if (!handler || !isFromInternal(msg.from?.id)) return false;
+
+  const chatId = String(msg.chat.id);
+  let reply: string;
+  try {
+    reply = await handler({
+      msg,
+      args: command.args,
+      chatId,
+      botKey: bot.botKey,
+      chatRef,
+      msgRef,
+    });
+  } catch (e) {
+    console.error(`[tgCommand] /${command.name} failed:`, e);
+    reply = `⚠️ /${command.name} failed. Please try again later.`;
+  }
+
+  await sendMessage(chatId, reply, {
+    replyToMessageId: String(msg.message_id),
+    botKey: bot.botKey,
+  });
+  console.log(`[tgCommand] /${command.name} in ${chatId} by ${msg.from?.id}`);
+  return true;
+}
@@ -0,0 +1,36 @@
+// -----------------------------------------------------------------------------
+// /lastreport — latest weekly report of the chat.
+// - Uses tg_chats/{chatId}.latestReportId; falls back to the newest report doc
+// -----------------------------------------------------------------------------
+
+import { formatJST } from "../../../utils/time.js";
+import { escapeHtml } from "../sendMessage.js";
+import type { ChatRoomDoc } from "../../../types/chat.js";
+import type { BotCommandHandler } from "./types.js";
+
+/** Telegram messages are limited to 4096 chars; keep the reply short. */
+const MAX_SUMMARY = 1500;
+
+export const handleLastReportCommand: BotCommandHandler = async ({
+  chatRef,
+}) => {
+  const chat = (await chatRef.get()).data() as ChatRoomDoc | undefined;
+  const reports = chatRef.collection("reports");
+
+  const snap = chat?.latestReportId
+    ? await reports.doc(chat.latestReportId).get()
+    : (await reports.orderBy("createdAt", "desc").limit(1).get()).docs[0];
+  if (!snap?.exists) return "No weekly report for this chat yet.";
+
+  const d = snap.data() as any;
+  const summary = typeof d.summary === "string" ? d.summary : "";
+  const bullets: any[] = Array.isArray(d.bullets) ? d.bullets : [];
+
+  return [
+    `📑 <b>Weekly report</b> (${d.createdAt ? formatJST(d.createdAt) : "-"})`,
+    escapeHtml(summary.slice(0, MAX_SUMMARY)) || "(empty summary)",
+    ...bullets
+      .slice(0, 5)
+      .map((b) => `• ${escapeHtml(String(b?.point ?? b ?? "").trim())}`),
+  ].join("\n");
+};
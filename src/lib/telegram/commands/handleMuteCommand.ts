@@ -0,0 +1,55 @@
+// -----------------------------------------------------------------------------
+// /mute followups, /unmute followups — pause automatic follow-ups for a chat.
+// - Stores tg_chats/{chatId}.followupsMuted (checked by handleFollowupTriggers)
+// - Muting also cancels the chat's pending follow-up jobs
+//   (manual /remind reminders are kept)
+// -----------------------------------------------------------------------------
+
+import { Timestamp } from "firebase-admin/firestore";
+import { cancelPendingJobsForChat } from "../../notifications/cancelJobs.js";
+import { NOTIFICATION_TYPES } from "../../../types/notification.js";
+import type { ChatRoomDoc } from "../../../types/chat.js";
+import type { BotCommandContext } from "./types.js";
+
+/** Follow-up job types affected by /mute followups. */
+const FOLLOWUP_TYPES = NOTIFICATION_TYPES.filter(
+  (t) => t !== "manual_reminder",
+);
+
+/**
+ * Set or clear the follow-up mute of the chat.
+ *
+ * @param muted  true for /mute, false for /unmute
+ */
+export async function handleMuteCommand(
+  { msg, args, chatId, chatRef }: BotCommandContext,
+  muted: boolean,
+): Promise<string> {
+  const verb = muted ? "mute" : "unmute";
+  if (args.toLowerCase() !== "followups") {
+    return `Usage: <code>/${verb} followups</code>`;
+  }
+
+  const userId = String(msg.from?.id ?? "");
+  const followupsMuted: NonNullable<ChatRoomDoc["followupsMuted"]> = {
+    muted,
+    ts: Timestamp.now(),
+    byUserId: userId,
+  };
+  await chatRef.set({ followupsMuted }, { merge: true });
+
+  if (!muted) return "🔔 Follow-ups unmuted for this chat.";
+
+  const cancelled = await cancelPendingJobsForChat(
+    chatId,
+    "followups_muted",
+    { kind: "tg_command", id: userId },
+    [...FOLLOWUP_TYPES],
+  );
+  return (
+    "🔕 Follow-ups muted for this chat." +
+    (cancelled.length
+      ? ` Cancelled ${cancelled.length} pending reminder(s).`
+      : "")
+  );
+}
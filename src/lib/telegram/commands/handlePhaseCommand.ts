@@ -0,0 +1,97 @@
+// -----------------------------------------------------------------------------
+// /phase — current lifecycle phase of the chat (tg_chats/{chatId}.phase).
+// /phase <Phase> <reason> [note…] [--no-report] — set the phase explicitly
+//   (stage of the chat's pipeline, e.g. "/phase Won closed_won Signed on
+//   3/1"); outcome stages cancel pending follow-ups, --no-report also
+//   disables the weekly report.
+// -----------------------------------------------------------------------------
+
+import { formatJST } from "../../../utils/time.js";
+import { escapeHtml } from "../sendMessage.js";
+import { resolveManualStage, setChatPhase } from "../setChatPhase.js";
+import { loadPipeline } from "../../pipelines/loadPipelines.js";
+import { isManualStage, stageName } from "../../pipelines/stages.js";
+import {
+  PHASE_CHANGE_REASONS,
+  type ChatRoomDoc,
+  type PhaseChangeReason,
+} from "../../../types/chat.js";
+import type { PipelineDef } from "../../../types/pipeline.js";
+import type { BotCommandContext, BotCommandHandler } from "./types.js";
+
+/** Usage text listing the stages of the chat's pipeline. */
+function usage(pipeline: PipelineDef): string {
+  return [
+    "Usage: <code>/phase &lt;Phase&gt; &lt;reason&gt; [note] [--no-report]</code>",
+    `Phases: ${pipeline.stages
+      .filter((s) => isManualStage(pipeline, s.stageId))
+      .map((s) => s.stageId)
+      .join(", ")}`,
+    `Reasons: ${PHASE_CHANGE_REASONS.join(", ")}`,
+  ].join("\n");
+}
+
+async function setPhase({
+  msg,
+  args,
+  chatId,
+  chatRef,
+}: BotCommandContext): Promise<string> {
+  const tokens = args.split(/\s+/);
+  const noReport = tokens.includes("--no-report");
+  const [phaseArg = "", reasonArg = "", ...noteWords] = tokens.filter(
+    (t) => t !== "--no-report",
+  );
+
+  const chat = (await chatRef.get()).data() as ChatRoomDoc | undefined;
+  const { pipeline, stage } = await resolveManualStage(chat, phaseArg);
+  const reason = reasonArg.toLowerCase() as PhaseChangeReason;
+  if (!stage || !PHASE_CHANGE_REASONS.includes(reason)) {
+    return usage(pipeline);
+  }
+
+  const result = await setChatPhase({
+    chatId,
+    phase: stage.stageId,
+    reason,
+    note: noteWords.join(" "),
+    actor: `tg:${msg.from?.id ?? ""}`,
+    messageId: String(msg.message_id),
+    disableWeeklyReport: noReport,
+  });
+
+  const previous = stageName(pipeline, result.previous) || "(none)";
+  const lines = [
+    `🧭 Phase set: <b>${escapeHtml(previous)}</b> → <b>${escapeHtml(stage.name)}</b> (${reason})`,
+  ];
+  if (result.cancelledJobIds.length) {
+    lines.push(
+      `• Cancelled ${result.cancelledJobIds.length} pending reminder(s).`,
+    );
+  }
+  if (result.weeklyReportDisabled) lines.push("• Weekly report disabled.");
+  return lines.join("\n");
+}
+
+export const handlePhaseCommand: BotCommandHandler = async (ctx) => {
+  if (ctx.args) return setPhase(ctx);
+
+  const chat = (await ctx.chatRef.get()).data() as ChatRoomDoc | undefined;
+  const phase = chat?.phase;
+  if (!phase?.value) return "No phase recorded for this chat yet.";
+  const pipeline = await loadPipeline(chat?.pipelineId);
+
+  const lines = [
+    `🧭 Phase: <b>${escapeHtml(stageName(pipeline, phase.value))}</b>`,
+    `• Since: ${formatJST(phase.ts)}`,
+  ];
+  if (phase.override) {
+    lines.push(
+      `• Set manually: ${phase.override.reason}` +
+        (phase.override.note ? ` — ${escapeHtml(phase.override.note)}` : ""),
+    );
+  } else {
+    lines.push(`• Trigger message: #${phase.messageId}`);
+  }
+  return lines.join("\n");
+};
@@ -0,0 +1,102 @@
+// -----------------------------------------------------------------------------
+// /remind <N>d|<N>h <note> — personal Slack reminder about this chat.
+// - Creates "manual_reminder" notification job(s) for the sender's Slack
+//   account(s) (+ email if opted in), enqueued like any follow-up
+//   (POST /tasks/notifications)
+// - The note is carried as payload.caption (rendered by buildNotificationText)
+// - Times are shown in the sender's time zone (people/*.timezone; default JST)
+// -----------------------------------------------------------------------------
+
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../../firebase.js";
+import {
+  createNotificationJobs,
+  hasRecipients,
+  recipientsFromPeople,
+} from "../../notifications/createJobs.js";
+import { formatInTimeZone, formatJST } from "../../../utils/time.js";
+import { profileOf } from "../../calendar/schedulingProfile.js";
+import { escapeHtml } from "../sendMessage.js";
+import type { PersonDoc } from "../../../types/person.js";
+import type { BotCommandHandler } from "./types.js";
+
+/** Cloud Tasks ETA limit is 30 days. */
+const MAX_HOURS = 30 * 24;
+
+const USAGE =
+  "Usage: <code>/remind 3d follow up on pricing</code> (or <code>4h</code>)";
+
+export const handleRemindCommand: BotCommandHandler = async ({
+  msg,
+  args,
+  chatId,
+  botKey,
+  chatRef,
+  msgRef,
+}) => {
+  // --- 1) Parse "<N>d|<N>h <note>" ---
+  const m = /^(\d+)\s*([dh])\b\s*([\s\S]*)$/i.exec(args);
+  if (!m) return USAGE;
+
+  const amount = Number(m[1]);
+  const hours = m[2]!.toLowerCase() === "d" ? amount * 24 : amount;
+  const note = (m[3] ?? "").trim();
+  if (!note) return USAGE;
+  if (hours < 1 || hours > MAX_HOURS) {
+    return "Reminder delay must be between 1h and 30d.";
+  }
+
+  // --- 2) Resolve the sender's reminder targets (Slack / Telegram DM / email) ---
+  const tgUserId = String(msg.from?.id ?? "");
+  const peopleSnap = await db
+    .collection("people")
+    .where("telegram.userId", "==", tgUserId)
+    .limit(1)
+    .get();
+  const people = peopleSnap.docs.map((d) => d.data() as PersonDoc);
+  const recipients = recipientsFromPeople(people, botKey);
+  const { timeZone, calendarId, locale } = profileOf(people[0]);
+  if (!hasRecipients(recipients)) {
+    return "No Slack account, Telegram DM or email is set up for your Telegram user, so I can't remind you.";
+  }
+
+  // --- 3) Persist job(s) + enqueue tasks (idempotent per command message) ---
+  const messageId = String(msg.message_id);
+  const scheduledAt = Timestamp.fromMillis(Date.now() + hours * 3600_000);
+  const jobIds = await createNotificationJobs({
+    idBase: `job:manual_reminder:${chatId}:${messageId}`,
+    type: "manual_reminder",
+    scheduledAt,
+    recipients,
+    payload: {
+      chatId,
+      messageId,
+      chatTitle: msg.chat?.title ?? "",
+      caption: note,
+      file: null,
+      fromUser: {
+        userId: tgUserId,
+        username: msg.from?.username ?? null,
+        isBot: !!msg.from?.is_bot,
+      },
+      chatRefPath: chatRef.path,
+      messageRefPath: msgRef.path,
+      timeZone,
+      calendarId,
+      ...(locale ? { locale } : {}),
+    },
+    source: { kind: "tg_command", id: messageId },
+  });
+
+  console.log(
+    "[tgCommand] manual reminder scheduled:",
+    jobIds,
+    formatJST(scheduledAt),
+  );
+  const channels = [
+    recipients.slack.length ? "Slack" : "",
+    recipients.tg.length ? "Telegram DM" : "",
+    recipients.email.length ? "email" : "",
+  ].filter(Boolean);
+  return `⏰ Got it — I'll remind you via ${channels.join(" + ")} at <b>${formatInTimeZone(scheduledAt, timeZone)}</b>:\n${escapeHtml(note)}`;
+};
@@ -0,0 +1,52 @@
+// -----------------------------------------------------------------------------
+// /status — deal snapshot for the current chat.
+// - Phase, last activity and message counts from tg_chats/{chatId}
+// - Pending follow-up jobs from notificationJobs (next 5 by ETA)
+// -----------------------------------------------------------------------------
+
+import { formatJST } from "../../../utils/time.js";
+import { listPendingJobsForChat } from "../../notifications/cancelJobs.js";
+import { escapeHtml } from "../sendMessage.js";
+import { loadPipeline } from "../../pipelines/loadPipelines.js";
+import { stageName } from "../../pipelines/stages.js";
+import type { ChatRoomDoc } from "../../../types/chat.js";
+import type { NotificationJobDoc } from "../../../types/notification.js";
+import type { BotCommandHandler } from "./types.js";
+
+/** Max pending jobs listed in the reply. */
+const MAX_JOBS = 5;
+
+export const handleStatusCommand: BotCommandHandler = async ({
+  chatId,
+  chatRef,
+}) => {
+  const snap = await chatRef.get();
+  if (!snap.exists) return "No data for this chat yet.";
+  const chat = snap.data() as ChatRoomDoc;
+  const pipeline = await loadPipeline(chat.pipelineId);
+
+  const jobs = (await listPendingJobsForChat(chatId))
+    .map((d) => d.data() as NotificationJobDoc)
+    .sort((a, b) => a.scheduledAt.toMillis() - b.scheduledAt.toMillis());
+
+  const lines = [
+    `📊 <b>${escapeHtml(chat.title || "(no title)")}</b>`,
+    `• Phase: <b>${escapeHtml(stageName(pipeline, chat.phase?.value) || "-")}</b>` +
+      (chat.phase?.ts ? ` (since ${formatJST(chat.phase.ts)})` : ""),
+    `• Last activity: ${chat.lastActiveAt ? formatJST(chat.lastActiveAt) : "-"}`,
+    `• Messages: ${chat.stats?.totalMessages ?? 0} total, ` +
+      `${chat.stats?.aggregated?.last7Days?.messageCount ?? 0} in last 7 days`,
+    `• Follow-ups: ${chat.followupsMuted?.muted ? "🔕 muted" : "🔔 active"}`,
+    "",
+    jobs.length
+      ? `<b>Pending reminders (${jobs.length})</b>`
+      : "No pending reminders.",
+    ...jobs
+      .slice(0, MAX_JOBS)
+      .map((j) => `• ${j.type} — ${formatJST(j.scheduledAt)}`),
+  ];
+  if (jobs.length > MAX_JOBS)
+    lines.push(`… and ${jobs.length - MAX_JOBS} more`);
+
+  return lines.join("\n");
+};
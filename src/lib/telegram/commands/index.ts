@@ -0,0 +1 @@
+export { handleBotCommand } from "./handleBotCommand.js";
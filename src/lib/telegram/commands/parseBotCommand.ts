@@ -0,0 +1,39 @@
+// -----------------------------------------------------------------------------
+// Extract a bot command from a Telegram message.
+// - Uses the `bot_command` entity at offset 0 ("/status", "/status@our_bot")
+// - Commands addressed to another bot ("/status@other_bot") are ignored
+// -----------------------------------------------------------------------------
+
+export type BotCommand = {
+  name: string; // lower-case, without "/" and "@bot" (e.g. "remind")
+  args: string; // remaining text, trimmed (e.g. "3d follow up on pricing")
+};
+
+/**
+ * Returns the command when the message starts with a bot_command entity
+ * addressed to this bot (or to no bot in particular); otherwise null.
+ *
+ * @param botUsername  @username of the handling bot (getMe; null = unknown,
+ *                     so addressed commands are ignored)
+ */
+export function parseBotCommand(
+  msg: any,
+  botUsername: string | null,
+): BotCommand | null {
+  const text: string = typeof msg?.text === "string" ? msg.text : "";
+  const entity = (msg?.entities ?? []).find(
+    (e: any) => e?.type === "bot_command" && e.offset === 0,
+  );
+  if (!text || !entity) return null;
+
+  const raw = text.slice(1, entity.length); // drop leading "/"
+  const [name = "", target] = raw.split("@");
+  if (target && target.toLowerCase() !== botUsername?.toLowerCase()) {
+    return null;
+  }
+
+  return {
+    name: name.toLowerCase(),
+    args: text.slice(entity.length).trim(),
+  };
+}
@@ -0,0 +1,20 @@
+// -----------------------------------------------------------------------------
+// Shared types for in-group Telegram bot commands.
+// -----------------------------------------------------------------------------
+
+import type { DocumentReference } from "firebase-admin/firestore";
+
+/** Everything a command handler needs about the incoming message. */
+export type BotCommandContext = {
+  msg: any; // raw Telegram message
+  args: string; // text after the command (trimmed)
+  chatId: string;
+  botKey: string; // handling bot (replies / DMs go out from it)
+  chatRef: DocumentReference; // tg_chats/{chatId}
+  msgRef: DocumentReference; // tg_chats/{chatId}/messages/{messageId}
+};
+
+/**
+ * A command handler returns the reply text (Telegram HTML) to post in the chat.
+ */
+export type BotCommandHandler = (ctx: BotCommandContext) => Promise<string>;
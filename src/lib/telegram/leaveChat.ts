@@ -1,15 +1,23 @@
+import { getBot } from "./bots.js";
+
 /**
  * Leave a Telegram chat (best-effort).
  *
+ * - Uses the bot that handles the chat (`botKey`; default: the "default" bot).
  * - Returns `true` if Telegram API returns 2xx.
  * - Returns `false` on non-2xx or any exception.
  * - Never logs the bot token. Truncates response body in logs.
  */
-export async function leaveChat(chatId: string): Promise<boolean> {
+export async function leaveChat(
+  chatId: string,
+  botKey?: string | null,
+): Promise<boolean> {
   // 1) Validate environment
-  const token = process.env.TELEGRAM_BOT_TOKEN;
+  const token = getBot(botKey)?.token;
   if (!token) {
-    console.warn("[telegram] leaveChat skipped: TELEGRAM_BOT_TOKEN is not set");
+    console.warn(
+      `[telegram] leaveChat skipped: bot "${botKey || "default"}" is not configured`,
+    );
     return false;
   }
 
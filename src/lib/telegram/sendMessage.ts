@@ -0,0 +1,90 @@
+import { getBot } from "./bots.js";
+
+/**
+ * Send a message to a Telegram chat (best-effort).
+ *
+ * - Text is sent with `parse_mode: "HTML"` (escape user content with `escapeHtml`).
+ * - Sent from `opts.botKey` (lib/telegram/bots.ts; default: the "default" bot).
+ * - Returns `true` if Telegram API returns 2xx.
+ * - Returns `false` on non-2xx or any exception.
+ * - Never logs the bot token. Truncates response body in logs.
+ */
+export async function sendMessage(
+  chatId: string,
+  text: string,
+  opts?: { replyToMessageId?: string; botKey?: string | null },
+): Promise<boolean> {
+  // 1) Validate environment
+  const token = getBot(opts?.botKey)?.token;
+  if (!token) {
+    console.warn(
+      `[telegram] sendMessage skipped: bot "${opts?.botKey || "default"}" is not configured`,
+    );
+    return false;
+  }
+
+  // 2) Build API URL & payload
+  const url = `https://api.telegram.org/bot${token}/sendMessage`;
+  const payload = {
+    chat_id: chatId,
+    text,
+    parse_mode: "HTML",
+    disable_web_page_preview: true,
+    ...(opts?.replyToMessageId
+      ? {
+          reply_parameters: {
+            message_id: Number(opts.replyToMessageId),
+            allow_sending_without_reply: true,
+          },
+        }
+      : {}),
+  };
+
+  try {
+    // 3) Call Telegram API
+    const resp = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+
+    // 4) Handle non-2xx
+    if (!resp.ok) {
+      const body = await safeText(resp);
+      console.warn(
+        `[telegram] sendMessage failed: ${resp.status} ${truncate(body, 300)}`,
+      );
+      return false;
+    }
+
+    // 5) Success
+    return true;
+  } catch (e) {
+    // 6) Network/unknown error
+    console.warn("[telegram] sendMessage error:", e);
+    return false;
+  }
+}
+
+/** Escape text for Telegram HTML parse mode. */
+export function escapeHtml(input: string): string {
+  return input
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/** Safely read response text (guard against unexpected errors). */
+async function safeText(resp: Response): Promise<string> {
+  try {
+    return await resp.text();
+  } catch {
+    return "";
+  }
+}
+
+/** Truncate a string to the specified length with ellipsis. */
+function truncate(input: string, max: number): string {
+  if (!input) return "";
+  return input.length > max ? `${input.slice(0, max)}…` : input;
+}
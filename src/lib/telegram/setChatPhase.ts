@@ -0,0 +1,142 @@
+// -----------------------------------------------------------------------------
+// Set tg_chats/{chatId}.phase explicitly (admin API, /phase commands).
+// - Any stage of the chat's pipeline that allows manual changes, in either
+//   direction (e.g. undo a false-positive keyword advance)
+// - Records the reason code, note and actor on phase.override and in
+//   tg_chats/{chatId}/phaseHistory
+// - Outcome stages (e.g. Won / Lost / OnHold) cancel the chat's pending follow-ups
+//   (manual /remind reminders are kept) and can disable its weekly report
+// - Moves the chat's deal (deals/{chatId}) to the new stage
+// -----------------------------------------------------------------------------
+
+import { Timestamp } from "firebase-admin/firestore";
+import { db } from "../firebase.js";
+import { syncDealStage } from "../deals/deals.js";
+import { cancelPendingJobsForChat } from "../notifications/cancelJobs.js";
+import { buildReportSettingId } from "../weeklyReport/ensureReportSetting.js";
+import { loadPipeline } from "../pipelines/loadPipelines.js";
+import { isManualStage, isTerminalStage } from "../pipelines/stages.js";
+import { NOTIFICATION_TYPES } from "../../types/notification.js";
+import type {
+  ChatPhase,
+  ChatRoomDoc,
+  PhaseChangeReason,
+  PhaseHistoryDoc,
+} from "../../types/chat.js";
+import type { PipelineDef, PipelineStage } from "../../types/pipeline.js";
+
+/** Follow-up job types cancelled when a terminal phase is reached. */
+const FOLLOWUP_TYPES = NOTIFICATION_TYPES.filter(
+  (t) => t !== "manual_reminder",
+);
+
+export type SetChatPhaseInput = {
+  chatId: string;
+  phase: ChatPhase;
+  reason: PhaseChangeReason;
+  note?: string | null;
+  actor: string; // e.g. "api:ops@example.com", "tg:123456", "slack:U0123"
+  messageId?: string; // Telegram command message (if any)
+  disableWeeklyReport?: boolean; // terminal phases only
+};
+
+export type SetChatPhaseResult = {
+  previous: ChatPhase | null;
+  phase: ChatPhase;
+  cancelledJobIds: string[];
+  weeklyReportDisabled: boolean;
+};
+
+/**
+ * Resolve user input (stage ID or display name, case-insensitive) to a stage
+ * of the chat's pipeline that may be set manually.
+ */
+export async function resolveManualStage(
+  chat: ChatRoomDoc | undefined,
+  input: string,
+): Promise<{ pipeline: PipelineDef; stage: PipelineStage | null }> {
+  const pipeline = await loadPipeline(chat?.pipelineId);
+  const key = input.trim().toLowerCase();
+  const stage =
+    pipeline.stages.find(
+      (s) =>
+        isManualStage(pipeline, s.stageId) &&
+        (s.stageId.toLowerCase() === key || s.name.toLowerCase() === key),
+    ) ?? null;
+  return { pipeline, stage };
+}
+
+/**
+ * Set the chat phase and apply the side effects of terminal phases.
+ *
+ * @throws when the chat does not exist or the stage cannot be set manually
+ */
+export async function setChatPhase(
+  input: SetChatPhaseInput,
+): Promise<SetChatPhaseResult> {
+  const { chatId, phase, reason, actor } = input;
+  const ref = db.collection("tg_chats").doc(chatId);
+  const snap = await ref.get();
+  if (!snap.exists) throw new Error(`Chat not found: ${chatId}`);
+  const chat = snap.data() as ChatRoomDoc;
+  const previous = chat.phase?.value ?? null;
+  const pipeline = await loadPipeline(chat.pipelineId);
+  if (!isManualStage(pipeline, phase)) {
+    throw new Error(
+      `Stage "${phase}" cannot be set manually in pipeline ${pipeline.pipelineId}`,
+    );
+  }
+
+  // --- 1) Phase + override metadata ---
+  const ts = Timestamp.now();
+  const next: ChatRoomDoc["phase"] = {
+    value: phase,
+    ts,
+    messageId: input.messageId ?? "",
+    override: { reason, note: input.note?.trim() || null, actor },
+  };
+  const batch = db.batch();
+  batch.update(ref, { phase: next });
+  batch.create(ref.collection("phaseHistory").doc(), {
+    chatId,
+    from: previous,
+    to: phase,
+    ts,
+    source: "manual",
+    messageId: next.messageId,
+    ...next.override!,
+  } satisfies PhaseHistoryDoc);
+  await batch.commit();
+  await syncDealStage(chatId, phase, ts, pipeline.pipelineId);
+  console.log(
+    `[phase] ${chatId}: ${previous ?? "(none)"} → ${phase} (${reason}, by ${actor})`,
+  );
+
+  const result: SetChatPhaseResult = {
+    previous,
+    phase,
+    cancelledJobIds: [],
+    weeklyReportDisabled: false,
+  };
+  if (!isTerminalStage(pipeline, phase)) return result;
+
+  // --- 2) Terminal: cancel pending follow-ups ---
+  result.cancelledJobIds = await cancelPendingJobsForChat(
+    chatId,
+    `phase_${phase.toLowerCase()}`,
+    { kind: "phase_override", id: actor },
+    [...FOLLOWUP_TYPES],
+  );
+
+  // --- 3) Terminal: optionally disable the weekly report ---
+  if (input.disableWeeklyReport) {
+    const settingRef = db
+      .collection("reports_settings")
+      .doc(buildReportSettingId({ type: "chat", id: chatId }, "weekly"));
+    if ((await settingRef.get()).exists) {
+      await settingRef.update({ enabled: false, updatedAt: new Date() });
+      result.weeklyReportDisabled = true;
+    }
+  }
+  return result;
+}
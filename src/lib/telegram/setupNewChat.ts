@@ -0,0 +1,144 @@
+// -----------------------------------------------------------------------------
+// First-time setup of a chat the bot was added to (tg_chats/{chatId}).
+// 1) Create the chat room document + the initial phaseHistory entry
+// 2) Resolve the chat title
+// 3) Ensure reports_settings/{chat:ID:weekly} exists (non-private chats)
+// 4) Slack notice when the setting was newly created (Created at / Added by)
+// Used by the webhook (bot added by an internal member) and by approvals of
+// bots added by external users (lib/chats/approvals.ts).
+// -----------------------------------------------------------------------------
+
+import { db } from "../firebase.js";
+import { buildNewChatRoomDoc } from "./chatDocs.js";
+import { ensureReportSetting } from "../weeklyReport/ensureReportSetting.js";
+import { resolveSlackUserIdByTelegramId } from "../../utils/resolveSlackUserId.js";
+import { formatJST } from "../../utils/time.js";
+import type { PhaseHistoryDoc } from "../../types/chat.js";
+
+/**
+ * Create tg_chats/{chatId} and its weekly report setting.
+ *
+ * @param params  Same as buildNewChatRoomDoc, plus `approvedBy` (Slack user ID)
+ *                for chats approved after an external user added the bot
+ */
+export async function setupNewChat(
+  params: Parameters<typeof buildNewChatRoomDoc>[0] & {
+    approvedBy?: string | null;
+  },
+): Promise<void> {
+  const { msg, botKey, type, summary, sentAt, botActivityHistoryEntry } =
+    params;
+  const chatId = String(msg.chat.id);
+  const chatRef = db.collection("tg_chats").doc(chatId);
+
+  // ---------------------------------------------------------------------------
+  // 1) Create chat room document (first-time)
+  // ---------------------------------------------------------------------------
+  const doc = buildNewChatRoomDoc({
+    msg,
+    botKey,
+    type,
+    summary,
+    sentAt,
+    botActivityHistoryEntry,
+  });
+  const batch = db.batch();
+  batch.set(chatRef, doc); // merge: false
+  batch.create(chatRef.collection("phaseHistory").doc(), {
+    chatId,
+    from: null,
+    to: doc.phase.value,
+    ts: doc.phase.ts,
+    source: "created",
+    messageId: doc.phase.messageId,
+  } satisfies PhaseHistoryDoc);
+  await batch.commit();
+
+  // ---------------------------------------------------------------------------
+  // 2) Resolve identifiers (title)
+  // ---------------------------------------------------------------------------
+  const finalTitle = (
+    msg.chat?.title ??
+    ([msg.chat?.first_name, msg.chat?.last_name]
+      .filter(Boolean)
+      .join(" ")
+      .trim() ||
+      (msg.chat?.username
+        ? `@${msg.chat.username}`
+        : chatId
+          ? `chat:${chatId}`
+          : "Unknown Chat"))
+  )
+    .replace(/\s+/g, " ")
+    .trim();
+
+  // Skip creating report settings for private (1:1) chats; process only group/supergroup (and channel).
+  if (msg.chat?.type !== "private") {
+    // ---------------------------------------------------------------------------
+    // 3) Ensure weekly report setting (idempotent)
+    // ---------------------------------------------------------------------------
+    const created = await ensureReportSetting({
+      target: { type: "chat", id: chatId },
+      name: finalTitle,
+    });
+
+    // ---------------------------------------------------------------------------
+    // 4) Slack notify only when a setting was newly created
+    // ---------------------------------------------------------------------------
+    if (created) {
+      const humanFallback =
+        (msg.from?.username
+          ? "@" + msg.from.username
+          : [msg.from?.first_name, msg.from?.last_name]
+              .filter(Boolean)
+              .join(" ") || "Unknown user") + ` (ID: ${msg.from?.id})`;
+      const slackUserId = await resolveSlackUserIdByTelegramId(
+        String(msg.from?.id ?? ""),
+      );
+      const addedBy = slackUserId ? `<@${slackUserId}>` : humanFallback;
+      const text = [
+        "🆕 New chat detected — weekly report setting has been created.",
+        `• Title: *${finalTitle}*`,
+        `• Chat ID: \`${chatId}\``,
+        `• Created at: ${formatJST(Date.now())}`,
+        `• Added by: ${addedBy}`,
+        ...(params.approvedBy
+          ? [`• Approved by: <@${params.approvedBy}>`]
+          : []),
+      ].join("\n");
+
+      const webhookUrl = process.env.SLACK_WEBHOOK_URL;
+
+      if (!webhookUrl) {
+        console.warn(
+          "[slack] SLACK_WEBHOOK_URL is not set; skip Slack notification",
+        );
+      } else {
+        const startHr = process.hrtime.bigint();
+
+        try {
+          const resp = await fetch(webhookUrl, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ text, mrkdwn: true, link_names: 1 }),
+          });
+
+          const durationMs = Number(
+            (process.hrtime.bigint() - startHr) / 1_000_000n,
+          );
+
+          if (!resp.ok) {
+            const respText = await resp.text();
+            console.warn(
+              `[slack] post failed: ${resp.status} ${respText?.slice(0, 300) || ""}`,
+            );
+          } else {
+            console.log(`[slack] notified in ${durationMs}ms`);
+          }
+        } catch (e) {
+          console.warn("[slack] send error:", e);
+        }
+      }
+    }
+  }
+}
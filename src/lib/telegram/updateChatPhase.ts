@@ -1,23 +1,19 @@
 // -----------------------------------------------------------------------------
 // Update or insert tg_chats/{chatId}.phase when the lifecycle phase advances.
-// - Monotonic (never downgrade)
+// - Monotonic (never downgrade) in the stage order of the chat's pipeline
+//   (pipelines/{pipelineId}); outcome stages (e.g. Won / Lost / OnHold) are
+//   never left automatically — see setChatPhase.ts for explicit changes
 // - Idempotent (same phase + same messageId → no update)
+// - Appends every change to tg_chats/{chatId}/phaseHistory
+// - Moves the chat's deal (deals/{chatId}) to the new stage
 // -----------------------------------------------------------------------------
 
 import { Timestamp } from "firebase-admin/firestore";
 import { db } from "../firebase.js";
-import type { ChatPhase } from "../../types/chat.js";
-
-// -----------------------------------------------------------------------------
-// Phase priority mapping (higher = later in lifecycle)
-// -----------------------------------------------------------------------------
-export const PHASE_PRIORITY: Record<ChatPhase, number> = {
-  BotAdded: 1,
-  CalendlyLinkShared: 2,
-  ProposalSent: 3,
-  AgreementSent: 4,
-  InvoiceSent: 5,
-};
+import { syncDealStage } from "../deals/deals.js";
+import { loadPipeline } from "../pipelines/loadPipelines.js";
+import { isTerminalStage, stageRank } from "../pipelines/stages.js";
+import type { ChatPhase, PhaseHistoryDoc } from "../../types/chat.js";
 
 // -----------------------------------------------------------------------------
 // Input type for the next phase
@@ -28,6 +24,24 @@ type NextPhase = {
   messageId: string;
 };
 
+// -----------------------------------------------------------------------------
+// History entry of an automatic advance
+// -----------------------------------------------------------------------------
+function historyEntry(
+  chatId: string,
+  from: ChatPhase | null,
+  next: NextPhase,
+): PhaseHistoryDoc {
+  return {
+    chatId,
+    from,
+    to: next.value,
+    ts: next.ts,
+    source: "auto",
+    messageId: next.messageId,
+  };
+}
+
 // -----------------------------------------------------------------------------
 // Main function
 // -----------------------------------------------------------------------------
@@ -42,7 +56,14 @@ export async function upsertChatPhaseIfAdvanced(
   // Case 1: Chat document does not exist → create new with initial phase
   // ---------------------------------------------------------------------------
   if (!snap.exists) {
-    await ref.set({ phase: next }, { merge: true });
+    const batch = db.batch();
+    batch.set(ref, { phase: next }, { merge: true });
+    batch.create(
+      ref.collection("phaseHistory").doc(),
+      historyEntry(chatId, null, next),
+    );
+    await batch.commit();
+    await syncDealStage(chatId, next.value, next.ts);
     return true;
   }
 
@@ -52,21 +73,34 @@ export async function upsertChatPhaseIfAdvanced(
   const curr = (snap.data() as any)?.phase as
     | { value: ChatPhase; ts?: Timestamp; messageId?: string }
     | undefined;
+  const pipeline = await loadPipeline((snap.data() as any)?.pipelineId);
 
   // Idempotent: skip if same phase and same messageId
   if (curr?.value === next.value && curr?.messageId === next.messageId) {
     return false;
   }
 
-  // Determine priorities
-  const currPri = curr?.value ? PHASE_PRIORITY[curr.value] : 0;
-  const nextPri = PHASE_PRIORITY[next.value];
+  // Terminal (outcome) stages are only changed explicitly
+  if (curr?.value && isTerminalStage(pipeline, curr.value)) {
+    return false;
+  }
+
+  // Determine priorities (stage order; 0 = not in the pipeline)
+  const currPri = stageRank(pipeline, curr?.value);
+  const nextPri = stageRank(pipeline, next.value);
 
   // ---------------------------------------------------------------------------
   // Case 3: Update only if phase advances (monotonic increase)
   // ---------------------------------------------------------------------------
-  if (nextPri > currPri || !curr?.value) {
-    await ref.update({ phase: next });
+  if ((nextPri > currPri || !curr?.value) && nextPri > 0) {
+    const batch = db.batch();
+    batch.update(ref, { phase: next });
+    batch.create(
+      ref.collection("phaseHistory").doc(),
+      historyEntry(chatId, curr?.value ?? null, next),
+    );
+    await batch.commit();
+    await syncDealStage(chatId, next.value, next.ts, pipeline.pipelineId);
     return true;
   }
 
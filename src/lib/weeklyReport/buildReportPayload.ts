@@ -14,7 +14,12 @@ import { Timestamp, QueryDocumentSnapshot } from "firebase-admin/firestore";
 import { db } from "../firebase.js";
 import { loadReportAiSectionPrompt } from "./promptLoader.js";
 import type { MessageType } from "../../types/message.js";
-import { isFromInternal } from "../isInternal.js";
+import { isFromInternal, loadInternalMembers } from "../isInternal.js";
+import {
+  JP_CALENDAR,
+  MAX_BUSINESS_DAY_SCAN,
+  type BusinessCalendar,
+} from "../calendar/businessCalendar.js";
 
 // ===== Types =====
 
@@ -44,6 +49,8 @@ export type BuildOptions = {
   startISO?: string;
   endISO?: string;
   tz?: string; // e.g., "Asia/Tokyo" (stored only)
+  businessDays?: number; // window = last N business days instead of 7 calendar days
+  calendar?: BusinessCalendar; // for businessDays (default: built-in JP calendar)
 };
 
 /** Vertex (Gemini) compatible request body (JSON-in/JSON-out). */
@@ -217,6 +224,7 @@ async function fetchWeeklyMessages(
   const startTs = Timestamp.fromDate(new Date(startISO));
   const endTs = Timestamp.fromDate(new Date(endISO));
   const col = db.collection("tg_chats").doc(chatId).collection("messages");
+  await loadInternalMembers(); // for isFromInternal below
 
   const snap = await col
     .where("sentAt", ">=", startTs)
@@ -318,6 +326,8 @@ async function fetchWeeklyMessages(
 /**
  * Compute [startISO, endISO] in JST.
  * - Default: end = today 00:00 JST, start = end - 7 days.
+ * - With opts.businessDays = N: start = 00:00 JST of the N-th business day
+ *   before end (weekends / holidays of opts.calendar widen the window).
  * - If opts.startISO & opts.endISO are provided, use those verbatim.
  */
 export function computePeriod(opts: BuildOptions) {
@@ -337,7 +347,22 @@ export function computePeriod(opts: BuildOptions) {
 
   // "today 00:00" in JST
   const endLocalMs = Date.UTC(y, m, d, 0, 0, 0);
-  const startLocalMs = endLocalMs - 7 * 86_400_000; // 7 days
+  let startLocalMs = endLocalMs - 7 * 86_400_000; // 7 days
+  if (opts.businessDays && opts.businessDays > 0) {
+    const calendar = opts.calendar ?? JP_CALENDAR;
+    let counted = 0;
+    startLocalMs = endLocalMs;
+    // Capped scan (a calendar without business days would never finish)
+    for (
+      let scanned = 0;
+      counted < opts.businessDays && scanned < MAX_BUSINESS_DAY_SCAN;
+      scanned++
+    ) {
+      startLocalMs -= 86_400_000;
+      const dayKey = new Date(startLocalMs).toISOString().slice(0, 10);
+      if (calendar.isBusinessDay(dayKey)) counted++;
+    }
+  }
 
   const endISO = toIsoWithOffset(endLocalMs, OFFSET_MIN);
   const startISO = toIsoWithOffset(startLocalMs, OFFSET_MIN);
@@ -11,6 +11,9 @@
 //   startISO?: string (optional; ISO-8601 with offset)
 //   endISO?: string   (optional; ISO-8601 with offset)
 //   tz?: string       (optional; stored as label; default "Asia/Tokyo")
+//   businessDays?: number (optional; last N business days instead of 7 days;
+//                          default: the setting's businessDays)
+//   calendarId?: string   (optional; calendar for businessDays; default: setting's or "jp")
 //   dryRun?: boolean  (optional; default true)                // if true, do NOT persist
 //   notifySlack?: boolean (optional; default false)           // if true, send Slack
 //
@@ -29,6 +32,7 @@ import { summarizeWithAI } from "../summarizeWithAI.js";
 import { saveReportToFirestore } from "../saveReportToFirestore.js";
 import { sendReportToSlack } from "../sendReportToSlack.js";
 import { updateReportStatus } from "../updateReportStatus.js";
+import { loadCalendar } from "../../calendar/loadCalendar.js";
 import type { BuildOptions as PayloadBuildOptions } from "../buildReportPayload.js";
 
 // -----------------------------------------------------------------------------
@@ -40,6 +44,8 @@ type RunRequestBody = {
   startISO?: string;
   endISO?: string;
   tz?: string;
+  businessDays?: number;
+  calendarId?: string;
   dryRun?: boolean;
   notifySlack?: boolean;
 };
@@ -78,6 +84,8 @@ export async function handleRunCommand(req: Request, res: Response) {
       startISO,
       endISO,
       tz,
+      businessDays,
+      calendarId,
       dryRun = true,
       notifySlack = false,
     } = (req.body ?? {}) as RunRequestBody;
@@ -113,9 +121,19 @@ export async function handleRunCommand(req: Request, res: Response) {
     // -------------------------------------------------------------------------
     // 2) Period resolution (transparent in response)
     //    NOTE: computePeriod() uses provided start/end if both present,
-    //          else falls back to JST default window (today 00:00, minus 7 days).
-    // -------------------------------------------------------------------------
-    const period = computePeriod(makeOpts(startISO, endISO, tz));
+    //          else falls back to JST default window (today 00:00, minus 7 days,
+    //          or minus N business days when businessDays is set).
+    // -------------------------------------------------------------------------
+    const days = businessDays ?? setting.businessDays;
+    const period = computePeriod({
+      ...makeOpts(startISO, endISO, tz),
+      ...(typeof days === "number" && days > 0
+        ? {
+            businessDays: days,
+            calendar: await loadCalendar(calendarId ?? setting.calendarId),
+          }
+        : {}),
+    });
 
     // -------------------------------------------------------------------------
     // 3) Build AI payload (internally fetches messages in [startISO, endISO))
@@ -5,7 +5,7 @@
 //    - Build AI input payload (fetch messages internally)
 //    - Call Vertex AI to summarize
 //    - Persist the result to Firestore (per chat subcollection)
-//    - Send a formatted message to Slack
+//    - Send a formatted message to Slack (mentioning the chat's owners)
 //    - Update execution status on the setting doc
 // Notes:
 // - Keep it simple and sequential for clarity.
@@ -19,6 +19,8 @@ import { summarizeWithAI } from "./summarizeWithAI.js";
 import { saveReportToFirestore } from "./saveReportToFirestore.js";
 import { sendReportToSlack } from "./sendReportToSlack.js";
 import { updateReportStatus } from "./updateReportStatus.js";
+import { loadCalendar } from "../calendar/loadCalendar.js";
+import { ownerSlackMentions } from "../chats/ownership.js";
 
 /**
  * Entry point for the weekly report job.
@@ -59,10 +61,17 @@ export async function runWeeklyReport(): Promise<void> {
       // -----------------------------------------------------------------------
       // Step 3 + 4. Fetch messages & build AI request payload
       // - buildReportPayload internally loads messages for the recent window
+      //   (last 7 days, or the last `businessDays` business days)
       // -----------------------------------------------------------------------
       const { body, isNoMessages } = await buildReportPayload(
         setting.target.id,
         setting.name,
+        setting.businessDays
+          ? {
+              businessDays: setting.businessDays,
+              calendar: await loadCalendar(setting.calendarId),
+            }
+          : {},
       );
 
       // -----------------------------------------------------------------------
@@ -83,11 +92,16 @@ export async function runWeeklyReport(): Promise<void> {
       // -----------------------------------------------------------------------
       // Step 7. Deliver to Slack (only when there were messages)
       // - Prefer input.target.name for a human-readable title
+      // - Mentions the chat's owners (tg_chats/{chatId}.ownership)
       // -----------------------------------------------------------------------
       const hasBullets =
         Array.isArray(result.bullets) && result.bullets.length > 0;
       if (!isNoMessages && hasBullets) {
-        await sendReportToSlack(result, setting.name);
+        await sendReportToSlack(
+          result,
+          setting.name,
+          await ownerSlackMentions(setting.target.id),
+        );
         console.log("✅ Report delivered to Slack.");
       } else {
         console.log(
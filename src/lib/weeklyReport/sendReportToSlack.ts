@@ -19,11 +19,14 @@
 // }
 // -----------------------------------------------------------------------------
 
+import { routeSlackMentions } from "../routing/resolveRecipients.js";
+
 /**
  * Sends a formatted report message to Slack using an Incoming Webhook.
  *
  * @param result - Object returned from summarizeWithAI() (includes summary and bullets)
  * @param chatTitle - Title or name of the Telegram chat
+ * @param ownerMentions - Slack mentions of the chat's owners (optional)
  */
 export async function sendReportToSlack(
   result: {
@@ -48,6 +51,7 @@ export async function sendReportToSlack(
     finishReason: string;
   },
   chatTitle: string,
+  ownerMentions?: string,
 ): Promise<void> {
   try {
     const webhookUrlSecond = process.env.SLACK_WEBHOOK_URL_SECOND;
@@ -60,6 +64,7 @@ export async function sendReportToSlack(
     // Header
     lines.push(`📑 *Weekly Report Summary*`);
     lines.push(`Chat: *${chatTitle}*`);
+    if (ownerMentions) lines.push(`Owner: ${ownerMentions}`);
     lines.push("━━━━━━━━━━━━━━━");
     lines.push("");
     // lines.push(`*Summary:*`);
@@ -68,14 +73,15 @@ export async function sendReportToSlack(
 
     const r = result.finishReason ?? "UNKNOWN";
     if (r !== "STOP") {
-      const mention = "<@U02A6MHJSMP>"; // Mention "Pochi"
+      // Mention the "weekly_report_status" route (ops on-call by default)
+      const mention = await routeSlackMentions("weekly_report_status");
       const status =
         r === "MAX_TOKENS" || r === "LENGTH"
           ? "⚠️ Output was truncated (auto-recovered)"
           : r === "CONTENT_FILTERED"
             ? "🚫 Blocked by safety filter"
             : `❓ ${r}`;
-      lines.push(`${mention} *Status:* ${status}`);
+      lines.push(`${mention ? `${mention} ` : ""}*Status:* ${status}`);
       lines.push("");
     }
 
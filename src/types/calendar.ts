@@ -0,0 +1,53 @@
+// Firestore document: calendars/{calendarId}
+// - Each document defines one business-day calendar (e.g. "jp", "in").
+// - Business day = not a weekend day, not a public holiday of the built-in
+//   table (`publicHolidays`), and not a company holiday (holidays subcollection).
+// - When no document exists for "jp", the built-in Japanese calendar applies
+//   (see lib/calendar/loadCalendar.ts).
+// - Timestamps are Firestore Timestamp (UTC).
+
+import { Timestamp } from "firebase-admin/firestore";
+
+// -----------------------------------------------------------------------------
+// Core types
+// -----------------------------------------------------------------------------
+
+// Built-in public holiday tables ("none" → company holidays only)
+export type PublicHolidayTable = "jp" | "none";
+
+// -----------------------------------------------------------------------------
+// Main Document
+// -----------------------------------------------------------------------------
+export interface CalendarDoc {
+  // --- Identity ---
+  calendarId: string; // doc id (slug, e.g. "jp", "in")
+  name: string; // human-readable label (e.g. "Japan (HQ)")
+
+  // --- Rules ---
+  publicHolidays: PublicHolidayTable; // built-in public holiday table
+  weekendDays: number[]; // 0=Sun … 6=Sat (e.g. [0, 6])
+
+  // --- Audit ---
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  updatedBy?: string | null; // free-form actor label (email, Slack ID, etc.)
+}
+
+// Calendar definition without Firestore metadata (built-in defaults)
+export type CalendarDef = Omit<
+  CalendarDoc,
+  "createdAt" | "updatedAt" | "updatedBy"
+>;
+
+// Firestore document: calendars/{calendarId}/holidays/{date}
+// - One document per company holiday / shutdown day (e.g. Obon, New Year).
+// - date is the doc id ("YYYY-MM-DD", calendar date in the calendar's region).
+
+export interface CalendarHolidayDoc {
+  date: string; // "YYYY-MM-DD" (doc id)
+  name: string; // e.g. "Obon shutdown"
+
+  // --- Audit ---
+  createdAt: Timestamp;
+  updatedBy?: string | null;
+}
@@ -4,34 +4,32 @@
 
 import { Timestamp } from "firebase-admin/firestore";
 import type { MessageType } from "./message.js";
-import type { NotificationType } from "./notification.js";
 
 export type ChatStatus = "active" | "archived";
 export type ChatTag = "Defi" | "Japan" | "Game" | "NFT" | "Other";
 export type ChatType = "private" | "group" | "supergroup" | "channel" | string;
 
 // -----------------------------------------------------------------------------
-// High-level lifecycle phase of the chat.
-// Determined based on the existence of specific follow-up notification types.
+// High-level lifecycle phase of the chat: a stage ID of the chat's sales
+// pipeline (pipelines/{pipelineId}; see types/pipeline.ts). The built-in
+// default pipeline has BotAdded → CalendlyLinkShared → ProposalSent →
+// AgreementSent → InvoiceSent, plus the outcomes OnHold / Won / Lost.
+// Advanced by the stage triggers, or set explicitly (admin API, /phase).
 // -----------------------------------------------------------------------------
 
-export type ChatPhase =
-  | "BotAdded" // Exists: follow_up_bot_join_call_check notification
-  | "CalendlyLinkShared" // Exists: follow_up_calendly notification
-  | "ProposalSent" // Exists: follow_up_proposal_1st notification
-  | "AgreementSent" // Exists: follow_up_agreement_1st notification
-  | "InvoiceSent"; // Exists: follow_up_invoice_1st notification
+export type ChatPhase = string;
 
-// -----------------------------------------------------------------------------
-// Map follow-up job types → ChatPhase (only base/1st types advance the phase)
-// -----------------------------------------------------------------------------
-export const PHASE_BY_NOTIF: Partial<Record<NotificationType, ChatPhase>> = {
-  follow_up_bot_join_call_check: "BotAdded",
-  follow_up_calendly: "CalendlyLinkShared",
-  follow_up_proposal_1st: "ProposalSent",
-  follow_up_agreement_1st: "AgreementSent",
-  follow_up_invoice_1st: "InvoiceSent",
-};
+// Reason codes of an explicit phase change
+export const PHASE_CHANGE_REASONS = [
+  "closed_won",
+  "closed_lost",
+  "on_hold",
+  "false_positive", // a keyword advanced the phase by mistake
+  "correction",
+  "reopened",
+  "other",
+] as const;
+export type PhaseChangeReason = (typeof PHASE_CHANGE_REASONS)[number];
 
 interface AggregatedPeriod {
   // Pre-computed totals for a rolling window (e.g., last 7/30/90 days).
@@ -111,13 +109,21 @@ export interface ChatRoomDoc {
   chatType: ChatType; // "group" | "supergroup" | "channel" | ...
   title: string; // Chat display name
   tags: ChatTag[]; // Optional classification labels (e.g., ["Defi", "Japan"])
+  botKey?: string; // Bot handling the chat (lib/telegram/bots.ts; absent = "default")
 
   // --- Lifecycle / state ---
   status: ChatStatus; // "active" while bot is in the chat; "archived" when removed
+  pipelineId?: string; // pipelines/{pipelineId} the phase belongs to (default: "default")
   phase: {
     value: ChatPhase; // Current lifecycle phase (e.g., "BotAdded", "InvoiceSent", etc.)
     ts: Timestamp; // Time when this phase was set
-    messageId: string; // Trigger message ID that caused this phase
+    messageId: string; // Trigger message ID that caused this phase ("" when set via the API)
+    override?: {
+      // Present when the phase was set explicitly (not by a follow-up trigger)
+      reason: PhaseChangeReason;
+      note: string | null;
+      actor: string; // e.g. "api:ops@example.com", "tg:123456", "slack:U0123"
+    };
   };
 
   botActivityHistory: Array<{
@@ -133,6 +139,53 @@ export interface ChatRoomDoc {
   // --- Analytics ---
   stats: ChatStats;
 
+  // --- Follow-up automation ---
+  followupsMuted?: {
+    muted: boolean; // true → follow-up rules create no jobs for this chat
+    ts: Timestamp; // when muted/unmuted
+    byUserId: string; // Telegram user who sent /mute or /unmute
+  };
+
+  // --- Ownership (lib/chats/ownership.ts) ---
+  ownership?: {
+    ownerPersonId: string | null; // people/{personId} responsible for the chat
+    coOwnerPersonIds: string[]; // people/{personId} who also get its reminders / alerts
+    source: "bot_added" | "manual"; // auto-assigned from the bot adder, or set via the API
+    updatedAt: Timestamp;
+    updatedBy: string; // e.g. "tg:123456", "api:ops@example.com"
+  };
+
+  // --- Stale-chat alerts (/tasks/stale-chats) ---
+  staleAlert?: {
+    alertedAt: Timestamp | null; // last time the chat was flagged
+    alertedPhase: ChatPhase | null; // phase it was flagged in
+    snoozedPhase: ChatPhase | null; // snoozed in this phase (null = not snoozed); a phase change ends the snooze
+    snoozedUntil: Timestamp | null; // not flagged again before this time (null = until the phase changes)
+    snoozedBy: string | null; // e.g. "slack:U0123"
+  };
+
   // --- Weekly reporting ---
   latestReportId: string | null; // Most recent weeklyRuns doc.id linked to this chat (null if none)
 }
+
+// Firestore document: tg_chats/{chatId}/phaseHistory/{autoId}
+// - One document per phase change (append-only), written together with
+//   tg_chats/{chatId}.phase.
+// - "created": initial BotAdded on chat creation; "auto": follow-up job
+//   trigger (upsertChatPhaseIfAdvanced); "manual": setChatPhase.
+
+export type PhaseChangeSource = "created" | "auto" | "manual";
+
+export interface PhaseHistoryDoc {
+  chatId: string;
+  from: ChatPhase | null; // previous phase (null for the first entry)
+  to: ChatPhase;
+  ts: Timestamp; // same as the new phase.ts
+  source: PhaseChangeSource;
+  messageId: string; // trigger message ("" when set via the API)
+
+  // --- Manual changes only ---
+  reason?: PhaseChangeReason;
+  note?: string | null;
+  actor?: string;
+}
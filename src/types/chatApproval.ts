@@ -0,0 +1,47 @@
+// Firestore document: chatApprovals/{chatId}
+// - One document per chat the bot was added to by a NON-internal user.
+// - While "pending", the bot stays silent in the chat (no tg_chats writes,
+//   no commands or follow-ups) until ops approves or rejects it in Slack, or
+//   the approval window (BOT_APPROVAL_WINDOW_HOURS) ends.
+// - Approving runs the normal first-time setup (lib/telegram/setupNewChat.ts);
+//   rejecting or timing out makes the bot leave the chat.
+// - A later add by an external user re-opens the same document.
+// - Timestamps are Firestore Timestamp (UTC).
+
+import { Timestamp } from "firebase-admin/firestore";
+
+// -----------------------------------------------------------------------------
+// Core types
+// -----------------------------------------------------------------------------
+
+export type ChatApprovalStatus =
+  | "pending"
+  | "approved"
+  | "rejected"
+  | "expired" // no decision within the window
+  | "removed"; // the bot was removed from the chat while pending
+
+// -----------------------------------------------------------------------------
+// Main Document
+// -----------------------------------------------------------------------------
+export interface ChatApprovalDoc {
+  // --- Identity ---
+  chatId: string; // doc id
+  title: string;
+  chatType: string;
+  botKey?: string; // bot that was added (lib/telegram/bots.ts; absent = "default")
+
+  // --- Request ---
+  status: ChatApprovalStatus;
+  addedBy: {
+    tgUserId: string;
+    label: string; // "@username (ID: …)" or full name
+  };
+  joinMessage: any; // raw Telegram `message` of the bot-join (replayed on approval)
+  requestedAt: Timestamp;
+  expiresAt: Timestamp; // window end (timeout task ETA)
+
+  // --- Decision ---
+  decidedAt: Timestamp | null;
+  decidedBy: string | null; // e.g. "slack:U0123", "system:timeout"
+}
@@ -0,0 +1,40 @@
+// Firestore document: deals/{chatId}
+// - One deal per Telegram chat (doc id = tg_chats/{chatId} id).
+// - `stage` mirrors tg_chats/{chatId}.phase.value and advances with it
+//   (see lib/telegram/updateChatPhase.ts); it is not edited directly.
+// - Money is stored as a plain number in major units of `currency`.
+// - Timestamps are Firestore Timestamp (UTC).
+
+import { Timestamp } from "firebase-admin/firestore";
+import type { ChatPhase } from "./chat.js";
+
+// -----------------------------------------------------------------------------
+// Main Document
+// -----------------------------------------------------------------------------
+export interface DealDoc {
+  // --- Identity ---
+  chatId: string; // tg_chats/{chatId} (doc id)
+
+  // --- Pipeline ---
+  pipelineId?: string; // pipelines/{pipelineId} of the chat (missing = "default")
+  stage: ChatPhase; // mirror of the chat phase (a stageId of that pipeline)
+  stageUpdatedAt: Timestamp; // when `stage` last changed
+
+  // --- Deal details (null = not estimated yet) ---
+  value: number | null; // estimated deal value (e.g. 12000)
+  currency: string | null; // ISO 4217 code (e.g. "USD", "JPY")
+  probability: number | null; // win probability, 0–100 (%)
+  expectedCloseDate: string | null; // "YYYY-MM-DD"
+  ownerPersonId: string | null; // people/{personId} responsible for the deal
+
+  // --- Audit ---
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  updatedBy?: string | null; // free-form actor label (email, Slack ID, etc.)
+}
+
+// Editable fields of a deal (admin API)
+export type DealFields = Pick<
+  DealDoc,
+  "value" | "currency" | "probability" | "expectedCloseDate" | "ownerPersonId"
+>;
@@ -0,0 +1,127 @@
+// Firestore document: followupRules/{ruleId}
+// - Each document defines one follow-up trigger (match conditions) and the
+//   reminders it schedules (steps).
+// - Rules are evaluated in descending `priority`; the first matching rule wins.
+// - When the collection has no documents, the built-in defaults apply
+//   (see lib/followupRules/defaultRules.ts).
+// - Timestamps are Firestore Timestamp (UTC).
+
+import { Timestamp } from "firebase-admin/firestore";
+import type { MessageType } from "./message.js";
+import type { NotificationType } from "./notification.js";
+
+// -----------------------------------------------------------------------------
+// Match conditions (all specified conditions must hold)
+// -----------------------------------------------------------------------------
+
+// Message fields a regex pattern can be tested against
+export type FollowupMatchField = "text" | "caption" | "fileName";
+
+export interface FollowupRuleMatch {
+  messageTypes?: MessageType[]; // any of these types (omitted → any type)
+  pattern?: string; // regex source, tested case-insensitively against `fields`
+  fields?: FollowupMatchField[]; // fields for `pattern` (default: all)
+  linkDomains?: string[]; // at least one domain must appear (e.g. "calendly.com")
+  botAdded?: boolean; // true → the bot itself must be among new_chat_members
+  internalOnly?: boolean; // sender must be an internal member (default: true)
+}
+
+// -----------------------------------------------------------------------------
+// Scheduled steps (one notification job per step)
+// -----------------------------------------------------------------------------
+export interface FollowupRuleStep {
+  type: NotificationType; // notification type of the job to create
+
+  // --- Day-based scheduling (default) ---
+  offsetDays?: number; // days after the trigger (default: 3)
+  businessDays?: boolean; // count business days only (default: true)
+  hour?: number; // hour in the recipient's local time (default: 15; JST by default)
+  minute?: number; // minute in the recipient's local time (default: 0)
+
+  // --- Hour-based scheduling (used instead of offsetDays when set) ---
+  offsetHours?: number; // hours after the trigger (e.g. 3)
+  snapWindow?: { fromHour: number; toHour: number }; // recipient's local hours; snap to toHour:00 when inside (inclusive)
+}
+
+// -----------------------------------------------------------------------------
+// Recipients (ownership routing; see lib/chats/ownership.ts)
+// -----------------------------------------------------------------------------
+
+// - "owners": the chat's owner + co-owners, else the message sender (default)
+// - "sender": the message sender only
+// - "owners_and_sender": both
+export const FOLLOWUP_RECIPIENTS = [
+  "owners",
+  "sender",
+  "owners_and_sender",
+] as const;
+export type FollowupRecipients = (typeof FOLLOWUP_RECIPIENTS)[number];
+
+// -----------------------------------------------------------------------------
+// Main Document
+// -----------------------------------------------------------------------------
+export interface FollowupRuleDoc {
+  // --- Identity ---
+  ruleId: string; // doc id (slug, e.g. "proposal")
+  name: string; // human-readable label
+
+  // --- Evaluation ---
+  enabled: boolean; // disabled rules are never evaluated
+  priority: number; // higher = evaluated first
+  match: FollowupRuleMatch;
+
+  // --- Schedule ---
+  steps: FollowupRuleStep[]; // at least one step
+  recipients?: FollowupRecipients; // who gets the reminders (default: "owners")
+
+  // --- Audit ---
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  updatedBy?: string | null; // free-form actor label (email, Slack ID, etc.)
+}
+
+// Rule definition without Firestore metadata (defaults, dry-run drafts)
+export type FollowupRuleDef = Omit<
+  FollowupRuleDoc,
+  "createdAt" | "updatedAt" | "updatedBy"
+>;
+
+// Firestore document: followupCancelRules/{ruleId}
+// - Each document defines when pending follow-up jobs of a chat are cancelled
+//   because the conversation moved on (e.g. the client replied).
+// - Evaluated against every new message in the chat; all matching rules apply.
+// - When the collection has no documents, the built-in defaults apply
+//   (see lib/followupRules/cancelRules.ts).
+
+// Who must have sent the message for the rule to apply
+export type CancelRuleSender = "internal" | "external" | "any";
+
+// -----------------------------------------------------------------------------
+// Main Document
+// -----------------------------------------------------------------------------
+export interface FollowupCancelRuleDoc {
+  // --- Identity ---
+  ruleId: string; // doc id (slug, e.g. "client_replied")
+  name: string; // human-readable label
+  enabled: boolean;
+
+  // --- Conditions (all specified conditions must hold) ---
+  sender: CancelRuleSender;
+  messageTypes?: MessageType[]; // any of these types (omitted → any type)
+  pattern?: string; // regex source, tested case-insensitively on text/caption/file name
+
+  // --- Effect ---
+  appliesTo: NotificationType[]; // pending job types to cancel
+  reason: string; // recorded on the job and the delivery log (e.g. "client_replied")
+
+  // --- Audit ---
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  updatedBy?: string | null;
+}
+
+// Cancel rule definition without Firestore metadata
+export type FollowupCancelRuleDef = Omit<
+  FollowupCancelRuleDoc,
+  "createdAt" | "updatedAt" | "updatedBy"
+>;
@@ -18,6 +18,7 @@ export interface MessageDoc {
   chatId: string; // Telegram chat.id (stringified, may be negative for groups)
   messageId: string; // Telegram message_id; also used as Firestore doc ID
   updateId: number; // Telegram update_id (mainly for debugging/order tracing)
+  botKey?: string; // Bot that received the update (absent = "default"; update_id is per bot)
 
   // --- Sender info ---
   fromUserId: string; // Telegram user.id (stringified)
@@ -20,26 +20,49 @@ export type NotificationType =
   | "follow_up_invoice_2nd"
   | "follow_up_calendly"
   | "follow_up_agreement_1st"
-  | "follow_up_agreement_2nd";
-
-// Job is always "pending" until executed, then deleted.
-export type JobStatus = "pending";
+  | "follow_up_agreement_2nd"
+  | "manual_reminder"; // set by an internal member via Telegram `/remind`
+
+// Runtime list of NotificationType values (for validating external input)
+export const NOTIFICATION_TYPES: readonly NotificationType[] = [
+  "follow_up_bot_join_call_check",
+  "follow_up_proposal_1st",
+  "follow_up_proposal_2nd",
+  "follow_up_invoice_1st",
+  "follow_up_invoice_2nd",
+  "follow_up_calendly",
+  "follow_up_agreement_1st",
+  "follow_up_agreement_2nd",
+  "manual_reminder",
+];
+
+// Job is "pending" until executed, then deleted.
+// "cancelled" jobs stay until their task fires, which logs the cancellation and deletes them.
+export type JobStatus = "pending" | "cancelled";
 
 // Supported channels
 export type NotificationChannel = "slack" | "email" | "tg";
 
 // Target definitions per channel
-interface SlackTarget {
+export interface SlackTarget {
   teamId: string; // "Txxxxxx" (workspace)
   userId: string; // "Uxxxxxx" (<@Uxxxxxx> mention target)
+  channelIds?: string[]; // "Cxxxxxx" to post in (SlackLink.prefs); none → incoming webhook
+}
+
+// Slack message posted via chat.postMessage (for threading / later edits)
+export interface SlackPost {
+  channel: string; // "Cxxxxxx"
+  ts: string; // message timestamp returned by Slack
 }
 
-interface EmailTarget {
+export interface EmailTarget {
   to: string; // recipient email address
 }
 
-interface TelegramTarget {
+export interface TelegramTarget {
   chatId: string; // TG chat or user ID
+  botKey?: string; // sending bot (lib/telegram/bots.ts; absent = "default")
 }
 
 // -----------------------------------------------------------------------------
@@ -53,7 +76,12 @@ export interface NotificationJobDoc {
 
   // --- Scheduling ---
   scheduledAt: Timestamp; // ETA execution time (UTC; e.g. 3rd day 15:00 JST converted)
-  status: JobStatus; // always "pending"
+  status: JobStatus; // "pending" or "cancelled"
+
+  // --- Cancellation (set when status === "cancelled") ---
+  cancelledAt?: Timestamp; // when the job was cancelled
+  cancelReason?: string; // e.g. "client_replied", "payment_mentioned"
+  cancelledBy?: { kind: string; id: string }; // e.g. {kind:"cancel_rule", id:"client_replied"}
 
   // --- Targets ---
   targets: {
@@ -66,6 +94,10 @@ export interface NotificationJobDoc {
   templateId?: string; // notification template (optional if fixed text)
   payload?: Record<string, unknown>; // dynamic fields for template substitution
 
+  // --- Slack threading ---
+  threadParentJobId?: string; // post as a thread reply under this job's Slack message(s)
+  slackPosts?: SlackPost[]; // messages posted so far (skipped on retry)
+
   // --- Provenance ---
   source: { kind: string; id: string }; // origin of this job (e.g. {kind:"message", id:"12345"})
 
@@ -75,7 +107,7 @@ export interface NotificationJobDoc {
 
 // Firestore document: notificationDeliveries/{deliveryId}
 // - deliveryId can be auto-generated (unique per delivery attempt).
-// - Each document represents one completed delivery attempt (success or failure).
+// - Each document represents one completed delivery attempt (success, failure or cancelled).
 // - Jobs are deleted from notificationJobs after execution; this collection is the permanent log.
 // - Timestamps are Firestore Timestamp (UTC).
 
@@ -83,7 +115,7 @@ export interface NotificationJobDoc {
 // Core types
 // -----------------------------------------------------------------------------
 
-export type DeliveryStatus = "success" | "failure";
+export type DeliveryStatus = "success" | "failure" | "cancelled";
 
 // -----------------------------------------------------------------------------
 // Main Document
@@ -103,10 +135,12 @@ export interface NotificationDeliveryDoc {
   };
 
   // --- Result ---
-  status: DeliveryStatus; // success or failure
+  status: DeliveryStatus; // success, failure or cancelled
   attempt: number; // 1 for first attempt, 2 for retry, etc.
   errorMessage?: string; // failure details (truncated if long)
+  cancelReason?: string; // copied from job.cancelReason when cancelled
   responseCode?: number; // e.g. HTTP 200, 400, 500
+  slackPosts?: SlackPost[]; // Slack messages posted via chat.postMessage (channel + ts)
 
   // --- Timing ---
   startedAt: Timestamp; // when attempt started
@@ -122,3 +156,96 @@ export interface NotificationDeliveryDoc {
   // --- Audit ---
   createdAt: Timestamp; // record creation time
 }
+
+// Firestore document: notificationActions/{actionId}
+// - One document per human action taken on a notification job
+//   (Slack "Done" / "Snooze" buttons, or the /api/notifications admin API).
+// - This is the audit trail of who changed which job and how.
+// - Kept separately because job docs are deleted after execution.
+// - Timestamps are Firestore Timestamp (UTC).
+
+// -----------------------------------------------------------------------------
+// Core types
+// -----------------------------------------------------------------------------
+
+export type NotificationActionKind =
+  | "done"
+  | "snooze"
+  | "not_relevant"
+  | "cancel" // admin API: job cancelled before it fired
+  | "reschedule" // admin API: job moved to a new ETA
+  | "send_now" // admin API: job forced to fire immediately
+  | "replay" // admin API: dead-lettered job re-created and enqueued
+  | "discard"; // admin API: dead letter closed without replay
+
+// -----------------------------------------------------------------------------
+// Main Document
+// -----------------------------------------------------------------------------
+export interface NotificationActionDoc {
+  // --- Identity ---
+  actionId: string; // doc id (auto-generated)
+  jobId: string; // job the action was taken on
+  type: NotificationType | null; // job type (null if the job could not be resolved)
+  action: NotificationActionKind;
+
+  // --- Actor ---
+  actor: { kind: "slack" | "api"; id: string; name: string | null }; // Slack user or API `actor`
+
+  // --- Effect ---
+  deletedJobIds: string[]; // chained jobs removed by this action
+  newJobId?: string; // job created by a snooze
+  newScheduledAt?: Timestamp; // ETA of the snoozed / rescheduled job
+  previousScheduledAt?: Timestamp; // ETA before a reschedule / send_now
+  reason?: string; // free-text reason given with an admin action
+
+  // --- Audit ---
+  createdAt: Timestamp;
+}
+
+// Firestore document: notificationDeadLetters/{jobId}
+// - One document per job that failed for good in /tasks/notifications
+//   (max attempts reached, non-retryable error, invalid channel/targets).
+// - Keeps the full job so it can be replayed after the cause is fixed
+//   (POST /api/notifications/dead-letters).
+// - A replayed job that fails again re-opens the same document.
+// - Timestamps are Firestore Timestamp (UTC).
+
+// -----------------------------------------------------------------------------
+// Core types
+// -----------------------------------------------------------------------------
+
+export type DeadLetterReason =
+  "max_attempts_reached" | "non_retryable" | "invalid_channel_or_targets";
+
+export type DeadLetterStatus = "open" | "replayed" | "discarded";
+
+// One delivery attempt (copied from notificationDeliveries/*)
+export interface DeadLetterAttempt {
+  attempt: number;
+  status: DeliveryStatus;
+  responseCode: number | null;
+  errorMessage: string | null;
+  finishedAt: Timestamp;
+}
+
+// -----------------------------------------------------------------------------
+// Main Document
+// -----------------------------------------------------------------------------
+export interface NotificationDeadLetterDoc {
+  // --- Identity ---
+  jobId: string; // doc id (= the failed job's id)
+  job: NotificationJobDoc; // full job as it was when it failed
+
+  // --- Failure ---
+  reason: DeadLetterReason;
+  lastError: { message: string; responseCode: number | null };
+  attempts: DeadLetterAttempt[]; // delivery history of the job, oldest first
+
+  // --- Lifecycle ---
+  status: DeadLetterStatus;
+  deadAt: Timestamp; // when the job (last) failed for good
+  notifiedAt: Timestamp | null; // included in the daily Slack digest (null = not yet)
+  replayCount: number; // times the job was replayed
+  resolvedAt?: Timestamp; // replayed / discarded at
+  resolvedBy?: string | null; // API `actor`
+}
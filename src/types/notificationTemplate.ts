@@ -0,0 +1,55 @@
+// Firestore document: notificationTemplates/{templateId}
+// - Each document is one notification message template with per-locale variants.
+// - A template applies to jobs whose `templateId` names it, or (when the job has
+//   none) to jobs of its `type`. Without a usable template the built-in text
+//   (utils/buildNotificationText.ts) is sent.
+// - Variables: {{chatTitle}} {{daysSince}} {{fileName}} {{caption}} {{mentions}}
+//   {{sentAt}} (see lib/notifications/templates.ts).
+// - Timestamps are Firestore Timestamp (UTC).
+
+import { Timestamp } from "firebase-admin/firestore";
+import type { NotificationType } from "./notification.js";
+
+// -----------------------------------------------------------------------------
+// Core types
+// -----------------------------------------------------------------------------
+
+// Supported template locales
+export type NotificationLocale = "ja" | "en";
+
+// Runtime list of NotificationLocale values (for validating external input)
+export const NOTIFICATION_LOCALES: readonly NotificationLocale[] = ["ja", "en"];
+
+// One localized variant
+export interface NotificationTemplateVariant {
+  subject?: string; // email subject (default: built-in "[Sales Ops] …" subject)
+  body: string; // Slack mrkdwn; {{mentions}} marks where Slack mentions go
+}
+
+// -----------------------------------------------------------------------------
+// Main Document
+// -----------------------------------------------------------------------------
+export interface NotificationTemplateDoc {
+  // --- Identity ---
+  templateId: string; // doc id (slug, e.g. "proposal_1st")
+  name: string; // human-readable label
+
+  // --- Matching ---
+  enabled: boolean; // false → never used (built-in text instead)
+  type: NotificationType | null; // default template for this type (null = only via job.templateId)
+
+  // --- Content ---
+  defaultLocale: NotificationLocale; // used when the recipient's locale has no variant
+  locales: Partial<Record<NotificationLocale, NotificationTemplateVariant>>;
+
+  // --- Audit ---
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  updatedBy?: string | null; // free-form actor label (email, Slack ID, etc.)
+}
+
+// Template definition without Firestore metadata
+export type NotificationTemplateDef = Omit<
+  NotificationTemplateDoc,
+  "createdAt" | "updatedAt" | "updatedBy"
+>;
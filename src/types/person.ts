@@ -4,6 +4,7 @@
 // - Keep platform links minimal (SoT = string IDs). Add references later only if needed.
 
 import { Timestamp } from "firebase-admin/firestore";
+import type { NotificationLocale } from "./notificationTemplate.js";
 
 // -----------------------------------------------------------------------------
 // Linked platform types
@@ -36,6 +37,40 @@ interface SlackLink {
   };
 }
 
+// Email link (opt-in channel for notifications)
+// - Notifications are emailed only when prefs.enabled === true
+interface EmailLink {
+  address: string; // "name@example.com"
+  prefs?: {
+    enabled?: boolean; // opt-in: receive notification emails
+  };
+}
+
+// Channels a person receives reminders on (email is opt-in via EmailLink.prefs)
+// - "tg" is a Telegram DM; the person must have started a private chat with the bot
+export type PersonNotifyChannel = "slack" | "tg";
+
+// Local working hours [startHour, endHour) in the person's time zone
+// - Reminders scheduled outside move to startHour:00 (next business day if needed)
+export interface WorkingHours {
+  startHour: number; // e.g. 9
+  endHour: number; // e.g. 18
+}
+
+// Internal team membership (lib/team/internalMembers.ts)
+// - Internal members may add the bot, run bot commands and trigger follow-ups
+// - Roles: "sales" (default), "bd_lead", "admin"
+export const INTERNAL_ROLES = ["sales", "bd_lead", "admin"] as const;
+export type InternalRole = (typeof INTERNAL_ROLES)[number];
+
+export interface InternalMembership {
+  active: boolean; // false = removed (kept for history)
+  roles: InternalRole[];
+  since: Timestamp; // first time the person became a member
+  updatedAt: Timestamp;
+  updatedBy: string; // e.g. "api:ops@example.com"
+}
+
 // -----------------------------------------------------------------------------
 // Main Document
 // -----------------------------------------------------------------------------
@@ -47,8 +82,37 @@ export interface PersonDoc {
   // --- Linked accounts ---
   telegram?: TelegramLink; // single TG account (optional)
   slack?: SlackLink[]; // allow multiple workspaces (0..n)
+  email?: EmailLink; // single address (optional; opt-in via prefs.enabled)
+
+  // --- Team ---
+  internal?: InternalMembership; // omitted = external / never a member
+
+  // --- Notification routing ---
+  notifyChannels?: PersonNotifyChannel[]; // default ["slack"]; e.g. ["tg"], ["slack","tg"]
+  calendarId?: string; // calendars/{calendarId} for business days (default "jp")
+  timezone?: string; // IANA zone for schedules & timestamps (default "Asia/Tokyo")
+  workingHours?: WorkingHours; // local; omitted → no clamping
+  locale?: NotificationLocale; // notification template language (default: template's defaultLocale)
 
   // --- Ops ---
   createdAt: Timestamp; // first time this person was created
   updatedAt: Timestamp; // last time this doc was updated
 }
+
+// Firestore document: internalMemberChanges/{changeId}
+// - One document per membership change made via POST /api/team/members
+//   (add / remove / roles / seed); the audit trail of who changed what.
+// - Timestamps are Firestore Timestamp (UTC).
+
+export type InternalMemberChangeKind = "add" | "remove" | "set_roles" | "seed";
+
+export interface InternalMemberChangeDoc {
+  changeId: string; // doc id (auto-generated)
+  personId: string;
+  tgUserId: string | null; // telegram.userId at the time of the change
+  action: InternalMemberChangeKind;
+  before: { active: boolean; roles: InternalRole[] } | null; // null = never a member
+  after: { active: boolean; roles: InternalRole[] };
+  actor: string;
+  createdAt: Timestamp;
+}
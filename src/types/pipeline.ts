@@ -0,0 +1,59 @@
+// Firestore document: pipelines/{pipelineId}
+// - Each document defines one sales pipeline: ordered stages, their display
+//   names, and the triggers that advance a chat to each stage.
+// - A chat uses the pipeline of tg_chats/{chatId}.pipelineId (set via
+//   POST /api/pipelines "assign"), else "default".
+// - When no document exists for "default", the built-in pipeline applies
+//   (see lib/pipelines/defaultPipeline.ts).
+// - Timestamps are Firestore Timestamp (UTC).
+
+import { Timestamp } from "firebase-admin/firestore";
+import type { NotificationType } from "./notification.js";
+
+// -----------------------------------------------------------------------------
+// Stages
+// -----------------------------------------------------------------------------
+
+// Outcome stages are terminal: automatic advances stop and pending
+// follow-ups are cancelled when a chat gets there (manual changes only).
+export const STAGE_OUTCOMES = ["won", "lost", "on_hold"] as const;
+export type StageOutcome = (typeof STAGE_OUTCOMES)[number];
+
+// What advances a chat to a stage (any of; automatic advances are monotonic)
+export interface PipelineStageTriggers {
+  notificationTypes?: NotificationType[]; // a follow-up job of these types is created
+  ruleIds?: string[]; // a follow-up rule (followupRules/{ruleId}) matched
+  keywords?: string[]; // message text / caption by an internal member contains one as a whole word (case-insensitive)
+  manual?: boolean; // may be set via the API / `/phase` (default: true)
+}
+
+export interface PipelineStage {
+  stageId: string; // stored as tg_chats/{chatId}.phase.value (e.g. "ProposalSent")
+  name: string; // display name (Sheets, Slack, Telegram)
+  outcome?: StageOutcome | null; // terminal stage (null / omitted → regular stage)
+  triggers: PipelineStageTriggers;
+  staleAfterBusinessDays?: number | null; // stale-chat alert threshold (null / omitted → never stale)
+}
+
+// -----------------------------------------------------------------------------
+// Main Document
+// -----------------------------------------------------------------------------
+export interface PipelineDoc {
+  // --- Identity ---
+  pipelineId: string; // doc id (slug, e.g. "default", "jp-enterprise")
+  name: string; // human-readable label (e.g. "JP Enterprise")
+
+  // --- Stages (lifecycle order; regular stages first, outcomes last) ---
+  stages: PipelineStage[];
+
+  // --- Audit ---
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  updatedBy?: string | null; // free-form actor label (email, Slack ID, etc.)
+}
+
+// Pipeline definition without Firestore metadata (built-in default)
+export type PipelineDef = Omit<
+  PipelineDoc,
+  "createdAt" | "updatedAt" | "updatedBy"
+>;
@@ -29,6 +29,12 @@ export interface ReportSetting {
   /** Target entity for which the report is generated */
   target: ReportTarget;
 
+  // --- Period (optional; default: last 7 calendar days) ---
+  /** Cover the last N business days instead (skips weekends & holidays) */
+  businessDays?: number;
+  /** Business-day calendar for `businessDays` (calendars/{id}; default "jp") */
+  calendarId?: string;
+
   // --- Output destinations (optional; falls back to code defaults) ---
   output: {
     slack?: { channel: string };
@@ -0,0 +1,84 @@
+// Firestore document: recipientRoutes/{routeKey}
+// - One document per alert / notification type: who receives it, by role,
+//   on-call rotation or explicit person (resolved via people/*.slack).
+// - routeKey is a NotificationType (follow-up reminders of that type go to
+//   the route instead of the chat's owners) or an AlertType (Slack alerts).
+// - Built-in routes apply while no document exists
+//   (see lib/routing/defaultRoutes.ts).
+// - Timestamps are Firestore Timestamp (UTC).
+
+import { Timestamp } from "firebase-admin/firestore";
+import type { NotificationType } from "./notification.js";
+import type { InternalRole } from "./person.js";
+
+// -----------------------------------------------------------------------------
+// Core types
+// -----------------------------------------------------------------------------
+
+// System alerts posted to Slack (mentions only; the channel is the webhook's)
+export const ALERT_TYPES = [
+  "sheets_sync_failed", // /api/sheets/sync error (lib/sheets/sendSlackAlert.ts)
+  "weekly_report_status", // AI report truncated / filtered (sendReportToSlack)
+] as const;
+export type AlertType = (typeof ALERT_TYPES)[number];
+
+export type RouteKey = NotificationType | AlertType;
+
+// One recipient entry of a route
+// - role:     active internal members with the role (people/*.internal.roles)
+// - rotation: whoever is on duty today in onCallRotations/{rotationId}
+// - person:   one people/{personId}
+export type RouteRecipient =
+  | { type: "role"; role: InternalRole }
+  | { type: "rotation"; rotationId: string }
+  | { type: "person"; personId: string };
+
+// -----------------------------------------------------------------------------
+// Main Document
+// -----------------------------------------------------------------------------
+export interface RecipientRouteDoc {
+  routeKey: RouteKey; // doc id
+  recipients: RouteRecipient[]; // union of all entries (deduped)
+  fallback?: RouteRecipient[]; // used when `recipients` resolve to nobody
+
+  // --- Audit ---
+  updatedAt: Timestamp;
+  updatedBy?: string | null;
+}
+
+// Route definition without Firestore metadata (built-in defaults)
+export type RecipientRouteDef = Omit<
+  RecipientRouteDoc,
+  "updatedAt" | "updatedBy"
+>;
+
+// Firestore document: onCallRotations/{rotationId}
+// - An ordered list of people taking turns in fixed-length shifts (e.g. the
+//   weekly "ops_oncall" duty), starting on `startDate` with personIds[0].
+// - Overrides replace the scheduled person for a date range (swaps, leave).
+// - Dates are "YYYY-MM-DD" local dates in `timeZone` (default Asia/Tokyo).
+
+export interface OnCallOverride {
+  from: string; // first date (inclusive)
+  to: string; // last date (inclusive)
+  personId: string;
+}
+
+export interface OnCallRotationDoc {
+  rotationId: string; // doc id (slug, e.g. "ops_oncall")
+  name: string;
+  personIds: string[]; // people/{personId}, in duty order
+  startDate: string; // first day of personIds[0]'s first shift (e.g. a Monday)
+  shiftDays: number; // shift length in days (7 = weekly)
+  timeZone?: string; // IANA zone for dates (default "Asia/Tokyo")
+  overrides?: OnCallOverride[];
+
+  // --- Audit ---
+  updatedAt: Timestamp;
+  updatedBy?: string | null;
+}
+
+export type OnCallRotationDef = Omit<
+  OnCallRotationDoc,
+  "updatedAt" | "updatedBy"
+>;
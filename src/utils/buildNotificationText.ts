@@ -79,6 +79,12 @@ It's been 4 days since you sent the agreement in *"${chatTitle}"*.
 ${baseInfo}
 If there has been no update, please reach out again.`;
 
+    // --- Manual reminder (Telegram `/remind`; caption carries the note) -------
+    case "manual_reminder":
+      return `${mentions}
+⏰ Reminder you set in *"${chatTitle}"* on *${createdAt}*:
+> ${caption || "(no note)"}`;
+
     // --- Fallback (should not normally occur) --------------------------------
     default:
       return `${mentions}
@@ -0,0 +1,20 @@
+// -----------------------------------------------------------------------------
+// Small statistics helpers (analytics / funnel reports)
+// -----------------------------------------------------------------------------
+
+/** Nearest-rank percentile of sorted values (null when empty). */
+export function percentile(sorted: number[], p: number): number | null {
+  if (!sorted.length) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1]!;
+}
+
+/** Ratio rounded to 4 decimals (null when the denominator is 0). */
+export function ratio(n: number, d: number): number | null {
+  return d ? Math.round((n / d) * 10_000) / 10_000 : null;
+}
+
+/** Ratio → "42.5%" (`empty` when unknown). */
+export function formatPercent(v: number | null, empty = "-"): string {
+  return v === null ? empty : `${Math.round(v * 1000) / 10}%`;
+}
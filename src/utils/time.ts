@@ -1,51 +1,200 @@
 // -----------------------------------------------------------------------------
-// Returns a Firestore Timestamp scheduled in JST with flexible options.
+// Returns a Firestore Timestamp scheduled in a recipient's local time
+// (default JST) with flexible options.
+// - Wall-clock math uses IANA time zones via Intl (DST-aware)
+// - Business days come from a BusinessCalendar (weekends + holidays;
+//   default: built-in JP calendar, see lib/calendar)
+// - Optional working hours move results into the recipient's working window
 // -----------------------------------------------------------------------------
 
 import { Timestamp } from "firebase-admin/firestore";
+import {
+  JP_CALENDAR,
+  MAX_BUSINESS_DAY_SCAN,
+  type BusinessCalendar,
+} from "../lib/calendar/businessCalendar.js";
+import type { WorkingHours } from "../types/person.js";
+
+/** Default zone for schedules and rendered timestamps (HQ). */
+export const DEFAULT_TIME_ZONE = "Asia/Tokyo";
 
-const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
 const ONE_DAY_MS = 24 * 60 * 60 * 1000;
 
 type ScheduleOpts = {
   /** Number of days to add (calendar/business). Default: 3 */
   days?: number;
-  /** Hour in JST. Default: 15 */
+  /** Hour in local time. Default: 15 */
   hour?: number;
-  /** Minute in JST. Default: 0 */
+  /** Minute in local time. Default: 0 */
   minute?: number;
-  /** Count only business days (skip Sat/Sun). Default: true */
+  /** Count only business days (skip weekends & holidays). Default: true */
   businessDays?: boolean;
+  /** Calendar for business days. Default: built-in JP calendar */
+  calendar?: BusinessCalendar;
+  /** IANA time zone of the recipient. Default: Asia/Tokyo */
+  timeZone?: string;
+  /** Recipient's working hours (local); results outside are moved inside */
+  workingHours?: WorkingHours;
 };
 
-/** Add N days (calendar or business) to a JST calendar date. */
-function addDaysJST(
+// --- Time zone helpers ---
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/** True if `timeZone` is a valid IANA zone name (e.g. "Asia/Kolkata"). */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock components of an instant in a time zone (month is 0-based). */
+function zonedParts(ms: number, timeZone: string) {
+  let fmt = partsFormatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    partsFormatters.set(timeZone, fmt);
+  }
+  const p: Record<string, number> = {};
+  for (const { type, value } of fmt.formatToParts(new Date(ms))) {
+    p[type] = Number(value);
+  }
+  return {
+    y: p.year!,
+    m: p.month! - 1,
+    d: p.day!,
+    h: p.hour!,
+    min: p.minute!,
+    s: p.second!,
+  };
+}
+
+/** Offset (ms) of a time zone at an instant (local wall clock − UTC). */
+function zoneOffsetMs(ms: number, timeZone: string): number {
+  const p = zonedParts(ms, timeZone);
+  return (
+    Date.UTC(p.y, p.m, p.d, p.h, p.min, p.s) -
+    (ms - (((ms % 1000) + 1000) % 1000))
+  );
+}
+
+/** UTC millis of a local wall-clock time in a time zone. */
+function zonedTimeToUtc(
+  y: number,
+  m: number,
+  d: number,
+  hour: number,
+  minute: number,
+  timeZone: string,
+): number {
+  const asUtc = Date.UTC(y, m, d, hour, minute, 0, 0);
+  // Two passes settle the offset around DST transitions
+  const guess = asUtc - zoneOffsetMs(asUtc, timeZone);
+  return asUtc - zoneOffsetMs(guess, timeZone);
+}
+
+/** Local calendar date of an instant, as a 00:00Z placeholder Date. */
+function localDayAt00Z(ms: number, timeZone: string): Date {
+  const p = zonedParts(ms, timeZone);
+  return new Date(Date.UTC(p.y, p.m, p.d));
+}
+
+/** `hour:minute` local time on a local calendar date (00:00Z placeholder). */
+function atLocalTime(
+  dayAt00Z: Date,
+  hour: number,
+  minute: number,
+  timeZone: string,
+): number {
+  return zonedTimeToUtc(
+    dayAt00Z.getUTCFullYear(),
+    dayAt00Z.getUTCMonth(),
+    dayAt00Z.getUTCDate(),
+    hour,
+    minute,
+    timeZone,
+  );
+}
+
+/** Add N days (calendar or business) to a local calendar date. */
+function addDays(
   baseUTCDateAt00Z: Date,
   days: number,
-  businessDays: boolean,
+  calendar: BusinessCalendar | null,
 ): Date {
-  if (!businessDays)
+  if (!calendar)
     return new Date(baseUTCDateAt00Z.getTime() + days * ONE_DAY_MS);
 
   let d = 0;
-  let cur = new Date(baseUTCDateAt00Z); // represents JST calendar date (Y/M/D) at 00:00Z placeholder
-  while (d < days) {
+  let cur = new Date(baseUTCDateAt00Z); // represents a local calendar date (Y/M/D) at 00:00Z placeholder
+  for (let scanned = 0; d < days; scanned++) {
+    if (scanned >= MAX_BUSINESS_DAY_SCAN) {
+      console.warn(
+        `[time] no ${days} business days within ${MAX_BUSINESS_DAY_SCAN} days (${calendar.calendarId})`,
+      );
+      break;
+    }
     cur = new Date(cur.getTime() + ONE_DAY_MS);
-    const dow = cur.getUTCDay(); // 0=Sun, 6=Sat (calendar-day is timezone-agnostic)
-    if (dow !== 0 && dow !== 6) d++;
+    // calendar-day key is timezone-agnostic ("YYYY-MM-DD" of the placeholder)
+    if (calendar.isBusinessDay(toUtcDayKey(cur.getTime()))) d++;
   }
   return cur;
 }
 
 /**
- * Schedule time in JST with options.
+ * Move an instant into the recipient's working hours.
+ * - Inside [startHour, endHour) on a business day → unchanged
+ * - Before startHour on a business day → startHour:00 the same day
+ * - Otherwise → startHour:00 on the next business day
+ */
+function clampToWorkingHours(
+  ms: number,
+  workingHours: WorkingHours,
+  calendar: BusinessCalendar,
+  timeZone: string,
+): number {
+  const day = localDayAt00Z(ms, timeZone);
+  const { h } = zonedParts(ms, timeZone);
+  const businessDay = calendar.isBusinessDay(toUtcDayKey(day.getTime()));
+
+  if (businessDay && h >= workingHours.startHour && h < workingHours.endHour) {
+    return ms;
+  }
+  if (businessDay && h < workingHours.startHour) {
+    return atLocalTime(day, workingHours.startHour, 0, timeZone);
+  }
+  return atLocalTime(
+    addDays(day, 1, calendar),
+    workingHours.startHour,
+    0,
+    timeZone,
+  );
+}
+
+// --- Schedulers ---
+
+/**
+ * Schedule time in the recipient's local time with options.
  * Keeps current behavior by default: 3 business days later at 15:00 JST.
  *
  * @param sentAt  Original event time (Date in UTC)
- * @param opts    Optional overrides (days/hour/minute/businessDays)
+ * @param opts    Optional overrides (days/hour/minute/businessDays/calendar/
+ *                timeZone/workingHours)
  * @returns       Firestore Timestamp at the computed UTC instant
  */
-export function scheduleAtJST(
+export function scheduleAtLocal(
   sentAt: Date,
   opts: ScheduleOpts = {},
 ): Timestamp {
@@ -53,33 +202,93 @@ export function scheduleAtJST(
   const hour = opts.hour ?? 15;
   const minute = opts.minute ?? 0;
   const businessDays = opts.businessDays ?? true;
+  const timeZone = opts.timeZone ?? DEFAULT_TIME_ZONE;
+  const calendar = opts.calendar ?? JP_CALENDAR;
 
-  // Convert to JST calendar components by shifting the clock
-  const jst = new Date(sentAt.getTime() + JST_OFFSET_MS);
-  const y = jst.getUTCFullYear();
-  const m = jst.getUTCMonth();
-  const d = jst.getUTCDate();
+  // Advance days (calendar/business) on the local calendar
+  const base = localDayAt00Z(sentAt.getTime(), timeZone);
+  const target = addDays(base, days, businessDays ? calendar : null);
 
-  // Base JST "midnight" as a calendar anchor (stored as UTC 00:00Z of that JST date)
-  const baseJSTCalendarAt00Z = new Date(Date.UTC(y, m, d, 0, 0, 0, 0));
+  // "hour:minute" local time on that date → UTC
+  let ms = atLocalTime(target, hour, minute, timeZone);
+  if (opts.workingHours) {
+    ms = clampToWorkingHours(ms, opts.workingHours, calendar, timeZone);
+  }
+  return Timestamp.fromMillis(ms);
+}
 
-  // Advance days (calendar/business) on JST calendar
-  const targetJSTCalendarAt00Z = addDaysJST(
-    baseJSTCalendarAt00Z,
-    days,
-    businessDays,
-  );
+/**
+ * Schedule time in JST (scheduleAtLocal with timeZone "Asia/Tokyo").
+ */
+export function scheduleAtJST(
+  sentAt: Date,
+  opts: Omit<ScheduleOpts, "timeZone"> = {},
+): Timestamp {
+  return scheduleAtLocal(sentAt, { ...opts, timeZone: DEFAULT_TIME_ZONE });
+}
 
-  // Build the target JST wall-clock time, then convert back to UTC
-  const ty = targetJSTCalendarAt00Z.getUTCFullYear();
-  const tm = targetJSTCalendarAt00Z.getUTCMonth();
-  const td = targetJSTCalendarAt00Z.getUTCDate();
+/**
+ * Schedule N hours after an event, optionally snapping out of a local window.
+ * - If the resulting local hour is within [fromHour, toHour] (inclusive),
+ *   the time is moved to toHour:00 local time on the same day.
+ * - With a snap window, a result on a non-business day (weekend / holiday)
+ *   is moved to toHour:00 local time on the next business day.
+ * - With working hours, the result is then moved into the working window.
+ *
+ * @param sentAt      Original event time (Date in UTC)
+ * @param hours       Hours to add
+ * @param snapWindow  Optional local hour window to snap out of
+ * @param opts        calendar (default: built-in JP), timeZone (default:
+ *                    Asia/Tokyo), workingHours (optional)
+ * @returns           Firestore Timestamp at the computed UTC instant
+ */
+export function scheduleAfterHours(
+  sentAt: Date,
+  hours: number,
+  snapWindow?: { fromHour: number; toHour: number },
+  opts: Pick<ScheduleOpts, "calendar" | "timeZone" | "workingHours"> = {},
+): Timestamp {
+  const timeZone = opts.timeZone ?? DEFAULT_TIME_ZONE;
+  const calendar = opts.calendar ?? JP_CALENDAR;
+  let ms = sentAt.getTime() + hours * 3600_000;
 
-  // This is "hour:minute JST" for that JST date → convert to UTC by subtracting the offset
-  const targetUtcMillis =
-    Date.UTC(ty, tm, td, hour, minute, 0, 0) - JST_OFFSET_MS;
+  if (snapWindow) {
+    const day = localDayAt00Z(ms, timeZone);
+    const { h } = zonedParts(ms, timeZone);
+
+    if (!calendar.isBusinessDay(toUtcDayKey(day.getTime()))) {
+      // Non-business day → toHour:00 on the next business day
+      ms = atLocalTime(
+        addDays(day, 1, calendar),
+        snapWindow.toHour,
+        0,
+        timeZone,
+      );
+    } else if (h >= snapWindow.fromHour && h <= snapWindow.toHour) {
+      // Inside the window → toHour:00 on the same local date
+      ms = atLocalTime(day, snapWindow.toHour, 0, timeZone);
+    }
+  }
+
+  if (opts.workingHours) {
+    ms = clampToWorkingHours(ms, opts.workingHours, calendar, timeZone);
+  }
+  return Timestamp.fromMillis(ms);
+}
 
-  return Timestamp.fromMillis(targetUtcMillis);
+/**
+ * Schedule N hours after an event in JST (scheduleAfterHours in Asia/Tokyo).
+ */
+export function scheduleAfterHoursJST(
+  sentAt: Date,
+  hours: number,
+  snapWindow?: { fromHour: number; toHour: number },
+  calendar: BusinessCalendar = JP_CALENDAR,
+): Timestamp {
+  return scheduleAfterHours(sentAt, hours, snapWindow, {
+    calendar,
+    timeZone: DEFAULT_TIME_ZONE,
+  });
 }
 
 // -----------------------------------------------------------------------------
@@ -93,11 +302,73 @@ export function toUtcDayKey(msUtc: number): string {
   return `${y}-${m}-${day}`;
 }
 
+// -----------------------------------------------------------------------------
+// True for a date key ("YYYY-MM-DD") that is also a real calendar date.
+// -----------------------------------------------------------------------------
+export function isDateKey(v: unknown): v is string {
+  return (
+    typeof v === "string" &&
+    /^\d{4}-\d{2}-\d{2}$/.test(v) &&
+    new Date(`${v}T00:00:00Z`).toISOString().slice(0, 10) === v
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Returns the local date key ("YYYY-MM-DD") of an instant in a time zone.
+// -----------------------------------------------------------------------------
+export function toLocalDayKey(
+  ms: number,
+  timeZone: string = DEFAULT_TIME_ZONE,
+): string {
+  return toUtcDayKey(localDayAt00Z(ms, timeZone).getTime());
+}
+
+// -----------------------------------------------------------------------------
+// Calendar days between two instants, counted on local dates of a time zone
+// (e.g. Mon 18:00 → Thu 09:00 = 3).
+// -----------------------------------------------------------------------------
+export function localDaysBetween(
+  fromMs: number,
+  toMs: number,
+  timeZone: string = DEFAULT_TIME_ZONE,
+): number {
+  const from = localDayAt00Z(fromMs, timeZone).getTime();
+  const to = localDayAt00Z(toMs, timeZone).getTime();
+  return Math.round((to - from) / ONE_DAY_MS);
+}
+
+// -----------------------------------------------------------------------------
+// Business days between two instants, counted on local dates of a time zone:
+// the business days after `from`'s date up to and including `to`'s date
+// (e.g. Fri 18:00 → Tue 09:00 = 2 with a Sat/Sun weekend).
+// -----------------------------------------------------------------------------
+export function businessDaysBetween(
+  fromMs: number,
+  toMs: number,
+  calendar: BusinessCalendar = JP_CALENDAR,
+  timeZone: string = DEFAULT_TIME_ZONE,
+): number {
+  const to = localDayAt00Z(toMs, timeZone).getTime();
+  let count = 0;
+  for (
+    let cur = localDayAt00Z(fromMs, timeZone).getTime() + ONE_DAY_MS;
+    cur <= to;
+    cur += ONE_DAY_MS
+  ) {
+    if (calendar.isBusinessDay(toUtcDayKey(cur))) count++;
+  }
+  return count;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
-// Format a date as "YYYY/MM/DD HH:mm:ss JST" in Asia/Tokyo
+// Format a date as "YYYY/MM/DD HH:mm:ss <zone>" in a time zone
+// - Zone label: "JST" for Asia/Tokyo, else the short name (e.g. "GMT+5:30")
 // Accepts Date | number(ms) | Firestore Timestamp
 // ─────────────────────────────────────────────────────────────────────────────
-export function formatJST(input: Date | number | Timestamp): string {
+export function formatInTimeZone(
+  input: Date | number | Timestamp,
+  timeZone: string,
+): string {
   const date =
     input instanceof Timestamp
       ? input.toDate()
@@ -106,7 +377,7 @@ export function formatJST(input: Date | number | Timestamp): string {
         : input;
 
   const s = new Intl.DateTimeFormat("ja-JP", {
-    timeZone: "Asia/Tokyo",
+    timeZone,
     year: "numeric",
     month: "2-digit",
     day: "2-digit",
@@ -116,5 +387,17 @@ export function formatJST(input: Date | number | Timestamp): string {
     hour12: false,
   }).format(date);
 
-  return `${s} JST`; // Example: "2025/10/11 10:18:15 JST"
+  const label =
+    timeZone === DEFAULT_TIME_ZONE
+      ? "JST"
+      : (new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" })
+          .formatToParts(date)
+          .find((p) => p.type === "timeZoneName")?.value ?? timeZone);
+
+  return `${s} ${label}`; // Example: "2025/10/11 10:18:15 JST"
+}
+
+// Format a date as "YYYY/MM/DD HH:mm:ss JST" in Asia/Tokyo
+export function formatJST(input: Date | number | Timestamp): string {
+  return formatInTimeZone(input, DEFAULT_TIME_ZONE);
 }
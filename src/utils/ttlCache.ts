@@ -0,0 +1,89 @@
+// -----------------------------------------------------------------------------
+// In-memory TTL cache for Firestore-backed config (rules, calendars,
+// templates, pipelines, routes, internal members).
+// - Values are reloaded after the TTL (default 60s); load errors are non-fatal:
+//   the last loaded value (or the loader's fallback) is returned
+// - The cache is per process: an admin write clears it only on the Cloud Run
+//   instance that handled the write. Other instances may serve stale data for
+//   up to the TTL.
+// -----------------------------------------------------------------------------
+
+/** Default cache lifetime (ms). */
+export const CONFIG_CACHE_TTL_MS = 60_000;
+
+export type KeyedCachedLoader<K, V> = {
+  /** Cached value for the key (reloaded after the TTL). */
+  get(key: K): Promise<V>;
+  /** Last loaded value regardless of age (undefined before the first load). */
+  peek(key: K): V | undefined;
+  /** Expire all entries; old values stay in use until the next successful load. */
+  clear(): void;
+};
+
+export type CachedLoader<V> = {
+  get(): Promise<V>;
+  peek(): V | undefined;
+  clear(): void;
+};
+
+/**
+ * Cache per key around a loader.
+ *
+ * @param opts.tag       Log prefix (e.g. "calendar")
+ * @param opts.load      Reads the value from Firestore (may throw)
+ * @param opts.fallback  Value when the load fails and nothing is cached yet
+ */
+export function createKeyedCachedLoader<K, V>(opts: {
+  tag: string;
+  load: (key: K) => Promise<V>;
+  fallback: (key: K) => V;
+  ttlMs?: number;
+}): KeyedCachedLoader<K, V> {
+  const ttlMs = opts.ttlMs ?? CONFIG_CACHE_TTL_MS;
+  const entries = new Map<K, { value: V; loadedAt: number }>();
+
+  return {
+    async get(key) {
+      const hit = entries.get(key);
+      if (hit && Date.now() - hit.loadedAt < ttlMs) return hit.value;
+      try {
+        const value = await opts.load(key);
+        entries.set(key, { value, loadedAt: Date.now() });
+        return value;
+      } catch (err) {
+        const label = key === "" || key == null ? "" : ` for "${key}"`;
+        console.warn(
+          `[${opts.tag}] load failed${label}; using cached/built-in:`,
+          err,
+        );
+        return hit?.value ?? opts.fallback(key);
+      }
+    },
+    peek(key) {
+      return entries.get(key)?.value;
+    },
+    clear() {
+      for (const entry of entries.values()) entry.loadedAt = 0;
+    },
+  };
+}
+
+/** Cache around a loader of a single value. */
+export function createCachedLoader<V>(opts: {
+  tag: string;
+  load: () => Promise<V>;
+  fallback: () => V;
+  ttlMs?: number;
+}): CachedLoader<V> {
+  const keyed = createKeyedCachedLoader<"", V>({
+    tag: opts.tag,
+    load: () => opts.load(),
+    fallback: () => opts.fallback(),
+    ...(opts.ttlMs !== undefined ? { ttlMs: opts.ttlMs } : {}),
+  });
+  return {
+    get: () => keyed.get(""),
+    peek: () => keyed.peek(""),
+    clear: () => keyed.clear(),
+  };
+}
@@ -1,14 +1,15 @@
 // -----------------------------------------------------------------------------
 // Telegram update_id deduplication (in-memory LRU cache).
 // Prevents reprocessing of the same update multiple times.
+// update_ids are per bot, so entries are keyed by "<botKey>:<update_id>".
 // -----------------------------------------------------------------------------
 
 // Max number of update_ids to keep in memory
 export const MAX_CACHE = 1000;
 
 // Internal cache state
-const seenUpdateIds = new Set<number>();
-const updateQueue: number[] = [];
+const seenUpdateIds = new Set<string>();
+const updateQueue: string[] = [];
 
 /**
  * Checks if an update_id has already been seen.
@@ -16,15 +17,18 @@ const updateQueue: number[] = [];
  * - If duplicate → returns true
  *
  * @param updateId - Telegram update_id
+ * @param botKey - Bot that received the update
  * @returns boolean - true if already processed, false if new
  */
-export function isDuplicateUpdateId(updateId: number): boolean {
+export function isDuplicateUpdateId(updateId: number, botKey: string): boolean {
+  const key = `${botKey}:${updateId}`;
+
   // Duplicate check
-  if (seenUpdateIds.has(updateId)) return true;
+  if (seenUpdateIds.has(key)) return true;
 
   // Add new update_id to cache
-  seenUpdateIds.add(updateId);
-  updateQueue.push(updateId);
+  seenUpdateIds.add(key);
+  updateQueue.push(key);
 
   // Trim cache size (FIFO eviction)
   if (updateQueue.length > MAX_CACHE) {